@@ -0,0 +1,39 @@
+/**
+ * Content lint script
+ *
+ * Checks the JSON content files in the public folder with the validators
+ * the app uses at runtime, prints a report of every problem and exits with
+ * status 1 if there were any.
+ *
+ * Usage: npm run lint:content [-- <content folder>]
+ */
+
+import { readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { ContentLintResult } from '../src/types';
+import { CONTENT_FILES, ContentFile, ContentFiles, formatContentLintReport, lintContent } from '../src/services/ContentLint';
+
+const contentDir = resolve(process.argv[2] ?? 'public');
+
+const files: ContentFiles = {};
+const unreadable: ContentLintResult[] = [];
+
+CONTENT_FILES.forEach(file => {
+  try {
+    files[file] = JSON.parse(readFileSync(join(contentDir, file), 'utf8'));
+  } catch (error) {
+    const message = error instanceof SyntaxError ? `contains malformed JSON (${error.message})` : 'could not be read';
+    unreadable.push({ file, issues: [{ path: '', message }] });
+  }
+});
+
+const results = [...unreadable, ...lintContent(files)].sort(
+  (a, b) => CONTENT_FILES.indexOf(a.file as ContentFile) - CONTENT_FILES.indexOf(b.file as ContentFile)
+);
+
+console.log(`Checking content in ${contentDir}\n`);
+console.log(formatContentLintReport(results));
+
+if (results.some(result => result.issues.length > 0)) {
+  process.exitCode = 1;
+}
@@ -13,15 +13,23 @@ import App from './App';
 import { localStorageService } from './services/LocalStorageService';
 import { glossaryDataService } from './services/GlossaryDataService';
 import { quizDataService } from './services/QuizDataService';
+import { introductionDataService } from './services/IntroductionDataService';
+import { learningPathService } from './services/LearningPathService';
+import { aiToolsDataService } from './services/AIToolsDataService';
+import { StorageError } from './services/AppErrors';
 
 // Mock services
 jest.mock('./services/LocalStorageService');
 jest.mock('./services/GlossaryDataService');
 jest.mock('./services/QuizDataService');
+jest.mock('./services/LearningPathService');
+jest.mock('./services/IntroductionDataService');
 
 const mockLocalStorageService = localStorageService as jest.Mocked<typeof localStorageService>;
 const mockGlossaryDataService = glossaryDataService as jest.Mocked<typeof glossaryDataService>;
 const mockQuizDataService = quizDataService as jest.Mocked<typeof quizDataService>;
+const mockIntroductionDataService = introductionDataService as jest.Mocked<typeof introductionDataService>;
+const mockLearningPathService = learningPathService as jest.Mocked<typeof learningPathService>;
 
 // Mock data
 const mockGlossaryTerms = [
@@ -58,7 +66,7 @@ const mockQuizQuestions = [
     question: 'What is AI?',
     options: ['Option A', 'Option B', 'Option C', 'Option D'],
     correctAnswer: 'Option A',
-    glossaryLink: '#ai'
+    termId: 'ai'
   },
   {
     id: 'q2',
@@ -66,7 +74,7 @@ const mockQuizQuestions = [
     question: 'What is ML?',
     options: ['Option A', 'Option B', 'Option C', 'Option D'],
     correctAnswer: 'Option B',
-    glossaryLink: '#ml'
+    termId: 'ml'
   }
 ];
 
@@ -87,13 +95,21 @@ describe('App Component Integration Tests', () => {
   beforeEach(() => {
     // Reset all mocks
     jest.clearAllMocks();
+
+    // Start every test from the home route
+    window.history.replaceState(null, '', '/');
     
     // Setup default mock implementations
     mockLocalStorageService.getProgress.mockReturnValue(mockUserProgress);
     mockLocalStorageService.getPreferences.mockReturnValue({ selectedRole: 'business' });
     mockLocalStorageService.isLocalStorageAvailable.mockReturnValue(true);
+    mockLocalStorageService.getAnswerHistory.mockReturnValue([]);
     
     mockGlossaryDataService.loadGlossary.mockResolvedValue(mockGlossaryTerms);
+    mockGlossaryDataService.getAllTerms.mockReturnValue([]);
+    mockGlossaryDataService.findTermMentions.mockReturnValue([]);
+    mockGlossaryDataService.getRelatedTerms.mockReturnValue([]);
+    mockGlossaryDataService.getPrerequisites.mockReturnValue([]);
     mockGlossaryDataService.searchTerms.mockImplementation((query) => 
       mockGlossaryTerms.filter(term => 
         term.term.toLowerCase().includes(query.toLowerCase()) ||
@@ -102,7 +118,15 @@ describe('App Component Integration Tests', () => {
     );
     
     mockQuizDataService.loadQuestions.mockResolvedValue(mockQuizQuestions);
-    mockQuizDataService.selectRandomQuestions.mockReturnValue(mockQuizQuestions.slice(0, 3));
+    mockQuizDataService.selectScheduledQuestions.mockReturnValue(mockQuizQuestions.slice(0, 3));
+    mockQuizDataService.getWeakestTerms.mockReturnValue([]);
+
+    mockLearningPathService.loadPaths.mockResolvedValue([]);
+
+    mockIntroductionDataService.loadIntroduction.mockResolvedValue({
+      sections: [{ id: 'overview', title: 'Understanding AI', content: 'Why AI matters.' }],
+      navigation: {}
+    });
   });
 
   describe('Application Initialization', () => {
@@ -148,6 +172,20 @@ describe('App Component Integration Tests', () => {
         expect(screen.getByText(/Progress tracking unavailable/)).toBeInTheDocument();
       });
     });
+
+    it('should explain when saved progress could not be migrated', async () => {
+      mockLocalStorageService.isLocalStorageAvailable.mockReturnValue(false);
+      mockLocalStorageService.getMigrationError.mockReturnValue(
+        new StorageError('migrate', 'Your saved progress could not be updated for this version of the portal.')
+      );
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Your saved progress could not be updated/)).toBeInTheDocument();
+      });
+      expect(screen.queryByText(/Progress tracking unavailable/)).not.toBeInTheDocument();
+    });
   });
 
   describe('Navigation and Routing', () => {
@@ -185,6 +223,21 @@ describe('App Component Integration Tests', () => {
       expect(screen.getByRole('button', { name: 'Learn' })).toHaveAttribute('aria-current', 'page');
     });
 
+    it('should open learning paths from the Learn sub-navigation', async () => {
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('AI Learning Portal')).toHaveLength(2);
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Learn' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Learning Paths' }));
+
+      expect(screen.getByRole('button', { name: 'Learning Paths' })).toHaveAttribute('aria-current', 'page');
+      expect(screen.getByRole('button', { name: 'Learn' })).toHaveAttribute('aria-current', 'page');
+      expect(await screen.findByRole('heading', { name: 'Learning Paths' })).toBeInTheDocument();
+    });
+
     it('should navigate to introduction view correctly', async () => {
       render(<App />);
       
@@ -289,6 +342,123 @@ describe('App Component Integration Tests', () => {
     });
   });
 
+  describe('Deep Linking', () => {
+    const renderAt = async (hash: string) => {
+      window.history.replaceState(null, '', hash);
+      render(<App />);
+      await waitFor(() => {
+        expect(screen.getByRole('navigation', { name: 'Main navigation' })).toBeInTheDocument();
+      });
+    };
+
+    it('should update the URL hash when navigating', async () => {
+      await renderAt('/');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Learn' }));
+      expect(window.location.hash).toBe('#/glossary');
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Quiz' }));
+      expect(window.location.hash).toBe('#/quiz');
+    });
+
+    it('should resume the introduction where the user left off', async () => {
+      mockIntroductionDataService.getReadingSummary.mockReturnValue({
+        readCount: 0,
+        totalSections: 1,
+        percentage: 0,
+        isStarted: true,
+        checksCorrect: 0,
+        totalChecks: 0,
+        resumeSection: { id: 'overview', title: 'Understanding AI', content: 'Why AI matters.' }
+      });
+      await renderAt('/');
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Resume where you left off: Understanding AI' }));
+
+      expect(window.location.hash).toBe('#/introduction/overview');
+    });
+
+    it('should open the view named in the URL', async () => {
+      await renderAt('#/progress');
+
+      expect(screen.getByRole('button', { name: 'Progress' })).toHaveAttribute('aria-current', 'page');
+    });
+
+    it('should expand a glossary term from a term link', async () => {
+      await renderAt('#/glossary/term/ml');
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Machine Learning/ })).toHaveAttribute('aria-expanded', 'true');
+      });
+      expect(screen.getByRole('button', { name: /Artificial Intelligence/ })).toHaveAttribute('aria-expanded', 'false');
+    });
+
+    it('should apply glossary role and search parameters', async () => {
+      await renderAt('#/glossary?role=engineer&q=machine');
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Search terms and definitions')).toHaveValue('machine');
+      });
+      expect(screen.getByRole('button', { name: 'Engineer' })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should record glossary searches in the URL', async () => {
+      await renderAt('#/glossary');
+
+      const searchInput = await screen.findByLabelText('Search terms and definitions');
+      fireEvent.change(searchInput, { target: { value: 'learning' } });
+
+      expect(window.location.hash).toBe('#/glossary?q=learning');
+    });
+
+    it('should resolve glossary anchors used by quiz questions', async () => {
+      await renderAt('#ml');
+
+      expect(window.location.hash).toBe('#/glossary/term/ml');
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Machine Learning/ })).toHaveAttribute('aria-expanded', 'true');
+      });
+    });
+
+    it('should follow back and forward navigation', async () => {
+      await renderAt('/');
+
+      await act(async () => {
+        window.history.replaceState(null, '', '#/progress');
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+      });
+      expect(screen.getByRole('button', { name: 'Progress' })).toHaveAttribute('aria-current', 'page');
+
+      await act(async () => {
+        window.history.replaceState(null, '', '#/');
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+      });
+      expect(screen.getByRole('button', { name: 'Home' })).toHaveAttribute('aria-current', 'page');
+    });
+  });
+
+  describe('Global Search', () => {
+    it('should open the matching view from a search result', async () => {
+      jest.spyOn(aiToolsDataService, 'loadTools').mockResolvedValueOnce([]);
+      render(<App />);
+
+      const searchInput = await screen.findByLabelText('Search the portal');
+      fireEvent.focus(searchInput);
+      fireEvent.change(searchInput, { target: { value: 'machine' } });
+
+      const resultLink = await screen.findByRole('link', { name: /Machine Learning/ });
+      expect(resultLink).toHaveAttribute('href', '#/glossary/term/ml');
+
+      fireEvent.click(resultLink);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Machine Learning/ })).toHaveAttribute('aria-expanded', 'true');
+      });
+      expect(window.location.hash).toBe('#/glossary/term/ml');
+      expect(searchInput).toHaveValue('');
+    });
+  });
+
   describe('State Management', () => {
     it('should manage role selection across components', async () => {
       render(<App />);
@@ -768,6 +938,9 @@ describe('App Component Integration Tests', () => {
       ];
 
       for (const size of screenSizes) {
+        // Each size starts from a fresh visit to the home route
+        window.history.replaceState(null, '', '/');
+
         Object.defineProperty(window, 'innerWidth', {
           writable: true,
           configurable: true,
@@ -2,7 +2,7 @@
  * Main App Component
  * 
  * Root application component that orchestrates all major components,
- * implements simple routing between glossary and quiz views,
+ * keeps the current view in sync with the URL hash via routerService,
  * and manages application-wide state.
  */
 
@@ -12,34 +12,63 @@ import { HomePage } from './components/HomePage';
 import { GlossaryContainer } from './components/GlossaryContainer';
 import { QuizContainer } from './components/QuizContainer';
 import { ProgressTracker } from './components/ProgressTracker';
+import { LearningPathsContainer } from './components/LearningPathsContainer';
 import { AIToolsContainer } from './components/AIToolsContainer';
 import { AIIntroductionContainer } from './components/AIIntroductionContainer';
+import { GlobalSearch } from './components/GlobalSearch';
+import { UpdateBanner } from './components/UpdateBanner';
+import { ContentValidationPanel } from './components/ContentValidationPanel';
 import { localStorageService } from './services/LocalStorageService';
-import { UserProgress, QuizResults, UserRole } from './types';
+import { glossaryDataService } from './services/GlossaryDataService';
+import { quizDataService } from './services/QuizDataService';
+import { aiToolsDataService } from './services/AIToolsDataService';
+import { learningPathService } from './services/LearningPathService';
+import { introductionDataService } from './services/IntroductionDataService';
+import { searchService } from './services/SearchService';
+import { routerService } from './services/RouterService';
+import {
+  UserProgress,
+  QuizResults,
+  UserRole,
+  AppRoute,
+  AppView,
+  IntroductionProgress,
+  IntroductionReadingSummary
+} from './types';
 import './App.css';
 
-type AppView = 'home' | 'learn' | 'ai-tools' | 'glossary' | 'quiz' | 'progress' | 'introduction';
+/**
+ * Views grouped under the Learn navigation item
+ */
+const LEARN_VIEWS: AppView[] = ['glossary', 'quiz', 'paths', 'progress'];
 
 interface AppState {
-  currentView: AppView;
+  route: AppRoute;
   userProgress: UserProgress;
+  introductionProgress: IntroductionReadingSummary | undefined;
   selectedRole: UserRole | undefined;
+  /** Bumped when data files are refreshed so views load them again */
+  dataVersion: number;
   isLoading: boolean;
   error: string | null;
 }
 
 function App() {
-  const [appState, setAppState] = useState<AppState>({
-    currentView: 'home',
+  const [appState, setAppState] = useState<AppState>(() => ({
+    route: routerService.getCurrentRoute(),
     userProgress: {
       quizAttempts: [],
       answeredTerms: new Set(),
       bestScore: 0
     },
+    introductionProgress: undefined,
     selectedRole: undefined,
+    dataVersion: 0,
     isLoading: true,
     error: null
-  });
+  }));
+
+  const currentView = appState.route.view;
 
   /**
    * Initialize application state on mount
@@ -67,15 +96,97 @@ function App() {
   }, []);
 
   /**
-   * Handle view navigation
+   * Summarize reading progress through the introduction's current sections
    */
-  const handleViewChange = useCallback((view: AppView) => {
+  const updateIntroductionProgress = useCallback((progress: IntroductionProgress) => {
+    try {
+      const introductionProgress = introductionDataService.getReadingSummary(progress);
+
+      setAppState(prev => ({
+        ...prev,
+        introductionProgress
+      }));
+    } catch (error) {
+      // Error summarizing introduction progress - continue silently
+    }
+  }, []);
+
+  /**
+   * Load the introduction so its reading progress can be shown outside it
+   */
+  useEffect(() => {
+    const loadIntroductionProgress = async () => {
+      try {
+        await introductionDataService.loadIntroduction();
+        updateIntroductionProgress(localStorageService.getIntroductionProgress());
+      } catch (error) {
+        // The introduction view reports load errors itself
+      }
+    };
+
+    loadIntroductionProgress();
+  }, [updateIntroductionProgress]);
+
+  /**
+   * Follow the URL hash: links, back/forward and manual edits all land here
+   */
+  useEffect(() => {
+    const applyRoute = (route: AppRoute) => {
+      // Rewrite bare anchors such as #artificial-intelligence to their canonical form
+      if (!routerService.isCurrentHashCanonical()) {
+        routerService.replace(route);
+      }
+
+      setAppState(prev => ({
+        ...prev,
+        route
+      }));
+    };
+
+    applyRoute(routerService.getCurrentRoute());
+    return routerService.subscribe(applyRoute);
+  }, []);
+
+  /**
+   * Open a route, adding a browser history entry
+   */
+  const navigateTo = useCallback((route: AppRoute) => {
+    routerService.navigate(route);
     setAppState(prev => ({
       ...prev,
-      currentView: view
+      route
     }));
   }, []);
 
+  /**
+   * Record a change within the current view without adding a history entry
+   */
+  const replaceRoute = useCallback((update: (route: AppRoute) => AppRoute) => {
+    setAppState(prev => {
+      const route = update(prev.route);
+      routerService.replace(route);
+      return {
+        ...prev,
+        route
+      };
+    });
+  }, []);
+
+  /**
+   * Handle view navigation
+   */
+  const handleViewChange = useCallback((view: AppView) => {
+    // Regular navigation always returns the quiz to its standard mode
+    navigateTo({ view });
+  }, [navigateTo]);
+
+  /**
+   * Start a quiz limited to the user's most-missed terms
+   */
+  const handleStartWeakestReview = useCallback(() => {
+    navigateTo({ view: 'quiz', quizMode: 'weakest' });
+  }, [navigateTo]);
+
   /**
    * Handle HomePage navigation
    */
@@ -89,6 +200,13 @@ function App() {
     }
   }, [handleViewChange]);
 
+  /**
+   * Open the introduction at the section to resume reading
+   */
+  const handleResumeIntroduction = useCallback((sectionId: string) => {
+    navigateTo({ view: 'introduction', sectionId });
+  }, [navigateTo]);
+
   /**
    * Handle role selection changes
    */
@@ -98,13 +216,62 @@ function App() {
       selectedRole: role
     }));
 
+    // Keep the glossary URL in step with the role filter
+    replaceRoute(route => {
+      if (route.view !== 'glossary') {
+        return route;
+      }
+      const { role: _previousRole, ...rest } = route;
+      return { ...rest, ...(role && { role }) };
+    });
+
     // Save role preference
     try {
       localStorageService.updatePreferences({ selectedRole: role });
     } catch (error) {
       // Error saving role preference - continue silently
     }
-  }, []);
+  }, [replaceRoute]);
+
+  /**
+   * Record the glossary search text in the URL
+   */
+  const handleGlossarySearchChange = useCallback((query: string) => {
+    replaceRoute(route => {
+      const { query: _previousQuery, termId: _previousTermId, ...rest } = route;
+      return { ...rest, ...(query.trim() && { query }) };
+    });
+  }, [replaceRoute]);
+
+  /**
+   * Record the expanded glossary term in the URL
+   */
+  const handleGlossaryTermSelect = useCallback((termId: string | undefined) => {
+    replaceRoute(route => {
+      const { termId: _previousTermId, ...rest } = route;
+      return { ...rest, ...(termId && { termId }) };
+    });
+  }, [replaceRoute]);
+
+  /**
+   * Record the highlighted AI tool in the URL
+   */
+  const handleToolSelect = useCallback((toolId: string | undefined) => {
+    replaceRoute(route => {
+      const { toolId: _previousToolId, ...rest } = route;
+      return { ...rest, ...(toolId && { toolId }) };
+    });
+  }, [replaceRoute]);
+
+  /**
+   * Record the AI tools being compared, so the comparison can be shared
+   */
+  const handleCompareChange = useCallback((toolIds: string[]) => {
+    replaceRoute(route => {
+      const { compareToolIds: _previousToolIds, ...rest } = route;
+      return { ...rest, ...(toolIds.length > 0 && { compareToolIds: toolIds }) };
+    });
+  }, [replaceRoute]);
 
   /**
    * Handle quiz completion
@@ -132,7 +299,36 @@ function App() {
       ...prev,
       userProgress: progress
     }));
-  }, []);
+
+    // A reset clears introduction progress too
+    try {
+      updateIntroductionProgress(localStorageService.getIntroductionProgress());
+    } catch (error) {
+      // Error reading introduction progress - continue silently
+    }
+  }, [updateIntroductionProgress]);
+
+  /**
+   * Show refreshed data files without reloading the page: each loaded file
+   * is revalidated, then the search index and the current view are rebuilt
+   */
+  const handleDataRefresh = useCallback(async () => {
+    // Questions take their term names from the glossary, so it goes first
+    await glossaryDataService.refreshGlossary();
+    await Promise.all([
+      quizDataService.refreshQuestions(),
+      aiToolsDataService.refreshTools(),
+      learningPathService.refreshPaths(),
+      introductionDataService.refreshIntroduction()
+    ]);
+
+    searchService.clearIndex();
+    updateIntroductionProgress(localStorageService.getIntroductionProgress());
+    setAppState(prev => ({
+      ...prev,
+      dataVersion: prev.dataVersion + 1
+    }));
+  }, [updateIntroductionProgress]);
 
   /**
    * Handle application errors
@@ -149,36 +345,36 @@ function App() {
       <div className="app__nav-container">
         <button
           type="button"
-          className={`app__nav-button ${appState.currentView === 'home' ? 'active' : ''}`}
+          className={`app__nav-button ${currentView === 'home' ? 'active' : ''}`}
           onClick={() => handleViewChange('home')}
-          aria-current={appState.currentView === 'home' ? 'page' : undefined}
+          aria-current={currentView === 'home' ? 'page' : undefined}
         >
           Home
         </button>
 
         <button
           type="button"
-          className={`app__nav-button ${appState.currentView === 'introduction' ? 'active' : ''}`}
+          className={`app__nav-button ${currentView === 'introduction' ? 'active' : ''}`}
           onClick={() => handleViewChange('introduction')}
-          aria-current={appState.currentView === 'introduction' ? 'page' : undefined}
+          aria-current={currentView === 'introduction' ? 'page' : undefined}
         >
           Introduction
         </button>
 
         <button
           type="button"
-          className={`app__nav-button ${['glossary', 'quiz', 'progress'].includes(appState.currentView) ? 'active' : ''}`}
+          className={`app__nav-button ${LEARN_VIEWS.includes(currentView) ? 'active' : ''}`}
           onClick={() => handleViewChange('glossary')}
-          aria-current={['glossary', 'quiz', 'progress'].includes(appState.currentView) ? 'page' : undefined}
+          aria-current={LEARN_VIEWS.includes(currentView) ? 'page' : undefined}
         >
           Learn
         </button>
 
         <button
           type="button"
-          className={`app__nav-button ${appState.currentView === 'ai-tools' ? 'active' : ''}`}
+          className={`app__nav-button ${currentView === 'ai-tools' ? 'active' : ''}`}
           onClick={() => handleViewChange('ai-tools')}
-          aria-current={appState.currentView === 'ai-tools' ? 'page' : undefined}
+          aria-current={currentView === 'ai-tools' ? 'page' : undefined}
         >
           AI Tools
         </button>
@@ -190,12 +386,17 @@ function App() {
    * Render current view content
    */
   const renderCurrentView = () => {
-    switch (appState.currentView) {
+    const { route } = appState;
+    const glossaryRole = route.role ?? appState.selectedRole;
+
+    switch (currentView) {
       case 'home':
         return (
           <HomePage
             userProgress={appState.userProgress}
             onNavigate={handleHomePageNavigation}
+            {...(appState.introductionProgress && { introductionProgress: appState.introductionProgress })}
+            onResumeIntroduction={handleResumeIntroduction}
             className="app__view-content"
           />
         );
@@ -203,8 +404,12 @@ function App() {
       case 'glossary':
         return (
           <GlossaryContainer
-            {...(appState.selectedRole && { initialRole: appState.selectedRole })}
+            {...(glossaryRole && { initialRole: glossaryRole })}
+            {...(route.query && { initialQuery: route.query })}
+            {...(route.termId && { selectedTermId: route.termId })}
             onRoleChange={handleRoleChange}
+            onSearchChange={handleGlossarySearchChange}
+            onTermSelect={handleGlossaryTermSelect}
             className="app__view-content"
           />
         );
@@ -214,6 +419,17 @@ function App() {
           <QuizContainer
             onQuizComplete={handleQuizComplete}
             questionsPerQuiz={3}
+            mode={route.quizMode ?? 'standard'}
+            {...(appState.selectedRole && { role: appState.selectedRole })}
+            {...(route.pathId && { pathId: route.pathId })}
+          />
+        );
+
+      case 'paths':
+        return (
+          <LearningPathsContainer
+            {...(route.pathId && { selectedPathId: route.pathId })}
+            className="app__view-content"
           />
         );
 
@@ -222,6 +438,9 @@ function App() {
           <ProgressTracker
             progress={appState.userProgress}
             onProgressUpdate={handleProgressUpdate}
+            onStartWeakestReview={handleStartWeakestReview}
+            {...(appState.introductionProgress && { introductionProgress: appState.introductionProgress })}
+            onResumeIntroduction={handleResumeIntroduction}
             className="app__view-content"
           />
         );
@@ -229,6 +448,10 @@ function App() {
       case 'ai-tools':
         return (
           <AIToolsContainer
+            {...(route.toolId && { selectedToolId: route.toolId })}
+            onToolSelect={handleToolSelect}
+            {...(route.compareToolIds && { compareToolIds: route.compareToolIds })}
+            onCompareChange={handleCompareChange}
             className="app__view-content"
           />
         );
@@ -236,8 +459,10 @@ function App() {
       case 'introduction':
         return (
           <AIIntroductionContainer
+            {...(route.sectionId && { selectedSectionId: route.sectionId })}
             className="app__view-content"
             onNavigate={(destination) => handleViewChange(destination)}
+            onReadingProgressChange={updateIntroductionProgress}
           />
         );
 
@@ -289,15 +514,20 @@ function App() {
     );
   }
 
+  const migrationError = localStorageService.getMigrationError();
+
   return (
     <ErrorBoundary onError={handleError}>
       <div className="app">
+        <UpdateBanner onRefreshData={handleDataRefresh} />
+
         <header className="app__header">
           <div className="app__header-content">
             <h1 className="app__title">AI Learning Portal</h1>
             <p className="app__description">
               Explore AI concepts and discover tools used in your organization
             </p>
+            <GlobalSearch key={appState.dataVersion} />
           </div>
 
           {renderNavigation()}
@@ -305,32 +535,41 @@ function App() {
 
         <main className="app__main" role="main">
           {/* Sub-navigation for Learn section */}
-          {['glossary', 'quiz', 'progress'].includes(appState.currentView) && (
+          {LEARN_VIEWS.includes(currentView) && (
             <nav className="app__sub-navigation" role="navigation" aria-label="Learn section navigation">
               <div className="app__sub-nav-container">
                 <button
                   type="button"
-                  className={`app__sub-nav-button ${appState.currentView === 'glossary' ? 'active' : ''}`}
+                  className={`app__sub-nav-button ${currentView === 'glossary' ? 'active' : ''}`}
                   onClick={() => handleViewChange('glossary')}
-                  aria-current={appState.currentView === 'glossary' ? 'page' : undefined}
+                  aria-current={currentView === 'glossary' ? 'page' : undefined}
                 >
                   Glossary
                 </button>
 
                 <button
                   type="button"
-                  className={`app__sub-nav-button ${appState.currentView === 'quiz' ? 'active' : ''}`}
+                  className={`app__sub-nav-button ${currentView === 'quiz' ? 'active' : ''}`}
                   onClick={() => handleViewChange('quiz')}
-                  aria-current={appState.currentView === 'quiz' ? 'page' : undefined}
+                  aria-current={currentView === 'quiz' ? 'page' : undefined}
                 >
                   Quiz
                 </button>
 
                 <button
                   type="button"
-                  className={`app__sub-nav-button ${appState.currentView === 'progress' ? 'active' : ''}`}
+                  className={`app__sub-nav-button ${currentView === 'paths' ? 'active' : ''}`}
+                  onClick={() => handleViewChange('paths')}
+                  aria-current={currentView === 'paths' ? 'page' : undefined}
+                >
+                  Learning Paths
+                </button>
+
+                <button
+                  type="button"
+                  className={`app__sub-nav-button ${currentView === 'progress' ? 'active' : ''}`}
                   onClick={() => handleViewChange('progress')}
-                  aria-current={appState.currentView === 'progress' ? 'page' : undefined}
+                  aria-current={currentView === 'progress' ? 'page' : undefined}
                 >
                   Progress
                 </button>
@@ -338,9 +577,13 @@ function App() {
             </nav>
           )}
 
-          {renderCurrentView()}
+          <React.Fragment key={appState.dataVersion}>
+            {renderCurrentView()}
+          </React.Fragment>
         </main>
 
+        {process.env.NODE_ENV === 'development' && <ContentValidationPanel />}
+
         <footer className="app__footer">
           <div className="app__footer-content">
             <p className="app__footer-text">
@@ -350,7 +593,11 @@ function App() {
               {appState.userProgress.answeredTerms.size}/16 terms completed
             </p>
 
-            {!localStorageService.isLocalStorageAvailable() && (
+            {migrationError ? (
+              <p className="app__footer-warning" role="alert">
+                ⚠️ {migrationError.message}
+              </p>
+            ) : !localStorageService.isLocalStorageAvailable() && (
               <p className="app__footer-warning" role="alert">
                 ⚠️ Progress tracking unavailable - data will not persist between sessions
               </p>
@@ -5,31 +5,61 @@
  */
 
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import '@testing-library/jest-dom';
 import { AIIntroductionContainer } from './AIIntroductionContainer';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { introductionDataService } from '../services/IntroductionDataService';
+import { localStorageService } from '../services/LocalStorageService';
+import { NetworkError } from '../services/AppErrors';
+import { IntroductionContent, IntroductionProgress } from '../types';
+import introductionContent from '../../public/introduction.json';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
 
+// Mock the IntroductionDataService
+jest.mock('../services/IntroductionDataService');
+const mockIntroductionDataService = introductionDataService as jest.Mocked<typeof introductionDataService>;
+
+// Mock the LocalStorageService
+jest.mock('../services/LocalStorageService');
+const mockLocalStorageService = localStorageService as jest.Mocked<typeof localStorageService>;
+
+/**
+ * Render the container and wait for the introduction to load
+ */
+const renderIntroduction = async (ui: React.ReactElement) => {
+  const utils = render(ui);
+  await screen.findByRole('heading', { level: 1, name: /AI Introduction: Risks and Advantages/i });
+  return utils;
+};
+
 describe('AIIntroductionContainer', () => {
   const mockOnNavigate = jest.fn();
 
   beforeEach(() => {
     mockOnNavigate.mockClear();
+    // Render the published content so the tests cover the real sections
+    mockIntroductionDataService.loadIntroduction.mockResolvedValue(introductionContent as IntroductionContent);
+    mockLocalStorageService.getIntroductionProgress.mockReturnValue({ readSections: {}, checkResults: {} });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe('Rendering', () => {
-    it('should render the main title and description', () => {
-      render(<AIIntroductionContainer />);
+    it('should render the main title and description', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       expect(screen.getByRole('heading', { level: 1, name: /AI Introduction: Risks and Advantages/i })).toBeInTheDocument();
       expect(screen.getByText(/A balanced perspective on artificial intelligence/i)).toBeInTheDocument();
     });
 
-    it('should render table of contents with all sections', () => {
-      render(<AIIntroductionContainer />);
+    it('should render table of contents with all sections', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for table of contents - now uses aria-labelledby instead of aria-label
       expect(screen.getByRole('navigation', { name: /Contents/i })).toBeInTheDocument();
@@ -44,8 +74,8 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByRole('button', { name: /Go to section 6 of 6: Toward Cultural Wisdom for AI/i })).toBeInTheDocument();
     });
 
-    it('should render all content sections with proper headings', () => {
-      render(<AIIntroductionContainer />);
+    it('should render all content sections with proper headings', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for all section headings
       expect(screen.getByRole('heading', { level: 2, name: /Understanding AI: A Balanced Perspective/i })).toBeInTheDocument();
@@ -56,24 +86,334 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByRole('heading', { level: 2, name: /Toward Cultural Wisdom for AI/i })).toBeInTheDocument();
     });
 
-    it('should render navigation buttons to glossary, quiz, and home', () => {
-      render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+    it('should render navigation buttons to glossary, quiz, and home', async () => {
+      await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       expect(screen.getByRole('button', { name: /📚 Explore AI Glossary/i })).toBeInTheDocument();
       expect(screen.getByRole('button', { name: /🧠 Take the Quiz/i })).toBeInTheDocument();
       expect(screen.getByRole('button', { name: /🏠 Return to Home/i })).toBeInTheDocument();
     });
 
-    it('should apply custom className when provided', () => {
-      const { container } = render(<AIIntroductionContainer className="custom-class" />);
+    it('should apply custom className when provided', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer className="custom-class" />);
       
       expect(container.firstChild).toHaveClass('ai-introduction-container', 'custom-class');
     });
   });
 
+  describe('Loading', () => {
+    it('should show a loading state while the introduction loads', async () => {
+      render(<AIIntroductionContainer />);
+
+      expect(screen.getByRole('status', { name: 'Loading content' })).toBeInTheDocument();
+      expect(await screen.findByRole('heading', { level: 1 })).toBeInTheDocument();
+    });
+
+    it('should show an error with a retry when the introduction fails to load', async () => {
+      mockIntroductionDataService.loadIntroduction
+        .mockRejectedValueOnce(new NetworkError('server', 'Server error while loading introduction content.'))
+        .mockResolvedValueOnce(introductionContent as IntroductionContent);
+
+      render(<AIIntroductionContainer />);
+
+      expect(await screen.findByText('Unable to Load the AI Introduction')).toBeInTheDocument();
+      expect(screen.getByText('Server error while loading introduction content.')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /try again/i }));
+
+      expect(await screen.findByRole('heading', { level: 2, name: /Understanding AI/i })).toBeInTheDocument();
+      expect(mockIntroductionDataService.loadIntroduction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should render the sections it is given', async () => {
+      mockIntroductionDataService.loadIntroduction.mockResolvedValue({
+        sections: [{ id: 'only', title: 'The Only Section', content: 'Edited without a code change.' }],
+        navigation: {}
+      });
+
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      expect(screen.getByRole('heading', { level: 2, name: 'The Only Section' })).toBeInTheDocument();
+      expect(screen.getByText('Edited without a code change.')).toBeInTheDocument();
+      expect(screen.getByText(/1 sections •/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Reading Progress', () => {
+    let savedProgress: IntroductionProgress;
+    let observerCallback: IntersectionObserverCallback;
+
+    /**
+     * Render the container and wait for it to start watching the sections
+     */
+    const renderWatchedIntroduction = async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
+      await waitFor(() => expect(window.IntersectionObserver).toHaveBeenCalled());
+      jest.useFakeTimers();
+    };
+
+    /**
+     * Report a section as scrolled into view, or out of it
+     */
+    const setSectionInView = (title: string, isInView: boolean) => {
+      const entry = {
+        target: screen.getByRole('region', { name: title }),
+        isIntersecting: isInView,
+        intersectionRatio: isInView ? 0.75 : 0,
+        intersectionRect: { height: isInView ? 300 : 0 },
+        rootBounds: { height: 800 }
+      };
+      act(() => observerCallback([entry as unknown as IntersectionObserverEntry], {} as IntersectionObserver));
+    };
+
+    beforeEach(() => {
+      savedProgress = { readSections: {}, checkResults: {} };
+      mockLocalStorageService.getIntroductionProgress.mockImplementation(() => savedProgress);
+      mockLocalStorageService.markSectionRead.mockImplementation((sectionId, method) => {
+        savedProgress = {
+          ...savedProgress,
+          readSections: { ...savedProgress.readSections, [sectionId]: { sectionId, method, readAt: 1000 } }
+        };
+        return savedProgress;
+      });
+      mockLocalStorageService.markSectionUnread.mockImplementation(sectionId => {
+        const { [sectionId]: _unread, ...readSections } = savedProgress.readSections;
+        savedProgress = { ...savedProgress, readSections };
+        return savedProgress;
+      });
+      mockLocalStorageService.setLastIntroductionSection.mockImplementation(sectionId => {
+        savedProgress = { ...savedProgress, lastSectionId: sectionId };
+        return savedProgress;
+      });
+
+      window.IntersectionObserver = jest.fn(callback => {
+        observerCallback = callback;
+        return { observe: jest.fn(), unobserve: jest.fn(), disconnect: jest.fn() };
+      }) as unknown as typeof IntersectionObserver;
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      delete (window as Partial<typeof window>).IntersectionObserver;
+    });
+
+    it('should show how many sections have been read', async () => {
+      savedProgress = {
+        readSections: { overview: { sectionId: 'overview', method: 'marked', readAt: 1000 } },
+        checkResults: {}
+      };
+
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      expect(screen.getByText('1 of 6 sections read')).toBeInTheDocument();
+      expect(screen.getByRole('checkbox', { name: 'Mark as read: Understanding AI: A Balanced Perspective' })).toBeChecked();
+    });
+
+    it('should save a section marked as read', async () => {
+      const onReadingProgressChange = jest.fn();
+      await renderIntroduction(<AIIntroductionContainer onReadingProgressChange={onReadingProgressChange} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Mark as read: The Invisible Degradation Effect' }));
+
+      expect(mockLocalStorageService.markSectionRead).toHaveBeenCalledWith('invisible-degradation', 'marked');
+      expect(screen.getByRole('checkbox', { name: 'Mark as read: The Invisible Degradation Effect' })).toBeChecked();
+      expect(screen.getByText('1 of 6 sections read')).toBeInTheDocument();
+      expect(onReadingProgressChange).toHaveBeenLastCalledWith(savedProgress);
+    });
+
+    it('should mark a section unread again', async () => {
+      savedProgress = {
+        readSections: { overview: { sectionId: 'overview', method: 'marked', readAt: 1000 } },
+        checkResults: {}
+      };
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Mark as read: Understanding AI: A Balanced Perspective' }));
+
+      expect(mockLocalStorageService.markSectionUnread).toHaveBeenCalledWith('overview');
+      expect(screen.getByText('0 of 6 sections read')).toBeInTheDocument();
+    });
+
+    it('should count a section as read once it has stayed in view long enough', async () => {
+      await renderWatchedIntroduction();
+
+      setSectionInView('The Invisible Degradation Effect', true);
+      expect(mockLocalStorageService.setLastIntroductionSection).toHaveBeenCalledWith('invisible-degradation');
+
+      act(() => {
+        jest.advanceTimersByTime(7000);
+      });
+      expect(mockLocalStorageService.markSectionRead).not.toHaveBeenCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+      expect(mockLocalStorageService.markSectionRead).toHaveBeenCalledWith('invisible-degradation', 'viewed');
+      expect(screen.getByRole('checkbox', { name: 'Mark as read: The Invisible Degradation Effect' })).toBeChecked();
+    });
+
+    it('should not count a section scrolled past quickly', async () => {
+      await renderWatchedIntroduction();
+
+      setSectionInView('The Invisible Degradation Effect', true);
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+      setSectionInView('The Invisible Degradation Effect', false);
+      act(() => {
+        jest.advanceTimersByTime(10000);
+      });
+
+      expect(mockLocalStorageService.markSectionRead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Knowledge Checks', () => {
+    let savedProgress: IntroductionProgress;
+
+    const checksIn = (sectionTitle: string) =>
+      within(screen.getByRole('region', { name: sectionTitle }))
+        .getByRole('group', { name: 'Check your understanding' });
+
+    beforeEach(() => {
+      savedProgress = { readSections: {}, checkResults: {} };
+      mockLocalStorageService.getIntroductionProgress.mockImplementation(() => savedProgress);
+      mockLocalStorageService.recordCheckResult.mockImplementation((sectionId, questionId, isCorrect) => {
+        savedProgress = {
+          ...savedProgress,
+          checkResults: {
+            ...savedProgress.checkResults,
+            [questionId]: { questionId, sectionId, isCorrect, answeredAt: 1000 }
+          }
+        };
+        return savedProgress;
+      });
+    });
+
+    it('should ask the checks at the end of their section', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      const checks = checksIn('The Invisible Degradation Effect');
+      expect(within(checks).getByRole('heading', { name: 'Growing dependency on AI is usually easy to notice as it happens.' }))
+        .toBeInTheDocument();
+      expect(within(screen.getByRole('region', { name: 'Understanding AI: A Balanced Perspective' }))
+        .queryByRole('group', { name: 'Check your understanding' })).not.toBeInTheDocument();
+    });
+
+    it('should save the answer with the reading progress', async () => {
+      const onReadingProgressChange = jest.fn();
+      await renderIntroduction(<AIIntroductionContainer onReadingProgressChange={onReadingProgressChange} />);
+
+      fireEvent.click(within(checksIn('The Invisible Degradation Effect')).getByRole('radio', { name: /False/ }));
+
+      expect(mockLocalStorageService.recordCheckResult)
+        .toHaveBeenCalledWith('invisible-degradation', 'invisible-degradation-001', true);
+      expect(onReadingProgressChange).toHaveBeenLastCalledWith(savedProgress);
+      expect(screen.queryByRole('link', { name: /in the glossary/ })).not.toBeInTheDocument();
+      expect(mockLocalStorageService.recordAnswerOutcomes).not.toHaveBeenCalled();
+      expect(mockLocalStorageService.recordTermReviews).not.toHaveBeenCalled();
+    });
+
+    describe('about a glossary term', () => {
+      const tokenTerm = {
+        id: 'token',
+        term: 'Token',
+        definition: 'A piece of text a model reads.',
+        externalLink: 'https://example.com/token',
+        roleContext: { business: 'b', 'pm-designer': 'p', engineer: 'e', 'data-scientist': 'd' }
+      };
+
+      beforeEach(() => {
+        mockIntroductionDataService.loadIntroduction.mockResolvedValue({
+          sections: [{
+            id: 'tokens',
+            title: 'Tokens',
+            content: 'Models read text as tokens.',
+            checks: [{
+              id: 'tokens-001',
+              type: 'true-false',
+              question: 'A token is always a whole word.',
+              correctAnswer: false,
+              termId: 'token'
+            }]
+          }],
+          navigation: {}
+        });
+      });
+
+      it('should count the answer towards the term like a quiz answer', async () => {
+        jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue([tokenTerm]);
+        jest.spyOn(glossaryDataService, 'getTermById').mockReturnValue(tokenTerm);
+        await renderIntroduction(<AIIntroductionContainer />);
+
+        fireEvent.click(within(checksIn('Tokens')).getByRole('radio', { name: /False/ }));
+
+        expect(mockLocalStorageService.recordAnswerOutcomes).toHaveBeenCalledWith([{
+          questionId: 'tokens-001',
+          termId: 'token',
+          selectedAnswer: 'False',
+          isCorrect: true,
+          timeTakenMs: expect.any(Number),
+          timestamp: expect.any(Number)
+        }]);
+        expect(mockLocalStorageService.recordTermReviews)
+          .toHaveBeenCalledWith([{ termId: 'token', isCorrect: true }], expect.any(Number));
+        expect(screen.getByRole('link', { name: 'Learn more about Token in the glossary' }))
+          .toHaveAttribute('href', '#/glossary/term/token');
+      });
+
+      it('should leave out a term the glossary cannot name', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(glossaryDataService, 'loadGlossary').mockRejectedValue(new Error('offline'));
+        jest.spyOn(glossaryDataService, 'getTermById').mockReturnValue(undefined);
+        await renderIntroduction(<AIIntroductionContainer />);
+
+        fireEvent.click(within(checksIn('Tokens')).getByRole('radio', { name: /True/ }));
+
+        expect(screen.queryByRole('link', { name: /in the glossary/ })).not.toBeInTheDocument();
+        expect(mockLocalStorageService.recordCheckResult).toHaveBeenCalledWith('tokens', 'tokens-001', false);
+        expect(mockLocalStorageService.recordAnswerOutcomes).not.toHaveBeenCalled();
+        expect(mockLocalStorageService.recordTermReviews).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should offer another try after a wrong answer', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
+      const checks = checksIn('The Invisible Degradation Effect');
+
+      fireEvent.click(within(checks).getByRole('radio', { name: /True/ }));
+      expect(mockLocalStorageService.recordCheckResult)
+        .toHaveBeenCalledWith('invisible-degradation', 'invisible-degradation-001', false);
+
+      fireEvent.click(within(checks).getByRole('button', { name: 'Try again' }));
+
+      expect(within(checks).getByRole('radio', { name: /True/ })).toBeEnabled();
+      expect(within(checks).queryByRole('button', { name: 'Try again' })).not.toBeInTheDocument();
+    });
+
+    it('should show the result of an earlier answer', async () => {
+      savedProgress = {
+        readSections: {},
+        checkResults: {
+          'invisible-degradation-001': {
+            questionId: 'invisible-degradation-001',
+            sectionId: 'invisible-degradation',
+            isCorrect: true,
+            answeredAt: 1000
+          }
+        }
+      };
+
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      expect(within(checksIn('The Invisible Degradation Effect')).getByText('You answered this correctly last time.'))
+        .toBeInTheDocument();
+    });
+  });
+
   describe('Navigation', () => {
-    it('should call onNavigate when glossary button is clicked', () => {
-      render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+    it('should call onNavigate when glossary button is clicked', async () => {
+      await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       const glossaryButton = screen.getByRole('button', { name: /📚 Explore AI Glossary/i });
       fireEvent.click(glossaryButton);
@@ -81,8 +421,8 @@ describe('AIIntroductionContainer', () => {
       expect(mockOnNavigate).toHaveBeenCalledWith('glossary');
     });
 
-    it('should call onNavigate when quiz button is clicked', () => {
-      render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+    it('should call onNavigate when quiz button is clicked', async () => {
+      await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       const quizButton = screen.getByRole('button', { name: /🧠 Take the Quiz/i });
       fireEvent.click(quizButton);
@@ -90,8 +430,8 @@ describe('AIIntroductionContainer', () => {
       expect(mockOnNavigate).toHaveBeenCalledWith('quiz');
     });
 
-    it('should call onNavigate when home button is clicked', () => {
-      render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+    it('should call onNavigate when home button is clicked', async () => {
+      await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       const homeButton = screen.getByRole('button', { name: /🏠 Return to Home/i });
       fireEvent.click(homeButton);
@@ -99,8 +439,8 @@ describe('AIIntroductionContainer', () => {
       expect(mockOnNavigate).toHaveBeenCalledWith('home');
     });
 
-    it('should handle missing onNavigate prop gracefully', () => {
-      render(<AIIntroductionContainer />);
+    it('should handle missing onNavigate prop gracefully', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       const glossaryButton = screen.getByRole('button', { name: /📚 Explore AI Glossary/i });
       
@@ -110,12 +450,24 @@ describe('AIIntroductionContainer', () => {
   });
 
   describe('Section Navigation', () => {
-    it('should handle table of contents link clicks', () => {
+    it('should scroll to the selected section', async () => {
+      const mockScrollIntoView = jest.fn();
+      Element.prototype.scrollIntoView = mockScrollIntoView;
+
+      await renderIntroduction(<AIIntroductionContainer selectedSectionId="productive-friction" />);
+
+      await waitFor(() => expect(mockScrollIntoView).toHaveBeenCalledWith({
+        behavior: 'smooth',
+        block: 'start'
+      }));
+    });
+
+    it('should handle table of contents link clicks', async () => {
       // Mock scrollIntoView since it's not available in test environment
       const mockScrollIntoView = jest.fn();
       Element.prototype.scrollIntoView = mockScrollIntoView;
       
-      render(<AIIntroductionContainer />);
+      await renderIntroduction(<AIIntroductionContainer />);
       
       const tocButton = screen.getByRole('button', { name: /Go to section 1 of 6: Understanding AI: A Balanced Perspective/i });
       fireEvent.click(tocButton);
@@ -127,8 +479,8 @@ describe('AIIntroductionContainer', () => {
       });
     });
 
-    it('should render section navigation buttons', () => {
-      render(<AIIntroductionContainer />);
+    it('should render section navigation buttons', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for section navigation buttons (should have multiple "Next" buttons)
       const nextButtons = screen.getAllByText(/Next →/);
@@ -144,8 +496,8 @@ describe('AIIntroductionContainer', () => {
   });
 
   describe('Content Structure', () => {
-    it('should have proper section variants applied', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should have proper section variants applied', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for default variant sections
       expect(container.querySelector('.ai-introduction-container__section--default')).toBeInTheDocument();
@@ -157,19 +509,40 @@ describe('AIIntroductionContainer', () => {
       expect(container.querySelectorAll('.ai-introduction-container__section--highlighted')).toHaveLength(3);
     });
 
-    it('should render content with proper formatting', () => {
-      render(<AIIntroductionContainer />);
+    it('should render content with proper formatting', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that content is rendered (look for specific text from sections)
       expect(screen.getByText(/Artificial Intelligence represents one of the most transformative technologies/i)).toBeInTheDocument();
       expect(screen.getByText(/The rapid adoption of AI tools creates a phenomenon/i)).toBeInTheDocument();
       expect(screen.getByText(/Three key risks emerge from unreflective AI use/i)).toBeInTheDocument();
     });
+
+    it('should render bold text and link glossary terms it mentions', async () => {
+      const term = {
+        id: 'critical-thinking',
+        term: 'Critical Thinking',
+        definition: 'Careful evaluation of information.',
+        externalLink: 'https://example.com/critical-thinking',
+        roleContext: { business: 'b', 'pm-designer': 'p', engineer: 'e', 'data-scientist': 'd' }
+      };
+      jest.spyOn(glossaryDataService, 'getAllTerms').mockReturnValue([term]);
+      jest.spyOn(glossaryDataService, 'findTermMentions').mockImplementation(text => {
+        const start = text.indexOf('Critical Thinking');
+        return start >= 0 ? [{ termId: term.id, start, end: start + 'Critical Thinking'.length }] : [];
+      });
+
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      const link = screen.getByRole('link', { name: 'Critical Thinking' });
+      expect(link).toHaveAttribute('href', '#/glossary/term/critical-thinking');
+      expect(screen.getByText(/Atrophy/, { selector: 'strong' })).toHaveTextContent('Critical Thinking Atrophy');
+    });
   });
 
   describe('Enhanced Navigation Features', () => {
-    it('should render progress indicators for each section', () => {
-      render(<AIIntroductionContainer />);
+    it('should render progress indicators for each section', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for progress indicators
       expect(screen.getByText(/Section 1 of 6/)).toBeInTheDocument();
@@ -177,14 +550,20 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByText(/Section 6 of 6/)).toBeInTheDocument();
     });
 
-    it('should render reading time estimate', () => {
-      render(<AIIntroductionContainer />);
+    it('should render reading time estimate', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       expect(screen.getByText(/6 sections • Estimated reading time: 10-12 minutes/)).toBeInTheDocument();
     });
 
-    it('should render completion summary', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should render completion summary', async () => {
+      const readSections: IntroductionProgress['readSections'] = {};
+      (introductionContent as IntroductionContent).sections.forEach(({ id }) => {
+        readSections[id] = { sectionId: id, method: 'viewed', readAt: 1000 };
+      });
+      mockLocalStorageService.getIntroductionProgress.mockReturnValue({ readSections, checkResults: {} });
+
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       expect(screen.getByText(/🎉 You've completed the AI Introduction!/)).toBeInTheDocument();
       
@@ -198,14 +577,26 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByText(/100%/)).toBeInTheDocument();
     });
 
-    it('should render skip link for accessibility', () => {
-      render(<AIIntroductionContainer />);
+    it('should render skip link for accessibility', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       expect(screen.getByRole('link', { name: /Skip to main content/i })).toBeInTheDocument();
     });
 
-    it('should render keyboard navigation hint', () => {
-      render(<AIIntroductionContainer />);
+    it('should scroll with skip links without changing the URL hash', async () => {
+      const mockScrollIntoView = jest.fn();
+      Element.prototype.scrollIntoView = mockScrollIntoView;
+      window.history.replaceState(null, '', '#/introduction');
+      await renderIntroduction(<AIIntroductionContainer />);
+
+      fireEvent.click(screen.getByRole('link', { name: /Skip to main content/i }));
+
+      expect(mockScrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth', block: 'start' });
+      expect(window.location.hash).toBe('#/introduction');
+    });
+
+    it('should render keyboard navigation hint', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       expect(screen.getByText(/💡 Keyboard Navigation/)).toBeInTheDocument();
       expect(screen.getByText(/Navigate table of contents/)).toBeInTheDocument();
@@ -213,8 +604,8 @@ describe('AIIntroductionContainer', () => {
   });
 
   describe('Accessibility', () => {
-    it('should have proper ARIA labels and structure', () => {
-      render(<AIIntroductionContainer />);
+    it('should have proper ARIA labels and structure', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for proper navigation labeling - now uses "Contents" as the accessible name
       expect(screen.getByRole('navigation', { name: /Contents/i })).toBeInTheDocument();
@@ -229,8 +620,8 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByRole('link', { name: /Skip to navigation/i })).toBeInTheDocument();
     });
 
-    it('should have proper heading hierarchy', () => {
-      render(<AIIntroductionContainer />);
+    it('should have proper heading hierarchy', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for h1 main title
       expect(screen.getByRole('heading', { level: 1 })).toBeInTheDocument();
@@ -244,8 +635,8 @@ describe('AIIntroductionContainer', () => {
       expect(h3Headings.length).toBeGreaterThan(0);
     });
 
-    it('should have proper focus management attributes', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should have proper focus management attributes', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that section titles have tabindex for focus management
       const sectionTitles = container.querySelectorAll('.ai-introduction-container__section-title');
@@ -255,7 +646,7 @@ describe('AIIntroductionContainer', () => {
     });
 
     it('should pass accessibility audit for content sections', async () => {
-      const { container } = render(<AIIntroductionContainer />);
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Test specific sections that don't have landmark conflicts
       const sections = container.querySelectorAll('.ai-introduction-container__section');
@@ -267,7 +658,7 @@ describe('AIIntroductionContainer', () => {
     });
 
     it('should pass accessibility audit for table of contents', async () => {
-      const { container } = render(<AIIntroductionContainer />);
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Test the table of contents navigation specifically
       const toc = container.querySelector('.ai-introduction-container__toc');
@@ -279,7 +670,7 @@ describe('AIIntroductionContainer', () => {
 
     it('should pass accessibility audit for navigation buttons', async () => {
       const mockOnNavigate = jest.fn();
-      const { container } = render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+      const { container } = await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       // Test navigation buttons specifically
       const navButtons = container.querySelectorAll('.ai-introduction-container__nav-button');
@@ -290,8 +681,8 @@ describe('AIIntroductionContainer', () => {
       }
     });
 
-    it('should have proper keyboard navigation support', () => {
-      render(<AIIntroductionContainer />);
+    it('should have proper keyboard navigation support', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that all interactive elements are keyboard accessible
       const buttons = screen.getAllByRole('button');
@@ -305,8 +696,8 @@ describe('AIIntroductionContainer', () => {
       });
     });
 
-    it('should provide proper screen reader context', () => {
-      render(<AIIntroductionContainer />);
+    it('should provide proper screen reader context', async () => {
+      await renderIntroduction(<AIIntroductionContainer />);
       
       // Check for proper labeling of navigation elements
       expect(screen.getByRole('navigation', { name: /Contents/i })).toBeInTheDocument();
@@ -321,8 +712,8 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByRole('button', { name: /Go to section 1 of 6: Understanding AI: A Balanced Perspective/i })).toBeInTheDocument();
     });
 
-    it('should support high contrast mode', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should support high contrast mode', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that important elements have proper contrast indicators
       const mainContainer = container.querySelector('.ai-introduction-container');
@@ -354,7 +745,7 @@ describe('AIIntroductionContainer', () => {
       });
     });
 
-    it('should render properly on mobile viewport', () => {
+    it('should render properly on mobile viewport', async () => {
       // Mock mobile viewport
       Object.defineProperty(window, 'innerWidth', {
         writable: true,
@@ -367,7 +758,7 @@ describe('AIIntroductionContainer', () => {
         value: 667,
       });
 
-      const { container } = render(<AIIntroductionContainer />);
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Should render all essential elements
       expect(screen.getByRole('heading', { level: 1, name: /AI Introduction: Risks and Advantages/i })).toBeInTheDocument();
@@ -375,7 +766,7 @@ describe('AIIntroductionContainer', () => {
       expect(container.querySelector('.ai-introduction-container')).toBeInTheDocument();
     });
 
-    it('should render properly on tablet viewport', () => {
+    it('should render properly on tablet viewport', async () => {
       // Mock tablet viewport
       Object.defineProperty(window, 'innerWidth', {
         writable: true,
@@ -388,7 +779,7 @@ describe('AIIntroductionContainer', () => {
         value: 1024,
       });
 
-      const { container } = render(<AIIntroductionContainer />);
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Should render all essential elements
       expect(screen.getByRole('heading', { level: 1, name: /AI Introduction: Risks and Advantages/i })).toBeInTheDocument();
@@ -396,7 +787,7 @@ describe('AIIntroductionContainer', () => {
       expect(container.querySelector('.ai-introduction-container')).toBeInTheDocument();
     });
 
-    it('should render properly on desktop viewport', () => {
+    it('should render properly on desktop viewport', async () => {
       // Mock desktop viewport
       Object.defineProperty(window, 'innerWidth', {
         writable: true,
@@ -409,7 +800,7 @@ describe('AIIntroductionContainer', () => {
         value: 1080,
       });
 
-      const { container } = render(<AIIntroductionContainer />);
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Should render all essential elements
       expect(screen.getByRole('heading', { level: 1, name: /AI Introduction: Risks and Advantages/i })).toBeInTheDocument();
@@ -417,9 +808,9 @@ describe('AIIntroductionContainer', () => {
       expect(container.querySelector('.ai-introduction-container')).toBeInTheDocument();
     });
 
-    it('should handle touch interactions on mobile', () => {
+    it('should handle touch interactions on mobile', async () => {
       const mockOnNavigate = jest.fn();
-      render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+      await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       // Test touch interaction with navigation buttons
       const glossaryButton = screen.getByRole('button', { name: /📚 Explore AI Glossary/i });
@@ -432,8 +823,8 @@ describe('AIIntroductionContainer', () => {
       expect(mockOnNavigate).toHaveBeenCalledWith('glossary');
     });
 
-    it('should maintain proper spacing and layout on small screens', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should maintain proper spacing and layout on small screens', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that container has proper responsive classes
       const mainContainer = container.querySelector('.ai-introduction-container');
@@ -447,8 +838,8 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getByRole('navigation', { name: /Contents/i })).toBeInTheDocument();
     });
 
-    it('should handle long content gracefully on mobile', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should handle long content gracefully on mobile', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that long text content is handled properly
       expect(screen.getByText(/Artificial Intelligence represents one of the most transformative technologies/i)).toBeInTheDocument();
@@ -461,8 +852,8 @@ describe('AIIntroductionContainer', () => {
       });
     });
 
-    it('should support pinch-to-zoom accessibility', () => {
-      const { container } = render(<AIIntroductionContainer />);
+    it('should support pinch-to-zoom accessibility', async () => {
+      const { container } = await renderIntroduction(<AIIntroductionContainer />);
       
       // Check that viewport meta tag requirements are met (this would be in the HTML head)
       // For component testing, we verify that content is scalable
@@ -474,7 +865,7 @@ describe('AIIntroductionContainer', () => {
       expect(screen.getAllByRole('heading', { level: 2 })).toHaveLength(8);
     });
 
-    it('should maintain functionality across different orientations', () => {
+    it('should maintain functionality across different orientations', async () => {
       const mockOnNavigate = jest.fn();
       
       // Test portrait orientation
@@ -489,7 +880,7 @@ describe('AIIntroductionContainer', () => {
         value: 667,
       });
       
-      const { rerender } = render(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
+      const { rerender } = await renderIntroduction(<AIIntroductionContainer onNavigate={mockOnNavigate} />);
       
       // Test navigation in portrait
       fireEvent.click(screen.getByRole('button', { name: /📚 Explore AI Glossary/i }));
@@ -4,9 +4,28 @@
  * Main container component for the AI Introduction and Risks feature.
  * Displays comprehensive introduction content about AI advantages and cognitive risks,
  * providing balanced perspective before users engage with glossary and quiz features.
+ * The sections are loaded from introduction.json. A section counts as read
+ * once it has stayed in view for a while or the reader marks it, and the
+ * progress is saved so reading can be resumed later. Sections may end with
+ * knowledge checks, answered like quiz questions, whose results are saved
+ * with the reading progress.
  */
 
-import React, { useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback } from 'react';
+import {
+  IntroductionProgress,
+  IntroductionSection,
+  QuizQuestion as QuizQuestionType,
+  SectionCheckQuestion
+} from '../types';
+import { introductionDataService } from '../services/IntroductionDataService';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { localStorageService } from '../services/LocalStorageService';
+import { useLoadSignal } from '../hooks/useLoadSignal';
+import { MarkdownText } from './MarkdownText';
+import { QuizQuestion } from './QuizQuestion';
+import { SkeletonLoader } from './SkeletonLoader';
+import { ErrorMessage } from './ErrorMessage';
 import './AIIntroductionContainer.css';
 
 /**
@@ -14,182 +33,74 @@ import './AIIntroductionContainer.css';
  */
 interface AIIntroductionContainerProps {
   className?: string;
+  /** Section to scroll to, e.g. from a #/introduction/:sectionId link */
+  selectedSectionId?: string;
   onNavigate?: (destination: 'glossary' | 'quiz' | 'home') => void;
+  /** Called with the saved progress whenever a section is read or viewed */
+  onReadingProgressChange?: (progress: IntroductionProgress) => void;
 }
 
 /**
- * Interface for individual introduction content sections
+ * How long a section must stay in view to count as read, in milliseconds
  */
-interface IntroductionSection {
-  id: string;
-  title: string;
-  subtitle?: string;
-  content: string | React.ReactNode;
-  variant?: 'default' | 'highlighted' | 'warning';
-}
+const SECTION_READ_DELAY_MS = 8000;
 
 /**
- * Complete introduction content data structure
+ * Share of a section, or of the viewport for sections taller than it, that
+ * must be visible for the section to count as in view
  */
-interface IntroductionContent {
-  sections: IntroductionSection[];
-  navigation: {
-    previous?: { label: string; destination: 'glossary' | 'quiz' | 'home' };
-    next?: { label: string; destination: 'glossary' | 'quiz' | 'home' };
-  };
-}
+const SECTION_IN_VIEW_RATIO = 0.5;
 
 /**
- * Static introduction content data with all six main sections
+ * Load saved reading progress, starting afresh if it cannot be read
  */
-const introductionContent: IntroductionContent = {
-  sections: [
-    {
-      id: 'overview',
-      title: 'Understanding AI: A Balanced Perspective',
-      subtitle: 'Exploring both the promise and the perils of artificial intelligence',
-      content: `
-        Artificial Intelligence represents one of the most transformative technologies of our time, 
-        offering unprecedented capabilities to augment human intelligence and automate complex tasks. 
-        However, as we integrate AI more deeply into our work and decision-making processes, 
-        we must also consider the subtle but significant risks it poses to our cognitive abilities.
-        
-        This introduction explores both the advantages and the hidden dangers of AI adoption, 
-        helping you develop a nuanced understanding of how to engage with AI tools responsibly 
-        while preserving essential human thinking and creativity.
-      `,
-      variant: 'default'
-    },
-    {
-      id: 'approved-tools',
-      title: 'Approved AI Tools at In Time Tec',
-      subtitle: 'Official policy and licensing requirements',
-      content: `
-        As part of our evolving Acceptable Use and Approved Tools policies, we've identified 
-        5 AI Tools that are allowed for use at In Time Tec:
-        
-        **Approved AI Tools:**
-        • **GitHub Copilot** - AI-powered code completion and suggestions
-        • **ChatGPT** - Conversational AI for research and problem-solving
-        • **Cursor AI** - AI-enhanced code editor and development environment
-        • **Microsoft Copilot** - Integrated AI assistant across Microsoft 365
-        • **Claude AI** - Advanced AI assistant for analysis and writing tasks
-        
-        **Important Licensing Requirements:**
-        These tools are approved for use **ONLY when a license is issued by the IT department**. 
-        Our official policy document will be published shortly.
-        
-        **Current Users:** If you are currently using one of these tools and are paying with 
-        a personal or corporate credit card, please respond to our licensing form and we will 
-        go through the process of getting a license approved and provisioned for your use on 
-        the company account: https://forms.office.com/r/SDvSssgQsQ
-        
-        **New Users:** If you don't currently use one of these tools but need to, please 
-        submit a ticket to https://intimetec.freshservice.com/ and someone will assist you 
-        with getting a license.
-        
-        This policy ensures we maintain security, compliance, and cost management while 
-        enabling productive AI tool usage across the organization.
-      `,
-      variant: 'highlighted'
-    },
-    {
-      id: 'too-much-too-soon',
-      title: 'The "Too Much Too Soon" Problem',
-      subtitle: 'Understanding AI\'s Cognitive Risks',
-      content: `
-        The rapid adoption of AI tools creates a phenomenon we call "too much too soon" - 
-        where the convenience and speed of AI responses can bypass the critical thinking 
-        processes that make us better thinkers and decision-makers.
-        
-        When we consistently rely on AI for first-draft thinking, research synthesis, 
-        or problem-solving, we risk atrophying the very cognitive muscles that AI should 
-        be helping us strengthen. The danger lies not in AI's capabilities, but in how 
-        easily we can become dependent on them without realizing the trade-offs.
-      `,
-      variant: 'warning'
-    },
-    {
-      id: 'invisible-degradation',
-      title: 'The Invisible Degradation Effect',
-      subtitle: 'How AI can quietly undermine cognitive abilities',
-      content: `
-        Three key risks emerge from unreflective AI use:
-        
-        **Critical Thinking Atrophy**: When we consistently accept AI's first responses 
-        without questioning, analyzing, or building upon them, we lose practice in 
-        evaluating information, identifying assumptions, and thinking critically.
-        
-        **Skill Substitution**: AI can replace rather than augment our reasoning processes. 
-        Instead of using AI to help us think better, we let it think for us, gradually 
-        losing confidence in our own analytical abilities.
-        
-        **Gradual Dependency**: The shift from AI as enhancement to AI as crutch happens 
-        so gradually that we often don't notice until we find ourselves unable to perform 
-        tasks we once handled easily without assistance.
-        
-        Like social media's impact on attention and communication skills, AI's cognitive 
-        effects compound over time, making early awareness and intentional practices crucial.
-      `,
-      variant: 'warning'
-    },
-    {
-      id: 'productive-friction',
-      title: 'The Need for "Productive Friction"',
-      subtitle: 'Learning from the Amish approach to technology',
-      content: `
-        The Amish community offers valuable insights into technology adoption through their 
-        practice of "productive friction" - carefully evaluating whether new technologies 
-        strengthen or weaken community bonds and essential skills.
-        
-        We can apply similar principles to AI adoption by asking:
-        - Does this AI use enhance my thinking or replace it?
-        - Am I using AI to explore ideas more deeply or to avoid thinking altogether?
-        - Will this practice help me become a better thinker or create dependency?
-        
-        Productive friction means intentionally maintaining some cognitive effort in our 
-        AI-assisted workflows, ensuring that we continue to develop and exercise our 
-        reasoning abilities even as we leverage AI's capabilities.
-      `,
-      variant: 'highlighted'
-    },
-    {
-      id: 'cultural-wisdom',
-      title: 'Toward Cultural Wisdom for AI',
-      subtitle: 'Principles for conscious AI engagement',
-      content: `
-        Developing cultural wisdom for AI means creating practices that preserve essential 
-        human cognitive abilities while leveraging AI's strengths:
-        
-        **Use AI for research, preserve complex reasoning**: Let AI gather information 
-        and provide starting points, but maintain ownership of analysis, synthesis, 
-        and decision-making processes.
-        
-        **Distinguish augmentation from replacement**: Choose AI applications that make 
-        you think better, not applications that think for you.
-        
-        **Maintain cognitive diversity**: Ensure your thinking processes don't become 
-        homogenized by AI patterns. Seek out human perspectives, alternative approaches, 
-        and non-AI sources of insight.
-        
-        The fundamental question we must each answer is: How do we harness AI's power 
-        while protecting the essential human thinking and creativity that make us who we are?
-      `,
-      variant: 'highlighted'
-    }
-  ],
-  navigation: {
-    next: { label: 'Explore AI Glossary', destination: 'glossary' }
+const loadReadingProgress = (): IntroductionProgress => {
+  try {
+    return localStorageService.getIntroductionProgress() ?? { readSections: {}, checkResults: {} };
+  } catch (error) {
+    return { readSections: {}, checkResults: {} };
   }
 };
 
+/**
+ * Show a knowledge check as a quiz question, naming its glossary term when
+ * it has one the glossary can resolve; otherwise the term is left out
+ */
+const toQuizQuestion = (check: SectionCheckQuestion): QuizQuestionType => {
+  const term = check.termId ? glossaryDataService.getTermById(check.termId) : undefined;
+  return { ...check, termId: term?.id ?? '', term: term?.term ?? '' };
+};
+
+/**
+ * Check whether any knowledge check in the sections is about a glossary term
+ */
+const hasTermChecks = (sections: IntroductionSection[]): boolean =>
+  sections.some(section => section.checks?.some(check => check.termId !== undefined));
+
 /**
  * AIIntroductionContainer component implementation
  */
 export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = ({
   className = '',
-  onNavigate
+  selectedSectionId,
+  onNavigate,
+  onReadingProgressChange
 }) => {
+  const [sections, setSections] = useState<IntroductionSection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [loadError, setLoadError] = useState<unknown>(null);
+  const [readingProgress, setReadingProgress] = useState<IntroductionProgress>(loadReadingProgress);
+  // Knowledge checks answered during this visit, and how often each was retried
+  const [checkAnswers, setCheckAnswers] = useState<Record<string, boolean>>({});
+  const [checkRetries, setCheckRetries] = useState<Record<string, number>>({});
+  // When each knowledge check was last shown, used to time answers
+  const checkShownAt = useRef<Record<string, number>>({});
+
+  // Latest progress for the visibility observer, which outlives renders
+  const readingProgressRef = useRef(readingProgress);
+
   // Refs for focus management
   const sectionRefs = useRef<{ [key: string]: HTMLElement | null }>({});
   const tocRef = useRef<HTMLElement>(null);
@@ -234,13 +145,195 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
     }
   }, []);
 
+  /**
+   * Save a change to reading progress and pass it on
+   */
+  const saveReadingProgress = useCallback((save: () => IntroductionProgress) => {
+    try {
+      const progress = save();
+      readingProgressRef.current = progress;
+      setReadingProgress(progress);
+      onReadingProgressChange?.(progress);
+    } catch (error) {
+      // Reading progress is a convenience; the introduction works without it
+    }
+  }, [onReadingProgressChange]);
+
+  /**
+   * Mark a section as read, or unread again, from its checkbox
+   */
+  const handleReadToggle = useCallback((sectionId: string, isRead: boolean) => {
+    saveReadingProgress(() => (isRead
+      ? localStorageService.markSectionRead(sectionId, 'marked')
+      : localStorageService.markSectionUnread(sectionId)));
+  }, [saveReadingProgress]);
+
+  /**
+   * Save the answer to a knowledge check. Checks about a glossary term also
+   * count towards the term's answer history and review schedule, like quiz
+   * answers.
+   */
+  const handleCheckAnswered = useCallback((
+    sectionId: string,
+    check: SectionCheckQuestion,
+    selectedAnswer: string,
+    isCorrect: boolean
+  ) => {
+    setCheckAnswers(prev => ({ ...prev, [check.id]: isCorrect }));
+    saveReadingProgress(() => localStorageService.recordCheckResult(sectionId, check.id, isCorrect));
+
+    // Only a term the glossary knows can be reviewed later
+    const term = check.termId ? glossaryDataService.getTermById(check.termId) : undefined;
+    if (term) {
+      const answeredAt = Date.now();
+      localStorageService.recordAnswerOutcomes([{
+        questionId: check.id,
+        termId: term.id,
+        selectedAnswer,
+        isCorrect,
+        timeTakenMs: Math.max(0, answeredAt - (checkShownAt.current[check.id] ?? answeredAt)),
+        timestamp: answeredAt
+      }]);
+      localStorageService.recordTermReviews([{ termId: term.id, isCorrect }], answeredAt);
+    }
+  }, [saveReadingProgress]);
+
+  /**
+   * Ask a knowledge check again after a wrong answer
+   */
+  const handleCheckRetry = useCallback((questionId: string) => {
+    checkShownAt.current[questionId] = Date.now();
+    setCheckAnswers(({ [questionId]: _answered, ...rest }) => rest);
+    setCheckRetries(prev => ({ ...prev, [questionId]: (prev[questionId] ?? 0) + 1 }));
+  }, []);
+
+  // Count a section as read once it has stayed in view long enough, and
+  // remember the section in view so reading can resume there
+  React.useEffect(() => {
+    if (isLoading || sections.length === 0 || typeof IntersectionObserver === 'undefined') {
+      return undefined;
+    }
+
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const sectionId = entry.target.id;
+        const viewportHeight = entry.rootBounds?.height ?? window.innerHeight;
+        const isInView = entry.isIntersecting && (
+          entry.intersectionRatio >= SECTION_IN_VIEW_RATIO ||
+          entry.intersectionRect.height >= viewportHeight * SECTION_IN_VIEW_RATIO
+        );
+
+        if (!isInView) {
+          clearTimeout(timers.get(sectionId));
+          timers.delete(sectionId);
+          return;
+        }
+
+        if (readingProgressRef.current.lastSectionId !== sectionId) {
+          saveReadingProgress(() => localStorageService.setLastIntroductionSection(sectionId));
+        }
+        if (!timers.has(sectionId) && !readingProgressRef.current.readSections[sectionId]) {
+          timers.set(sectionId, setTimeout(() => {
+            timers.delete(sectionId);
+            saveReadingProgress(() => localStorageService.markSectionRead(sectionId, 'viewed'));
+          }, SECTION_READ_DELAY_MS));
+        }
+      });
+    }, { threshold: [0, 0.25, 0.5, 0.75, 1] });
+
+    sections.forEach(section => {
+      const element = sectionRefs.current[section.id];
+      if (element) {
+        observer.observe(element);
+      }
+    });
+
+    return () => {
+      observer.disconnect();
+      timers.forEach(timer => clearTimeout(timer));
+    };
+  }, [sections, isLoading, saveReadingProgress]);
+
+  const startLoad = useLoadSignal();
+
+  // Scroll to a deep-linked section, e.g. one opened from search results,
+  // once the sections are shown
+  React.useEffect(() => {
+    if (selectedSectionId && !isLoading) {
+      handleSectionScroll(selectedSectionId);
+    }
+  }, [selectedSectionId, isLoading, handleSectionScroll]);
+
+  const loadIntroduction = useCallback(async () => {
+    const signal = startLoad();
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const content = await introductionDataService.loadIntroduction({ signal });
+      const loadedSections = content?.sections ?? [];
+
+      // Checks about a glossary term are shown with its name when it loads
+      if (hasTermChecks(loadedSections)) {
+        try {
+          await glossaryDataService.loadGlossary({ signal });
+        } catch (err) {
+          if (signal.aborted) {
+            throw err;
+          }
+          console.warn('Glossary terms for knowledge checks could not be loaded:', err);
+        }
+      }
+
+      const shownAt = Date.now();
+      loadedSections.forEach(section => section.checks?.forEach(check => {
+        checkShownAt.current[check.id] = shownAt;
+      }));
+      setSections(loadedSections);
+    } catch (err) {
+      if (signal.aborted) {
+        return;
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load the introduction';
+      setError(errorMessage);
+      setLoadError(err);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsRetrying(false);
+      }
+    }
+  }, [startLoad]);
+
+  // Load the introduction sections on mount
+  React.useEffect(() => {
+    loadIntroduction();
+  }, [loadIntroduction]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    await loadIntroduction();
+  };
+
+  /**
+   * Move to a skip link target without changing the URL hash, which is
+   * reserved for application routes
+   */
+  const handleSkipLinkClick = useCallback((event: React.MouseEvent, targetId: string) => {
+    event.preventDefault();
+    const target = document.getElementById(targetId);
+    target?.scrollIntoView?.({ behavior: 'smooth', block: 'start' });
+    target?.focus();
+  }, []);
+
   /**
    * Navigate to next section
    */
   const handleNextSection = useCallback((currentSectionId: string) => {
-    const currentIndex = introductionContent.sections.findIndex(section => section.id === currentSectionId);
-    if (currentIndex < introductionContent.sections.length - 1) {
-      const nextSection = introductionContent.sections[currentIndex + 1];
+    const currentIndex = sections.findIndex(section => section.id === currentSectionId);
+    if (currentIndex < sections.length - 1) {
+      const nextSection = sections[currentIndex + 1];
       if (nextSection) {
         handleSectionScroll(nextSection.id);
       }
@@ -253,15 +346,15 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
         }
       }
     }
-  }, [handleSectionScroll]);
+  }, [sections, handleSectionScroll]);
 
   /**
    * Navigate to previous section
    */
   const handlePreviousSection = useCallback((currentSectionId: string) => {
-    const currentIndex = introductionContent.sections.findIndex(section => section.id === currentSectionId);
+    const currentIndex = sections.findIndex(section => section.id === currentSectionId);
     if (currentIndex > 0) {
-      const previousSection = introductionContent.sections[currentIndex - 1];
+      const previousSection = sections[currentIndex - 1];
       if (previousSection) {
         handleSectionScroll(previousSection.id);
       }
@@ -274,7 +367,7 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
         }
       }
     }
-  }, [handleSectionScroll]);
+  }, [sections, handleSectionScroll]);
 
 
 
@@ -282,14 +375,14 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
    * Get current section progress
    */
   const getCurrentSectionProgress = useCallback((sectionId: string) => {
-    const currentIndex = introductionContent.sections.findIndex(section => section.id === sectionId);
+    const currentIndex = sections.findIndex(section => section.id === sectionId);
     return {
       current: currentIndex + 1,
-      total: introductionContent.sections.length,
+      total: sections.length,
       isFirst: currentIndex === 0,
-      isLast: currentIndex === introductionContent.sections.length - 1
+      isLast: currentIndex === sections.length - 1
     };
-  }, []);
+  }, [sections]);
 
   /**
    * Global keyboard navigation handler
@@ -349,15 +442,15 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
         // Jump to specific section by number
         event.preventDefault();
         const sectionNumber = parseInt(event.key) - 1;
-        if (sectionNumber < introductionContent.sections.length) {
-          const section = introductionContent.sections[sectionNumber];
+        if (sectionNumber < sections.length) {
+          const section = sections[sectionNumber];
           if (section) {
             handleSectionScroll(section.id);
           }
         }
         break;
     }
-  }, [handleSectionScroll]);
+  }, [sections, handleSectionScroll]);
 
   // Add global keyboard event listener
   React.useEffect(() => {
@@ -367,6 +460,39 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
     };
   }, [handleGlobalKeyDown]);
 
+  const readCount = sections.filter(section => readingProgress.readSections[section.id]).length;
+  const readPercentage = sections.length > 0 ? Math.round((readCount / sections.length) * 100) : 0;
+
+  if (isLoading && !isRetrying) {
+    return (
+      <div className={`ai-introduction-container ai-introduction-container--loading ${className}`}>
+        <SkeletonLoader type="term" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`ai-introduction-container ai-introduction-container--error ${className}`}>
+        <ErrorMessage
+          title="Unable to Load the AI Introduction"
+          message={error}
+          error={loadError}
+          onRetry={handleRetry}
+          isRetrying={isRetrying}
+          actions={[
+            {
+              label: 'View Glossary',
+              onClick: () => handleNavigation('glossary'),
+              variant: 'secondary'
+            }
+          ]}
+          details={error}
+        />
+      </div>
+    );
+  }
+
   return (
     <div 
       className={`ai-introduction-container ${className}`}
@@ -377,18 +503,21 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
         <a 
           href="#main-content" 
           className="ai-introduction-container__skip-link"
+          onClick={(e) => handleSkipLinkClick(e, 'main-content')}
         >
           Skip to main content
         </a>
         <a 
           href="#table-of-contents" 
           className="ai-introduction-container__skip-link"
+          onClick={(e) => handleSkipLinkClick(e, 'table-of-contents')}
         >
           Skip to table of contents
         </a>
         <a 
           href="#navigation-footer" 
           className="ai-introduction-container__skip-link"
+          onClick={(e) => handleSkipLinkClick(e, 'navigation-footer')}
         >
           Skip to navigation
         </a>
@@ -419,7 +548,10 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
           aria-live="polite"
         >
           <span className="ai-introduction-container__progress-text">
-            {introductionContent.sections.length} sections • Estimated reading time: 10-12 minutes
+            {sections.length} sections • Estimated reading time: 10-12 minutes
+          </span>
+          <span className="ai-introduction-container__read-count">
+            {readCount} of {sections.length} sections read
           </span>
         </div>
       </header>
@@ -447,14 +579,14 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
           Navigate to any section using the links below or use arrow keys for keyboard navigation
         </p>
         <ul className="ai-introduction-container__toc-list">
-          {introductionContent.sections.map((section, index) => (
+          {sections.map((section, index) => (
             <li key={section.id} className="ai-introduction-container__toc-item">
               <button
                 type="button"
                 className="ai-introduction-container__toc-link"
                 onClick={() => handleSectionScroll(section.id)}
                 onKeyDown={(e) => {
-                  if (e.key === 'ArrowDown' && index < introductionContent.sections.length - 1) {
+                  if (e.key === 'ArrowDown' && index < sections.length - 1) {
                     e.preventDefault();
                     const nextTocLink = tocRef.current?.querySelectorAll('.ai-introduction-container__toc-link')[index + 1] as HTMLElement;
                     if (nextTocLink) {
@@ -482,7 +614,7 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
                   }
                 }}
                 aria-describedby={`${section.id}-subtitle`}
-                aria-label={`Go to section ${index + 1} of ${introductionContent.sections.length}: ${section.title}`}
+                aria-label={`Go to section ${index + 1} of ${sections.length}: ${section.title}`}
               >
                 <span className="ai-introduction-container__toc-number">{index + 1}.</span>
                 {section.title}
@@ -528,14 +660,15 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
         aria-describedby="reading-progress"
         tabIndex={-1}
       >
-        {introductionContent.sections.map((section, index) => {
+        {sections.map((section, index) => {
           const progress = getCurrentSectionProgress(section.id);
+          const isRead = readingProgress.readSections[section.id] !== undefined;
           return (
             <section
               key={section.id}
               id={section.id}
               ref={(el) => setSectionRef(section.id, el)}
-              className={`ai-introduction-container__section ai-introduction-container__section--${section.variant || 'default'}`}
+              className={`ai-introduction-container__section ai-introduction-container__section--${section.variant || 'default'}${isRead ? ' ai-introduction-container__section--read' : ''}`}
               aria-labelledby={`${section.id}-title`}
               aria-describedby={`${section.id}-progress`}
               tabIndex={-1}
@@ -583,33 +716,69 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
                     {section.subtitle}
                   </p>
                 )}
+                <label className="ai-introduction-container__read-toggle">
+                  <input
+                    type="checkbox"
+                    className="ai-introduction-container__read-checkbox"
+                    checked={isRead}
+                    onChange={(e) => handleReadToggle(section.id, e.target.checked)}
+                    aria-label={`Mark as read: ${section.title}`}
+                  />
+                  Mark as read
+                </label>
               </header>
               
               <div className="ai-introduction-container__section-content">
-                {typeof section.content === 'string' ? (
-                  <div 
-                    className="ai-introduction-container__text-content"
-                    dangerouslySetInnerHTML={{ 
-                      __html: section.content
-                        .split('\n\n')
-                        .map(paragraph => paragraph.trim())
-                        .filter(paragraph => paragraph.length > 0)
-                        .map(paragraph => {
-                          // Handle bold text formatting
-                          const formattedParagraph = paragraph.replace(
-                            /\*\*(.*?)\*\*/g, 
-                            '<strong>$1</strong>'
-                          );
-                          return `<p>${formattedParagraph}</p>`;
-                        })
-                        .join('')
-                    }}
-                  />
-                ) : (
-                  section.content
-                )}
+                <div className="ai-introduction-container__text-content">
+                  <MarkdownText text={section.content} linkTerms />
+                </div>
               </div>
 
+              {section.checks && section.checks.length > 0 && (
+                <div
+                  className="ai-introduction-container__checks"
+                  role="group"
+                  aria-labelledby={`${section.id}-checks-title`}
+                >
+                  <h3
+                    id={`${section.id}-checks-title`}
+                    className="ai-introduction-container__checks-title"
+                  >
+                    Check your understanding
+                  </h3>
+                  {section.checks.map(check => {
+                    const answer = checkAnswers[check.id];
+                    const savedResult = readingProgress.checkResults[check.id];
+                    return (
+                      <div key={check.id} className="ai-introduction-container__check">
+                        {answer === undefined && savedResult && (
+                          <p className="ai-introduction-container__check-status">
+                            {savedResult.isCorrect
+                              ? 'You answered this correctly last time.'
+                              : 'Your last answer was incorrect. Give it another try.'}
+                          </p>
+                        )}
+                        <QuizQuestion
+                          key={checkRetries[check.id] ?? 0}
+                          question={toQuizQuestion(check)}
+                          onAnswerSelected={(_questionId, selectedAnswer, isCorrect) =>
+                            handleCheckAnswered(section.id, check, selectedAnswer, isCorrect)}
+                        />
+                        {answer === false && (
+                          <button
+                            type="button"
+                            className="ai-introduction-container__check-retry"
+                            onClick={() => handleCheckRetry(check.id)}
+                          >
+                            Try again
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Section Navigation */}
               <nav 
                 className="ai-introduction-container__section-nav" 
@@ -638,7 +807,7 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
                           handleNextSection(section.id);
                         }
                       }}
-                      aria-label={`Go to previous section: ${introductionContent.sections[index - 1]?.title}`}
+                      aria-label={`Go to previous section: ${sections[index - 1]?.title}`}
                     >
                       ← Previous
                     </button>
@@ -661,13 +830,13 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
                     onKeyDown={(e) => {
                       if (e.key === 'Home') {
                         e.preventDefault();
-                        const firstSection = introductionContent.sections[0];
+                        const firstSection = sections[0];
                         if (firstSection) {
                           handleSectionScroll(firstSection.id);
                         }
                       } else if (e.key === 'End') {
                         e.preventDefault();
-                        const lastSection = introductionContent.sections[introductionContent.sections.length - 1];
+                        const lastSection = sections[sections.length - 1];
                         if (lastSection) {
                           handleSectionScroll(lastSection.id);
                         }
@@ -692,7 +861,7 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
                           handlePreviousSection(section.id);
                         }
                       }}
-                      aria-label={`Go to next section: ${introductionContent.sections[index + 1]?.title}`}
+                      aria-label={`Go to next section: ${sections[index + 1]?.title}`}
                     >
                       Next →
                     </button>
@@ -846,11 +1015,11 @@ export const AIIntroductionContainer: React.FC<AIIntroductionContainerProps> = (
           </h3>
           <div className="ai-introduction-container__summary-stats">
             <div className="ai-introduction-container__stat">
-              <span className="ai-introduction-container__stat-number">{introductionContent.sections.length}</span>
+              <span className="ai-introduction-container__stat-number">{readCount}</span>
               <span className="ai-introduction-container__stat-label">Sections Read</span>
             </div>
             <div className="ai-introduction-container__stat">
-              <span className="ai-introduction-container__stat-number">100%</span>
+              <span className="ai-introduction-container__stat-number">{readPercentage}%</span>
               <span className="ai-introduction-container__stat-label">Complete</span>
             </div>
           </div>
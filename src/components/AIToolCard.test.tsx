@@ -3,11 +3,22 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { AIToolCard } from './AIToolCard';
-import { AITool } from '../types';
+import { aiToolsDataService } from '../services/AIToolsDataService';
+import { AITool, AIToolsData } from '../types';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
 
+// Category labels as the tools data describes them
+const categories: AIToolsData['categories'] = {
+  'code-assistant': { label: 'Code Assistant', description: 'Coding assistance' },
+  'ide-extension': { label: 'IDE Extension', description: 'Editor plugins' },
+  'research-tool': { label: 'Research Tool', description: 'Research and documentation' },
+  'debugging-tool': { label: 'Debugging Tool', description: 'Debugging help' },
+  'testing-tool': { label: 'Testing Tool', description: 'Test generation' },
+  'terminal-tool': { label: 'Terminal Tool', description: 'AI-enhanced terminals' }
+};
+
 // Mock data for testing
 const mockTool: AITool = {
   id: 'test-tool',
@@ -73,6 +84,7 @@ Object.defineProperty(window, 'open', {
 describe('AIToolCard Component', () => {
   beforeEach(() => {
     mockWindowOpen.mockClear();
+    jest.spyOn(aiToolsDataService, 'getCategories').mockReturnValue(categories);
   });
 
   describe('Basic Rendering', () => {
@@ -98,6 +110,17 @@ describe('AIToolCard Component', () => {
       expect(screen.queryByRole('link', { name: /visit.*official website/i })).not.toBeInTheDocument();
     });
 
+    it('renders a highlighted search match snippet', () => {
+      render(
+        <AIToolCard
+          tool={mockTool}
+          matchSnippet={{ text: 'Writing unit tests', matches: [{ start: 13, end: 18 }] }}
+        />
+      );
+
+      expect(screen.getByText('tests').tagName).toBe('MARK');
+    });
+
     it('renders description section with toggle', () => {
       render(<AIToolCard tool={mockTool} />);
       
@@ -210,6 +233,36 @@ describe('AIToolCard Component', () => {
     });
   });
 
+  describe('Compare Selection', () => {
+    it('offers no compare checkbox outside compare mode', () => {
+      render(<AIToolCard tool={mockTool} />);
+
+      expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+    });
+
+    it('reports the tool being chosen for comparison', () => {
+      const onCompareToggle = jest.fn();
+      render(<AIToolCard tool={mockTool} onCompareToggle={onCompareToggle} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Compare Test AI Tool' }));
+
+      expect(onCompareToggle).toHaveBeenCalledWith('test-tool', true);
+    });
+
+    it('keeps a chosen tool removable when no more can be chosen', () => {
+      const { rerender } = render(
+        <AIToolCard tool={mockTool} isCompared isCompareDisabled onCompareToggle={jest.fn()} />
+      );
+
+      expect(screen.getByRole('checkbox', { name: 'Compare Test AI Tool' })).toBeEnabled();
+      expect(screen.getByRole('article')).toHaveClass('ai-tool-card--compared');
+
+      rerender(<AIToolCard tool={mockTool} isCompareDisabled onCompareToggle={jest.fn()} />);
+
+      expect(screen.getByRole('checkbox', { name: 'Compare Test AI Tool' })).toBeDisabled();
+    });
+  });
+
   describe('Keyboard Navigation', () => {
     it('expands description with Enter key', async () => {
       render(<AIToolCard tool={mockTool} />);
@@ -367,6 +420,20 @@ describe('AIToolCard Component', () => {
       expect(screen.getByText(mockTool.internalSetupNotes!)).toBeInTheDocument();
     });
 
+    it('renders Markdown in setup notes and experience quotes', () => {
+      const tool: AITool = {
+        ...mockTool,
+        internalSetupNotes: 'Before first use:\n\n1. Request a license\n2. Run `copilot auth login`',
+        userExperiences: [{ ...mockTool.userExperiences[0]!, quote: 'Great for **boilerplate**' }]
+      };
+      render(<AIToolCard tool={tool} />);
+
+      expect(screen.getByText('Request a license')).toBeInTheDocument();
+      expect(screen.getByText('copilot auth login').tagName).toBe('CODE');
+      expect(screen.getByText('boilerplate').tagName).toBe('STRONG');
+      expect(screen.getByRole('button', { name: /Great for boilerplate$/ })).toBeInTheDocument();
+    });
+
     it('renders licensing information when provided', () => {
       render(<AIToolCard tool={mockTool} />);
       
@@ -560,5 +627,13 @@ describe('AIToolCard Component', () => {
         rerender(<div />);
       });
     });
+
+    it('shows the category id when the data has no label for it', () => {
+      jest.spyOn(aiToolsDataService, 'getCategories').mockReturnValue({});
+
+      render(<AIToolCard tool={{ ...mockMinimalTool, category: 'testing-tool' }} />);
+
+      expect(screen.getByText('testing-tool')).toHaveAttribute('aria-label', 'Category: testing-tool');
+    });
   });
 });
\ No newline at end of file
@@ -1,22 +1,28 @@
-import React, { useState, useRef } from 'react';
-import { AITool, UserExperience, ToolCategory } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { ADOPTION_LEVEL_LABELS, AITool, MatchSnippet, UserExperience } from '../types';
+import { aiToolsDataService } from '../services/AIToolsDataService';
+import { markdownToPlainText } from '../services/MarkdownParser';
+import { HighlightedText } from './HighlightedText';
+import { MarkdownText } from './MarkdownText';
 import './AIToolCard.css';
 
 interface AIToolCardProps {
   tool: AITool;
   className?: string;
+  /** Expand and scroll to this tool, e.g. when it is the target of a deep link */
+  isSelected?: boolean;
+  /** Excerpt showing where the current search query matched */
+  matchSnippet?: MatchSnippet | null;
   onExperienceExpand?: (experienceId: string) => void;
+  onDescriptionToggle?: (toolId: string, isExpanded: boolean) => void;
+  /** Whether the tool is chosen for comparison */
+  isCompared?: boolean;
+  /** Disable choosing the tool for comparison, e.g. when enough are chosen */
+  isCompareDisabled?: boolean;
+  /** Shows a checkbox to choose the tool for comparison when provided */
+  onCompareToggle?: (toolId: string, isCompared: boolean) => void;
 }
 
-const CATEGORY_LABELS: Record<ToolCategory, string> = {
-  'code-assistant': 'Code Assistant',
-  'ide-extension': 'IDE Extension',
-  'research-tool': 'Research Tool',
-  'debugging-tool': 'Debugging Tool',
-  'testing-tool': 'Testing Tool',
-  'terminal-tool': 'Terminal Tool'
-};
-
 const SENTIMENT_LABELS: Record<UserExperience['sentiment'], string> = {
   'positive': 'Positive Experience',
   'mixed': 'Mixed Experience',
@@ -26,11 +32,26 @@ const SENTIMENT_LABELS: Record<UserExperience['sentiment'], string> = {
 export const AIToolCard: React.FC<AIToolCardProps> = ({
   tool,
   className = '',
-  onExperienceExpand
+  isSelected = false,
+  matchSnippet,
+  onExperienceExpand,
+  onDescriptionToggle,
+  isCompared = false,
+  isCompareDisabled = false,
+  onCompareToggle
 }) => {
   const [expandedExperiences, setExpandedExperiences] = useState<Set<string>>(new Set());
-  const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
+  const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(isSelected);
   const cardRef = useRef<HTMLElement>(null);
+  const categoryLabel = aiToolsDataService.getCategoryLabel(tool.category);
+
+  // Bring a deep-linked tool into view
+  useEffect(() => {
+    if (isSelected) {
+      setIsDescriptionExpanded(true);
+      cardRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'start' });
+    }
+  }, [isSelected]);
 
   const toggleExperience = (experienceId: string) => {
     const newExpanded = new Set(expandedExperiences);
@@ -45,6 +66,7 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
 
   const toggleDescription = () => {
     setIsDescriptionExpanded(!isDescriptionExpanded);
+    onDescriptionToggle?.(tool.id, !isDescriptionExpanded);
   };
 
   const handleExperienceKeyDown = (event: React.KeyboardEvent, experienceId: string) => {
@@ -74,18 +96,9 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
     return `ai-tool-card__experience--${sentiment}`;
   };
 
-  const getAdoptionLevelLabel = (level: string): string => {
-    switch (level) {
-      case 'individual': return 'Individual Use';
-      case 'team': return 'Team Adoption';
-      case 'organization': return 'Organization-wide';
-      default: return level;
-    }
-  };
-
   return (
     <article 
-      className={`ai-tool-card ${className}`}
+      className={`ai-tool-card ${isSelected ? 'ai-tool-card--selected' : ''} ${isCompared ? 'ai-tool-card--compared' : ''} ${className}`}
       ref={cardRef}
       aria-labelledby={`tool-${tool.id}-title`}
       aria-describedby={`tool-${tool.id}-description`}
@@ -101,10 +114,23 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
           </h2>
           <span 
             className="ai-tool-card__category"
-            aria-label={`Category: ${CATEGORY_LABELS[tool.category]}`}
+            aria-label={`Category: ${categoryLabel}`}
           >
-            {CATEGORY_LABELS[tool.category]}
+            {categoryLabel}
           </span>
+          {onCompareToggle && (
+            <label className="ai-tool-card__compare">
+              <input
+                type="checkbox"
+                className="ai-tool-card__compare-checkbox"
+                checked={isCompared}
+                disabled={isCompareDisabled && !isCompared}
+                onChange={(e) => onCompareToggle(tool.id, e.target.checked)}
+                aria-label={`Compare ${tool.name}`}
+              />
+              Compare
+            </label>
+          )}
         </div>
         
         {tool.officialLink && (
@@ -122,6 +148,13 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
         )}
       </header>
 
+      {/* Search Match */}
+      {matchSnippet && (
+        <p className="ai-tool-card__match-snippet">
+          <HighlightedText text={matchSnippet.text} matches={matchSnippet.matches} />
+        </p>
+      )}
+
       {/* Tool Description */}
       <div className="ai-tool-card__description-section">
         <button
@@ -146,12 +179,12 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
           className={`ai-tool-card__description ${isDescriptionExpanded ? 'expanded' : ''}`}
           aria-hidden={!isDescriptionExpanded}
         >
-          <p 
+          <div 
             id={`tool-${tool.id}-description`}
             className="ai-tool-card__description-text"
           >
-            {tool.description}
-          </p>
+            <MarkdownText text={tool.description} linkTerms />
+          </div>
         </div>
       </div>
 
@@ -185,11 +218,11 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
                   onKeyDown={(e) => handleExperienceKeyDown(e, experience.id)}
                   aria-expanded={expandedExperiences.has(experience.id)}
                   aria-controls={`experience-${experience.id}`}
-                  aria-label={`${SENTIMENT_LABELS[experience.sentiment]}: ${experience.quote}`}
+                  aria-label={`${SENTIMENT_LABELS[experience.sentiment]}: ${markdownToPlainText(experience.quote).join(' ')}`}
                   type="button"
                 >
                   <span className="ai-tool-card__experience-quote">
-                    "{experience.quote}"
+                    "<MarkdownText text={experience.quote} inline nonInteractive />"
                   </span>
                   <span 
                     className={`ai-tool-card__expand-icon ${expandedExperiences.has(experience.id) ? 'expanded' : ''}`}
@@ -230,7 +263,7 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
           <h3 className="ai-tool-card__section-title">Team Adoption</h3>
           <div className="ai-tool-card__adoption-content">
             <p className="ai-tool-card__adoption-level">
-              <strong>Level:</strong> {getAdoptionLevelLabel(tool.teamAdoption.level)}
+              <strong>Level:</strong> {ADOPTION_LEVEL_LABELS[tool.teamAdoption.level]}
             </p>
             <p className="ai-tool-card__adoption-notes">
               {tool.teamAdoption.notes}
@@ -258,14 +291,18 @@ export const AIToolCard: React.FC<AIToolCardProps> = ({
         {tool.internalSetupNotes && (
           <div className="ai-tool-card__setup-notes">
             <h4 className="ai-tool-card__footer-title">Setup Notes</h4>
-            <p className="ai-tool-card__footer-text">{tool.internalSetupNotes}</p>
+            <div className="ai-tool-card__footer-text">
+              <MarkdownText text={tool.internalSetupNotes} />
+            </div>
           </div>
         )}
         
         {tool.licensingNotes && (
           <div className="ai-tool-card__licensing">
             <h4 className="ai-tool-card__footer-title">Licensing</h4>
-            <p className="ai-tool-card__footer-text">{tool.licensingNotes}</p>
+            <div className="ai-tool-card__footer-text">
+              <MarkdownText text={tool.licensingNotes} />
+            </div>
           </div>
         )}
       </footer>
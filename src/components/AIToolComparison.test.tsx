@@ -0,0 +1,118 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { AIToolComparison } from './AIToolComparison';
+import { aiToolsDataService } from '../services/AIToolsDataService';
+import { AITool } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+const copilot: AITool = {
+  id: 'github-copilot',
+  name: 'GitHub Copilot',
+  category: 'ide-extension',
+  description: 'AI pair programmer',
+  userExperiences: [
+    {
+      id: 'copilot-exp-1',
+      quote: 'Fully sold after a few hours',
+      context: 'Development workflow',
+      useCase: 'Code completion',
+      sentiment: 'positive'
+    },
+    {
+      id: 'copilot-exp-2',
+      quote: 'Suggestions drift on large files',
+      context: 'Legacy code',
+      useCase: 'Refactoring',
+      sentiment: 'challenge'
+    },
+    {
+      id: 'copilot-exp-3',
+      quote: 'Good for tests, less for design',
+      context: 'Unit testing',
+      useCase: 'Test generation',
+      sentiment: 'positive'
+    }
+  ],
+  commonUseCases: ['Code completion', 'Unit testing'],
+  integrations: ['VS Code', 'JetBrains'],
+  licensingNotes: 'Requires a **Business** seat',
+  teamAdoption: { level: 'organization', notes: 'Rolled out to all engineers' }
+};
+
+const cursor: AITool = {
+  id: 'cursor',
+  name: 'Cursor',
+  category: 'code-assistant',
+  description: 'AI-first code editor',
+  userExperiences: [],
+  commonUseCases: ['Multi-file edits']
+};
+
+describe('AIToolComparison', () => {
+  const onRemoveTool = jest.fn();
+  const onClear = jest.fn();
+
+  beforeEach(() => {
+    jest.spyOn(aiToolsDataService, 'getCategories').mockReturnValue({
+      'code-assistant': { label: 'Code Assistant', description: 'Coding assistance' },
+      'ide-extension': { label: 'IDE Extension', description: 'Editor plugins' }
+    });
+  });
+
+  const renderComparison = (tools: AITool[]) =>
+    render(<AIToolComparison tools={tools} onRemoveTool={onRemoveTool} onClear={onClear} />);
+
+  const cellsOf = (rowName: string) => {
+    const row = screen.getAllByRole('row')
+      .find(candidate => within(candidate).queryByRole('rowheader', { name: rowName }));
+    return within(row as HTMLElement).getAllByRole('cell');
+  };
+
+  it('lays out each detail of the tools side by side', () => {
+    renderComparison([copilot, cursor]);
+
+    expect(screen.getByRole('table', { name: 'Comparison of GitHub Copilot, Cursor' })).toBeInTheDocument();
+    expect(cellsOf('Category').map(cell => cell.textContent)).toEqual(['IDE Extension', 'Code Assistant']);
+    expect(cellsOf('Integrations').map(cell => cell.textContent)).toEqual(['VS CodeJetBrains', 'None listed']);
+    expect(cellsOf('Licensing').map(cell => cell.textContent)).toEqual(['Requires a Business seat', 'Not documented']);
+    expect(cellsOf('Team adoption').map(cell => cell.textContent))
+      .toEqual(['Organization-wideRolled out to all engineers', 'Not documented']);
+    expect(cellsOf('Common use cases').map(cell => cell.textContent))
+      .toEqual(['Code completionUnit testing', 'Multi-file edits']);
+  });
+
+  it('breaks the user experiences down by sentiment', () => {
+    renderComparison([copilot, cursor]);
+
+    const [copilotCell, cursorCell] = cellsOf('User experiences');
+    expect(within(copilotCell as HTMLElement).getAllByRole('listitem').map(item => item.textContent))
+      .toEqual(['Positive: 2', 'Mixed: 0', 'Challenge: 1']);
+    expect(copilotCell).toHaveTextContent('3 experiences');
+    expect(cursorCell).toHaveTextContent('No experiences shared yet');
+  });
+
+  it('asks for another tool when only one is chosen', () => {
+    renderComparison([cursor]);
+
+    expect(screen.getByText('Choose another tool to compare with Cursor.')).toBeInTheDocument();
+  });
+
+  it('removes a tool or clears the comparison', () => {
+    renderComparison([copilot, cursor]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Cursor from comparison' }));
+    expect(onRemoveTool).toHaveBeenCalledWith('cursor');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear comparison' }));
+    expect(onClear).toHaveBeenCalled();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderComparison([copilot, cursor]);
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
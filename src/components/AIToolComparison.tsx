@@ -0,0 +1,177 @@
+/**
+ * AIToolComparison Component
+ *
+ * Lays out the tools chosen in the AI tools compare mode side by side: their
+ * category, integrations, licensing, team adoption, common use cases and how
+ * the shared user experiences break down by sentiment.
+ */
+
+import React from 'react';
+import { ADOPTION_LEVEL_LABELS, AITool, UserExperience } from '../types';
+import { aiToolsDataService } from '../services/AIToolsDataService';
+import { MarkdownText } from './MarkdownText';
+import './AIToolComparison.css';
+
+interface AIToolComparisonProps {
+  /** Tools to compare, in the order they were chosen */
+  tools: AITool[];
+  onRemoveTool: (toolId: string) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const SENTIMENTS: UserExperience['sentiment'][] = ['positive', 'mixed', 'challenge'];
+
+const SENTIMENT_LABELS: Record<UserExperience['sentiment'], string> = {
+  positive: 'Positive',
+  mixed: 'Mixed',
+  challenge: 'Challenge'
+};
+
+export const AIToolComparison: React.FC<AIToolComparisonProps> = ({
+  tools,
+  onRemoveTool,
+  onClear,
+  className = ''
+}) => {
+  const toolNames = tools.map(tool => tool.name).join(', ');
+
+  const renderList = (items: string[] | undefined, emptyText: string) =>
+    items && items.length > 0 ? (
+      <ul className="ai-tool-comparison__list">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    ) : (
+      <span className="ai-tool-comparison__empty">{emptyText}</span>
+    );
+
+  const renderSentiment = (tool: AITool) => {
+    const total = tool.userExperiences.length;
+    if (total === 0) {
+      return <span className="ai-tool-comparison__empty">No experiences shared yet</span>;
+    }
+
+    const breakdown = aiToolsDataService.getSentimentBreakdown(tool);
+    return (
+      <div className="ai-tool-comparison__sentiment">
+        <div className="ai-tool-comparison__sentiment-bar" aria-hidden="true">
+          {SENTIMENTS.filter(sentiment => breakdown[sentiment] > 0).map(sentiment => (
+            <span
+              key={sentiment}
+              className={`ai-tool-comparison__sentiment-fill ai-tool-comparison__sentiment-fill--${sentiment}`}
+              style={{ width: `${(breakdown[sentiment] / total) * 100}%` }}
+            />
+          ))}
+        </div>
+        <ul className="ai-tool-comparison__sentiment-counts">
+          {SENTIMENTS.map(sentiment => (
+            <li key={sentiment} className={`ai-tool-comparison__sentiment-count--${sentiment}`}>
+              {SENTIMENT_LABELS[sentiment]}: {breakdown[sentiment]}
+            </li>
+          ))}
+        </ul>
+        <span className="ai-tool-comparison__sentiment-total">
+          {total} {total === 1 ? 'experience' : 'experiences'}
+        </span>
+      </div>
+    );
+  };
+
+  const rows: { label: string; render: (tool: AITool) => React.ReactNode }[] = [
+    {
+      label: 'Category',
+      render: tool => aiToolsDataService.getCategoryLabel(tool.category)
+    },
+    {
+      label: 'Integrations',
+      render: tool => renderList(tool.integrations, 'None listed')
+    },
+    {
+      label: 'Licensing',
+      render: tool => tool.licensingNotes
+        ? <MarkdownText text={tool.licensingNotes} />
+        : <span className="ai-tool-comparison__empty">Not documented</span>
+    },
+    {
+      label: 'Team adoption',
+      render: tool => tool.teamAdoption ? (
+        <>
+          <strong className="ai-tool-comparison__adoption-level">{ADOPTION_LEVEL_LABELS[tool.teamAdoption.level]}</strong>
+          <p className="ai-tool-comparison__adoption-notes">{tool.teamAdoption.notes}</p>
+        </>
+      ) : (
+        <span className="ai-tool-comparison__empty">Not documented</span>
+      )
+    },
+    {
+      label: 'Common use cases',
+      render: tool => renderList(tool.commonUseCases, 'None listed')
+    },
+    {
+      label: 'User experiences',
+      render: renderSentiment
+    }
+  ];
+
+  return (
+    <section
+      className={`ai-tool-comparison ${className}`}
+      aria-labelledby="ai-tool-comparison-title"
+    >
+      <div className="ai-tool-comparison__header">
+        <h2 id="ai-tool-comparison-title" className="ai-tool-comparison__title">
+          Compare Tools
+        </h2>
+        <button type="button" className="ai-tool-comparison__clear" onClick={onClear}>
+          Clear comparison
+        </button>
+      </div>
+
+      {tools.length < 2 && (
+        <p className="ai-tool-comparison__hint">
+          Choose another tool to compare with {toolNames}.
+        </p>
+      )}
+
+      <div className="ai-tool-comparison__scroll">
+        <table className="ai-tool-comparison__table">
+          <caption className="ai-tool-comparison__caption">Comparison of {toolNames}</caption>
+          <thead>
+            <tr>
+              <td className="ai-tool-comparison__corner" />
+              {tools.map(tool => (
+                <th key={tool.id} scope="col" className="ai-tool-comparison__tool">
+                  <span className="ai-tool-comparison__tool-name">{tool.name}</span>
+                  <button
+                    type="button"
+                    className="ai-tool-comparison__remove"
+                    onClick={() => onRemoveTool(tool.id)}
+                    aria-label={`Remove ${tool.name} from comparison`}
+                  >
+                    Remove
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label}>
+                <th scope="row" className="ai-tool-comparison__row-label">{row.label}</th>
+                {tools.map(tool => (
+                  <td key={tool.id} className="ai-tool-comparison__cell">
+                    {row.render(tool)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default AIToolComparison;
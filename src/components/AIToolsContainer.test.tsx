@@ -1,10 +1,10 @@
 import React, { act } from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { AIToolsContainer } from './AIToolsContainer';
 import { aiToolsDataService } from '../services/AIToolsDataService';
-import { AITool, ToolCategory } from '../types';
+import { AITool, AIToolsData, ToolCategory } from '../types';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
@@ -74,6 +74,15 @@ const mockTools: AITool[] = [
   }
 ];
 
+const categories: AIToolsData['categories'] = {
+  'code-assistant': { label: 'Code Assistant', description: 'Coding assistance' },
+  'ide-extension': { label: 'IDE Extension', description: 'Editor plugins' },
+  'research-tool': { label: 'Research Tool', description: 'Research and documentation' },
+  'debugging-tool': { label: 'Debugging Tool', description: 'Debugging help' },
+  'testing-tool': { label: 'Testing Tool', description: 'Test generation' },
+  'terminal-tool': { label: 'Terminal Tool', description: 'AI-enhanced terminals' }
+};
+
 describe('AIToolsContainer', () => {
 
   beforeEach(() => {
@@ -87,11 +96,14 @@ describe('AIToolsContainer', () => {
       Promise.resolve(mockTools)
     );
     
+    mockAIToolsDataService.getCategoryLabel.mockImplementation(category => categories[category]?.label ?? category);
+
     mockAIToolsDataService.searchTools.mockImplementation((query: string) => {
       if (!query.trim()) return mockTools;
       return mockTools.filter(tool => 
         tool.name.toLowerCase().includes(query.toLowerCase()) ||
-        tool.description.toLowerCase().includes(query.toLowerCase())
+        tool.description.toLowerCase().includes(query.toLowerCase()) ||
+        tool.commonUseCases.some(useCase => useCase.toLowerCase().includes(query.toLowerCase()))
       );
     });
   });
@@ -146,6 +158,18 @@ describe('AIToolsContainer', () => {
       });
     });
 
+    it('should stop waiting for the tools when unmounted', async () => {
+      mockAIToolsDataService.loadTools.mockReturnValue(new Promise(() => {}));
+      const { unmount } = render(<AIToolsContainer />);
+
+      const [options] = mockAIToolsDataService.loadTools.mock.calls[0] ?? [];
+      expect(options?.signal?.aborted).toBe(false);
+
+      unmount();
+
+      expect(options?.signal?.aborted).toBe(true);
+    });
+
     it('should display correct results summary', async () => {
       await act(async () => {
         render(<AIToolsContainer />);
@@ -230,6 +254,22 @@ describe('AIToolsContainer', () => {
       });
     });
 
+    it('should keep the relevance order of search results and show match snippets', async () => {
+      const [warp, copilot] = mockTools;
+      mockAIToolsDataService.searchTools.mockReturnValue([copilot!, warp!]);
+      mockAIToolsDataService.getMatchSnippet.mockImplementation(tool => (
+        tool.id === copilot!.id ? { text: 'Code completion', matches: [{ start: 0, end: 4 }] } : null
+      ));
+
+      fireEvent.change(screen.getByLabelText('Search tools, descriptions, and use cases'), {
+        target: { value: 'code' }
+      });
+
+      const titles = screen.getAllByRole('heading', { level: 2 }).map(heading => heading.textContent);
+      expect(titles).toEqual(['GitHub Copilot', 'Warp']);
+      expect(screen.getByText('Code').tagName).toBe('MARK');
+    });
+
     it('should clear search when clear button is clicked', async () => {
       const searchInput = screen.getByLabelText('Search tools, descriptions, and use cases');
       
@@ -674,6 +714,116 @@ describe('AIToolsContainer', () => {
     });
   });
 
+  describe('Deep Linking', () => {
+    it('should expand and highlight the selected tool', async () => {
+      render(<AIToolsContainer selectedToolId="github-copilot" />);
+
+      const card = await screen.findByRole('article', { name: 'GitHub Copilot' });
+      expect(card).toHaveClass('ai-tool-card--selected');
+      expect(within(card).getByRole('button', { name: /Description/ })).toHaveAttribute('aria-expanded', 'true');
+
+      const otherCard = screen.getByRole('article', { name: 'Warp' });
+      expect(otherCard).not.toHaveClass('ai-tool-card--selected');
+      expect(within(otherCard).getByRole('button', { name: /Description/ })).toHaveAttribute('aria-expanded', 'false');
+    });
+
+    it('should report tools opened and closed by the user', async () => {
+      const onToolSelect = jest.fn();
+      render(<AIToolsContainer selectedToolId="github-copilot" onToolSelect={onToolSelect} />);
+
+      const warpCard = await screen.findByRole('article', { name: 'Warp' });
+      fireEvent.click(within(warpCard).getByRole('button', { name: /Description/ }));
+      expect(onToolSelect).toHaveBeenLastCalledWith('warp');
+
+      const copilotCard = screen.getByRole('article', { name: 'GitHub Copilot' });
+      fireEvent.click(within(copilotCard).getByRole('button', { name: /Description/ }));
+      expect(onToolSelect).toHaveBeenLastCalledWith(undefined);
+    });
+  });
+
+  describe('Compare Mode', () => {
+    beforeEach(() => {
+      mockAIToolsDataService.getSentimentBreakdown.mockReturnValue({ positive: 1, mixed: 0, challenge: 0 });
+    });
+
+    it('should lay out the chosen tools side by side and report the choice', async () => {
+      const onCompareChange = jest.fn();
+      render(<AIToolsContainer onCompareChange={onCompareChange} />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Compare tools' }));
+      expect(screen.getByRole('button', { name: 'Compare tools' })).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Compare GitHub Copilot' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Compare Warp' }));
+
+      expect(onCompareChange).toHaveBeenLastCalledWith(['github-copilot', 'warp']);
+      const table = screen.getByRole('table', { name: 'Comparison of GitHub Copilot, Warp' });
+      expect(within(table).getAllByRole('columnheader').map(header => header.textContent))
+        .toEqual(['GitHub CopilotRemove', 'WarpRemove']);
+      expect(within(table).getByRole('rowheader', { name: 'Licensing' })).toBeInTheDocument();
+    });
+
+    it('should open a shared comparison from its link, skipping unknown tools', async () => {
+      render(<AIToolsContainer compareToolIds={['perplexity', 'retired-tool', 'warp']} />);
+
+      const table = await screen.findByRole('table', { name: 'Comparison of Perplexity, Warp' });
+      expect(table).toBeInTheDocument();
+      expect(await screen.findByRole('checkbox', { name: 'Compare Perplexity' })).toBeChecked();
+      expect(screen.getByRole('checkbox', { name: 'Compare GitHub Copilot' })).not.toBeChecked();
+    });
+
+    it('should compare only as many tools from a link as fit', async () => {
+      const tools = ['a', 'b', 'c', 'd', 'e'].map(id => ({ ...mockTools[2]!, id, name: `Tool ${id}` }));
+      mockAIToolsDataService.loadTools.mockResolvedValue(tools);
+      render(<AIToolsContainer compareToolIds={['a', 'b', 'c', 'd', 'e']} />);
+
+      expect(await screen.findByRole('table', { name: 'Comparison of Tool a, Tool b, Tool c, Tool d' })).toBeInTheDocument();
+      const toolE = await screen.findByRole('checkbox', { name: 'Compare Tool e' });
+      expect(toolE).not.toBeChecked();
+      expect(toolE).toBeDisabled();
+    });
+
+    it('should remove tools from the comparison', async () => {
+      const onCompareChange = jest.fn();
+      render(<AIToolsContainer compareToolIds={['perplexity', 'warp']} onCompareChange={onCompareChange} />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Remove Perplexity from comparison' }));
+      expect(onCompareChange).toHaveBeenLastCalledWith(['warp']);
+      expect(screen.getByText('Choose another tool to compare with Warp.')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Clear comparison' }));
+      expect(onCompareChange).toHaveBeenLastCalledWith([]);
+      expect(screen.queryByRole('table')).not.toBeInTheDocument();
+    });
+
+    it('should stop adding tools once the comparison is full', async () => {
+      const tools = ['a', 'b', 'c', 'd', 'e'].map(id => ({ ...mockTools[2]!, id, name: `Tool ${id}` }));
+      mockAIToolsDataService.loadTools.mockResolvedValue(tools);
+      render(<AIToolsContainer compareToolIds={['a', 'b', 'c', 'd']} />);
+
+      expect(await screen.findByRole('checkbox', { name: 'Compare Tool e' })).toBeDisabled();
+      expect(screen.getByRole('checkbox', { name: 'Compare Tool a' })).toBeEnabled();
+    });
+
+    it('should clear the comparison when leaving compare mode', async () => {
+      const onCompareChange = jest.fn();
+      render(<AIToolsContainer compareToolIds={['warp']} onCompareChange={onCompareChange} />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Compare tools' }));
+
+      expect(onCompareChange).toHaveBeenLastCalledWith([]);
+      expect(screen.queryByRole('checkbox', { name: 'Compare Warp' })).not.toBeInTheDocument();
+    });
+
+    it('should have no accessibility violations while comparing', async () => {
+      const { container } = render(<AIToolsContainer compareToolIds={['warp', 'github-copilot']} />);
+
+      await screen.findByRole('table');
+
+      expect(await axe(container)).toHaveNoViolations();
+    });
+  });
+
   describe('Custom CSS Classes', () => {
     it('should apply custom className prop', async () => {
       let container: HTMLElement;
@@ -1,26 +1,38 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { AITool, ToolCategory } from '../types';
 import { aiToolsDataService } from '../services/AIToolsDataService';
+import { routerService } from '../services/RouterService';
+import { useLoadSignal } from '../hooks/useLoadSignal';
 import { AIToolCard } from './AIToolCard';
+import { AIToolComparison } from './AIToolComparison';
 import { SkeletonLoader } from './SkeletonLoader';
 import { ErrorMessage } from './ErrorMessage';
 import './AIToolsContainer.css';
 
 interface AIToolsContainerProps {
   className?: string;
+  /** Tool to expand and scroll to, e.g. from a #/ai-tools/:id link */
+  selectedToolId?: string;
+  onToolSelect?: (toolId: string | undefined) => void;
+  /** Tools to compare side by side, e.g. from a #/ai-tools?compare=... link */
+  compareToolIds?: string[];
+  /** Called with the tools to compare whenever the comparison changes */
+  onCompareChange?: (toolIds: string[]) => void;
 }
 
-const CATEGORY_LABELS: Record<ToolCategory, string> = {
-  'code-assistant': 'Code Assistant',
-  'ide-extension': 'IDE Extension',
-  'research-tool': 'Research Tool',
-  'debugging-tool': 'Debugging Tool',
-  'testing-tool': 'Testing Tool',
-  'terminal-tool': 'Terminal Tool'
-};
+/**
+ * Most tools that fit side by side in the comparison
+ */
+export const MAX_COMPARED_TOOLS = 4;
+
+const NO_TOOLS: string[] = [];
 
 export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
-  className = ''
+  className = '',
+  selectedToolId,
+  onToolSelect,
+  compareToolIds = NO_TOOLS,
+  onCompareChange
 }) => {
   const [tools, setTools] = useState<AITool[]>([]);
   const [filteredTools, setFilteredTools] = useState<AITool[]>([]);
@@ -29,48 +41,35 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
-  const [errorType, setErrorType] = useState<'network' | 'data' | 'generic'>('generic');
+  const [loadError, setLoadError] = useState<unknown>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>(compareToolIds);
+  const [isCompareMode, setIsCompareMode] = useState(compareToolIds.length > 0);
 
   const searchInputRef = useRef<HTMLInputElement>(null);
   const categoryFilterRef = useRef<HTMLDivElement>(null);
 
-  // Load AI tools data on mount
+  const startLoad = useLoadSignal();
+
+  // Follow the comparison in the URL, e.g. after back or forward
   useEffect(() => {
-    loadAIToolsData();
-  }, []);
+    setComparedIds(compareToolIds);
+    if (compareToolIds.length > 0) {
+      setIsCompareMode(true);
+    }
+  }, [compareToolIds]);
 
   // Filter and search tools when dependencies change
   const processedTools = useMemo(() => {
-    let result = tools;
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      const searchQueryLower = searchQuery.toLowerCase().trim();
-      result = tools.filter(tool => 
-        tool.name.toLowerCase().includes(searchQueryLower) ||
-        tool.description.toLowerCase().includes(searchQueryLower) ||
-        tool.commonUseCases.some(useCase => 
-          useCase.toLowerCase().includes(searchQueryLower)
-        ) ||
-        tool.userExperiences.some(experience =>
-          experience.quote.toLowerCase().includes(searchQueryLower) ||
-          experience.context.toLowerCase().includes(searchQueryLower) ||
-          experience.useCase.toLowerCase().includes(searchQueryLower)
-        ) ||
-        (tool.integrations && tool.integrations.some(integration =>
-          integration.toLowerCase().includes(searchQueryLower)
-        ))
-      );
-    }
+    // Search results arrive ranked by relevance; browse alphabetically otherwise
+    let result = searchQuery.trim()
+      ? aiToolsDataService.searchTools(searchQuery)
+      : [...tools].sort((a, b) => a.name.localeCompare(b.name));
 
     // Apply category filter
     if (selectedCategory) {
       result = result.filter(tool => tool.category === selectedCategory);
     }
 
-    // Sort alphabetically by name
-    result = result.sort((a, b) => a.name.localeCompare(b.name));
-
     return result;
   }, [tools, searchQuery, selectedCategory]);
 
@@ -79,32 +78,35 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
     setFilteredTools(processedTools);
   }, [processedTools]);
 
-  const loadAIToolsData = async () => {
+  const loadAIToolsData = useCallback(async () => {
+    const signal = startLoad();
     try {
       setIsLoading(true);
       setError(null);
       setIsRetrying(false);
       
-      const loadedTools = await aiToolsDataService.loadTools();
+      const loadedTools = await aiToolsDataService.loadTools({ signal });
       setTools(loadedTools);
     } catch (err) {
+      if (signal.aborted) {
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Failed to load AI tools data';
       setError(errorMessage);
-      
-      // Determine error type for better user experience
-      if (errorMessage.includes('Network error') || errorMessage.includes('fetch') || errorMessage.includes('timeout')) {
-        setErrorType('network');
-      } else if (errorMessage.includes('Invalid AI tools data') || errorMessage.includes('format') || errorMessage.includes('malformed')) {
-        setErrorType('data');
-      } else {
-        setErrorType('generic');
-      }
+      setLoadError(err);
       
       console.error('Error loading AI tools:', err);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  };
+  }, [startLoad]);
+
+  // Load AI tools data on mount
+  useEffect(() => {
+    loadAIToolsData();
+  }, [loadAIToolsData]);
 
   const handleRetry = async () => {
     setIsRetrying(true);
@@ -182,6 +184,42 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
     searchInputRef.current?.focus();
   };
 
+  const handleToolDescriptionToggle = (toolId: string, isExpanded: boolean) => {
+    if (isExpanded) {
+      onToolSelect?.(toolId);
+    } else if (toolId === selectedToolId) {
+      onToolSelect?.(undefined);
+    }
+  };
+
+  // Tools to compare in the order they were chosen; ids of tools that are
+  // not in the data, e.g. from an old link, are left out, and a link naming
+  // more tools than fit shows only the first of them
+  const comparedTools = useMemo(
+    () => comparedIds
+      .map(id => tools.find(tool => tool.id === id))
+      .filter((tool): tool is AITool => tool !== undefined)
+      .slice(0, MAX_COMPARED_TOOLS),
+    [comparedIds, tools]
+  );
+
+  const updateComparison = (toolIds: string[]) => {
+    setComparedIds(toolIds);
+    onCompareChange?.(toolIds);
+  };
+
+  const handleCompareToggle = (toolId: string, isCompared: boolean) => {
+    const others = comparedTools.map(tool => tool.id).filter(id => id !== toolId);
+    updateComparison(isCompared ? [...others, toolId].slice(0, MAX_COMPARED_TOOLS) : others);
+  };
+
+  const toggleCompareMode = () => {
+    if (isCompareMode) {
+      updateComparison([]);
+    }
+    setIsCompareMode(!isCompareMode);
+  };
+
   // Get available categories from loaded tools
   const availableCategories = useMemo(() => {
     const categories = new Set<ToolCategory>();
@@ -211,13 +249,13 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
         <ErrorMessage
           title="Unable to Load AI Tools"
           message={error}
-          type={errorType}
+          error={loadError}
           onRetry={handleRetry}
           isRetrying={isRetrying}
           actions={[
             {
               label: 'Go to Glossary',
-              onClick: () => window.location.hash = '#glossary',
+              onClick: () => routerService.navigate({ view: 'glossary' }),
               variant: 'secondary'
             }
           ]}
@@ -298,14 +336,40 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
                   className={`ai-tools-container__category-button ${selectedCategory === category ? 'active' : ''}`}
                   aria-pressed={selectedCategory === category}
                 >
-                  {CATEGORY_LABELS[category]}
+                  {aiToolsDataService.getCategoryLabel(category)}
                 </button>
               ))}
             </div>
           </fieldset>
         </div>
+
+        {/* Compare Mode */}
+        <div className="ai-tools-container__compare">
+          <button
+            type="button"
+            className="ai-tools-container__compare-toggle"
+            onClick={toggleCompareMode}
+            aria-pressed={isCompareMode}
+            aria-describedby="compare-help"
+          >
+            Compare tools
+          </button>
+          <p id="compare-help" className="ai-tools-container__compare-help">
+            {isCompareMode
+              ? `Choose up to ${MAX_COMPARED_TOOLS} tools to see them side by side. ${comparedTools.length} chosen.`
+              : 'Lay out tools side by side, with a link you can share.'}
+          </p>
+        </div>
       </div>
 
+      {isCompareMode && comparedTools.length > 0 && (
+        <AIToolComparison
+          tools={comparedTools}
+          onRemoveTool={(toolId) => handleCompareToggle(toolId, false)}
+          onClear={() => updateComparison([])}
+        />
+      )}
+
       {/* Results Summary */}
       <div className="ai-tools-container__results" aria-live="polite">
         <p className="ai-tools-container__results-text">
@@ -313,14 +377,14 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
             <>
               No tools found
               {searchQuery && ` matching "${searchQuery}"`}
-              {selectedCategory && ` in ${CATEGORY_LABELS[selectedCategory]}`}
+              {selectedCategory && ` in ${aiToolsDataService.getCategoryLabel(selectedCategory)}`}
               . Try adjusting your filters.
             </>
           ) : (
             <>
               Showing {filteredTools.length} of {tools.length} tools
               {searchQuery && ` matching "${searchQuery}"`}
-              {selectedCategory && ` in ${CATEGORY_LABELS[selectedCategory]}`}
+              {selectedCategory && ` in ${aiToolsDataService.getCategoryLabel(selectedCategory)}`}
             </>
           )}
         </p>
@@ -353,6 +417,14 @@ export const AIToolsContainer: React.FC<AIToolsContainerProps> = ({
               <AIToolCard
                 key={tool.id}
                 tool={tool}
+                isSelected={tool.id === selectedToolId}
+                matchSnippet={searchQuery.trim() ? aiToolsDataService.getMatchSnippet(tool, searchQuery) : null}
+                onDescriptionToggle={handleToolDescriptionToggle}
+                {...(isCompareMode && {
+                  isCompared: comparedTools.includes(tool),
+                  isCompareDisabled: comparedTools.length >= MAX_COMPARED_TOOLS,
+                  onCompareToggle: handleCompareToggle
+                })}
                 className="ai-tools-container__tool-card"
               />
             ))}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { render, screen, fireEvent, act, within } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { ContentValidationPanel } from './ContentValidationPanel';
+import { validationReportService } from '../services/ValidationReportService';
+import { ValidationReport } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+// Mock the ValidationReportService
+jest.mock('../services/ValidationReportService');
+const mockValidationReportService = validationReportService as jest.Mocked<typeof validationReportService>;
+
+const glossaryReport: ValidationReport = {
+  file: 'glossary.json',
+  skipped: [
+    {
+      index: 3,
+      id: 'token',
+      issues: [{ path: 'terms[3].category', message: 'expected one of basic, intermediate, advanced' }]
+    },
+    { index: 7, issues: [{ path: 'terms[7].id', message: 'is required' }] }
+  ]
+};
+
+describe('ContentValidationPanel', () => {
+  let notify: (reports: ValidationReport[]) => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockValidationReportService.getReports.mockReturnValue([]);
+    mockValidationReportService.subscribe.mockImplementation(listener => {
+      notify = listener;
+      return jest.fn();
+    });
+  });
+
+  it('renders nothing when no record was skipped', () => {
+    render(<ContentValidationPanel />);
+
+    expect(screen.queryByRole('complementary')).not.toBeInTheDocument();
+  });
+
+  it('lists skipped records with the path and reason of each issue', () => {
+    mockValidationReportService.getReports.mockReturnValue([glossaryReport]);
+    render(<ContentValidationPanel />);
+
+    const panel = screen.getByRole('complementary', { name: 'Content validation' });
+    fireEvent.click(within(panel).getByText('2 invalid records were skipped'));
+
+    expect(within(panel).getByRole('heading', { name: 'glossary.json' })).toBeInTheDocument();
+    expect(within(panel).getByText('#3 (token)')).toBeInTheDocument();
+    expect(within(panel).getByText('terms[3].category')).toBeInTheDocument();
+    expect(within(panel).getByText(/expected one of basic, intermediate, advanced/)).toBeInTheDocument();
+    expect(within(panel).getByText('#7')).toBeInTheDocument();
+  });
+
+  it('shows files reported after mounting', () => {
+    render(<ContentValidationPanel />);
+
+    act(() => notify([{
+      file: 'questions.json',
+      skipped: [{ index: 0, id: 'q1', issues: [{ path: 'questions[0].type', message: 'is required' }] }]
+    }]));
+
+    expect(screen.getByText('1 invalid record was skipped')).toBeInTheDocument();
+
+    act(() => notify([]));
+
+    expect(screen.queryByRole('complementary')).not.toBeInTheDocument();
+  });
+
+  it('stops listening when unmounted', () => {
+    const unsubscribe = jest.fn();
+    mockValidationReportService.subscribe.mockReturnValue(unsubscribe);
+    const { unmount } = render(<ContentValidationPanel />);
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('has no accessibility violations', async () => {
+    mockValidationReportService.getReports.mockReturnValue([glossaryReport]);
+    const { container } = render(<ContentValidationPanel />);
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * ContentValidationPanel Component
+ *
+ * Developer-only panel listing the records the data services skipped while
+ * loading content, with the path and reason of every issue, so content
+ * authors can see why an entry is missing from the portal.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ValidationReport } from '../types';
+import { validationReportService } from '../services/ValidationReportService';
+import './ContentValidationPanel.css';
+
+interface ContentValidationPanelProps {
+  className?: string;
+}
+
+export const ContentValidationPanel: React.FC<ContentValidationPanelProps> = ({
+  className = ''
+}) => {
+  const [reports, setReports] = useState<ValidationReport[]>(
+    () => validationReportService.getReports()
+  );
+
+  // Follow files loaded after the panel mounted
+  useEffect(() => {
+    return validationReportService.subscribe(setReports);
+  }, []);
+
+  if (reports.length === 0) {
+    return null;
+  }
+
+  const skippedCount = reports.reduce((count, report) => count + report.skipped.length, 0);
+
+  return (
+    <aside className={`content-validation-panel ${className}`} aria-label="Content validation">
+      <details>
+        <summary className="content-validation-panel__summary">
+          {skippedCount} invalid {skippedCount === 1 ? 'record was' : 'records were'} skipped
+        </summary>
+        {reports.map(report => (
+          <section key={report.file} className="content-validation-panel__file">
+            <h2 className="content-validation-panel__file-name">{report.file}</h2>
+            <ul className="content-validation-panel__records">
+              {report.skipped.map(record => (
+                <li key={record.index} className="content-validation-panel__record">
+                  <span className="content-validation-panel__record-name">
+                    #{record.index}{record.id && ` (${record.id})`}
+                  </span>
+                  <ul className="content-validation-panel__issues">
+                    {record.issues.map(issue => (
+                      <li key={`${issue.path}: ${issue.message}`}>
+                        <code>{issue.path}</code>: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </details>
+    </aside>
+  );
+};
+
+export default ContentValidationPanel;
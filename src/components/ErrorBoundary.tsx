@@ -6,6 +6,9 @@
  */
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { ErrorMessage } from './ErrorMessage';
+import { AppError, NotFoundError } from '../services/AppErrors';
+import { routerService } from '../services/RouterService';
 import './ErrorBoundary.css';
 
 interface ErrorBoundaryState {
@@ -65,6 +68,31 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
     window.location.reload();
   };
 
+  handleGoHome = (): void => {
+    routerService.navigate({ view: 'home' });
+    this.handleRetry();
+  };
+
+  /**
+   * Fallback for errors thrown by the services, whose class says what went
+   * wrong and whether trying again can help
+   */
+  renderAppError(error: AppError): ReactNode {
+    return (
+      <div className="error-boundary">
+        <ErrorMessage
+          error={error}
+          message={error.message}
+          onRetry={this.handleRetry}
+          actions={error instanceof NotFoundError ? [
+            { label: 'Go to Home', onClick: this.handleGoHome, variant: 'primary' }
+          ] : []}
+          details={error.toString()}
+        />
+      </div>
+    );
+  }
+
   override render(): ReactNode {
     if (this.state.hasError) {
       // Custom fallback UI
@@ -72,6 +100,10 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
         return this.props.fallback;
       }
 
+      if (this.state.error instanceof AppError) {
+        return this.renderAppError(this.state.error);
+      }
+
       // Default error UI
       return (
         <div className="error-boundary" role="alert">
@@ -8,6 +8,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { act } from 'react-dom/test-utils';
 import { ErrorMessage } from './ErrorMessage';
+import { ErrorBoundary } from './ErrorBoundary';
 import { LoadingSpinner } from './LoadingSpinner';
 import { SkeletonLoader } from './SkeletonLoader';
 import { GlossaryContainer } from './GlossaryContainer';
@@ -16,6 +17,8 @@ import { ProgressTracker } from './ProgressTracker';
 import { glossaryDataService } from '../services/GlossaryDataService';
 import { quizDataService } from '../services/QuizDataService';
 import { localStorageService } from '../services/LocalStorageService';
+import { routerService } from '../services/RouterService';
+import { DataValidationError, NetworkError, NotFoundError, StorageError } from '../services/AppErrors';
 
 // Mock services
 jest.mock('../services/GlossaryDataService');
@@ -135,6 +138,116 @@ describe('Error Handling Components', () => {
     });
   });
 
+  describe('Typed Errors', () => {
+    it('should pick the type from the error class', () => {
+      render(
+        <ErrorMessage
+          message="Request timeout"
+          error={new NetworkError('timeout', 'Request timeout')}
+          onRetry={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('Connection Problem')).toBeInTheDocument();
+      expect(screen.getByText('Try Again')).toBeInTheDocument();
+    });
+
+    it('should not offer a retry when retrying cannot help', () => {
+      render(
+        <ErrorMessage
+          message="Learning path not found"
+          error={new NotFoundError('Learning path not found', 'unknown-path')}
+          onRetry={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('Not Found')).toBeInTheDocument();
+      expect(screen.queryByText('Try Again')).not.toBeInTheDocument();
+    });
+
+    it('should list the records that failed validation in the details', () => {
+      render(
+        <ErrorMessage
+          message="No valid terms found"
+          error={new DataValidationError('empty', 'No valid terms found', {
+            invalidRecords: [
+              { index: 0, id: 'token', issues: [{ path: 'terms[0].category', message: 'expected one of basic, advanced' }] },
+              { index: 2, issues: [{ path: 'terms[2].id', message: 'is required' }] }
+            ]
+          })}
+          showDetails={true}
+        />
+      );
+
+      expect(screen.getByText('Invalid Data')).toBeInTheDocument();
+      expect(screen.getByText(/Invalid records: #0 \(token\), #2/)).toBeInTheDocument();
+      expect(screen.getByText(/terms\[0\]\.category: expected one of basic, advanced/)).toBeInTheDocument();
+    });
+
+    it('should keep an explicit type', () => {
+      render(
+        <ErrorMessage
+          message="Unable to save"
+          type="data"
+          error={new StorageError('write', 'Unable to save')}
+        />
+      );
+
+      expect(screen.getByText('Data Loading Error')).toBeInTheDocument();
+    });
+  });
+
+  describe('ErrorBoundary Component', () => {
+    const Thrower: React.FC<{ error: Error }> = ({ error }) => {
+      throw error;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should show the generic fallback for unexpected errors', () => {
+      render(
+        <ErrorBoundary>
+          <Thrower error={new Error('Boom')} />
+        </ErrorBoundary>
+      );
+
+      expect(screen.getByText('Something went wrong')).toBeInTheDocument();
+      expect(screen.getByText('Try Again')).toBeInTheDocument();
+    });
+
+    it('should present typed errors by their class', () => {
+      render(
+        <ErrorBoundary>
+          <Thrower error={new StorageError('read', 'Your progress could not be read.')} />
+        </ErrorBoundary>
+      );
+
+      expect(screen.getByText('Storage Error')).toBeInTheDocument();
+      expect(screen.getByText('Your progress could not be read.')).toBeInTheDocument();
+      expect(screen.queryByText('Try Again')).not.toBeInTheDocument();
+    });
+
+    it('should offer a way home for missing content', () => {
+      const navigateSpy = jest.spyOn(routerService, 'navigate').mockImplementation(() => {});
+
+      render(
+        <ErrorBoundary>
+          <Thrower error={new NotFoundError('Term not found', 'unknown-term')} />
+        </ErrorBoundary>
+      );
+
+      fireEvent.click(screen.getByText('Go to Home'));
+
+      expect(navigateSpy).toHaveBeenCalledWith({ view: 'home' });
+    });
+  });
+
   describe('LoadingSpinner Component', () => {
     it('should render with default props', () => {
       render(<LoadingSpinner />);
@@ -189,6 +302,12 @@ describe('Component Error Handling', () => {
       bestScore: 0
     });
     mockLocalStorageService.isLocalStorageAvailable.mockReturnValue(true);
+    mockLocalStorageService.getAnswerHistory.mockReturnValue([]);
+    mockQuizService.getWeakestTerms.mockReturnValue([]);
+    mockGlossaryService.getAllTerms.mockReturnValue([]);
+    mockGlossaryService.findTermMentions.mockReturnValue([]);
+    mockGlossaryService.getRelatedTerms.mockReturnValue([]);
+    mockGlossaryService.getPrerequisites.mockReturnValue([]);
   });
 
   describe('GlossaryContainer Error Handling', () => {
@@ -288,7 +407,7 @@ describe('Component Error Handling', () => {
 
     it('should handle localStorage errors', async () => {
       mockQuizService.loadQuestions.mockResolvedValue([]);
-      mockLocalStorageService.getProgress.mockImplementation(() => {
+      mockLocalStorageService.getReviewSchedule.mockImplementation(() => {
         throw new Error('localStorage error');
       });
 
@@ -301,7 +420,7 @@ describe('Component Error Handling', () => {
 
     it('should handle no questions available error', async () => {
       mockQuizService.loadQuestions.mockResolvedValue([]);
-      mockQuizService.selectRandomQuestions.mockReturnValue([]);
+      mockQuizService.selectScheduledQuestions.mockReturnValue([]);
 
       render(<QuizContainer />);
 
@@ -441,7 +560,7 @@ describe('Error Recovery Paths', () => {
 
     fireEvent.click(screen.getByText('Go to Quiz'));
     
-    expect(window.location.hash).toBe('#quiz');
+    expect(window.location.hash).toBe('#/quiz');
   });
 
   it('should allow page reload as recovery option', async () => {
@@ -5,6 +5,8 @@
  */
 
 import React from 'react';
+import { ErrorKind } from '../types';
+import { describeErrorDetails, getErrorKind, isRetryableError } from '../services/AppErrors';
 import './ErrorMessage.css';
 
 export interface ErrorMessageProps {
@@ -12,9 +14,14 @@ export interface ErrorMessageProps {
   title?: string;
   /** Error message */
   message: string;
+  /**
+   * The error being reported; its class picks the type when none is given
+   * and hides the retry button when retrying cannot help
+   */
+  error?: unknown;
   /** Error type for styling */
-  type?: 'network' | 'data' | 'storage' | 'validation' | 'generic';
-  /** Retry callback */
+  type?: ErrorKind;
+  /** Retry callback, offered unless the error says retrying cannot help */
   onRetry?: () => void;
   /** Whether retry is in progress */
   isRetrying?: boolean;
@@ -69,6 +76,15 @@ const ERROR_CONFIGS = {
       'Contact support if the problem persists'
     ]
   },
+  'not-found': {
+    icon: '🔍',
+    title: 'Not Found',
+    suggestions: [
+      'The content may have moved or been removed',
+      'Check the link you followed',
+      'Choose another option from the menu'
+    ]
+  },
   generic: {
     icon: '❌',
     title: 'Something Went Wrong',
@@ -83,7 +99,8 @@ const ERROR_CONFIGS = {
 export const ErrorMessage: React.FC<ErrorMessageProps> = ({
   title,
   message,
-  type = 'generic',
+  error,
+  type = getErrorKind(error),
   onRetry,
   isRetrying = false,
   actions = [],
@@ -93,6 +110,8 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
 }) => {
   const config = ERROR_CONFIGS[type];
   const displayTitle = title || config.title;
+  const canRetry = Boolean(onRetry) && isRetryableError(error);
+  const detailText = [details, describeErrorDetails(error)].filter(Boolean).join('\n');
 
   return (
     <div className={`error-message error-message--${type} ${className}`} role="alert">
@@ -120,7 +139,7 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
         </div>
 
         <div className="error-message__actions">
-          {onRetry && (
+          {canRetry && (
             <button
               type="button"
               className="error-message__button error-message__button--primary"
@@ -151,13 +170,13 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
           </button>
         </div>
 
-        {showDetails && details && (
+        {showDetails && detailText && (
           <details className="error-message__details">
             <summary className="error-message__details-summary">
               Technical Details (Development Only)
             </summary>
             <pre className="error-message__details-content">
-              {details}
+              {detailText}
             </pre>
           </details>
         )}
@@ -0,0 +1,167 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { GlobalSearch } from './GlobalSearch';
+import { searchService } from '../services/SearchService';
+import { SearchResultGroup } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+// Mock the SearchService
+jest.mock('../services/SearchService');
+const mockSearchService = searchService as jest.Mocked<typeof searchService>;
+
+const mockGroups: SearchResultGroup[] = [
+  {
+    type: 'term',
+    results: [
+      {
+        type: 'term',
+        id: 'rag',
+        title: 'Retrieval-Augmented Generation (RAG)',
+        snippet: 'Combining a language model with document retrieval.',
+        score: 30,
+        route: { view: 'glossary', termId: 'rag' }
+      }
+    ]
+  },
+  {
+    type: 'introduction',
+    results: [
+      {
+        type: 'introduction',
+        id: 'productive-friction',
+        title: 'Productive Friction',
+        snippet: 'Relying on AI for every answer removes the friction.',
+        score: 10,
+        route: { view: 'introduction', sectionId: 'productive-friction' }
+      }
+    ]
+  }
+];
+
+describe('GlobalSearch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSearchService.isIndexed.mockReturnValue(false);
+    mockSearchService.loadIndex.mockResolvedValue(undefined);
+    mockSearchService.search.mockReturnValue(mockGroups);
+  });
+
+  const typeQuery = async (query: string) => {
+    const input = screen.getByLabelText('Search the portal');
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: query } });
+    await screen.findByRole('heading', { name: 'Glossary Terms' });
+    return input;
+  };
+
+  it('renders a labelled search box', () => {
+    render(<GlobalSearch />);
+
+    expect(screen.getByRole('search')).toBeInTheDocument();
+    expect(screen.getByLabelText('Search the portal')).toHaveAttribute('type', 'search');
+  });
+
+  it('loads the search index when the search box is first used', async () => {
+    render(<GlobalSearch />);
+
+    await typeQuery('rag');
+
+    expect(mockSearchService.loadIndex).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows grouped results that link to their views', async () => {
+    render(<GlobalSearch />);
+
+    await typeQuery('rag');
+
+    const termGroup = screen.getByRole('region', { name: 'Glossary Terms' });
+    expect(within(termGroup).getByRole('link', { name: /Retrieval-Augmented Generation/ }))
+      .toHaveAttribute('href', '#/glossary/term/rag');
+    expect(within(termGroup).getByText('Combining a language model with document retrieval.')).toBeInTheDocument();
+
+    const introGroup = screen.getByRole('region', { name: 'Introduction' });
+    expect(within(introGroup).getByRole('link', { name: /Productive Friction/ }))
+      .toHaveAttribute('href', '#/introduction/productive-friction');
+  });
+
+  it('shows a message when nothing matches', async () => {
+    mockSearchService.search.mockReturnValue([]);
+    render(<GlobalSearch />);
+
+    const input = screen.getByLabelText('Search the portal');
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'zebra' } });
+
+    expect(await screen.findByText('No results for "zebra". Try a different word.')).toBeInTheDocument();
+  });
+
+  it('shows an error when the index cannot be loaded', async () => {
+    mockSearchService.loadIndex.mockRejectedValue(new Error('Network error'));
+    render(<GlobalSearch />);
+
+    const input = screen.getByLabelText('Search the portal');
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'rag' } });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Search is unavailable right now.');
+  });
+
+  it('loads the index again when retried', async () => {
+    mockSearchService.loadIndex.mockRejectedValueOnce(new Error('Network error'));
+    render(<GlobalSearch />);
+
+    const input = screen.getByLabelText('Search the portal');
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'rag' } });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Try again' }));
+
+    expect(await screen.findByRole('link', { name: /Retrieval-Augmented Generation/ })).toBeInTheDocument();
+    expect(mockSearchService.loadIndex).toHaveBeenCalledTimes(2);
+  });
+
+  it('clears the search after a result is chosen', async () => {
+    render(<GlobalSearch />);
+
+    const input = await typeQuery('rag');
+    fireEvent.click(screen.getByRole('link', { name: /Productive Friction/ }));
+
+    expect(input).toHaveValue('');
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+
+  it('supports arrow key navigation and Escape', async () => {
+    render(<GlobalSearch />);
+
+    const input = await typeQuery('rag');
+    const [firstLink, secondLink] = screen.getAllByRole('link');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(firstLink).toHaveFocus();
+
+    fireEvent.keyDown(firstLink!, { key: 'ArrowDown' });
+    expect(secondLink).toHaveFocus();
+
+    fireEvent.keyDown(secondLink!, { key: 'ArrowUp' });
+    expect(firstLink).toHaveFocus();
+
+    fireEvent.keyDown(firstLink!, { key: 'ArrowUp' });
+    expect(input).toHaveFocus();
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(input).toHaveValue('');
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+
+  it('has no accessibility violations with results open', async () => {
+    const { container } = render(<GlobalSearch />);
+
+    await typeQuery('rag');
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+});
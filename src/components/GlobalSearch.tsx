@@ -0,0 +1,218 @@
+/**
+ * GlobalSearch Component
+ *
+ * Header search box that queries glossary terms, AI tools and introduction
+ * sections at once, showing grouped, ranked results that link to the
+ * matching view.
+ */
+
+import React, { useState, useRef, useMemo } from 'react';
+import { SearchResultType } from '../types';
+import { searchService } from '../services/SearchService';
+import { routerService } from '../services/RouterService';
+import './GlobalSearch.css';
+
+interface GlobalSearchProps {
+  className?: string;
+}
+
+type IndexStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+const GROUP_LABELS: Record<SearchResultType, string> = {
+  'term': 'Glossary Terms',
+  'tool': 'AI Tools',
+  'introduction': 'Introduction'
+};
+
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({
+  className = ''
+}) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [indexStatus, setIndexStatus] = useState<IndexStatus>(
+    searchService.isIndexed() ? 'ready' : 'idle'
+  );
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+
+  const resultGroups = useMemo(() => {
+    if (indexStatus !== 'ready' || !query.trim()) {
+      return [];
+    }
+    return searchService.search(query);
+  }, [indexStatus, query]);
+
+  const loadIndex = async () => {
+    try {
+      setIndexStatus('loading');
+      await searchService.loadIndex();
+      setIndexStatus('ready');
+    } catch (err) {
+      setIndexStatus('error');
+    }
+  };
+
+  // Build the index the first time the search box is used
+  const ensureIndex = () => {
+    if (indexStatus === 'idle') {
+      loadIndex();
+    }
+  };
+
+  const closeSearch = () => {
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const getResultLinks = (): HTMLAnchorElement[] => {
+    return Array.from(resultsRef.current?.querySelectorAll('a') ?? []);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const links = getResultLinks();
+    const currentIndex = links.indexOf(document.activeElement as HTMLAnchorElement);
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        links[Math.min(currentIndex + 1, links.length - 1)]?.focus();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (currentIndex <= 0) {
+          inputRef.current?.focus();
+        } else {
+          links[currentIndex - 1]?.focus();
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        closeSearch();
+        inputRef.current?.focus();
+        break;
+    }
+  };
+
+  // Close the results once focus leaves the search area
+  const handleBlur = (event: React.FocusEvent) => {
+    if (!containerRef.current?.contains(event.relatedTarget as Node | null)) {
+      setIsOpen(false);
+    }
+  };
+
+  const showResults = isOpen && query.trim().length > 0;
+
+  const renderResults = () => {
+    if (indexStatus === 'loading' || indexStatus === 'idle') {
+      return (
+        <p className="global-search__status" role="status">
+          Loading search...
+        </p>
+      );
+    }
+
+    if (indexStatus === 'error') {
+      return (
+        <div className="global-search__status" role="alert">
+          <p className="global-search__status-message">Search is unavailable right now.</p>
+          <button
+            type="button"
+            className="global-search__retry"
+            onClick={() => {
+              inputRef.current?.focus();
+              loadIndex();
+            }}
+            onBlur={handleBlur}
+          >
+            Try again
+          </button>
+        </div>
+      );
+    }
+
+    if (resultGroups.length === 0) {
+      return (
+        <p className="global-search__status">
+          No results for "{query.trim()}". Try a different word.
+        </p>
+      );
+    }
+
+    return resultGroups.map((group) => (
+      <section
+        key={group.type}
+        className="global-search__group"
+        aria-labelledby={`global-search-group-${group.type}`}
+      >
+        <h2 id={`global-search-group-${group.type}`} className="global-search__group-title">
+          {GROUP_LABELS[group.type]}
+        </h2>
+        <ul className="global-search__list">
+          {group.results.map((result) => (
+            <li key={result.id} className="global-search__item">
+              <a
+                href={routerService.format(result.route)}
+                className="global-search__result"
+                onClick={closeSearch}
+                onKeyDown={handleKeyDown}
+                onBlur={handleBlur}
+              >
+                <span className="global-search__result-title">{result.title}</span>
+                {result.snippet && (
+                  <span className="global-search__result-snippet">{result.snippet}</span>
+                )}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </section>
+    ));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`global-search ${className}`}
+      role="search"
+    >
+      <label htmlFor="global-search-input" className="global-search__label">
+        Search the portal
+      </label>
+      <input
+        id="global-search-input"
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          ensureIndex();
+        }}
+        onFocus={() => {
+          setIsOpen(true);
+          ensureIndex();
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        placeholder="Search terms, tools and the introduction..."
+        className="global-search__input"
+        autoComplete="off"
+        aria-controls={showResults ? 'global-search-results' : undefined}
+      />
+      {showResults && (
+        <div
+          id="global-search-results"
+          ref={resultsRef}
+          className="global-search__results"
+          aria-live="polite"
+        >
+          {renderResults()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
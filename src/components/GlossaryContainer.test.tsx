@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { GlossaryContainer } from './GlossaryContainer';
 import { glossaryDataService } from '../services/GlossaryDataService';
+import { NetworkError } from '../services/AppErrors';
 import { GlossaryTerm, UserRole } from '../types';
 
 // Extend Jest matchers
@@ -57,6 +58,10 @@ describe('GlossaryContainer', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockGlossaryDataService.loadGlossary.mockResolvedValue(mockTerms);
+    mockGlossaryDataService.getAllTerms.mockReturnValue([]);
+    mockGlossaryDataService.findTermMentions.mockReturnValue([]);
+    mockGlossaryDataService.getRelatedTerms.mockReturnValue([]);
+    mockGlossaryDataService.getPrerequisites.mockReturnValue([]);
     mockGlossaryDataService.searchTerms.mockImplementation((query: string) => {
       if (!query.trim()) return mockTerms;
       return mockTerms.filter(term =>
@@ -109,6 +114,16 @@ describe('GlossaryContainer', () => {
       });
     });
 
+    it('picks the error type from the error class', async () => {
+      mockGlossaryDataService.loadGlossary.mockRejectedValue(
+        new NetworkError('timeout', 'Request timeout: Loading glossary data took too long. Please try again.')
+      );
+
+      render(<GlossaryContainer />);
+
+      expect(await screen.findByText('Check your internet connection')).toBeInTheDocument();
+    });
+
     it('allows retry after error', async () => {
       mockGlossaryDataService.loadGlossary
         .mockRejectedValueOnce(new Error('Network error'))
@@ -215,6 +230,24 @@ describe('GlossaryContainer', () => {
       });
     });
 
+    it('keeps the relevance order of search results and shows match snippets', async () => {
+      mockGlossaryDataService.searchTerms.mockReturnValue([mockTerms[2]!, mockTerms[0]!]);
+      mockGlossaryDataService.getMatchSnippet.mockImplementation(term => (
+        term.id === mockTerms[0]!.id ? { text: 'Matched definition text', matches: [{ start: 0, end: 7 }] } : null
+      ));
+
+      render(<GlossaryContainer initialQuery="relevance" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Showing 2 of 3 terms matching "relevance"')).toBeInTheDocument();
+      });
+
+      const titles = screen.getAllByRole('heading', { level: 2 }).map(heading => heading.textContent);
+      expect(titles).toEqual([mockTerms[2]!.term, mockTerms[0]!.term]);
+      expect(screen.getByText('Matched').tagName).toBe('MARK');
+      expect(mockGlossaryDataService.getMatchSnippet).toHaveBeenCalledWith(mockTerms[2], 'relevance');
+    });
+
     it('shows no results message for empty search', async () => {
       mockGlossaryDataService.searchTerms.mockReturnValue([]);
 
@@ -505,6 +538,77 @@ describe('GlossaryContainer', () => {
     });
   });
 
+  describe('Deep Linking', () => {
+    it('expands the selected term', async () => {
+      render(<GlossaryContainer selectedTermId="machine-learning" />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Machine Learning \(ML\)/ })).toHaveAttribute('aria-expanded', 'true');
+      });
+      expect(screen.getByRole('button', { name: /Neural Network/ })).toHaveAttribute('aria-expanded', 'false');
+    });
+
+    it('applies the initial search query', async () => {
+      render(<GlossaryContainer initialQuery="neural" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Showing 1 of 3 terms matching "neural"')).toBeInTheDocument();
+      });
+      expect(screen.getByLabelText('Search terms and definitions')).toHaveValue('neural');
+    });
+
+    it('follows role and search changes from props', async () => {
+      const { rerender } = render(<GlossaryContainer initialRole="business" initialQuery="neural" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Showing 1 of 3 terms matching "neural" for Business & Operations')).toBeInTheDocument();
+      });
+
+      rerender(<GlossaryContainer initialRole="engineer" />);
+
+      expect(screen.getByText('Showing 3 of 3 terms for Engineer')).toBeInTheDocument();
+    });
+
+    it('reports search changes and expanded terms', async () => {
+      const onSearchChange = jest.fn();
+      const onTermSelect = jest.fn();
+      render(<GlossaryContainer onSearchChange={onSearchChange} onTermSelect={onTermSelect} />);
+
+      const searchInput = await screen.findByLabelText('Search terms and definitions');
+      fireEvent.change(searchInput, { target: { value: 'neural' } });
+      expect(onSearchChange).toHaveBeenLastCalledWith('neural');
+
+      fireEvent.click(screen.getByRole('button', { name: /Neural Network/ }));
+      expect(onTermSelect).toHaveBeenLastCalledWith('neural-network');
+    });
+  });
+
+  describe('Related Terms', () => {
+    beforeEach(() => {
+      mockGlossaryDataService.getRelatedTerms.mockImplementation(termId =>
+        termId === 'neural-network' ? [mockTerms[1]!] : []
+      );
+    });
+
+    it('jumps to a "See also" term, clearing a search that hides it', async () => {
+      const onTermSelect = jest.fn();
+      render(<GlossaryContainer initialQuery="neural" onTermSelect={onTermSelect} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Showing 1 of 3 terms matching "neural"')).toBeInTheDocument();
+      });
+
+      const seeAlso = screen.getByRole('navigation', { name: 'See also' });
+      fireEvent.click(within(seeAlso).getByRole('link', { name: 'Machine Learning (ML)' }));
+
+      expect(screen.getByLabelText('Search terms and definitions')).toHaveValue('');
+      const targetHeader = screen.getByRole('button', { name: /^Machine Learning \(ML\)/ });
+      expect(targetHeader).toHaveAttribute('aria-expanded', 'true');
+      expect(targetHeader).toHaveFocus();
+      expect(onTermSelect).toHaveBeenLastCalledWith('machine-learning');
+    });
+  });
+
   describe('Combined Search and Role Filtering', () => {
     it('shows combined search and role filter in results', async () => {
       render(<GlossaryContainer />);
@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { GlossaryTerm as GlossaryTermType, UserRole } from '../types';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { GlossaryTerm as GlossaryTermType, UserRole, ROLE_LABELS } from '../types';
 import { glossaryDataService } from '../services/GlossaryDataService';
+import { routerService } from '../services/RouterService';
+import { useLoadSignal } from '../hooks/useLoadSignal';
 import { GlossaryTerm } from './GlossaryTerm';
 import { SkeletonLoader } from './SkeletonLoader';
 import { ErrorMessage } from './ErrorMessage';
@@ -9,51 +11,76 @@ import './GlossaryContainer.css';
 interface GlossaryContainerProps {
   className?: string;
   initialRole?: UserRole;
+  initialQuery?: string;
+  /** Term to expand and scroll to, e.g. from a #/glossary/term/:id link */
+  selectedTermId?: string;
   onRoleChange?: (role: UserRole) => void;
+  onSearchChange?: (query: string) => void;
+  onTermSelect?: (termId: string | undefined) => void;
 }
 
-const ROLE_LABELS: Record<UserRole, string> = {
-  'business': 'Business & Operations',
-  'pm-designer': 'Product Manager & Designer',
-  'engineer': 'Engineer',
-  'data-scientist': 'Data Scientist'
-};
-
 export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
   className = '',
   initialRole,
-  onRoleChange
+  initialQuery,
+  selectedTermId,
+  onRoleChange,
+  onSearchChange,
+  onTermSelect
 }) => {
   const [terms, setTerms] = useState<GlossaryTermType[]>([]);
   const [filteredTerms, setFilteredTerms] = useState<GlossaryTermType[]>([]);
   const [selectedRole, setSelectedRole] = useState<UserRole | undefined>(initialRole);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(initialQuery ?? '');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
-  const [errorType, setErrorType] = useState<'network' | 'data' | 'generic'>('generic');
+  const [loadError, setLoadError] = useState<unknown>(null);
+  const [activeTermId, setActiveTermId] = useState(selectedTermId);
+  const [termToFocus, setTermToFocus] = useState<string | null>(null);
 
   const searchInputRef = useRef<HTMLInputElement>(null);
   const roleFilterRef = useRef<HTMLDivElement>(null);
+  const termsRef = useRef<HTMLDivElement>(null);
 
-  // Load glossary data on mount
+  const startLoad = useLoadSignal();
+
+  // Follow role and search changes from the URL (e.g. back/forward)
   useEffect(() => {
-    loadGlossaryData();
-  }, []);
+    setSelectedRole(initialRole);
+  }, [initialRole]);
+
+  useEffect(() => {
+    setSearchQuery(initialQuery ?? '');
+  }, [initialQuery]);
+
+  useEffect(() => {
+    setActiveTermId(selectedTermId);
+  }, [selectedTermId]);
+
+  // Move focus to a term reached through a "See also" link once it is shown
+  useEffect(() => {
+    if (!termToFocus) {
+      return;
+    }
+
+    const header = termsRef.current?.querySelector<HTMLButtonElement>(
+      `[aria-controls="content-${termToFocus}"]`
+    );
+    if (header) {
+      header.focus();
+      setTermToFocus(null);
+    }
+  }, [termToFocus, filteredTerms]);
 
   // Filter and search terms when dependencies change
   const processedTerms = useMemo(() => {
-    let result = terms;
-
-    // Apply search filter
+    // Search results arrive ranked by relevance; browse alphabetically otherwise
     if (searchQuery.trim()) {
-      result = glossaryDataService.searchTerms(searchQuery);
+      return glossaryDataService.searchTerms(searchQuery);
     }
 
-    // Sort alphabetically
-    result = result.sort((a, b) => a.term.localeCompare(b.term));
-
-    return result;
+    return [...terms].sort((a, b) => a.term.localeCompare(b.term));
   }, [terms, searchQuery]);
 
   // Update filtered terms when processed terms change
@@ -61,36 +88,64 @@ export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
     setFilteredTerms(processedTerms);
   }, [processedTerms]);
 
-  const loadGlossaryData = async () => {
+  const loadGlossaryData = useCallback(async () => {
+    const signal = startLoad();
     try {
       setIsLoading(true);
       setError(null);
       setIsRetrying(false);
       
-      const loadedTerms = await glossaryDataService.loadGlossary();
+      const loadedTerms = await glossaryDataService.loadGlossary({ signal });
       setTerms(loadedTerms);
     } catch (err) {
+      if (signal.aborted) {
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Failed to load glossary data';
       setError(errorMessage);
-      
-      // Determine error type for better user experience
-      if (errorMessage.includes('Network error') || errorMessage.includes('fetch') || errorMessage.includes('timeout')) {
-        setErrorType('network');
-      } else if (errorMessage.includes('Invalid glossary data') || errorMessage.includes('format') || errorMessage.includes('malformed')) {
-        setErrorType('data');
-      } else {
-        setErrorType('generic');
-      }
+      setLoadError(err);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  };
+  }, [startLoad]);
+
+  // Load glossary data on mount
+  useEffect(() => {
+    loadGlossaryData();
+  }, [loadGlossaryData]);
 
   const handleRetry = async () => {
     setIsRetrying(true);
     await loadGlossaryData();
   };
 
+  const updateSearchQuery = (query: string) => {
+    setSearchQuery(query);
+    onSearchChange?.(query);
+  };
+
+  const handleTermExpandedChange = (termId: string, isExpanded: boolean) => {
+    if (isExpanded) {
+      setActiveTermId(termId);
+      onTermSelect?.(termId);
+    } else if (termId === activeTermId) {
+      setActiveTermId(undefined);
+      onTermSelect?.(undefined);
+    }
+  };
+
+  const handleRelatedTermSelect = (termId: string) => {
+    // Clear a search that would hide the target term
+    if (!filteredTerms.some(term => term.id === termId)) {
+      updateSearchQuery('');
+    }
+    setActiveTermId(termId);
+    setTermToFocus(termId);
+    onTermSelect?.(termId);
+  };
+
   const handleRoleChange = (role: UserRole) => {
     setSelectedRole(role);
     onRoleChange?.(role);
@@ -143,13 +198,13 @@ export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
         break;
       case 'Escape':
         event.preventDefault();
-        setSearchQuery('');
+        updateSearchQuery('');
         break;
     }
   };
 
   const clearSearch = () => {
-    setSearchQuery('');
+    updateSearchQuery('');
     searchInputRef.current?.focus();
   };
 
@@ -174,13 +229,13 @@ export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
         <ErrorMessage
           title="Unable to Load Glossary"
           message={error}
-          type={errorType}
+          error={loadError}
           onRetry={handleRetry}
           isRetrying={isRetrying}
           actions={[
             {
               label: 'Go to Quiz',
-              onClick: () => window.location.hash = '#quiz',
+              onClick: () => routerService.navigate({ view: 'quiz' }),
               variant: 'secondary'
             }
           ]}
@@ -211,7 +266,7 @@ export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
               ref={searchInputRef}
               type="text"
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => updateSearchQuery(e.target.value)}
               onKeyDown={handleSearchKeyDown}
               placeholder="Search AI terms..."
               className="glossary-container__search-input"
@@ -285,7 +340,7 @@ export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
       </div>
 
       {/* Terms List */}
-      <div className="glossary-container__terms">
+      <div ref={termsRef} className="glossary-container__terms">
         {filteredTerms.length === 0 && searchQuery ? (
           <div className="glossary-container__no-results">
             <h2>No matching terms found</h2>
@@ -300,7 +355,13 @@ export const GlossaryContainer: React.FC<GlossaryContainerProps> = ({
               key={term.id}
               term={term}
               {...(selectedRole && { selectedRole })}
+              isSelected={term.id === activeTermId}
+              matchSnippet={searchQuery.trim() ? glossaryDataService.getMatchSnippet(term, searchQuery) : null}
+              relatedTerms={glossaryDataService.getRelatedTerms(term.id)}
+              prerequisites={glossaryDataService.getPrerequisites(term.id)}
               onRoleChange={handleRoleChange}
+              onExpandedChange={handleTermExpandedChange}
+              onRelatedTermSelect={handleRelatedTermSelect}
               className="glossary-container__term"
             />
           ))
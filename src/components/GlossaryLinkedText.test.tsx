@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, screen, fireEvent, createEvent } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { GlossaryLinkedText } from './GlossaryLinkedText';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { GlossaryTerm } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+// Mock the GlossaryDataService
+jest.mock('../services/GlossaryDataService');
+const mockGlossaryDataService = glossaryDataService as jest.Mocked<typeof glossaryDataService>;
+
+const embedding: GlossaryTerm = {
+  id: 'embedding',
+  term: 'Embedding',
+  definition: 'A numeric vector representation of text or data items.',
+  externalLink: 'https://example.com/embedding',
+  roleContext: {
+    business: 'Powers semantic search',
+    'pm-designer': 'Enables similarity features',
+    engineer: 'Store vectors in a database',
+    'data-scientist': 'Compare embedding models'
+  }
+};
+
+const text = 'Search compares embeddings of the query and documents.';
+
+describe('GlossaryLinkedText', () => {
+  beforeEach(() => {
+    mockGlossaryDataService.getAllTerms.mockReturnValue([embedding]);
+    mockGlossaryDataService.findTermMentions.mockReturnValue([{ termId: 'embedding', start: 16, end: 26 }]);
+  });
+
+  it('links mentioned terms to the glossary', () => {
+    render(<p><GlossaryLinkedText text={text} /></p>);
+
+    expect(screen.getByRole('link', { name: 'embeddings' })).toHaveAttribute('href', '#/glossary/term/embedding');
+    expect(screen.getByText(/Search compares/)).toHaveTextContent(text);
+  });
+
+  it('passes the excluded term to the mention search', () => {
+    render(<GlossaryLinkedText text={text} excludeTermId="embedding" />);
+
+    expect(mockGlossaryDataService.findTermMentions).toHaveBeenCalledWith(text, 'embedding');
+  });
+
+  it('shows a definition preview on focus and hover', () => {
+    render(<GlossaryLinkedText text={text} />);
+    const link = screen.getByRole('link', { name: 'embeddings' });
+
+    fireEvent.focus(link);
+    expect(screen.getByRole('tooltip')).toHaveTextContent(`Embedding ${embedding.definition}`);
+    expect(link).toHaveAccessibleDescription(`Embedding ${embedding.definition}`);
+
+    fireEvent.blur(link);
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+
+    fireEvent.mouseEnter(link);
+    expect(screen.getByRole('tooltip')).toBeInTheDocument();
+
+    fireEvent.mouseLeave(link);
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+  });
+
+  it('closes the preview with Escape', () => {
+    render(<GlossaryLinkedText text={text} />);
+    const link = screen.getByRole('link', { name: 'embeddings' });
+
+    fireEvent.focus(link);
+    fireEvent.keyDown(link, { key: 'Escape' });
+
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+  });
+
+  it('reports the chosen term instead of following the link', () => {
+    const onTermSelect = jest.fn();
+    render(<GlossaryLinkedText text={text} onTermSelect={onTermSelect} />);
+
+    const link = screen.getByRole('link', { name: 'embeddings' });
+    const clickEvent = createEvent.click(link);
+    fireEvent(link, clickEvent);
+
+    expect(onTermSelect).toHaveBeenCalledWith('embedding');
+    expect(clickEvent.defaultPrevented).toBe(true);
+  });
+
+  it('loads the glossary when it is not loaded yet', async () => {
+    mockGlossaryDataService.getAllTerms.mockReturnValue([]);
+    mockGlossaryDataService.loadGlossary.mockResolvedValue([embedding]);
+
+    render(<GlossaryLinkedText text={text} />);
+
+    expect(await screen.findByRole('link', { name: 'embeddings' })).toBeInTheDocument();
+    expect(mockGlossaryDataService.loadGlossary).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the glossary when unmounted', () => {
+    mockGlossaryDataService.getAllTerms.mockReturnValue([]);
+    mockGlossaryDataService.loadGlossary.mockReturnValue(new Promise(() => {}));
+    const { unmount } = render(<GlossaryLinkedText text={text} />);
+
+    const [options] = mockGlossaryDataService.loadGlossary.mock.calls[0] ?? [];
+    expect(options?.signal?.aborted).toBe(false);
+
+    unmount();
+
+    expect(options?.signal?.aborted).toBe(true);
+  });
+
+  it('renders plain text when the glossary cannot be loaded', async () => {
+    mockGlossaryDataService.getAllTerms.mockReturnValue([]);
+    mockGlossaryDataService.loadGlossary.mockRejectedValue(new Error('Network error'));
+
+    render(<GlossaryLinkedText text={text} />);
+
+    expect(await screen.findByText(text)).toBeInTheDocument();
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+
+  it('has no accessibility violations with a preview open', async () => {
+    const { container } = render(<p><GlossaryLinkedText text={text} /></p>);
+
+    fireEvent.focus(screen.getByRole('link', { name: 'embeddings' }));
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+});
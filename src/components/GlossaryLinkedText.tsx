@@ -0,0 +1,148 @@
+/**
+ * GlossaryLinkedText Component
+ *
+ * Renders text with mentions of glossary terms turned into links to the
+ * term, each showing a short definition preview on hover or focus.
+ */
+
+import React, { useState, useEffect, useMemo, useId } from 'react';
+import { GlossaryTerm } from '../types';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { routerService } from '../services/RouterService';
+import { markdownToPlainText } from '../services/MarkdownParser';
+import './GlossaryLinkedText.css';
+
+interface GlossaryLinkedTextProps {
+  /** Text to scan for glossary terms */
+  text: string;
+  /** Term to leave unlinked, e.g. the one whose definition this is */
+  excludeTermId?: string;
+  /** Called instead of following the link when a term is chosen */
+  onTermSelect?: (termId: string) => void;
+}
+
+interface TermPreviewLinkProps {
+  term: GlossaryTerm;
+  label: string;
+  onTermSelect?: (termId: string) => void;
+}
+
+const TermPreviewLink: React.FC<TermPreviewLinkProps> = ({
+  term,
+  label,
+  onTermSelect
+}) => {
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const previewId = useId();
+
+  const handleClick = (event: React.MouseEvent) => {
+    setIsPreviewOpen(false);
+    if (onTermSelect) {
+      event.preventDefault();
+      onTermSelect(term.id);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && isPreviewOpen) {
+      event.stopPropagation();
+      setIsPreviewOpen(false);
+    }
+  };
+
+  return (
+    <span className="glossary-linked-text__term">
+      <a
+        href={routerService.format({ view: 'glossary', termId: term.id })}
+        className="glossary-linked-text__link"
+        aria-describedby={isPreviewOpen ? previewId : undefined}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        onMouseEnter={() => setIsPreviewOpen(true)}
+        onMouseLeave={() => setIsPreviewOpen(false)}
+        onFocus={() => setIsPreviewOpen(true)}
+        onBlur={() => setIsPreviewOpen(false)}
+      >
+        {label}
+      </a>
+      {isPreviewOpen && (
+        <span id={previewId} role="tooltip" className="glossary-linked-text__preview">
+          <strong className="glossary-linked-text__preview-title">{term.term}</strong>{' '}
+          <span className="glossary-linked-text__preview-definition">
+            {markdownToPlainText(term.definition).join(' ')}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export const GlossaryLinkedText: React.FC<GlossaryLinkedTextProps> = ({
+  text,
+  excludeTermId,
+  onTermSelect
+}) => {
+  const [terms, setTerms] = useState<GlossaryTerm[]>(() => glossaryDataService.getAllTerms());
+
+  // Load the glossary on first use; until then the text renders unlinked
+  useEffect(() => {
+    if (terms.length > 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const loadTerms = async () => {
+      try {
+        setTerms(await glossaryDataService.loadGlossary({ signal: controller.signal }));
+      } catch (err) {
+        // Linking is an enhancement; keep showing plain text
+      }
+    };
+
+    loadTerms();
+    return () => controller.abort();
+  }, [terms.length]);
+
+  const mentions = useMemo(() => {
+    if (terms.length === 0) {
+      return [];
+    }
+    return glossaryDataService.findTermMentions(text, excludeTermId);
+  }, [terms, text, excludeTermId]);
+
+  if (mentions.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  mentions.forEach((mention) => {
+    const term = terms.find(candidate => candidate.id === mention.termId);
+    if (!term) {
+      return;
+    }
+
+    if (mention.start > position) {
+      parts.push(text.slice(position, mention.start));
+    }
+    parts.push(
+      <TermPreviewLink
+        key={mention.start}
+        term={term}
+        label={text.slice(mention.start, mention.end)}
+        {...(onTermSelect && { onTermSelect })}
+      />
+    );
+    position = mention.end;
+  });
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+};
+
+export default GlossaryLinkedText;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within, createEvent } from '@testing-library/react';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { GlossaryTerm } from './GlossaryTerm';
 import { GlossaryTerm as GlossaryTermType } from '../types';
@@ -65,6 +65,73 @@ describe('GlossaryTerm Component', () => {
       expect(screen.getByRole('tab', { name: 'Engineer' })).toBeInTheDocument();
       expect(screen.getByRole('tab', { name: 'Data Scientist' })).toBeInTheDocument();
     });
+
+    it('renders a highlighted search match snippet', () => {
+      render(
+        <GlossaryTerm
+          term={mockTerm}
+          matchSnippet={{ text: 'Understand automation potential', matches: [{ start: 11, end: 21 }] }}
+        />
+      );
+
+      expect(screen.getByText('automation').tagName).toBe('MARK');
+    });
+
+    it('does not render a snippet without a search match', () => {
+      render(<GlossaryTerm term={mockTerm} matchSnippet={null} />);
+
+      expect(screen.queryByRole('mark')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Related Terms', () => {
+    const relatedTerm: GlossaryTermType = {
+      ...mockTerm,
+      id: 'machine-learning',
+      term: 'Machine Learning (ML)'
+    };
+    const prerequisiteTerm: GlossaryTermType = {
+      ...mockTerm,
+      id: 'dataset',
+      term: 'Dataset'
+    };
+
+    it('renders category and aliases', () => {
+      render(<GlossaryTerm term={{ ...mockTerm, category: 'foundations', aliases: ['AI', 'Machine Intelligence'] }} />);
+
+      expect(screen.getByText('Foundations')).toBeInTheDocument();
+      expect(screen.getByText('AI, Machine Intelligence')).toBeInTheDocument();
+    });
+
+    it('renders "See also" and "Learn first" links to other terms', () => {
+      render(<GlossaryTerm term={mockTerm} relatedTerms={[relatedTerm]} prerequisites={[prerequisiteTerm]} />);
+
+      const seeAlso = screen.getByRole('navigation', { name: 'See also' });
+      expect(within(seeAlso).getByRole('link', { name: 'Machine Learning (ML)' }))
+        .toHaveAttribute('href', '#/glossary/term/machine-learning');
+
+      const learnFirst = screen.getByRole('navigation', { name: 'Learn first' });
+      expect(within(learnFirst).getByRole('link', { name: 'Dataset' }))
+        .toHaveAttribute('href', '#/glossary/term/dataset');
+    });
+
+    it('reports the chosen related term instead of following the link', () => {
+      const onRelatedTermSelect = jest.fn();
+      render(<GlossaryTerm term={mockTerm} relatedTerms={[relatedTerm]} onRelatedTermSelect={onRelatedTermSelect} />);
+
+      const link = screen.getByRole('link', { name: 'Machine Learning (ML)' });
+      const clickEvent = createEvent.click(link);
+      fireEvent(link, clickEvent);
+
+      expect(onRelatedTermSelect).toHaveBeenCalledWith('machine-learning');
+      expect(clickEvent.defaultPrevented).toBe(true);
+    });
+
+    it('omits the link lists when there are no related terms', () => {
+      render(<GlossaryTerm term={mockTerm} />);
+
+      expect(screen.queryByRole('navigation')).not.toBeInTheDocument();
+    });
   });
 
   describe('Interaction Behavior', () => {
@@ -101,6 +168,23 @@ describe('GlossaryTerm Component', () => {
       expect(screen.getByText(/Understand automation potential/)).toBeInTheDocument();
     });
 
+    it('renders Markdown in the definition and role context', () => {
+      const term: GlossaryTermType = {
+        ...mockTerm,
+        definition: 'Systems that **learn** from data.',
+        roleContext: {
+          ...mockTerm.roleContext,
+          engineer: 'Call the model:\n\n```ts\nconst reply = await client.complete(prompt);\n```'
+        }
+      };
+      render(<GlossaryTerm term={term} selectedRole="engineer" />);
+
+      expect(screen.getByText('learn').tagName).toBe('STRONG');
+      const panel = screen.getByRole('tabpanel');
+      expect(within(panel).getByText('Call the model:')).toBeInTheDocument();
+      expect(within(panel).getByText('const reply = await client.complete(prompt);').tagName).toBe('CODE');
+    });
+
     it('opens external link in new tab when clicked', async () => {
       render(<GlossaryTerm term={mockTerm} />);
       
@@ -1,33 +1,63 @@
-import React, { useState, useRef } from 'react';
-import { GlossaryTerm as GlossaryTermType, UserRole } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { GlossaryCategory, GlossaryTerm as GlossaryTermType, MatchSnippet, UserRole, ROLE_LABELS } from '../types';
+import { routerService } from '../services/RouterService';
+import { HighlightedText } from './HighlightedText';
+import { MarkdownText } from './MarkdownText';
 import './GlossaryTerm.css';
 
 interface GlossaryTermProps {
   term: GlossaryTermType;
   selectedRole?: UserRole;
+  /** Expand and scroll to this term, e.g. when it is the target of a deep link */
+  isSelected?: boolean;
+  /** Excerpt showing where the current search query matched */
+  matchSnippet?: MatchSnippet | null;
+  /** Terms listed under "See also" */
+  relatedTerms?: GlossaryTermType[];
+  /** Terms listed under "Learn first" */
+  prerequisites?: GlossaryTermType[];
   onRoleChange?: (role: UserRole) => void;
+  onExpandedChange?: (termId: string, isExpanded: boolean) => void;
+  /** Called instead of following the link when a related or prerequisite term is chosen */
+  onRelatedTermSelect?: (termId: string) => void;
   className?: string;
 }
 
-const ROLE_LABELS: Record<UserRole, string> = {
-  'business': 'Business & Operations',
-  'pm-designer': 'Product Manager & Designer',
-  'engineer': 'Engineer',
-  'data-scientist': 'Data Scientist'
+const CATEGORY_LABELS: Record<GlossaryCategory, string> = {
+  'foundations': 'Foundations',
+  'data': 'Data',
+  'training': 'Training',
+  'generative-ai': 'Generative AI',
+  'deployment': 'Deployment'
 };
 
 export const GlossaryTerm: React.FC<GlossaryTermProps> = ({
   term,
   selectedRole,
+  isSelected = false,
+  matchSnippet,
+  relatedTerms = [],
+  prerequisites = [],
   onRoleChange,
+  onExpandedChange,
+  onRelatedTermSelect,
   className = ''
 }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(isSelected);
   const articleRef = useRef<HTMLElement>(null);
   const roleButtonsRef = useRef<HTMLDivElement>(null);
 
+  // Bring a deep-linked term into view
+  useEffect(() => {
+    if (isSelected) {
+      setIsExpanded(true);
+      articleRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'start' });
+    }
+  }, [isSelected]);
+
   const handleToggleExpanded = () => {
     setIsExpanded(!isExpanded);
+    onExpandedChange?.(term.id, !isExpanded);
   };
 
   const handleKeyDown = (event: React.KeyboardEvent) => {
@@ -86,10 +116,36 @@ export const GlossaryTerm: React.FC<GlossaryTermProps> = ({
     }
   };
 
+  const handleTermLinkClick = (event: React.MouseEvent, termId: string) => {
+    if (onRelatedTermSelect) {
+      event.preventDefault();
+      onRelatedTermSelect(termId);
+    }
+  };
+
+  const renderTermLinks = (heading: string, linkedTerms: GlossaryTermType[], kind: string) => (
+    <nav className="glossary-term__links" aria-labelledby={`${kind}-heading-${term.id}`}>
+      <h3 id={`${kind}-heading-${term.id}`} className="glossary-term__links-heading">{heading}</h3>
+      <ul className="glossary-term__links-list">
+        {linkedTerms.map((linkedTerm) => (
+          <li key={linkedTerm.id}>
+            <a
+              href={routerService.format({ view: 'glossary', termId: linkedTerm.id })}
+              className="glossary-term__term-link"
+              onClick={(e) => handleTermLinkClick(e, linkedTerm.id)}
+            >
+              {linkedTerm.term}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+
   return (
     <article
       ref={articleRef}
-      className={`glossary-term ${className}`}
+      className={`glossary-term ${isSelected ? 'glossary-term--selected' : ''} ${className}`}
       aria-labelledby={`term-${term.id}`}
       aria-describedby={`definition-${term.id}`}
     >
@@ -111,12 +167,41 @@ export const GlossaryTerm: React.FC<GlossaryTermProps> = ({
         </span>
       </button>
 
+      {matchSnippet && (
+        <p className="glossary-term__match-snippet">
+          <HighlightedText text={matchSnippet.text} matches={matchSnippet.matches} />
+        </p>
+      )}
+
       <div 
         id={`content-${term.id}`}
         className={`glossary-term__content ${isExpanded ? 'expanded' : ''}`}
       >
         <div className="glossary-term__definition">
-          <p id={`definition-${term.id}`}>{term.definition}</p>
+          <div id={`definition-${term.id}`} className="glossary-term__definition-text">
+            <MarkdownText
+              text={term.definition}
+              linkTerms
+              excludeTermId={term.id}
+              {...(onRelatedTermSelect && { onTermSelect: onRelatedTermSelect })}
+            />
+          </div>
+          {(term.category || (term.aliases && term.aliases.length > 0)) && (
+            <dl className="glossary-term__meta">
+              {term.category && (
+                <>
+                  <dt>Category</dt>
+                  <dd>{CATEGORY_LABELS[term.category]}</dd>
+                </>
+              )}
+              {term.aliases && term.aliases.length > 0 && (
+                <>
+                  <dt>Also known as</dt>
+                  <dd>{term.aliases.join(', ')}</dd>
+                </>
+              )}
+            </dl>
+          )}
           <a
             href={term.externalLink}
             target="_blank"
@@ -129,6 +214,9 @@ export const GlossaryTerm: React.FC<GlossaryTermProps> = ({
           </a>
         </div>
 
+        {prerequisites.length > 0 && renderTermLinks('Learn first', prerequisites, 'prerequisites')}
+        {relatedTerms.length > 0 && renderTermLinks('See also', relatedTerms, 'related')}
+
         <div className="glossary-term__role-section">
           <h3 className="glossary-term__role-heading">Role-Specific Context</h3>
           
@@ -163,10 +251,13 @@ export const GlossaryTerm: React.FC<GlossaryTermProps> = ({
               aria-labelledby={`role-button-${selectedRole}`}
               className="glossary-term__role-context"
             >
-              <p>
-                <strong>{ROLE_LABELS[selectedRole]}:</strong>{' '}
-                {term.roleContext[selectedRole]}
-              </p>
+              <strong className="glossary-term__role-label">{ROLE_LABELS[selectedRole]}:</strong>
+              <MarkdownText
+                text={term.roleContext[selectedRole]}
+                linkTerms
+                excludeTermId={term.id}
+                {...(onRelatedTermSelect && { onTermSelect: onRelatedTermSelect })}
+              />
             </div>
           )}
         </div>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { HighlightedText } from './HighlightedText';
+
+describe('HighlightedText', () => {
+  it('wraps matched ranges in mark elements', () => {
+    const { container } = render(
+      <HighlightedText text="An embedding is a vector." matches={[{ start: 3, end: 12 }, { start: 18, end: 24 }]} />
+    );
+
+    expect(container).toHaveTextContent('An embedding is a vector.');
+    expect(screen.getByText('embedding').tagName).toBe('MARK');
+    expect(screen.getByText('vector').tagName).toBe('MARK');
+  });
+
+  it('renders plain text when there are no matches', () => {
+    const { container } = render(<HighlightedText text="Nothing to see" matches={[]} />);
+
+    expect(container).toHaveTextContent('Nothing to see');
+    expect(screen.queryByText('Nothing to see')?.tagName).toBe('SPAN');
+  });
+
+  it('ignores overlapping and out-of-range matches', () => {
+    const { container } = render(
+      <HighlightedText text="token" matches={[{ start: 0, end: 3 }, { start: 2, end: 4 }, { start: 4, end: 10 }]} />
+    );
+
+    expect(container).toHaveTextContent('token');
+    expect(screen.getByText('tok').tagName).toBe('MARK');
+    expect(screen.queryByText('ke')).not.toBeInTheDocument();
+  });
+});
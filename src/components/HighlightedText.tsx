@@ -0,0 +1,53 @@
+/**
+ * HighlightedText Component
+ *
+ * Renders text with the given character ranges wrapped in <mark>, used to
+ * show why a search result matched.
+ */
+
+import React from 'react';
+import { TextRange } from '../types';
+import './HighlightedText.css';
+
+interface HighlightedTextProps {
+  /** Text to display */
+  text: string;
+  /** Character ranges to highlight, in text order */
+  matches: TextRange[];
+  /** Additional CSS class */
+  className?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  matches,
+  className = ''
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  matches.forEach((match) => {
+    // Skip ranges that overlap one already highlighted or fall outside the text
+    if (match.start < position || match.end > text.length || match.start >= match.end) {
+      return;
+    }
+
+    if (match.start > position) {
+      parts.push(text.slice(position, match.start));
+    }
+    parts.push(
+      <mark key={match.start} className="highlighted-text__match">
+        {text.slice(match.start, match.end)}
+      </mark>
+    );
+    position = match.end;
+  });
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <span className={`highlighted-text ${className}`}>{parts}</span>;
+};
+
+export default HighlightedText;
@@ -8,7 +8,7 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { HomePage } from './HomePage';
-import { UserProgress } from '../types';
+import { IntroductionReadingSummary, UserProgress } from '../types';
 
 // Mock user progress data for testing
 const mockUserProgress: UserProgress = {
@@ -36,6 +36,20 @@ const mockEmptyUserProgress: UserProgress = {
   bestScore: 0
 };
 
+const mockIntroductionProgress: IntroductionReadingSummary = {
+  readCount: 2,
+  totalSections: 6,
+  percentage: 33,
+  isStarted: true,
+  checksCorrect: 0,
+  totalChecks: 2,
+  resumeSection: {
+    id: 'invisible-degradation',
+    title: 'The Invisible Degradation Effect',
+    content: 'Skills fade quietly.'
+  }
+};
+
 describe('HomePage Component', () => {
   const mockOnNavigate = jest.fn();
 
@@ -418,4 +432,65 @@ describe('HomePage Component', () => {
       expect(screen.getByText('Best Score')).toBeInTheDocument();
     });
   });
+
+  describe('Introduction Progress', () => {
+    it('shows sections read on the introduction card', () => {
+      render(
+        <HomePage
+          userProgress={mockUserProgress}
+          onNavigate={mockOnNavigate}
+          introductionProgress={mockIntroductionProgress}
+        />
+      );
+
+      expect(screen.getByText('2/6 sections read • 33% complete')).toBeInTheDocument();
+    });
+
+    it('keeps the invitation to read until the introduction is started', () => {
+      render(
+        <HomePage
+          userProgress={mockUserProgress}
+          onNavigate={mockOnNavigate}
+          introductionProgress={{ ...mockIntroductionProgress, readCount: 0, percentage: 0, isStarted: false }}
+          onResumeIntroduction={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('Essential reading for conscious AI engagement')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /resume where you left off/i })).not.toBeInTheDocument();
+    });
+
+    it('resumes the introduction at the section left off', () => {
+      const mockOnResume = jest.fn();
+      render(
+        <HomePage
+          userProgress={mockUserProgress}
+          onNavigate={mockOnNavigate}
+          introductionProgress={mockIntroductionProgress}
+          onResumeIntroduction={mockOnResume}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', {
+        name: 'Resume where you left off: The Invisible Degradation Effect'
+      }));
+
+      expect(mockOnResume).toHaveBeenCalledWith('invisible-degradation');
+      expect(mockOnNavigate).not.toHaveBeenCalled();
+    });
+
+    it('offers no resume once every section is read', () => {
+      render(
+        <HomePage
+          userProgress={mockUserProgress}
+          onNavigate={mockOnNavigate}
+          introductionProgress={{ readCount: 6, totalSections: 6, percentage: 100, isStarted: true, checksCorrect: 2, totalChecks: 2 }}
+          onResumeIntroduction={jest.fn()}
+        />
+      );
+
+      expect(screen.getByText('6/6 sections read • 100% complete')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /resume where you left off/i })).not.toBeInTheDocument();
+    });
+  });
 });
\ No newline at end of file
@@ -6,13 +6,17 @@
  */
 
 import React from 'react';
-import { UserProgress } from '../types';
+import { IntroductionReadingSummary, UserProgress } from '../types';
 import './HomePage.css';
 
 interface HomePageProps {
   className?: string;
   userProgress: UserProgress;
   onNavigate: (section: 'learn' | 'ai-tools' | 'introduction') => void;
+  /** Reading progress through the introduction */
+  introductionProgress?: IntroductionReadingSummary;
+  /** Open the introduction at a section to resume reading */
+  onResumeIntroduction?: (sectionId: string) => void;
 }
 
 interface SectionCardProps {
@@ -73,7 +77,9 @@ const SectionCard: React.FC<SectionCardProps> = ({
 export const HomePage: React.FC<HomePageProps> = ({
   className = '',
   userProgress,
-  onNavigate
+  onNavigate,
+  introductionProgress,
+  onResumeIntroduction
 }) => {
   // Calculate learning progress statistics
   const totalTerms = 16; // Based on requirements - 16 AI terms
@@ -89,6 +95,12 @@ export const HomePage: React.FC<HomePageProps> = ({
     quizAttempts > 0 ? ` • Best quiz score: ${bestScore}` : ''
   }`;
 
+  // Generate stats text for Introduction section
+  const introductionStats = introductionProgress?.isStarted
+    ? `${introductionProgress.readCount}/${introductionProgress.totalSections} sections read • ${introductionProgress.percentage}% complete`
+    : 'Essential reading for conscious AI engagement';
+  const resumeSection = introductionProgress?.isStarted ? introductionProgress.resumeSection : undefined;
+
   // Generate stats text for Tools section
   const toolsStats = `Discover AI tools used in your organization`;
 
@@ -129,10 +141,19 @@ export const HomePage: React.FC<HomePageProps> = ({
               title="AI Introduction & Risks"
               description="Understand both the promise and perils of AI technology before diving into specific concepts"
               icon="🧠"
-              stats="Essential reading for conscious AI engagement"
+              stats={introductionStats}
               onClick={handleIntroductionNavigation}
               className="home-page__introduction-card"
             />
+            {resumeSection && onResumeIntroduction && (
+              <button
+                type="button"
+                className="home-page__resume-button"
+                onClick={() => onResumeIntroduction(resumeSection.id)}
+              >
+                Resume where you left off: {resumeSection.title}
+              </button>
+            )}
           </div>
         </section>
 
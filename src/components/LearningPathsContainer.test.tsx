@@ -0,0 +1,157 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { LearningPathsContainer } from './LearningPathsContainer';
+import { learningPathService } from '../services/LearningPathService';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { localStorageService } from '../services/LocalStorageService';
+import { routerService } from '../services/RouterService';
+import { GlossaryTerm, LearningPath } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+// Mock services
+jest.mock('../services/LearningPathService');
+jest.mock('../services/GlossaryDataService');
+jest.mock('../services/LocalStorageService');
+
+const mockLearningPathService = learningPathService as jest.Mocked<typeof learningPathService>;
+const mockGlossaryDataService = glossaryDataService as jest.Mocked<typeof glossaryDataService>;
+const mockLocalStorageService = localStorageService as jest.Mocked<typeof localStorageService>;
+
+const mockPaths: LearningPath[] = [
+  {
+    id: 'llm-fundamentals',
+    title: 'LLM Fundamentals',
+    description: 'How large language models work',
+    termIds: ['token', 'prompt']
+  },
+  {
+    id: 'responsible-ai',
+    title: 'Responsible AI',
+    description: 'Where models go wrong',
+    termIds: ['bias']
+  }
+];
+
+const mockTerms: Record<string, GlossaryTerm[]> = {
+  'llm-fundamentals': [
+    { id: 'token', term: 'Token' },
+    { id: 'prompt', term: 'Prompt' }
+  ] as GlossaryTerm[],
+  'responsible-ai': [
+    { id: 'bias', term: 'Bias' }
+  ] as GlossaryTerm[]
+};
+
+describe('LearningPathsContainer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLearningPathService.loadPaths.mockResolvedValue(mockPaths);
+    mockGlossaryDataService.loadGlossary.mockResolvedValue([]);
+    mockLocalStorageService.getAnswerHistory.mockReturnValue([]);
+    mockLearningPathService.getPathTerms.mockImplementation(path => mockTerms[path.id] ?? []);
+    mockLearningPathService.getPathProgress.mockImplementation(path => ({
+      pathId: path.id,
+      completedTermIds: path.id === 'llm-fundamentals' ? ['token'] : ['bias'],
+      totalTerms: path.termIds.length,
+      percentage: path.id === 'llm-fundamentals' ? 50 : 100
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists every path with its progress', async () => {
+    render(<LearningPathsContainer />);
+
+    const llmPath = await screen.findByRole('article', { name: 'LLM Fundamentals' });
+    expect(within(llmPath).getByText('How large language models work')).toBeInTheDocument();
+    expect(within(llmPath).getByText('1 of 2 terms mastered')).toBeInTheDocument();
+    expect(within(llmPath).getByRole('progressbar')).toHaveAttribute('aria-valuenow', '50');
+
+    const responsiblePath = screen.getByRole('article', { name: 'Responsible AI' });
+    expect(within(responsiblePath).getByRole('progressbar')).toHaveAttribute('aria-valuenow', '100');
+  });
+
+  it('links path terms to the glossary and marks mastered terms', async () => {
+    render(<LearningPathsContainer />);
+
+    const llmPath = await screen.findByRole('article', { name: 'LLM Fundamentals' });
+    const terms = within(llmPath).getByRole('list', { name: 'LLM Fundamentals terms' });
+    const items = within(terms).getAllByRole('listitem');
+
+    expect(within(terms).getByRole('link', { name: 'Token' })).toHaveAttribute('href', '#/glossary/term/token');
+    expect(items[0]).toHaveTextContent('Token (mastered)');
+    expect(items[1]).not.toHaveTextContent('(mastered)');
+    expect(within(llmPath).getByText('Next up:')).toHaveTextContent('Next up: Prompt');
+  });
+
+  it('passes the answer history to the progress calculation', async () => {
+    const history = [{
+      questionId: 'q1',
+      termId: 'token',
+      selectedAnswer: 'A',
+      isCorrect: true,
+      timeTakenMs: 1000,
+      timestamp: 1
+    }];
+    mockLocalStorageService.getAnswerHistory.mockReturnValue(history);
+
+    render(<LearningPathsContainer />);
+
+    await screen.findByRole('article', { name: 'LLM Fundamentals' });
+    expect(mockLearningPathService.getPathProgress).toHaveBeenCalledWith(mockPaths[0], history);
+  });
+
+  it('starts a quiz scoped to the path', async () => {
+    const navigateSpy = jest.spyOn(routerService, 'navigate').mockImplementation(() => {});
+    render(<LearningPathsContainer />);
+
+    const llmPath = await screen.findByRole('article', { name: 'LLM Fundamentals' });
+    fireEvent.click(within(llmPath).getByRole('button', { name: 'Start Path Quiz' }));
+
+    expect(navigateSpy).toHaveBeenCalledWith({ view: 'quiz', pathId: 'llm-fundamentals' });
+  });
+
+  it('offers a review quiz for completed paths', async () => {
+    render(<LearningPathsContainer />);
+
+    const responsiblePath = await screen.findByRole('article', { name: 'Responsible AI' });
+    expect(within(responsiblePath).getByRole('button', { name: 'Review Path Quiz' })).toBeInTheDocument();
+    expect(within(responsiblePath).queryByText('Next up:')).not.toBeInTheDocument();
+  });
+
+  it('highlights the selected path', async () => {
+    render(<LearningPathsContainer selectedPathId="responsible-ai" />);
+
+    const responsiblePath = await screen.findByRole('article', { name: 'Responsible AI' });
+    expect(responsiblePath).toHaveClass('learning-paths__path--selected');
+  });
+
+  it('shows an error with a retry when paths cannot be loaded', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockLearningPathService.loadPaths.mockRejectedValueOnce(
+      new Error('Network error: Unable to connect to load learning paths.')
+    );
+
+    render(<LearningPathsContainer />);
+
+    expect(await screen.findByText('Unable to Load Learning Paths')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Try Again/ }));
+
+    expect(await screen.findByRole('article', { name: 'LLM Fundamentals' })).toBeInTheDocument();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = render(<LearningPathsContainer />);
+
+    await screen.findByRole('article', { name: 'LLM Fundamentals' });
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+});
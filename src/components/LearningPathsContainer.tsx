@@ -0,0 +1,219 @@
+/**
+ * LearningPathsContainer Component
+ *
+ * Lists the curated learning paths with the user's progress through each
+ * one, links every path term to the glossary and starts quizzes scoped to a
+ * single path.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { LearningPath } from '../types';
+import { learningPathService } from '../services/LearningPathService';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { localStorageService } from '../services/LocalStorageService';
+import { routerService } from '../services/RouterService';
+import { useLoadSignal } from '../hooks/useLoadSignal';
+import { SkeletonLoader } from './SkeletonLoader';
+import { ErrorMessage } from './ErrorMessage';
+import './LearningPathsContainer.css';
+
+interface LearningPathsContainerProps {
+  className?: string;
+  /** Path to highlight and scroll to, e.g. from a #/paths/:id link */
+  selectedPathId?: string;
+}
+
+export const LearningPathsContainer: React.FC<LearningPathsContainerProps> = ({
+  className = '',
+  selectedPathId
+}) => {
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [loadError, setLoadError] = useState<unknown>(null);
+
+  const startLoad = useLoadSignal();
+
+  // Bring a linked path into view once the list is shown
+  useEffect(() => {
+    if (!selectedPathId || isLoading) {
+      return;
+    }
+
+    const element = document.getElementById(`learning-path-${selectedPathId}`);
+    element?.scrollIntoView?.({ behavior: 'smooth', block: 'start' });
+  }, [selectedPathId, isLoading]);
+
+  const loadPathData = useCallback(async () => {
+    const signal = startLoad();
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [loadedPaths] = await Promise.all([
+        learningPathService.loadPaths({ signal }),
+        glossaryDataService.loadGlossary({ signal })
+      ]);
+      setPaths(loadedPaths);
+    } catch (err) {
+      if (signal.aborted) {
+        return;
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load learning paths';
+      setError(errorMessage);
+      setLoadError(err);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsRetrying(false);
+      }
+    }
+  }, [startLoad]);
+
+  // Load paths and the glossary they refer to on mount
+  useEffect(() => {
+    loadPathData();
+  }, [loadPathData]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    await loadPathData();
+  };
+
+  const startPathQuiz = (pathId: string) => {
+    routerService.navigate({ view: 'quiz', pathId });
+  };
+
+  if (isLoading && !isRetrying) {
+    return (
+      <div className={`learning-paths learning-paths--loading ${className}`}>
+        <SkeletonLoader type="progress" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`learning-paths learning-paths--error ${className}`}>
+        <ErrorMessage
+          title="Unable to Load Learning Paths"
+          message={error}
+          error={loadError}
+          onRetry={handleRetry}
+          isRetrying={isRetrying}
+          actions={[
+            {
+              label: 'View Glossary',
+              onClick: () => routerService.navigate({ view: 'glossary' }),
+              variant: 'secondary'
+            }
+          ]}
+          details={error}
+        />
+      </div>
+    );
+  }
+
+  const answerHistory = localStorageService.getAnswerHistory();
+
+  const renderPath = (path: LearningPath) => {
+    const terms = learningPathService.getPathTerms(path);
+    const progress = learningPathService.getPathProgress(path, answerHistory);
+    const completedIds = new Set(progress.completedTermIds);
+    const { percentage } = progress;
+    const nextTerm = terms.find(term => !completedIds.has(term.id));
+    const titleId = `learning-path-title-${path.id}`;
+
+    return (
+      <li key={path.id} className="learning-paths__item">
+        <article
+          id={`learning-path-${path.id}`}
+          className={`learning-paths__path ${path.id === selectedPathId ? 'learning-paths__path--selected' : ''}`}
+          aria-labelledby={titleId}
+        >
+          <h3 id={titleId} className="learning-paths__path-title">{path.title}</h3>
+          <p className="learning-paths__path-description">{path.description}</p>
+
+          <div className="learning-paths__progress">
+            <span className="learning-paths__progress-text">
+              {completedIds.size} of {path.termIds.length} terms mastered
+            </span>
+            <div
+              className="learning-paths__progress-bar"
+              role="progressbar"
+              aria-valuenow={percentage}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`${path.title} progress: ${percentage}% complete`}
+            >
+              <div
+                className="learning-paths__progress-fill"
+                style={{ width: `${percentage}%` }}
+              />
+            </div>
+          </div>
+
+          <ol className="learning-paths__terms" aria-label={`${path.title} terms`}>
+            {terms.map(term => {
+              const isCompleted = completedIds.has(term.id);
+              return (
+                <li
+                  key={term.id}
+                  className={`learning-paths__term ${isCompleted ? 'learning-paths__term--completed' : ''}`}
+                >
+                  <span className="learning-paths__term-status" aria-hidden="true">
+                    {isCompleted ? '✓' : '○'}
+                  </span>
+                  <a
+                    href={routerService.format({ view: 'glossary', termId: term.id })}
+                    className="learning-paths__term-link"
+                  >
+                    {term.term}
+                  </a>
+                  {isCompleted && <span className="learning-paths__sr-only"> (mastered)</span>}
+                </li>
+              );
+            })}
+          </ol>
+
+          <div className="learning-paths__actions">
+            {nextTerm && (
+              <p className="learning-paths__next">
+                Next up: <strong>{nextTerm.term}</strong>
+              </p>
+            )}
+            <button
+              type="button"
+              className="learning-paths__quiz-button"
+              onClick={() => startPathQuiz(path.id)}
+            >
+              {percentage === 100 ? 'Review Path Quiz' : 'Start Path Quiz'}
+            </button>
+          </div>
+        </article>
+      </li>
+    );
+  };
+
+  return (
+    <section className={`learning-paths ${className}`} aria-labelledby="learning-paths-title">
+      <header className="learning-paths__header">
+        <h2 id="learning-paths-title" className="learning-paths__title">Learning Paths</h2>
+        <p className="learning-paths__intro">
+          Work through related terms in order. A term is mastered once you answer a question about it correctly.
+        </p>
+      </header>
+
+      {paths.length === 0 ? (
+        <p className="learning-paths__empty">No learning paths are available yet.</p>
+      ) : (
+        <ol className="learning-paths__list">
+          {paths.map(renderPath)}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default LearningPathsContainer;
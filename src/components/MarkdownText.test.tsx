@@ -0,0 +1,120 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { MarkdownText } from './MarkdownText';
+import { glossaryDataService } from '../services/GlossaryDataService';
+import { GlossaryTerm } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+// Mock the GlossaryDataService
+jest.mock('../services/GlossaryDataService');
+const mockGlossaryDataService = glossaryDataService as jest.Mocked<typeof glossaryDataService>;
+
+const embedding: GlossaryTerm = {
+  id: 'embedding',
+  term: 'Embedding',
+  definition: 'A numeric vector representation of text.',
+  externalLink: 'https://example.com/embedding',
+  roleContext: {
+    business: 'Powers semantic search',
+    'pm-designer': 'Enables similarity features',
+    engineer: 'Store vectors in a database',
+    'data-scientist': 'Compare embedding models'
+  }
+};
+
+const content = [
+  'Store each **embedding** with its *source*:',
+  '',
+  '- Chunk the documents',
+  '- Call `embed()` on each chunk',
+  '',
+  '```python',
+  'vectors = client.embed(chunks)',
+  '```',
+  '',
+  'Read [the guide](https://example.com/guide) or the [glossary](#/glossary).'
+].join('\n');
+
+describe('MarkdownText', () => {
+  beforeEach(() => {
+    mockGlossaryDataService.getAllTerms.mockReturnValue([embedding]);
+    mockGlossaryDataService.findTermMentions.mockImplementation(text => {
+      const start = text.indexOf('embedding');
+      return start >= 0 ? [{ termId: 'embedding', start, end: start + 'embedding'.length }] : [];
+    });
+  });
+
+  it('renders paragraphs, lists, code and emphasis', () => {
+    render(<MarkdownText text={content} />);
+
+    expect(screen.getByText('embedding').tagName).toBe('STRONG');
+    expect(screen.getByText('source').tagName).toBe('EM');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.getByText('embed()').tagName).toBe('CODE');
+    expect(
+      screen.getByText('vectors = client.embed(chunks)', { selector: 'pre[data-language="python"] > code' })
+    ).toBeInTheDocument();
+  });
+
+  it('opens web links in a new tab and keeps portal links in the app', () => {
+    render(<MarkdownText text={content} />);
+
+    const guide = screen.getByRole('link', { name: 'the guide (opens in new tab)' });
+    expect(guide).toHaveAttribute('href', 'https://example.com/guide');
+    expect(guide).toHaveAttribute('target', '_blank');
+    expect(guide).toHaveAttribute('rel', 'noopener noreferrer');
+
+    const glossary = screen.getByRole('link', { name: 'glossary' });
+    expect(glossary).toHaveAttribute('href', '#/glossary');
+    expect(glossary).not.toHaveAttribute('target');
+  });
+
+  it('shows raw HTML as text and drops unsafe links', () => {
+    render(<MarkdownText text={'<b>Hi</b> [run](javascript:alert)'} />);
+
+    expect(screen.getByText('<b>Hi</b> run')).toBeInTheDocument();
+    expect(screen.queryByText('Hi', { selector: 'b' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+
+  it('links glossary terms in plain text when asked', () => {
+    render(<MarkdownText text="Compare each embedding, then `embedding` in code." linkTerms />);
+
+    expect(screen.getAllByRole('link', { name: 'embedding' })).toHaveLength(1);
+    expect(screen.getByRole('link', { name: 'embedding' })).toHaveAttribute('href', '#/glossary/term/embedding');
+  });
+
+  it('leaves glossary terms unlinked by default', () => {
+    render(<MarkdownText text="Compare each embedding." />);
+
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+
+  it('renders only inline formatting in inline mode', () => {
+    render(<p data-testid="quote"><MarkdownText text={'**Fast** at\n\n- boilerplate'} inline /></p>);
+
+    const quote = screen.getByTestId('quote');
+    expect(within(quote).getByText('Fast').tagName).toBe('STRONG');
+    expect(within(quote).queryByRole('list')).not.toBeInTheDocument();
+  });
+
+  it('renders links as text when it must not be interactive', () => {
+    render(
+      <button type="button">
+        <MarkdownText text="See [docs](https://example.com) about embedding" inline linkTerms nonInteractive />
+      </button>
+    );
+
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    expect(screen.getByRole('button')).toHaveTextContent('See docs about embedding');
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = render(<MarkdownText text={content} linkTerms />);
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * MarkdownText Component
+ *
+ * Renders a content field written in the portal's Markdown subset (see
+ * MarkdownParser): paragraphs, lists, code blocks, bold, emphasis, inline
+ * code and sanitized links. Plain text can link the glossary terms it
+ * mentions, as GlossaryLinkedText does.
+ */
+
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline } from '../types';
+import { parseInline, parseMarkdown } from '../services/MarkdownParser';
+import { GlossaryLinkedText } from './GlossaryLinkedText';
+import './MarkdownText.css';
+
+interface MarkdownTextProps {
+  /** Content to render */
+  text: string;
+  /** Render inline formatting only, for text inside a sentence, heading or button */
+  inline?: boolean;
+  /** Link mentions of glossary terms in plain text */
+  linkTerms?: boolean;
+  /** Term to leave unlinked, e.g. the one whose definition this is */
+  excludeTermId?: string;
+  /** Called instead of following the link when a term is chosen */
+  onTermSelect?: (termId: string) => void;
+  /** Render links as their text, for content inside a button or link */
+  nonInteractive?: boolean;
+}
+
+export const MarkdownText: React.FC<MarkdownTextProps> = ({
+  text,
+  inline = false,
+  linkTerms = false,
+  excludeTermId,
+  onTermSelect,
+  nonInteractive = false
+}) => {
+  const blocks = useMemo<MarkdownBlock[]>(
+    () => (inline ? [{ type: 'paragraph', children: parseInline(text) }] : parseMarkdown(text)),
+    [text, inline]
+  );
+
+  const renderText = (value: string, key: number, isInLink: boolean): React.ReactNode => {
+    if (!linkTerms || nonInteractive || isInLink) {
+      return <React.Fragment key={key}>{value}</React.Fragment>;
+    }
+    return (
+      <GlossaryLinkedText
+        key={key}
+        text={value}
+        {...(excludeTermId && { excludeTermId })}
+        {...(onTermSelect && { onTermSelect })}
+      />
+    );
+  };
+
+  const renderRuns = (runs: MarkdownInline[], isInLink = false): React.ReactNode[] =>
+    runs.map((run, index) => {
+      switch (run.type) {
+        case 'text':
+          return renderText(run.text, index, isInLink);
+        case 'strong':
+          return <strong key={index}>{renderRuns(run.children, isInLink)}</strong>;
+        case 'emphasis':
+          return <em key={index}>{renderRuns(run.children, isInLink)}</em>;
+        case 'code':
+          return <code key={index} className="markdown-text__code">{run.text}</code>;
+        case 'link':
+          return renderLink(run.href, renderRuns(run.children, true), index);
+        default:
+          return null;
+      }
+    });
+
+  const renderLink = (href: string, children: React.ReactNode[], key: number): React.ReactNode => {
+    if (nonInteractive) {
+      return <React.Fragment key={key}>{children}</React.Fragment>;
+    }
+
+    // Web pages open in a new tab; portal routes and email links do not
+    const isExternal = /^https?:/.test(href);
+    return (
+      <a
+        key={key}
+        href={href}
+        className="markdown-text__link"
+        {...(isExternal && { target: '_blank', rel: 'noopener noreferrer' })}
+      >
+        {children}
+        {isExternal && <span className="markdown-text__new-tab"> (opens in new tab)</span>}
+      </a>
+    );
+  };
+
+  if (inline) {
+    return <>{renderRuns(blocks[0]?.type === 'paragraph' ? blocks[0].children : [])}</>;
+  }
+
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={index} className="markdown-text__paragraph">{renderRuns(block.children)}</p>;
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={index} className="markdown-text__list">
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderRuns(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          case 'code':
+            return (
+              <pre
+                key={index}
+                className="markdown-text__code-block"
+                {...(block.language && { 'data-language': block.language })}
+              >
+                <code>{block.text}</code>
+              </pre>
+            );
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+};
+
+export default MarkdownText;
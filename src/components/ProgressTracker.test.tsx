@@ -6,12 +6,13 @@
  */
 
 import React from 'react';
-import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { ProgressTracker } from './ProgressTracker';
-import { UserProgress, QuizAttempt } from '../types';
+import { GlossaryTerm, IntroductionReadingSummary, UserProgress, QuizAttempt, QuestionOutcome } from '../types';
 import { localStorageService } from '../services/LocalStorageService';
+import { glossaryDataService } from '../services/GlossaryDataService';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
@@ -21,11 +22,28 @@ jest.mock('../services/LocalStorageService', () => ({
   localStorageService: {
     getProgress: jest.fn(),
     clearAllData: jest.fn(),
+    getAnswerHistory: jest.fn(() => []),
     isLocalStorageAvailable: jest.fn(() => true)
   }
 }));
 
+jest.mock('../services/GlossaryDataService');
+
 const mockLocalStorageService = localStorageService as jest.Mocked<typeof localStorageService>;
+const mockGlossaryDataService = glossaryDataService as jest.Mocked<typeof glossaryDataService>;
+
+const glossaryTerm = (id: string, term: string): GlossaryTerm => ({
+  id,
+  term,
+  definition: `${term} definition`,
+  externalLink: `https://example.com/${id}`,
+  roleContext: {
+    business: 'Business context',
+    'pm-designer': 'Design context',
+    engineer: 'Engineering context',
+    'data-scientist': 'Data science context'
+  }
+});
 
 describe('ProgressTracker Component', () => {
   const mockQuizAttempts: QuizAttempt[] = [
@@ -64,6 +82,9 @@ describe('ProgressTracker Component', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockLocalStorageService.getProgress.mockReturnValue(mockProgress);
+    mockLocalStorageService.getAnswerHistory.mockReturnValue([]);
+    // Term names stay unresolved unless a test loads the glossary
+    mockGlossaryDataService.loadGlossary.mockReturnValue(new Promise(() => {}));
   });
 
   describe('Rendering and Basic Display', () => {
@@ -117,6 +138,19 @@ describe('ProgressTracker Component', () => {
       expect(termItems[4]).toHaveTextContent('neural-network');
     });
 
+    it('displays completed terms by their glossary names', async () => {
+      mockGlossaryDataService.loadGlossary.mockResolvedValue([
+        glossaryTerm('machine-learning', 'Machine Learning (ML)'),
+        glossaryTerm('neural-network', 'Neural Network')
+      ]);
+      render(<ProgressTracker progress={mockProgress} />);
+
+      const list = screen.getByRole('list', { name: /list of completed terms/i });
+      expect(await within(list).findByText('Machine Learning (ML)')).toBeInTheDocument();
+      expect(within(list).getByText('Neural Network')).toBeInTheDocument();
+      expect(within(list).getByText('algorithm')).toBeInTheDocument();
+    });
+
     it('displays recent quiz attempts', () => {
       render(<ProgressTracker progress={mockProgress} />);
       
@@ -298,6 +332,163 @@ describe('ProgressTracker Component', () => {
     });
   });
 
+  describe('Terms to Review', () => {
+    const outcome = (termId: string, isCorrect: boolean, timestamp: number): QuestionOutcome => ({
+      questionId: `${termId}-q`,
+      termId,
+      selectedAnswer: 'answer',
+      isCorrect,
+      timeTakenMs: 1000,
+      timestamp
+    });
+
+    const answerHistory: QuestionOutcome[] = [
+      outcome('machine-learning', true, 1),
+      outcome('machine-learning', false, 2),
+      outcome('machine-learning', false, 3),
+      outcome('neural-network', false, 4),
+      outcome('algorithm', false, 5),
+      outcome('algorithm', true, 6)
+    ];
+
+    it('lists the most frequently missed terms', async () => {
+      mockGlossaryDataService.loadGlossary.mockResolvedValue([
+        glossaryTerm('machine-learning', 'Machine Learning (ML)'),
+        glossaryTerm('neural-network', 'Neural Network')
+      ]);
+      mockLocalStorageService.getAnswerHistory.mockReturnValue(answerHistory);
+      render(<ProgressTracker progress={mockProgress} />);
+
+      const list = screen.getByRole('list', { name: /most frequently missed terms/i });
+      expect(await within(list).findByText('Machine Learning (ML)')).toBeInTheDocument();
+      const items = within(list).getAllByRole('listitem');
+      expect(items).toHaveLength(2);
+      expect(items[0]).toHaveTextContent('Machine Learning (ML)');
+      expect(items[0]).toHaveTextContent('Missed the last 2 of 3');
+      expect(items[1]).toHaveTextContent('Neural Network');
+    });
+
+    it('hides the section when no terms have been missed', () => {
+      render(<ProgressTracker progress={mockProgress} />);
+
+      expect(screen.queryByText('Terms to Review')).not.toBeInTheDocument();
+    });
+
+    it('warns and hides the section when the answer history cannot be read', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const storageError = new Error('localStorage unavailable');
+      mockLocalStorageService.getAnswerHistory.mockImplementation(() => {
+        throw storageError;
+      });
+      render(<ProgressTracker progress={mockProgress} />);
+
+      expect(screen.queryByText('Terms to Review')).not.toBeInTheDocument();
+      expect(warnSpy).toHaveBeenCalledWith('Terms to review could not be loaded:', storageError);
+    });
+
+    it('starts a weakest-terms review when requested', () => {
+      const onStartWeakestReview = jest.fn();
+      mockLocalStorageService.getAnswerHistory.mockReturnValue(answerHistory);
+      render(<ProgressTracker progress={mockProgress} onStartWeakestReview={onStartWeakestReview} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /review weakest terms/i }));
+
+      expect(onStartWeakestReview).toHaveBeenCalledTimes(1);
+    });
+
+    it('clears the review list after a reset', async () => {
+      mockLocalStorageService.getAnswerHistory.mockReturnValue(answerHistory);
+      mockLocalStorageService.getProgress.mockReturnValue(emptyProgress);
+      render(<ProgressTracker />);
+
+      expect(screen.getByText('Terms to Review')).toBeInTheDocument();
+
+      mockLocalStorageService.getAnswerHistory.mockReturnValue([]);
+      fireEvent.click(screen.getByRole('button', { name: /reset all progress/i }));
+      fireEvent.click(screen.getByRole('button', { name: /yes, reset all data/i }));
+
+      await waitFor(() => {
+        expect(screen.queryByText('Terms to Review')).not.toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('Introduction Reading', () => {
+    const introductionProgress: IntroductionReadingSummary = {
+      readCount: 3,
+      totalSections: 6,
+      percentage: 50,
+      isStarted: true,
+      checksCorrect: 1,
+      totalChecks: 2,
+      resumeSection: {
+        id: 'productive-friction',
+        title: 'The Need for "Productive Friction"',
+        content: 'Keep some effort in the loop.'
+      }
+    };
+
+    it('shows how much of the introduction has been read', () => {
+      render(<ProgressTracker progress={mockProgress} introductionProgress={introductionProgress} />);
+
+      expect(screen.getByText('3 of 6 sections read')).toBeInTheDocument();
+      expect(screen.getByRole('progressbar', { name: /introduction reading progress: 50% complete/i }))
+        .toHaveAttribute('aria-valuenow', '50');
+    });
+
+    it('shows how many knowledge checks were answered correctly', () => {
+      render(<ProgressTracker progress={mockProgress} introductionProgress={introductionProgress} />);
+
+      expect(screen.getByText('1 of 2 knowledge checks answered correctly')).toBeInTheDocument();
+    });
+
+    it('leaves out knowledge checks when the introduction has none', () => {
+      render(
+        <ProgressTracker
+          progress={mockProgress}
+          introductionProgress={{ ...introductionProgress, checksCorrect: 0, totalChecks: 0 }}
+        />
+      );
+
+      expect(screen.queryByText(/knowledge checks/)).not.toBeInTheDocument();
+    });
+
+    it('resumes reading at the section left off', () => {
+      const onResumeIntroduction = jest.fn();
+      render(
+        <ProgressTracker
+          progress={mockProgress}
+          introductionProgress={introductionProgress}
+          onResumeIntroduction={onResumeIntroduction}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', {
+        name: 'Resume where you left off: The Need for "Productive Friction"'
+      }));
+
+      expect(onResumeIntroduction).toHaveBeenCalledWith('productive-friction');
+    });
+
+    it('invites the user to start reading before any section is read', () => {
+      render(
+        <ProgressTracker
+          progress={mockProgress}
+          introductionProgress={{ ...introductionProgress, readCount: 0, percentage: 0, isStarted: false }}
+          onResumeIntroduction={jest.fn()}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: /start reading: the need for "productive friction"/i })).toBeInTheDocument();
+    });
+
+    it('hides the section when the introduction is unavailable', () => {
+      render(<ProgressTracker progress={mockProgress} />);
+
+      expect(screen.queryByText('AI Introduction')).not.toBeInTheDocument();
+    });
+  });
+
   describe('External vs Internal Progress', () => {
     it('uses external progress when provided', () => {
       const externalProgress: UserProgress = {
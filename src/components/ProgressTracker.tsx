@@ -1,13 +1,16 @@
 /**
  * ProgressTracker Component
  * 
- * Displays user progress including quiz statistics and completed terms.
+ * Displays user progress including quiz statistics, completed terms and
+ * reading progress through the introduction.
  * Provides progress visualization and reset functionality with full accessibility support.
  */
 
 import React, { useState, useEffect } from 'react';
-import { UserProgress, QuizAttempt } from '../types';
+import { IntroductionReadingSummary, UserProgress, QuizAttempt, TermPerformance } from '../types';
 import { localStorageService } from '../services/LocalStorageService';
+import { quizDataService } from '../services/QuizDataService';
+import { glossaryDataService } from '../services/GlossaryDataService';
 import { SkeletonLoader } from './SkeletonLoader';
 import { ErrorMessage } from './ErrorMessage';
 import './ProgressTracker.css';
@@ -17,16 +20,43 @@ interface ProgressTrackerProps {
   progress?: UserProgress;
   /** Callback when progress data is updated */
   onProgressUpdate?: (progress: UserProgress) => void;
+  /** Callback to start a quiz focused on the user's weakest terms */
+  onStartWeakestReview?: () => void;
+  /** Reading progress through the introduction */
+  introductionProgress?: IntroductionReadingSummary;
+  /** Open the introduction at a section to resume reading */
+  onResumeIntroduction?: (sectionId: string) => void;
   /** Optional CSS class name */
   className?: string;
 }
 
+/**
+ * Number of missed terms listed in the review section
+ */
+const WEAKEST_TERMS_LIMIT = 5;
+
+/**
+ * Load the user's most-missed terms from stored answer history
+ */
+const loadWeakestTerms = (): TermPerformance[] => {
+  try {
+    const history = localStorageService.getAnswerHistory();
+    return quizDataService.getWeakestTerms(history).slice(0, WEAKEST_TERMS_LIMIT);
+  } catch (error) {
+    console.warn('Terms to review could not be loaded:', error);
+    return [];
+  }
+};
+
 /**
  * ProgressTracker component for displaying user statistics and progress
  */
 export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   progress: externalProgress,
   onProgressUpdate,
+  onStartWeakestReview,
+  introductionProgress,
+  onResumeIntroduction,
   className = ''
 }) => {
   const [internalProgress, setInternalProgress] = useState<UserProgress>(() => {
@@ -44,6 +74,8 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   const [isResetting, setIsResetting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [weakestTerms, setWeakestTerms] = useState<TermPerformance[]>(loadWeakestTerms);
+  const [termNames, setTermNames] = useState<Map<string, string>>(new Map());
 
   // Use external progress if provided, otherwise use internal state
   const currentProgress = externalProgress || internalProgress;
@@ -65,6 +97,35 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
     }
   }, [externalProgress]);
 
+  useEffect(() => {
+    // Answer history changes whenever progress does, so refresh missed terms too
+    setWeakestTerms(loadWeakestTerms());
+  }, [externalProgress]);
+
+  // Progress records terms by id; their names come from the glossary
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadTermNames = async () => {
+      try {
+        const terms = await glossaryDataService.loadGlossary({ signal: controller.signal });
+        setTermNames(new Map(terms.map(term => [term.id, term.term])));
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.warn('Term names could not be loaded:', err);
+        }
+      }
+    };
+
+    loadTermNames();
+    return () => controller.abort();
+  }, []);
+
+  /**
+   * Name of a recorded term, or its id until the glossary has loaded
+   */
+  const getTermName = (termId: string): string => termNames.get(termId) ?? termId;
+
   /**
    * Calculate completion percentage for progress visualization
    */
@@ -121,6 +182,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
       } else {
         setInternalProgress(resetProgress);
       }
+      setWeakestTerms(loadWeakestTerms());
       
       setShowResetConfirmation(false);
     } catch (error) {
@@ -152,6 +214,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
   const completionPercentage = getCompletionPercentage();
   const averageScore = getAverageScore();
   const recentAttempts = getRecentAttempts();
+  const resumeSection = introductionProgress?.resumeSection;
 
   // Loading state
   if (isLoading) {
@@ -253,9 +316,9 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
           <div className="progress-tracker__completed-terms">
             <h4 className="progress-tracker__completed-title">Completed Terms:</h4>
             <ul className="progress-tracker__terms-list" aria-label="List of completed terms">
-              {Array.from(currentProgress.answeredTerms).sort().map((term) => (
-                <li key={term} className="progress-tracker__term-item">
-                  {term}
+              {Array.from(currentProgress.answeredTerms, getTermName).sort().map((name) => (
+                <li key={name} className="progress-tracker__term-item">
+                  {name}
                 </li>
               ))}
             </ul>
@@ -263,6 +326,80 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
         )}
       </div>
 
+      {/* Introduction Reading */}
+      {introductionProgress && introductionProgress.totalSections > 0 && (
+        <div className="progress-tracker__section">
+          <h3 className="progress-tracker__section-title">AI Introduction</h3>
+
+          <div className="progress-tracker__progress-container">
+            <div className="progress-tracker__progress-info">
+              <span className="progress-tracker__progress-text">
+                {introductionProgress.readCount} of {introductionProgress.totalSections} sections read
+              </span>
+              <span className="progress-tracker__progress-percentage" aria-label={`${introductionProgress.percentage}% read`}>
+                {introductionProgress.percentage}%
+              </span>
+            </div>
+
+            <div
+              className="progress-tracker__progress-bar"
+              role="progressbar"
+              aria-valuenow={introductionProgress.percentage}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`Introduction reading progress: ${introductionProgress.percentage}% complete`}
+            >
+              <div
+                className="progress-tracker__progress-fill"
+                style={{ width: `${introductionProgress.percentage}%` }}
+              />
+            </div>
+          </div>
+
+          {introductionProgress.totalChecks > 0 && (
+            <p className="progress-tracker__check-count">
+              {introductionProgress.checksCorrect} of {introductionProgress.totalChecks} knowledge checks answered correctly
+            </p>
+          )}
+
+          {resumeSection && onResumeIntroduction && (
+            <button
+              type="button"
+              className="progress-tracker__resume-button"
+              onClick={() => onResumeIntroduction(resumeSection.id)}
+            >
+              {introductionProgress.isStarted ? 'Resume where you left off' : 'Start reading'}: {resumeSection.title}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Terms to Review */}
+      {weakestTerms.length > 0 && (
+        <div className="progress-tracker__section">
+          <h3 className="progress-tracker__section-title">Terms to Review</h3>
+          <ul className="progress-tracker__weak-terms-list" aria-label="Most frequently missed terms">
+            {weakestTerms.map(({ termId, misses, attempts }) => (
+              <li key={termId} className="progress-tracker__weak-term">
+                <span className="progress-tracker__weak-term-name">{getTermName(termId)}</span>
+                <span className="progress-tracker__weak-term-misses">
+                  Missed the last {misses} of {attempts}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {onStartWeakestReview && (
+            <button
+              type="button"
+              className="progress-tracker__review-button"
+              onClick={onStartWeakestReview}
+            >
+              Review Weakest Terms
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Recent Quiz Attempts */}
       {recentAttempts.length > 0 && (
         <div className="progress-tracker__section">
@@ -5,7 +5,9 @@ import { axe, toHaveNoViolations } from 'jest-axe';
 import { QuizContainer } from './QuizContainer';
 import { quizDataService } from '../services/QuizDataService';
 import { localStorageService } from '../services/LocalStorageService';
-import { QuizQuestion, QuizResults, UserProgress } from '../types';
+import { learningPathService } from '../services/LearningPathService';
+import { DataValidationError } from '../services/AppErrors';
+import { LearningPath, QuestionOutcome, QuizQuestion, QuizResults, ReviewSchedule, UserProgress } from '../types';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
@@ -13,9 +15,11 @@ expect.extend(toHaveNoViolations);
 // Mock services
 jest.mock('../services/QuizDataService');
 jest.mock('../services/LocalStorageService');
+jest.mock('../services/LearningPathService');
 
 const mockQuizDataService = quizDataService as jest.Mocked<typeof quizDataService>;
 const mockLocalStorageService = localStorageService as jest.Mocked<typeof localStorageService>;
+const mockLearningPathService = learningPathService as jest.Mocked<typeof learningPathService>;
 
 // Mock questions data
 const mockQuestions: QuizQuestion[] = [
@@ -25,7 +29,7 @@ const mockQuestions: QuizQuestion[] = [
     question: 'What is AI?',
     options: ['Option A', 'Option B', 'Option C', 'Option D'],
     correctAnswer: 'Option A',
-    glossaryLink: '#ai'
+    termId: 'ai'
   },
   {
     id: 'q2',
@@ -33,7 +37,7 @@ const mockQuestions: QuizQuestion[] = [
     question: 'What is ML?',
     options: ['Option A', 'Option B', 'Option C', 'Option D'],
     correctAnswer: 'Option B',
-    glossaryLink: '#ml'
+    termId: 'ml'
   },
   {
     id: 'q3',
@@ -41,7 +45,7 @@ const mockQuestions: QuizQuestion[] = [
     question: 'What is DL?',
     options: ['Option A', 'Option B', 'Option C', 'Option D'],
     correctAnswer: 'Option C',
-    glossaryLink: '#dl'
+    termId: 'dl'
   }
 ];
 
@@ -58,9 +62,13 @@ describe('QuizContainer', () => {
     
     // Setup default mock implementations
     mockQuizDataService.loadQuestions.mockResolvedValue(mockQuestions);
-    mockQuizDataService.selectRandomQuestions.mockReturnValue(mockQuestions.slice(0, 3));
+    mockQuizDataService.selectScheduledQuestions.mockReturnValue(mockQuestions.slice(0, 3));
     mockLocalStorageService.getProgress.mockReturnValue(mockUserProgress);
+    mockLocalStorageService.getReviewSchedule.mockReturnValue({});
     mockLocalStorageService.recordQuizAttempt.mockImplementation(() => {});
+    mockLocalStorageService.recordTermReviews.mockImplementation(() => {});
+    mockLocalStorageService.getAnswerHistory.mockReturnValue([]);
+    mockQuizDataService.selectWeakestQuestions.mockReturnValue([]);
   });
 
   describe('Initialization', () => {
@@ -79,7 +87,8 @@ describe('QuizContainer', () => {
       });
 
       expect(mockQuizDataService.loadQuestions).toHaveBeenCalledTimes(1);
-      expect(mockQuizDataService.selectRandomQuestions).toHaveBeenCalledWith(3, new Set());
+      expect(mockQuizDataService.loadGeneratedQuestions).toHaveBeenCalledTimes(1);
+      expect(mockQuizDataService.selectScheduledQuestions).toHaveBeenCalledWith(3, {}, expect.any(Number), undefined);
       expect(screen.getByText('What is AI?')).toBeInTheDocument();
     });
 
@@ -99,32 +108,35 @@ describe('QuizContainer', () => {
       render(<QuizContainer questionsPerQuiz={5} />);
       
       await waitFor(() => {
-        expect(mockQuizDataService.selectRandomQuestions).toHaveBeenCalledWith(5, new Set());
+        expect(mockQuizDataService.selectScheduledQuestions).toHaveBeenCalledWith(5, {}, expect.any(Number), undefined);
       });
     });
   });
 
   describe('Question Selection Logic', () => {
-    it('should exclude answered terms from question selection', async () => {
-      const progressWithAnsweredTerms: UserProgress = {
-        ...mockUserProgress,
-        answeredTerms: new Set(['Artificial Intelligence', 'Machine Learning'])
+    it('should pass the review schedule to question selection', async () => {
+      const reviewSchedule: ReviewSchedule = {
+        ai: {
+          termId: 'ai',
+          easeFactor: 2.5,
+          interval: 1,
+          repetitions: 1,
+          dueDate: Date.now() - 1000,
+          lastReviewed: Date.now() - 86400000
+        }
       };
-      
-      mockLocalStorageService.getProgress.mockReturnValue(progressWithAnsweredTerms);
+
+      mockLocalStorageService.getReviewSchedule.mockReturnValue(reviewSchedule);
       
       render(<QuizContainer />);
       
       await waitFor(() => {
-        expect(mockQuizDataService.selectRandomQuestions).toHaveBeenCalledWith(
-          3, 
-          new Set(['Artificial Intelligence', 'Machine Learning'])
-        );
+        expect(mockQuizDataService.selectScheduledQuestions).toHaveBeenCalledWith(3, reviewSchedule, expect.any(Number), undefined);
       });
     });
 
     it('should handle case when no questions are available', async () => {
-      mockQuizDataService.selectRandomQuestions.mockReturnValue([]);
+      mockQuizDataService.selectScheduledQuestions.mockReturnValue([]);
       
       render(<QuizContainer />);
       
@@ -195,7 +207,7 @@ describe('QuizContainer', () => {
       expect(onQuizComplete).toHaveBeenCalledWith({
         score: 3,
         totalQuestions: 3,
-        questionsAnswered: ['Artificial Intelligence', 'Machine Learning', 'Deep Learning'],
+        questionsAnswered: ['ai', 'ml', 'dl'],
         timestamp: expect.any(Number)
       });
     });
@@ -230,8 +242,116 @@ describe('QuizContainer', () => {
         timestamp: expect.any(Number),
         score: 2,
         totalQuestions: 3,
-        questionsAnswered: ['Artificial Intelligence', 'Machine Learning', 'Deep Learning']
+        questionsAnswered: ['ai', 'ml', 'dl']
+      });
+    });
+
+    it('should record term reviews for spaced repetition', async () => {
+      render(<QuizContainer answerDelayMs={0} />);
+      
+      await waitFor(() => {
+        expect(screen.getByText('What is AI?')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Option A')); // Correct
+      
+      await waitFor(() => {
+        expect(screen.getByText('What is ML?')).toBeInTheDocument();
+      });
+      
+      fireEvent.click(screen.getByText('Option A')); // Incorrect
+      
+      await waitFor(() => {
+        expect(screen.getByText('What is DL?')).toBeInTheDocument();
+      });
+      
+      fireEvent.click(screen.getByText('Option C')); // Correct
+
+      await waitFor(() => {
+        expect(screen.getByText('Quiz Complete!')).toBeInTheDocument();
+      });
+
+      expect(mockLocalStorageService.recordTermReviews).toHaveBeenCalledWith(
+        [
+          { termId: 'ai', isCorrect: true },
+          { termId: 'ml', isCorrect: false },
+          { termId: 'dl', isCorrect: true }
+        ],
+        expect.any(Number)
+      );
+    });
+
+    it('should record per-question outcomes in answer history', async () => {
+      render(<QuizContainer answerDelayMs={0} />);
+      
+      await waitFor(() => {
+        expect(screen.getByText('What is AI?')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Option A')); // Correct
+      
+      await waitFor(() => {
+        expect(screen.getByText('What is ML?')).toBeInTheDocument();
+      });
+      
+      fireEvent.click(screen.getByText('Option D')); // Incorrect
+      
+      await waitFor(() => {
+        expect(screen.getByText('What is DL?')).toBeInTheDocument();
+      });
+      
+      fireEvent.click(screen.getByText('Option C')); // Correct
+
+      await waitFor(() => {
+        expect(screen.getByText('Quiz Complete!')).toBeInTheDocument();
       });
+
+      expect(mockLocalStorageService.recordAnswerOutcomes).toHaveBeenCalledWith([
+        {
+          questionId: 'q1',
+          termId: 'ai',
+          selectedAnswer: 'Option A',
+          isCorrect: true,
+          timeTakenMs: expect.any(Number),
+          timestamp: expect.any(Number)
+        },
+        {
+          questionId: 'q2',
+          termId: 'ml',
+          selectedAnswer: 'Option D',
+          isCorrect: false,
+          timeTakenMs: expect.any(Number),
+          timestamp: expect.any(Number)
+        },
+        {
+          questionId: 'q3',
+          termId: 'dl',
+          selectedAnswer: 'Option C',
+          isCorrect: true,
+          timeTakenMs: expect.any(Number),
+          timestamp: expect.any(Number)
+        }
+      ]);
+    });
+    it('should record a finished quiz once under StrictMode', async () => {
+      const onQuizComplete = jest.fn();
+      render(
+        <React.StrictMode>
+          <QuizContainer onQuizComplete={onQuizComplete} answerDelayMs={0} />
+        </React.StrictMode>
+      );
+
+      fireEvent.click(await screen.findByText('Option A'));
+      await screen.findByText('What is ML?');
+      fireEvent.click(screen.getByText('Option B'));
+      await screen.findByText('What is DL?');
+      fireEvent.click(screen.getByText('Option C'));
+      await screen.findByText('Quiz Complete!');
+
+      expect(mockLocalStorageService.recordQuizAttempt).toHaveBeenCalledTimes(1);
+      expect(mockLocalStorageService.recordAnswerOutcomes).toHaveBeenCalledTimes(1);
+      expect(mockLocalStorageService.recordTermReviews).toHaveBeenCalledTimes(1);
+      expect(onQuizComplete).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -303,6 +423,17 @@ describe('QuizContainer', () => {
       });
     });
 
+    it('should not offer a retry for a malformed questions file', async () => {
+      mockQuizDataService.loadQuestions.mockRejectedValue(
+        new DataValidationError('parse', 'Invalid questions data format: file contains malformed JSON')
+      );
+
+      render(<QuizContainer />);
+
+      expect(await screen.findByText('The data format is incorrect')).toBeInTheDocument();
+      expect(screen.queryByText('Try Again')).not.toBeInTheDocument();
+    });
+
     it('should allow retry after error', async () => {
       mockQuizDataService.loadQuestions
         .mockRejectedValueOnce(new Error('Network error'))
@@ -321,8 +452,23 @@ describe('QuizContainer', () => {
       });
     });
 
+    it('should give a retry its own load and cancel the previous one', async () => {
+      mockQuizDataService.loadQuestions
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockReturnValueOnce(new Promise(() => {}));
+
+      render(<QuizContainer />);
+
+      fireEvent.click(await screen.findByText('Try Again'));
+
+      const [firstOptions] = mockQuizDataService.loadQuestions.mock.calls[0] ?? [];
+      const [retryOptions] = mockQuizDataService.loadQuestions.mock.calls[1] ?? [];
+      expect(firstOptions?.signal?.aborted).toBe(true);
+      expect(retryOptions?.signal?.aborted).toBe(false);
+    });
+
     it('should handle missing current question gracefully', async () => {
-      mockQuizDataService.selectRandomQuestions.mockReturnValue([]);
+      mockQuizDataService.selectScheduledQuestions.mockReturnValue([]);
       
       render(<QuizContainer />);
       
@@ -368,6 +514,233 @@ describe('QuizContainer', () => {
     });
   });
 
+  describe('Role-Targeted Quizzes', () => {
+    it('should load role questions and select questions for the role', async () => {
+      render(<QuizContainer role="engineer" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Tailored for Engineer')).toBeInTheDocument();
+      });
+
+      expect(mockQuizDataService.loadRoleQuestions).toHaveBeenCalledTimes(1);
+      expect(mockQuizDataService.selectScheduledQuestions).toHaveBeenCalledWith(3, {}, expect.any(Number), 'engineer');
+    });
+
+    it('should not generate role questions without a role', async () => {
+      render(<QuizContainer />);
+
+      await waitFor(() => {
+        expect(screen.getByText('What is AI?')).toBeInTheDocument();
+      });
+
+      expect(mockQuizDataService.loadRoleQuestions).not.toHaveBeenCalled();
+      expect(screen.queryByText(/Tailored for/)).not.toBeInTheDocument();
+    });
+
+    it('should pass the role to weakest-term selection', async () => {
+      render(<QuizContainer mode="weakest" role="data-scientist" />);
+
+      await waitFor(() => {
+        expect(mockQuizDataService.selectWeakestQuestions).toHaveBeenCalledWith(3, [], 'data-scientist');
+      });
+    });
+  });
+
+  describe('Learning Path Quizzes', () => {
+    const path: LearningPath = {
+      id: 'foundations',
+      title: 'Foundations',
+      description: 'The basics',
+      termIds: ['artificial-intelligence', 'machine-learning']
+    };
+
+    beforeEach(() => {
+      mockLearningPathService.loadPaths.mockResolvedValue([path]);
+      mockLearningPathService.getPathById.mockReturnValue(path);
+      mockQuizDataService.selectPathQuestions.mockReturnValue(mockQuestions.slice(0, 2));
+    });
+
+    it('should select questions about the path terms only', async () => {
+      render(<QuizContainer pathId="foundations" role="engineer" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Foundations Quiz')).toBeInTheDocument();
+      });
+
+      expect(mockLearningPathService.getPathById).toHaveBeenCalledWith('foundations');
+      expect(mockQuizDataService.selectPathQuestions).toHaveBeenCalledWith(
+        3,
+        ['artificial-intelligence', 'machine-learning'],
+        {},
+        expect.any(Number),
+        'engineer'
+      );
+      expect(mockQuizDataService.selectScheduledQuestions).not.toHaveBeenCalled();
+      expect(screen.getByText('Question 1 of 2')).toBeInTheDocument();
+    });
+
+    it('should explain when the path does not exist', async () => {
+      mockLearningPathService.getPathById.mockReturnValue(undefined);
+
+      render(<QuizContainer pathId="missing" />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Learning path "missing" not found/)).toBeInTheDocument();
+      });
+      expect(screen.getByText('View Learning Paths')).toBeInTheDocument();
+    });
+
+    it('should explain when no questions cover the path', async () => {
+      mockQuizDataService.selectPathQuestions.mockReturnValue([]);
+
+      render(<QuizContainer pathId="foundations" />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/No questions available for the Foundations path yet/)).toBeInTheDocument();
+      });
+    });
+
+    it('should ignore the path in weakest-terms mode', async () => {
+      mockQuizDataService.selectWeakestQuestions.mockReturnValue([mockQuestions[1]!]);
+
+      render(<QuizContainer pathId="foundations" mode="weakest" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Weakest Terms Review')).toBeInTheDocument();
+      });
+      expect(mockQuizDataService.selectPathQuestions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Weakest Terms Review', () => {
+    const missedHistory: QuestionOutcome[] = [
+      {
+        questionId: 'q2',
+        termId: 'ml',
+        selectedAnswer: 'Option A',
+        isCorrect: false,
+        timeTakenMs: 1500,
+        timestamp: 1000
+      }
+    ];
+
+    it('should select questions from answer history in weakest mode', async () => {
+      mockLocalStorageService.getAnswerHistory.mockReturnValue(missedHistory);
+      mockQuizDataService.selectWeakestQuestions.mockReturnValue([mockQuestions[1]!]);
+
+      render(<QuizContainer mode="weakest" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Weakest Terms Review')).toBeInTheDocument();
+      });
+
+      expect(mockQuizDataService.selectWeakestQuestions).toHaveBeenCalledWith(3, missedHistory, undefined);
+      expect(mockQuizDataService.selectScheduledQuestions).not.toHaveBeenCalled();
+      expect(screen.getByText('What is ML?')).toBeInTheDocument();
+      expect(screen.getByText('Question 1 of 1')).toBeInTheDocument();
+    });
+
+    it('should explain when there are no missed terms to review', async () => {
+      render(<QuizContainer mode="weakest" />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/No missed terms to review yet/)).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Take a Standard Quiz'));
+
+      await waitFor(() => {
+        expect(screen.getByText('AI Knowledge Quiz')).toBeInTheDocument();
+      });
+      expect(mockQuizDataService.selectScheduledQuestions).toHaveBeenCalledWith(3, {}, expect.any(Number), undefined);
+    });
+
+    it('should offer a weakest-terms review after a quiz with missed answers', async () => {
+      render(<QuizContainer answerDelayMs={0} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('What is AI?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option B')); // Incorrect
+
+      await waitFor(() => {
+        expect(screen.getByText('What is ML?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option B'));
+
+      await waitFor(() => {
+        expect(screen.getByText('What is DL?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option C'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Review Weakest Terms')).toBeInTheDocument();
+      });
+
+      mockLocalStorageService.getAnswerHistory.mockReturnValue(missedHistory);
+      mockQuizDataService.selectWeakestQuestions.mockReturnValue([mockQuestions[0]!]);
+      fireEvent.click(screen.getByText('Review Weakest Terms'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Weakest Terms Review')).toBeInTheDocument();
+      });
+      expect(mockQuizDataService.selectWeakestQuestions).toHaveBeenCalledWith(3, missedHistory, undefined);
+    });
+
+    it('should not offer a review after a perfect quiz', async () => {
+      render(<QuizContainer answerDelayMs={0} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('What is AI?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option A'));
+
+      await waitFor(() => {
+        expect(screen.getByText('What is ML?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option B'));
+
+      await waitFor(() => {
+        expect(screen.getByText('What is DL?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option C'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Quiz Complete!')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Review Weakest Terms')).not.toBeInTheDocument();
+      expect(screen.queryByText('Review What You Missed')).not.toBeInTheDocument();
+    });
+
+    it('should link each missed question to its glossary term', async () => {
+      render(<QuizContainer answerDelayMs={0} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('What is AI?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option B')); // Incorrect
+
+      await waitFor(() => {
+        expect(screen.getByText('What is ML?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option B'));
+
+      await waitFor(() => {
+        expect(screen.getByText('What is DL?')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Option A')); // Incorrect
+
+      await waitFor(() => {
+        expect(screen.getByText('Review What You Missed')).toBeInTheDocument();
+      });
+      expect(screen.getByRole('link', { name: 'Read about Artificial Intelligence' }))
+        .toHaveAttribute('href', '#/glossary/term/ai');
+      expect(screen.getByRole('link', { name: 'Read about Deep Learning' }))
+        .toHaveAttribute('href', '#/glossary/term/dl');
+      expect(screen.queryByRole('link', { name: 'Read about Machine Learning' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Accessibility', () => {
     it('should have no accessibility violations', async () => {
       const { container } = render(<QuizContainer />);
@@ -411,7 +784,7 @@ describe('QuizContainer', () => {
 
   describe('Edge Cases', () => {
     it('should handle localStorage service errors gracefully', async () => {
-      mockLocalStorageService.getProgress.mockImplementation(() => {
+      mockLocalStorageService.getReviewSchedule.mockImplementation(() => {
         throw new Error('localStorage error');
       });
       
@@ -424,7 +797,7 @@ describe('QuizContainer', () => {
     });
 
     it('should handle quiz data service errors during question selection', async () => {
-      mockQuizDataService.selectRandomQuestions.mockImplementation(() => {
+      mockQuizDataService.selectScheduledQuestions.mockImplementation(() => {
         throw new Error('Selection error');
       });
       
@@ -455,7 +828,7 @@ describe('QuizContainer', () => {
 
     it('should handle empty question arrays', async () => {
       mockQuizDataService.loadQuestions.mockResolvedValue([]);
-      mockQuizDataService.selectRandomQuestions.mockReturnValue([]);
+      mockQuizDataService.selectScheduledQuestions.mockReturnValue([]);
       
       render(<QuizContainer />);
       
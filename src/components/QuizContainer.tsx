@@ -1,8 +1,12 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { QuizQuestion as QuizQuestionComponent } from './QuizQuestion';
 import { quizDataService } from '../services/QuizDataService';
 import { localStorageService } from '../services/LocalStorageService';
-import { QuizQuestion, QuizResults, QuizAttempt } from '../types';
+import { routerService } from '../services/RouterService';
+import { learningPathService } from '../services/LearningPathService';
+import { NotFoundError } from '../services/AppErrors';
+import { useLoadSignal } from '../hooks/useLoadSignal';
+import { QuizQuestion, QuizResults, QuizAttempt, QuestionOutcome, QuizMode, UserRole, LearningPath, ROLE_LABELS } from '../types';
 import { SkeletonLoader } from './SkeletonLoader';
 import { ErrorMessage } from './ErrorMessage';
 import './QuizContainer.css';
@@ -10,6 +14,12 @@ import './QuizContainer.css';
 interface QuizContainerProps {
   onQuizComplete?: (results: QuizResults) => void;
   questionsPerQuiz?: number;
+  /** 'weakest' limits the quiz to the user's most-missed terms */
+  mode?: QuizMode;
+  /** Limits the quiz to questions aimed at this role */
+  role?: UserRole;
+  /** Limits standard quizzes to the terms of this learning path */
+  pathId?: string;
   answerDelayMs?: number; // For testing purposes
 }
 
@@ -20,11 +30,16 @@ interface QuizState {
     questionId: string;
     selectedAnswer: string;
     isCorrect: boolean;
-    term: string;
+    termId: string;
+    timeTakenMs: number;
+    timestamp: number;
   }>;
+  /** When the current question was shown, used to time answers */
+  questionStartedAt: number;
   isLoading: boolean;
   error: string | null;
-  errorType: 'network' | 'data' | 'storage' | 'generic';
+  /** The error behind `error`, which decides how it is presented */
+  errorCause: unknown;
   isCompleted: boolean;
 }
 
@@ -33,76 +48,136 @@ const DEFAULT_QUESTIONS_PER_QUIZ = 3;
 export const QuizContainer: React.FC<QuizContainerProps> = ({
   onQuizComplete,
   questionsPerQuiz = DEFAULT_QUESTIONS_PER_QUIZ,
+  mode = 'standard',
+  role,
+  pathId,
   answerDelayMs = 2000
 }) => {
+  const [activeMode, setActiveMode] = useState<QuizMode>(mode);
+  const [activePath, setActivePath] = useState<LearningPath | null>(null);
+
   const [quizState, setQuizState] = useState<QuizState>({
     questions: [],
     currentQuestionIndex: 0,
     answers: [],
+    questionStartedAt: Date.now(),
     isLoading: true,
     error: null,
-    errorType: 'generic',
+    errorCause: null,
     isCompleted: false
   });
 
+  // Answers of the last quiz whose results were recorded
+  const recordedAnswersRef = useRef<QuizState['answers'] | null>(null);
+
+  // Every quiz setup gets its own signal, aborted when it is superseded
+  const startLoad = useLoadSignal();
+
   /**
    * Initialize quiz by loading questions and selecting random ones
    */
   const initializeQuiz = useCallback(async () => {
+    const signal = startLoad();
     try {
       setQuizState(prev => ({ ...prev, isLoading: true, error: null }));
 
       // Load all questions
-      await quizDataService.loadQuestions();
+      await quizDataService.loadQuestions({ signal });
+
+      // Mix in questions generated from the glossary alongside curated ones
+      await quizDataService.loadGeneratedQuestions();
+
+      if (role) {
+        // Mix in questions generated from each term's role context
+        await quizDataService.loadRoleQuestions();
+      }
+
+      let selectedQuestions: QuizQuestion[];
+      let path: LearningPath | null = null;
+
+      if (activeMode === 'weakest') {
+        // Draw only from the terms the user has missed most often or most recently
+        const answerHistory = localStorageService.getAnswerHistory();
 
-      // Get user progress to determine which terms to exclude
-      const userProgress = localStorageService.getProgress();
-      const excludeTerms = userProgress.answeredTerms;
+        selectedQuestions = quizDataService.selectWeakestQuestions(
+          questionsPerQuiz,
+          answerHistory,
+          role
+        );
 
-      // Select random questions avoiding recent repeats
-      const selectedQuestions = quizDataService.selectRandomQuestions(
-        questionsPerQuiz,
-        excludeTerms
-      );
+        if (selectedQuestions.length === 0) {
+          throw new NotFoundError('No missed terms to review yet. Take a few quizzes first and come back to practise the ones you get wrong.');
+        }
+      } else if (pathId) {
+        // Draw only from the learning path's terms, due terms first
+        await learningPathService.loadPaths({ signal });
+        path = learningPathService.getPathById(pathId) ?? null;
+
+        if (!path) {
+          throw new NotFoundError(`Learning path "${pathId}" not found. Choose a path from the Learning Paths page.`, pathId);
+        }
+
+        const reviewSchedule = localStorageService.getReviewSchedule();
+
+        selectedQuestions = quizDataService.selectPathQuestions(
+          questionsPerQuiz,
+          path.termIds,
+          reviewSchedule,
+          Date.now(),
+          role
+        );
+
+        if (selectedQuestions.length === 0) {
+          throw new NotFoundError(`No questions available for the ${path.title} path yet.`);
+        }
+      } else {
+        // Get the review schedule so due and overdue terms are asked first
+        const reviewSchedule = localStorageService.getReviewSchedule();
+
+        selectedQuestions = quizDataService.selectScheduledQuestions(
+          questionsPerQuiz,
+          reviewSchedule,
+          Date.now(),
+          role
+        );
+      }
 
       if (selectedQuestions.length === 0) {
-        throw new Error('No questions available for quiz');
+        throw new NotFoundError('No questions available for quiz');
+      }
+
+      // A newer setup has taken over, e.g. after the mode changed
+      if (signal.aborted) {
+        return;
       }
 
+      setActivePath(path);
+
       setQuizState(prev => ({
         ...prev,
         questions: selectedQuestions,
         currentQuestionIndex: 0,
         answers: [],
+        questionStartedAt: Date.now(),
         isLoading: false,
         error: null,
-        errorType: 'generic',
+        errorCause: null,
         isCompleted: false
       }));
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load quiz questions';
-      let errorType: 'network' | 'data' | 'storage' | 'generic' = 'generic';
-      
-      // Determine error type for better user experience
-      if (errorMessage.includes('Network error') || errorMessage.includes('fetch') || errorMessage.includes('timeout')) {
-        errorType = 'network';
-      } else if (errorMessage.includes('Invalid questions data') || errorMessage.includes('format') || errorMessage.includes('malformed')) {
-        errorType = 'data';
-      } else if (errorMessage.includes('localStorage')) {
-        errorType = 'storage';
-      } else if (errorMessage.includes('No questions available')) {
-        errorType = 'data';
+      if (signal.aborted) {
+        return;
       }
-      
+      const errorMessage = error instanceof Error ? error.message : 'Failed to load quiz questions';
       setQuizState(prev => ({
         ...prev,
         isLoading: false,
         error: errorMessage,
-        errorType
+        errorCause: error
       }));
     }
-  }, [questionsPerQuiz]);
+  }, [questionsPerQuiz, activeMode, role, pathId, startLoad]);
 
   /**
    * Handle answer selection for current question
@@ -118,11 +193,14 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
       return;
     }
 
+    const answeredAt = Date.now();
     const newAnswer = {
       questionId,
       selectedAnswer,
       isCorrect,
-      term: currentQuestion.term
+      termId: currentQuestion.termId,
+      timeTakenMs: Math.max(0, answeredAt - quizState.questionStartedAt),
+      timestamp: answeredAt
     };
 
     // Add the answer to state immediately
@@ -138,33 +216,8 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
         const isQuizComplete = nextIndex >= prev.questions.length;
 
         if (isQuizComplete) {
-          // Calculate and record quiz results
-          const score = prev.answers.filter(a => a.isCorrect).length;
-          const totalQuestions = prev.questions.length;
-          const questionsAnswered = prev.answers.map(a => a.term);
-          
-          const results: QuizResults = {
-            score,
-            totalQuestions,
-            questionsAnswered,
-            timestamp: Date.now()
-          };
-
-          // Record attempt in localStorage
-          const attempt: QuizAttempt = {
-            timestamp: results.timestamp,
-            score: results.score,
-            totalQuestions: results.totalQuestions,
-            questionsAnswered: results.questionsAnswered
-          };
-
-          localStorageService.recordQuizAttempt(attempt);
-
-          // Notify parent component
-          if (onQuizComplete) {
-            onQuizComplete(results);
-          }
-
+          // Results are recorded by the completion effect, since updaters
+          // may run more than once
           return {
             ...prev,
             currentQuestionIndex: nextIndex,
@@ -174,7 +227,8 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
 
         return {
           ...prev,
-          currentQuestionIndex: nextIndex
+          currentQuestionIndex: nextIndex,
+          questionStartedAt: Date.now()
         };
       });
     };
@@ -186,7 +240,7 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
       setTimeout(progressToNext, answerDelayMs);
     }
 
-  }, [quizState.questions, quizState.currentQuestionIndex, onQuizComplete, answerDelayMs]);
+  }, [quizState.questions, quizState.currentQuestionIndex, quizState.questionStartedAt, answerDelayMs]);
 
   /**
    * Start a new quiz
@@ -195,6 +249,29 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
     initializeQuiz();
   }, [initializeQuiz]);
 
+  /**
+   * Start a standard spaced-repetition quiz
+   */
+  const startStandardQuiz = useCallback(() => {
+    if (activeMode === 'standard') {
+      initializeQuiz();
+    } else {
+      setActiveMode('standard');
+    }
+  }, [activeMode, initializeQuiz]);
+
+  /**
+   * Start a review of the user's weakest terms
+   */
+  const startWeakestReview = useCallback(() => {
+    if (activeMode === 'weakest') {
+      initializeQuiz();
+    } else {
+      // Changing mode re-runs initializeQuiz via the mount effect
+      setActiveMode('weakest');
+    }
+  }, [activeMode, initializeQuiz]);
+
   /**
    * Calculate current quiz progress
    */
@@ -220,7 +297,7 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
 
     const score = quizState.answers.filter(a => a.isCorrect).length;
     const totalQuestions = quizState.questions.length;
-    const questionsAnswered = quizState.answers.map(a => a.term);
+    const questionsAnswered = quizState.answers.map(a => a.termId);
 
     return {
       score,
@@ -230,6 +307,59 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
     };
   }, [quizState.isCompleted, quizState.answers, quizState.questions.length]);
 
+  // Record each finished quiz once, then notify the parent
+  useEffect(() => {
+    if (!quizState.isCompleted || recordedAnswersRef.current === quizState.answers) {
+      return;
+    }
+    recordedAnswersRef.current = quizState.answers;
+
+    const results: QuizResults = {
+      score: quizState.answers.filter(a => a.isCorrect).length,
+      totalQuestions: quizState.questions.length,
+      questionsAnswered: quizState.answers.map(a => a.termId),
+      timestamp: Date.now()
+    };
+
+    // Record attempt in localStorage
+    const attempt: QuizAttempt = {
+      timestamp: results.timestamp,
+      score: results.score,
+      totalQuestions: results.totalQuestions,
+      questionsAnswered: results.questionsAnswered
+    };
+
+    localStorageService.recordQuizAttempt(attempt);
+
+    // Record per-question outcomes for answer history
+    const outcomes: QuestionOutcome[] = quizState.answers.map(a => ({
+      questionId: a.questionId,
+      termId: a.termId,
+      selectedAnswer: a.selectedAnswer,
+      isCorrect: a.isCorrect,
+      timeTakenMs: a.timeTakenMs,
+      timestamp: a.timestamp
+    }));
+
+    localStorageService.recordAnswerOutcomes(outcomes);
+
+    // Reschedule each answered term for spaced repetition
+    localStorageService.recordTermReviews(
+      quizState.answers.map(a => ({ termId: a.termId, isCorrect: a.isCorrect })),
+      results.timestamp
+    );
+
+    // Notify parent component
+    if (onQuizComplete) {
+      onQuizComplete(results);
+    }
+  }, [quizState.isCompleted, quizState.answers, quizState.questions.length, onQuizComplete]);
+
+  // Follow mode changes from the parent (e.g. ProgressTracker's review button)
+  useEffect(() => {
+    setActiveMode(mode);
+  }, [mode]);
+
   // Initialize quiz on component mount
   useEffect(() => {
     initializeQuiz();
@@ -251,13 +381,23 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
         <ErrorMessage
           title="Unable to Load Quiz"
           message={quizState.error}
-          type={quizState.errorType}
+          error={quizState.errorCause}
           onRetry={startNewQuiz}
           isRetrying={quizState.isLoading}
           actions={[
+            ...(activeMode === 'weakest' ? [{
+              label: 'Take a Standard Quiz',
+              onClick: startStandardQuiz,
+              variant: 'secondary' as const
+            }] : []),
+            ...(pathId && activeMode === 'standard' ? [{
+              label: 'View Learning Paths',
+              onClick: () => routerService.navigate({ view: 'paths' }),
+              variant: 'secondary' as const
+            }] : []),
             {
               label: 'View Glossary',
-              onClick: () => window.location.hash = '#glossary',
+              onClick: () => routerService.navigate({ view: 'glossary' }),
               variant: 'secondary'
             }
           ]}
@@ -275,6 +415,11 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
     }
 
     const scorePercentage = Math.round((results.score / results.totalQuestions) * 100);
+    const hasMissedAnswers = quizState.answers.some(a => !a.isCorrect);
+    const missedQuestions = quizState.answers
+      .filter(a => !a.isCorrect)
+      .map(a => quizState.questions.find(question => question.id === a.questionId))
+      .filter((question): question is QuizQuestion => question !== undefined);
 
     return (
       <div className="quiz-container quiz-container--completed">
@@ -314,14 +459,42 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
             )}
           </div>
 
+          {missedQuestions.length > 0 && (
+            <div className="quiz-container__missed">
+              <h4 className="quiz-container__missed-title">Review What You Missed</h4>
+              <ul className="quiz-container__missed-list">
+                {missedQuestions.map(question => (
+                  <li key={question.id} className="quiz-container__missed-item">
+                    <span className="quiz-container__missed-question">{question.question}</span>
+                    <a
+                      href={routerService.format({ view: 'glossary', termId: question.termId })}
+                      className="quiz-container__missed-link"
+                    >
+                      Read about {question.term}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="quiz-container__actions">
             <button 
               type="button"
               className="quiz-container__new-quiz-button"
-              onClick={startNewQuiz}
+              onClick={startStandardQuiz}
             >
               Take Another Quiz
             </button>
+            {hasMissedAnswers && (
+              <button
+                type="button"
+                className="quiz-container__review-button"
+                onClick={startWeakestReview}
+              >
+                Review Weakest Terms
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -353,7 +526,16 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
   return (
     <div className="quiz-container" role="main" aria-labelledby="quiz-title">
       <div className="quiz-container__header">
-        <h2 id="quiz-title">AI Knowledge Quiz</h2>
+        <h2 id="quiz-title">
+          {activeMode === 'weakest'
+            ? 'Weakest Terms Review'
+            : activePath ? `${activePath.title} Quiz` : 'AI Knowledge Quiz'}
+        </h2>
+        {role && (
+          <p className="quiz-container__role">
+            Tailored for {ROLE_LABELS[role]}
+          </p>
+        )}
         
         <div className="quiz-container__progress" role="progressbar" 
              aria-valuenow={progress.current} 
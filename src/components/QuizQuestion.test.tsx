@@ -14,7 +14,7 @@ const mockQuestion: QuizQuestionType = {
   question: 'What are systems that perform tasks normally requiring human intelligence called?',
   options: ['Machine Learning', 'Artificial Intelligence', 'Neural Networks', 'Deep Learning'],
   correctAnswer: 'Artificial Intelligence',
-  glossaryLink: '#artificial-intelligence'
+  termId: 'artificial-intelligence'
 };
 
 const mockOnAnswerSelected = jest.fn();
@@ -305,7 +305,7 @@ describe('QuizQuestion Component', () => {
         const glossaryLink = screen.getByRole('link', { 
           name: `Learn more about ${mockQuestion.term} in the glossary` 
         });
-        expect(glossaryLink).toHaveAttribute('href', mockQuestion.glossaryLink);
+        expect(glossaryLink).toHaveAttribute('href', '#/glossary/term/artificial-intelligence');
       });
     });
 
@@ -326,6 +326,20 @@ describe('QuizQuestion Component', () => {
           `Learn more about ${mockQuestion.term} in the glossary`);
       });
     });
+
+    it('leaves out the glossary link for a question not about a term', async () => {
+      render(
+        <QuizQuestion
+          question={{ ...mockQuestion, termId: '', term: '' }}
+          onAnswerSelected={mockOnAnswerSelected}
+        />
+      );
+
+      await userEvent.click(screen.getByRole('radio', { name: /Artificial Intelligence/ }));
+
+      expect(screen.getByRole('status')).toHaveTextContent('Correct!');
+      expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    });
   });
 
   describe('Accessibility', () => {
@@ -471,4 +485,244 @@ describe('QuizQuestion Component', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Explanations and Rationale', () => {
+    const explainedQuestion: QuizQuestionType = {
+      ...mockQuestion,
+      explanation: 'AI is the broad field; the other options are approaches within it.',
+      rationale: {
+        'Machine Learning': 'Machine learning is one way to build AI, not the field itself.'
+      }
+    };
+
+    it('does not show the explanation before an answer is given', () => {
+      render(<QuizQuestion question={explainedQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      expect(screen.queryByText(explainedQuestion.explanation as string)).not.toBeInTheDocument();
+    });
+
+    it('shows the explanation after a correct answer without rationale', () => {
+      render(<QuizQuestion question={explainedQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('radio', { name: /Artificial Intelligence/ }));
+
+      expect(screen.getByText(explainedQuestion.explanation as string)).toBeInTheDocument();
+      expect(screen.queryByRole('list', { name: /why your answer is wrong/i })).not.toBeInTheDocument();
+    });
+
+    it('explains why the chosen distractor is wrong', () => {
+      render(<QuizQuestion question={explainedQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('radio', { name: /Machine Learning/ }));
+
+      const rationale = screen.getByRole('list', { name: /why your answer is wrong/i });
+      expect(rationale).toHaveTextContent('Machine learning is one way to build AI, not the field itself.');
+      expect(screen.getByText(explainedQuestion.explanation as string)).toBeInTheDocument();
+    });
+
+    it('omits rationale for distractors without one', () => {
+      render(<QuizQuestion question={explainedQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('radio', { name: /Deep Learning/ }));
+
+      expect(screen.queryByRole('list', { name: /why your answer is wrong/i })).not.toBeInTheDocument();
+      expect(screen.getByText(explainedQuestion.explanation as string)).toBeInTheDocument();
+    });
+
+    it('explains each wrong option picked in a multi-select question', () => {
+      const multiSelect: QuizQuestionType = {
+        id: 'multi-rationale',
+        type: 'multi-select',
+        term: 'Token',
+        question: 'Which grow with token count?',
+        options: ['Cost', 'Latency', 'Training data size'],
+        correctAnswers: ['Cost', 'Latency'],
+        termId: 'token',
+        rationale: { 'Training data size': 'Training data is fixed before any request.' }
+      };
+
+      render(<QuizQuestion question={multiSelect} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Cost' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Training data size' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Answer' }));
+
+      expect(screen.getByRole('list', { name: /why your answer is wrong/i }))
+        .toHaveTextContent('Training data is fixed before any request.');
+    });
+  });
+
+  describe('Multi-Select Questions', () => {
+    const multiSelectQuestion: QuizQuestionType = {
+      id: 'token-002',
+      type: 'multi-select',
+      term: 'Token',
+      question: 'Which of the following grow with the number of tokens in a request?',
+      options: ['Cost', 'Latency', 'Training data size'],
+      correctAnswers: ['Cost', 'Latency'],
+      termId: 'token'
+    };
+
+    it('renders a checkbox per option and disables submit until one is chosen', () => {
+      render(<QuizQuestion question={multiSelectQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      expect(screen.getAllByRole('checkbox')).toHaveLength(3);
+      expect(screen.getByRole('button', { name: 'Submit Answer' })).toBeDisabled();
+    });
+
+    it('grades the selected options together', () => {
+      render(<QuizQuestion question={multiSelectQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Cost' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Latency' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Answer' }));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith('token-002', 'Cost, Latency', true);
+      expect(screen.getByText('Correct!')).toBeInTheDocument();
+    });
+
+    it('marks a partial selection as incorrect and lists the correct answers', () => {
+      render(<QuizQuestion question={multiSelectQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Cost' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Answer' }));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith('token-002', 'Cost', false);
+      expect(screen.getByText(/The correct answers are "Cost, Latency"/)).toBeInTheDocument();
+      screen.getAllByRole('checkbox').forEach(checkbox => {
+        expect(checkbox).toBeDisabled();
+      });
+    });
+  });
+
+  describe('True/False Questions', () => {
+    const trueFalseQuestion: QuizQuestionType = {
+      id: 'overfitting-002',
+      type: 'true-false',
+      term: 'Overfitting',
+      question: 'True or false: an overfit model performs poorly on new data.',
+      correctAnswer: true,
+      termId: 'overfitting'
+    };
+
+    it('renders True and False options', () => {
+      render(<QuizQuestion question={trueFalseQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      expect(screen.getAllByRole('radio')).toHaveLength(2);
+      expect(screen.getByRole('radio', { name: /True/ })).toBeInTheDocument();
+      expect(screen.getByRole('radio', { name: /False/ })).toBeInTheDocument();
+    });
+
+    it('grades the chosen value', () => {
+      render(<QuizQuestion question={trueFalseQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('radio', { name: /False/ }));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith('overfitting-002', 'False', false);
+      expect(screen.getByText(/The correct answer is "True"/)).toBeInTheDocument();
+      expect(screen.getByRole('radio', { name: 'Correct answer: True' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Ordering Questions', () => {
+    const orderingQuestion: QuizQuestionType = {
+      id: 'training-002',
+      type: 'ordering',
+      term: 'Training',
+      question: 'Put these steps in order.',
+      items: ['Train the model', 'Collect a dataset', 'Evaluate the model'],
+      correctOrder: ['Collect a dataset', 'Train the model', 'Evaluate the model'],
+      termId: 'training'
+    };
+
+    const getItemTexts = () => screen.getAllByRole('listitem').map(item => item.textContent);
+
+    it('renders items in display order with move controls', () => {
+      render(<QuizQuestion question={orderingQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      expect(getItemTexts()[0]).toContain('Train the model');
+      expect(screen.getByRole('button', { name: 'Move Train the model up' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Move Evaluate the model down' })).toBeDisabled();
+    });
+
+    it('reorders items and grades the arranged order', () => {
+      render(<QuizQuestion question={orderingQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Move Collect a dataset up' }));
+
+      expect(getItemTexts()[0]).toContain('Collect a dataset');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Answer' }));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith(
+        'training-002',
+        'Collect a dataset → Train the model → Evaluate the model',
+        true
+      );
+    });
+
+    it('shows the correct order after a wrong answer', () => {
+      render(<QuizQuestion question={orderingQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Answer' }));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith(
+        'training-002',
+        'Train the model → Collect a dataset → Evaluate the model',
+        false
+      );
+      expect(screen.getByText(/The correct order is/)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Move/ })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Free-Text Questions', () => {
+    const freeTextQuestion: QuizQuestionType = {
+      id: 'embedding-002',
+      type: 'free-text',
+      term: 'Embedding',
+      question: 'What is a numeric vector representation of text called?',
+      acceptedAnswers: ['Embedding', 'Vector embedding'],
+      termId: 'embedding'
+    };
+
+    it('accepts a typed answer with a small typo', () => {
+      render(<QuizQuestion question={freeTextQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: 'embeding' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Submit Answer' }));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith('embedding-002', 'embeding', true);
+      expect(screen.getByText('Correct!')).toBeInTheDocument();
+    });
+
+    it('rejects an unrelated answer and shows an accepted answer', () => {
+      render(<QuizQuestion question={freeTextQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: 'Token' } });
+      fireEvent.submit(screen.getByLabelText('Your answer'));
+
+      expect(mockOnAnswerSelected).toHaveBeenCalledWith('embedding-002', 'Token', false);
+      expect(screen.getByText(/The correct answer is "Embedding"/)).toBeInTheDocument();
+      expect(screen.getByLabelText('Your answer')).toBeDisabled();
+    });
+
+    it('does not submit an empty answer', () => {
+      render(<QuizQuestion question={freeTextQuestion} onAnswerSelected={mockOnAnswerSelected} />);
+
+      expect(screen.getByRole('button', { name: 'Submit Answer' })).toBeDisabled();
+      fireEvent.submit(screen.getByLabelText('Your answer'));
+
+      expect(mockOnAnswerSelected).not.toHaveBeenCalled();
+    });
+
+    it('should not have accessibility violations', async () => {
+      const { container } = render(
+        <QuizQuestion question={freeTextQuestion} onAnswerSelected={mockOnAnswerSelected} />
+      );
+
+      const results = await axe(container);
+      expect(results).toHaveNoViolations();
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import React, { useState, useCallback } from 'react';
-import { QuizQuestion as QuizQuestionType } from '../types';
+import { QuizAnswer, QuizQuestion as QuizQuestionType } from '../types';
+import { answerEvaluationService } from '../services/AnswerEvaluationService';
+import { routerService } from '../services/RouterService';
 import './QuizQuestion.css';
 
 interface QuizQuestionProps {
@@ -9,11 +11,14 @@ interface QuizQuestionProps {
 }
 
 interface AnswerState {
+  /** The submitted answer as shown to the user */
   selectedAnswer: string | null;
   isCorrect: boolean | null;
   showFeedback: boolean;
 }
 
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
 export const QuizQuestion: React.FC<QuizQuestionProps> = ({
   question,
   onAnswerSelected,
@@ -24,14 +29,29 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
     isCorrect: null,
     showFeedback: false
   });
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [orderedItems, setOrderedItems] = useState<string[]>(
+    question.type === 'ordering' ? question.items : []
+  );
+  const [textAnswer, setTextAnswer] = useState('');
 
-  const handleAnswerSelect = useCallback((selectedAnswer: string) => {
+  const isLocked = disabled || answerState.showFeedback;
+  const correctAnswerText = answerEvaluationService.getCorrectAnswerText(question);
+  const distractorRationale = answerState.showFeedback && !answerState.isCorrect
+    ? answerEvaluationService.getDistractorRationale(
+        question,
+        question.type === 'multi-select' ? selectedOptions : [answerState.selectedAnswer ?? '']
+      )
+    : [];
+
+  const submitAnswer = useCallback((answer: QuizAnswer) => {
     if (disabled || answerState.showFeedback) {
       return;
     }
 
-    const isCorrect = selectedAnswer === question.correctAnswer;
-    
+    const isCorrect = answerEvaluationService.isCorrect(question, answer);
+    const selectedAnswer = answerEvaluationService.formatAnswer(question, answer);
+
     setAnswerState({
       selectedAnswer,
       isCorrect,
@@ -40,7 +60,11 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
 
     // Notify parent component
     onAnswerSelected(question.id, selectedAnswer, isCorrect);
-  }, [question.id, question.correctAnswer, onAnswerSelected, disabled, answerState.showFeedback]);
+  }, [question, onAnswerSelected, disabled, answerState.showFeedback]);
+
+  const handleAnswerSelect = useCallback((selectedAnswer: string) => {
+    submitAnswer(question.type === 'true-false' ? selectedAnswer === 'True' : selectedAnswer);
+  }, [question.type, submitAnswer]);
 
   const handleKeyDown = useCallback((event: React.KeyboardEvent, answer: string) => {
     if (event.key === 'Enter' || event.key === ' ') {
@@ -49,14 +73,40 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
     }
   }, [handleAnswerSelect]);
 
+  const toggleOption = (option: string): void => {
+    setSelectedOptions(prev =>
+      prev.includes(option) ? prev.filter(selected => selected !== option) : [...prev, option]
+    );
+  };
+
+  const moveItem = (index: number, offset: number): void => {
+    setOrderedItems(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      next[index] = prev[target] as string;
+      next[target] = prev[index] as string;
+      return next;
+    });
+  };
+
+  const handleTextSubmit = (event: React.FormEvent): void => {
+    event.preventDefault();
+    if (textAnswer.trim()) {
+      submitAnswer(textAnswer);
+    }
+  };
+
   const getOptionClassName = (option: string): string => {
     const baseClass = 'quiz-question__option';
-    
+
     if (!answerState.showFeedback) {
       return `${baseClass} ${disabled ? 'quiz-question__option--disabled' : ''}`;
     }
 
-    if (option === question.correctAnswer) {
+    if (option === correctAnswerText) {
       return `${baseClass} quiz-question__option--correct`;
     }
 
@@ -72,7 +122,7 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
       return `Answer option: ${option}`;
     }
 
-    if (option === question.correctAnswer) {
+    if (option === correctAnswerText) {
       return `Correct answer: ${option}`;
     }
 
@@ -83,56 +133,250 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
     return `Answer option: ${option}`;
   };
 
+  const getCheckboxClassName = (option: string, correctAnswers: string[]): string => {
+    const baseClass = 'quiz-question__option quiz-question__option--checkbox';
+
+    if (!answerState.showFeedback) {
+      return `${baseClass} ${disabled ? 'quiz-question__option--disabled' : ''}`;
+    }
+
+    if (correctAnswers.includes(option)) {
+      return `${baseClass} quiz-question__option--correct`;
+    }
+
+    if (selectedOptions.includes(option)) {
+      return `${baseClass} quiz-question__option--incorrect`;
+    }
+
+    return `${baseClass} quiz-question__option--neutral`;
+  };
+
+  const getIncorrectMessage = (): string => {
+    switch (question.type) {
+      case 'multi-select':
+        return `The correct answers are "${correctAnswerText}".`;
+      case 'ordering':
+        return `The correct order is "${correctAnswerText}".`;
+      default:
+        return `The correct answer is "${correctAnswerText}".`;
+    }
+  };
+
+  const renderChoiceOptions = (options: string[]) => (
+    <div
+      className="quiz-question__options"
+      role="radiogroup"
+      aria-labelledby={`question-${question.id}`}
+      aria-describedby={answerState.showFeedback ? `feedback-${question.id}` : undefined}
+    >
+      {options.map((option, index) => (
+        <button
+          key={`${question.id}-option-${index}`}
+          type="button"
+          className={getOptionClassName(option)}
+          onClick={() => handleAnswerSelect(option)}
+          onKeyDown={(e) => handleKeyDown(e, option)}
+          disabled={isLocked}
+          aria-label={getOptionAriaLabel(option)}
+          role="radio"
+          aria-checked={answerState.selectedAnswer === option}
+        >
+          <span className="quiz-question__option-text">
+            {option}
+          </span>
+          {answerState.showFeedback && option === correctAnswerText && (
+            <span className="quiz-question__correct-indicator" aria-hidden="true">
+              ✓
+            </span>
+          )}
+          {answerState.showFeedback && option === answerState.selectedAnswer && !answerState.isCorrect && (
+            <span className="quiz-question__incorrect-indicator" aria-hidden="true">
+              ✗
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderMultiSelectOptions = (options: string[], correctAnswers: string[]) => (
+    <div
+      className="quiz-question__options"
+      role="group"
+      aria-labelledby={`question-${question.id}`}
+      aria-describedby={answerState.showFeedback ? `feedback-${question.id}` : undefined}
+    >
+      <p className="quiz-question__hint">Select all that apply.</p>
+      {options.map((option, index) => (
+        <label
+          key={`${question.id}-option-${index}`}
+          className={getCheckboxClassName(option, correctAnswers)}
+        >
+          <input
+            type="checkbox"
+            className="quiz-question__checkbox"
+            checked={selectedOptions.includes(option)}
+            onChange={() => toggleOption(option)}
+            disabled={isLocked}
+          />
+          <span className="quiz-question__option-text">
+            {option}
+          </span>
+          {answerState.showFeedback && correctAnswers.includes(option) && (
+            <span className="quiz-question__correct-indicator" aria-hidden="true">
+              ✓
+            </span>
+          )}
+          {answerState.showFeedback && !correctAnswers.includes(option) && selectedOptions.includes(option) && (
+            <span className="quiz-question__incorrect-indicator" aria-hidden="true">
+              ✗
+            </span>
+          )}
+        </label>
+      ))}
+      {!answerState.showFeedback && (
+        <button
+          type="button"
+          className="quiz-question__submit"
+          onClick={() => submitAnswer(selectedOptions)}
+          disabled={isLocked || selectedOptions.length === 0}
+        >
+          Submit Answer
+        </button>
+      )}
+    </div>
+  );
+
+  const renderOrderingItems = (correctOrder: string[]) => (
+    <div
+      className="quiz-question__options"
+      aria-describedby={answerState.showFeedback ? `feedback-${question.id}` : undefined}
+    >
+      <p className="quiz-question__hint">Arrange the items from first to last.</p>
+      <ol className="quiz-question__order-list" aria-labelledby={`question-${question.id}`}>
+        {orderedItems.map((item, index) => {
+          const isInPlace = correctOrder[index] === item;
+          const feedbackClass = answerState.showFeedback
+            ? (isInPlace ? 'quiz-question__option--correct' : 'quiz-question__option--incorrect')
+            : '';
+
+          return (
+            <li
+              key={`${question.id}-item-${item}`}
+              className={`quiz-question__option quiz-question__order-item ${feedbackClass}`}
+            >
+              <span className="quiz-question__option-text">
+                {item}
+              </span>
+              {!answerState.showFeedback && (
+                <span className="quiz-question__order-controls">
+                  <button
+                    type="button"
+                    className="quiz-question__order-button"
+                    onClick={() => moveItem(index, -1)}
+                    disabled={isLocked || index === 0}
+                    aria-label={`Move ${item} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className="quiz-question__order-button"
+                    onClick={() => moveItem(index, 1)}
+                    disabled={isLocked || index === orderedItems.length - 1}
+                    aria-label={`Move ${item} down`}
+                  >
+                    ↓
+                  </button>
+                </span>
+              )}
+              {answerState.showFeedback && (
+                <span
+                  className={isInPlace ? 'quiz-question__correct-indicator' : 'quiz-question__incorrect-indicator'}
+                  aria-hidden="true"
+                >
+                  {isInPlace ? '✓' : '✗'}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {!answerState.showFeedback && (
+        <button
+          type="button"
+          className="quiz-question__submit"
+          onClick={() => submitAnswer(orderedItems)}
+          disabled={isLocked}
+        >
+          Submit Answer
+        </button>
+      )}
+    </div>
+  );
+
+  const renderFreeTextInput = () => (
+    <form
+      className="quiz-question__options quiz-question__free-text"
+      onSubmit={handleTextSubmit}
+      aria-describedby={answerState.showFeedback ? `feedback-${question.id}` : undefined}
+    >
+      <label htmlFor={`answer-${question.id}`} className="quiz-question__hint">
+        Your answer
+      </label>
+      <input
+        id={`answer-${question.id}`}
+        type="text"
+        className="quiz-question__text-input"
+        value={textAnswer}
+        onChange={(e) => setTextAnswer(e.target.value)}
+        disabled={isLocked}
+        autoComplete="off"
+      />
+      {!answerState.showFeedback && (
+        <button
+          type="submit"
+          className="quiz-question__submit"
+          disabled={isLocked || !textAnswer.trim()}
+        >
+          Submit Answer
+        </button>
+      )}
+    </form>
+  );
+
+  const renderAnswerInput = () => {
+    switch (question.type) {
+      case 'multi-select':
+        return renderMultiSelectOptions(question.options, question.correctAnswers);
+      case 'true-false':
+        return renderChoiceOptions(TRUE_FALSE_OPTIONS);
+      case 'ordering':
+        return renderOrderingItems(question.correctOrder);
+      case 'free-text':
+        return renderFreeTextInput();
+      default:
+        return renderChoiceOptions(question.options);
+    }
+  };
+
   return (
     <div className="quiz-question" role="group" aria-labelledby={`question-${question.id}`}>
-      <h3 
+      <h3
         id={`question-${question.id}`}
         className="quiz-question__text"
       >
         {question.question}
       </h3>
-      
-      <div 
-        className="quiz-question__options"
-        role="radiogroup"
-        aria-labelledby={`question-${question.id}`}
-        aria-describedby={answerState.showFeedback ? `feedback-${question.id}` : undefined}
-      >
-        {question.options.map((option, index) => (
-          <button
-            key={`${question.id}-option-${index}`}
-            type="button"
-            className={getOptionClassName(option)}
-            onClick={() => handleAnswerSelect(option)}
-            onKeyDown={(e) => handleKeyDown(e, option)}
-            disabled={disabled || answerState.showFeedback}
-            aria-label={getOptionAriaLabel(option)}
-            role="radio"
-            aria-checked={answerState.selectedAnswer === option}
-          >
-            <span className="quiz-question__option-text">
-              {option}
-            </span>
-            {answerState.showFeedback && option === question.correctAnswer && (
-              <span className="quiz-question__correct-indicator" aria-hidden="true">
-                ✓
-              </span>
-            )}
-            {answerState.showFeedback && option === answerState.selectedAnswer && !answerState.isCorrect && (
-              <span className="quiz-question__incorrect-indicator" aria-hidden="true">
-                ✗
-              </span>
-            )}
-          </button>
-        ))}
-      </div>
+
+      {renderAnswerInput()}
 
       {answerState.showFeedback && (
-        <div 
+        <div
           id={`feedback-${question.id}`}
           className={`quiz-question__feedback ${
-            answerState.isCorrect 
-              ? 'quiz-question__feedback--correct' 
+            answerState.isCorrect
+              ? 'quiz-question__feedback--correct'
               : 'quiz-question__feedback--incorrect'
           }`}
           role="status"
@@ -144,21 +388,39 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
             </span>
           ) : (
             <span>
-              <strong>Incorrect.</strong> The correct answer is "{question.correctAnswer}".
+              <strong>Incorrect.</strong> {getIncorrectMessage()}
             </span>
           )}
-          
-          <a 
-            href={question.glossaryLink}
-            className="quiz-question__glossary-link"
-            aria-label={`Learn more about ${question.term} in the glossary`}
-          >
-            Learn more about {question.term}
-          </a>
+
+          {distractorRationale.length > 0 && (
+            <ul className="quiz-question__rationale" aria-label="Why your answer is wrong">
+              {distractorRationale.map(({ option, rationale }) => (
+                <li key={option} className="quiz-question__rationale-item">
+                  <strong>"{option}":</strong> {rationale}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {question.explanation && (
+            <p className="quiz-question__explanation">
+              {question.explanation}
+            </p>
+          )}
+
+          {question.termId && (
+            <a
+              href={routerService.format({ view: 'glossary', termId: question.termId })}
+              className="quiz-question__glossary-link"
+              aria-label={`Learn more about ${question.term} in the glossary`}
+            >
+              Learn more about {question.term}
+            </a>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-export default QuizQuestion;
\ No newline at end of file
+export default QuizQuestion;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { UpdateBanner } from './UpdateBanner';
+import { serviceWorkerService } from '../services/ServiceWorkerService';
+import { ContentUpdateKind } from '../types';
+
+// Extend Jest matchers
+expect.extend(toHaveNoViolations);
+
+// Mock the ServiceWorkerService
+jest.mock('../services/ServiceWorkerService');
+const mockServiceWorkerService = serviceWorkerService as jest.Mocked<typeof serviceWorkerService>;
+
+describe('UpdateBanner', () => {
+  let notify: (update: ContentUpdateKind | null) => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue(null);
+    mockServiceWorkerService.subscribe.mockImplementation(listener => {
+      notify = listener;
+      return jest.fn();
+    });
+  });
+
+  it('renders nothing visible without an update', () => {
+    render(<UpdateBanner />);
+
+    expect(screen.getByRole('status')).toBeEmptyDOMElement();
+  });
+
+  it('announces refreshed data', () => {
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue('data');
+    render(<UpdateBanner />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('New content is available. Refresh to see the latest version.');
+  });
+
+  it('shows updates found after the page loaded', () => {
+    render(<UpdateBanner />);
+
+    act(() => notify('app'));
+
+    expect(screen.getByText(/A new version of the AI Learning Portal is available/)).toBeInTheDocument();
+
+    act(() => notify(null));
+
+    expect(screen.queryByRole('button', { name: 'Refresh' })).not.toBeInTheDocument();
+  });
+
+  it('applies or dismisses the update', () => {
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue('app');
+    render(<UpdateBanner />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+    expect(mockServiceWorkerService.applyUpdate).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+    expect(mockServiceWorkerService.dismissUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads refreshed data in place when the app can', async () => {
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue('data');
+    const onRefreshData = jest.fn().mockResolvedValue(undefined);
+    render(<UpdateBanner onRefreshData={onRefreshData} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+
+    expect(screen.getByRole('button', { name: 'Refreshing...' })).toBeDisabled();
+    await waitFor(() => expect(mockServiceWorkerService.dismissUpdate).toHaveBeenCalledTimes(1));
+    expect(onRefreshData).toHaveBeenCalledTimes(1);
+    expect(mockServiceWorkerService.applyUpdate).not.toHaveBeenCalled();
+  });
+
+  it('reloads the page when refreshing data in place fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue('data');
+    render(<UpdateBanner onRefreshData={jest.fn().mockRejectedValue(new Error('Network error'))} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+
+    await waitFor(() => expect(mockServiceWorkerService.applyUpdate).toHaveBeenCalledTimes(1));
+    expect(mockServiceWorkerService.dismissUpdate).not.toHaveBeenCalled();
+  });
+
+  it('reloads for a new app version even when data can be refreshed in place', () => {
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue('app');
+    const onRefreshData = jest.fn();
+    render(<UpdateBanner onRefreshData={onRefreshData} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+
+    expect(mockServiceWorkerService.applyUpdate).toHaveBeenCalledTimes(1);
+    expect(onRefreshData).not.toHaveBeenCalled();
+  });
+
+  it('stops listening when unmounted', () => {
+    const unsubscribe = jest.fn();
+    mockServiceWorkerService.subscribe.mockReturnValue(unsubscribe);
+    const { unmount } = render(<UpdateBanner />);
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('has no accessibility violations with an update shown', async () => {
+    mockServiceWorkerService.getPendingUpdate.mockReturnValue('data');
+    const { container } = render(<UpdateBanner />);
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * UpdateBanner Component
+ *
+ * Tells the user when the service worker has found newer content, either a
+ * new version of the portal or refreshed glossary, quiz and tool data, and
+ * offers to show it: refreshed data is loaded in place when the app can do
+ * so, anything else reloads the page.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ContentUpdateKind } from '../types';
+import { serviceWorkerService } from '../services/ServiceWorkerService';
+import './UpdateBanner.css';
+
+interface UpdateBannerProps {
+  /** Loads refreshed data files in place; the page reloads if it fails */
+  onRefreshData?: () => Promise<void>;
+  className?: string;
+}
+
+const UPDATE_MESSAGES: Record<ContentUpdateKind, string> = {
+  'app': 'A new version of the AI Learning Portal is available.',
+  'data': 'New content is available.'
+};
+
+export const UpdateBanner: React.FC<UpdateBannerProps> = ({
+  onRefreshData,
+  className = ''
+}) => {
+  const [update, setUpdate] = useState<ContentUpdateKind | null>(
+    () => serviceWorkerService.getPendingUpdate()
+  );
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Follow updates found after the page loaded
+  useEffect(() => {
+    return serviceWorkerService.subscribe(setUpdate);
+  }, []);
+
+  const handleRefresh = async () => {
+    if (update !== 'data' || !onRefreshData) {
+      serviceWorkerService.applyUpdate();
+      return;
+    }
+
+    setIsRefreshing(true);
+    try {
+      await onRefreshData();
+      serviceWorkerService.dismissUpdate();
+    } catch (error) {
+      console.error('Refreshing data in place failed, reloading instead:', error);
+      serviceWorkerService.applyUpdate();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className={`update-banner ${update ? 'update-banner--visible' : ''} ${className}`} role="status">
+      {update && (
+        <div className="update-banner__content">
+          <p className="update-banner__message">
+            {UPDATE_MESSAGES[update]} Refresh to see the latest version.
+          </p>
+          <div className="update-banner__actions">
+            <button
+              type="button"
+              className="update-banner__refresh-button"
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+            >
+              {isRefreshing ? 'Refreshing...' : 'Refresh'}
+            </button>
+            <button
+              type="button"
+              className="update-banner__dismiss-button"
+              onClick={() => serviceWorkerService.dismissUpdate()}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpdateBanner;
@@ -0,0 +1,32 @@
+import { renderHook } from '@testing-library/react';
+import { useLoadSignal } from './useLoadSignal';
+
+describe('useLoadSignal', () => {
+  it('should abort the previous load when a new one starts', () => {
+    const { result } = renderHook(() => useLoadSignal());
+
+    const first = result.current();
+    const second = result.current();
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(false);
+  });
+
+  it('should abort the last load on unmount', () => {
+    const { result, unmount } = renderHook(() => useLoadSignal());
+
+    const signal = result.current();
+    unmount();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should keep the same start function between renders', () => {
+    const { result, rerender } = renderHook(() => useLoadSignal());
+    const startLoad = result.current;
+
+    rerender();
+
+    expect(result.current).toBe(startLoad);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * useLoadSignal - cancellable data loads for a view
+ *
+ * Views pass the signal to the data services they load from, so a load the
+ * view no longer needs stops waiting instead of updating state later.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Hand out an abort signal for each load a view starts. Starting a load aborts
+ * the one before it, and unmounting aborts the last one, so a load still in
+ * progress stops waiting once it is superseded or the view is gone.
+ * @returns Function that starts a load and returns the signal for it
+ */
+export function useLoadSignal(): () => AbortSignal {
+  const controller = useRef(new AbortController());
+
+  useEffect(() => {
+    return () => controller.current.abort();
+  }, []);
+
+  return useCallback(() => {
+    controller.current.abort();
+    controller.current = new AbortController();
+    return controller.current.signal;
+  }, []);
+}
@@ -0,0 +1,108 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+/**
+ * Service worker - offline support for the portal
+ *
+ * Precaches the app shell produced by the build and the JSON data files, so
+ * the portal opens without a connection. Data files are served
+ * stale-while-revalidate: the cached copy answers at once while a fresh copy
+ * is fetched in the background, and open pages are told when that copy
+ * differs so they can offer a refresh.
+ *
+ * Create React App compiles this file with Workbox's InjectManifest plugin
+ * during `npm run build`; it is not used by `npm start`.
+ */
+
+import { clientsClaim } from 'workbox-core';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { StaleWhileRevalidate } from 'workbox-strategies';
+import { BroadcastCacheUpdate } from 'workbox-broadcast-update';
+
+declare const self: ServiceWorkerGlobalScope;
+
+/**
+ * Data files loaded by the data services, relative to the public URL
+ */
+const DATA_FILES = [
+  'glossary.json',
+  'questions.json',
+  'ai-tools.json',
+  'learning-paths.json',
+  'introduction.json'
+];
+
+/**
+ * Cache holding the data files; the version suffix lets a later worker start afresh
+ */
+const DATA_CACHE_NAME = 'portal-data-v1';
+
+clientsClaim();
+
+// Precache every asset generated by the build; the list is injected at build time
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve the app shell for page navigations so deep links work offline
+const fileExtensionRegexp = new RegExp('/[^/?]+\\.[^/]+$');
+registerRoute(
+  ({ request, url }: { request: Request; url: URL }) => {
+    if (request.mode !== 'navigate') {
+      return false;
+    }
+    if (url.pathname.startsWith('/_')) {
+      return false;
+    }
+    return !url.pathname.match(fileExtensionRegexp);
+  },
+  createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html')
+);
+
+const dataUrls = new Set(
+  DATA_FILES.map(file => new URL(`${process.env.PUBLIC_URL}/${file}`, self.location.origin).pathname)
+);
+
+const broadcastUpdate = new BroadcastCacheUpdate();
+
+const dataStrategy = new StaleWhileRevalidate({
+  cacheName: DATA_CACHE_NAME,
+  plugins: [
+    {
+      // Post a CACHE_UPDATED message to open pages when a refreshed file differs
+      cacheDidUpdate: async (options) => {
+        await broadcastUpdate.notifyIfUpdated(options);
+      }
+    }
+  ]
+});
+
+// Answer data requests from the cache and refresh it in the background
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && dataUrls.has(url.pathname),
+  dataStrategy
+);
+
+// Store the data files while installing so the first offline visit has them
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(DATA_CACHE_NAME).then(cache => cache.addAll(Array.from(dataUrls)))
+  );
+});
+
+// Remove data caches left behind by older workers
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then(names => Promise.all(
+      names
+        .filter(name => name.startsWith('portal-data-') && name !== DATA_CACHE_NAME)
+        .map(name => caches.delete(name))
+    ))
+  );
+});
+
+// Let the page activate a waiting worker when the user accepts an update
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
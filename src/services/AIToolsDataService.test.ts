@@ -450,6 +450,41 @@ describe('AIToolsDataService', () => {
       const result = newService.searchTools('warp');
       expect(result).toEqual([]);
     });
+ 
+    it('should tolerate typos', () => {
+      expect(service.searchTools('copilt')[0]?.id).toBe('copilot');
+      expect(service.searchTools('perplexty')[0]?.id).toBe('perplexity');
+    });
+
+    it('should match acronyms of tool names', () => {
+      expect(service.searchTools('GC')[0]?.id).toBe('copilot');
+    });
+
+    it('should rank description matches above use case and experience matches', () => {
+      // Warp only mentions code in a use case
+      expect(service.searchTools('code').map(tool => tool.id)).toEqual(['copilot', 'warp']);
+      // Copilot only mentions development in a user experience
+      expect(service.searchTools('development').map(tool => tool.id)).toEqual(['warp', 'copilot']);
+    });
+  });
+
+  describe('getMatchSnippet', () => {
+    it('should highlight the matching words of the description', () => {
+      const snippet = service.getMatchSnippet(mockTools[0]!, 'terminal');
+      const match = snippet!.matches[0]!;
+
+      expect(snippet?.text).toBe('AI-powered terminal and development assistant');
+      expect(snippet!.text.slice(match.start, match.end)).toBe('terminal');
+    });
+
+    it('should fall back to use cases, experiences and integrations', () => {
+      expect(service.getMatchSnippet(mockTools[0]!, 'refactoring')?.text).toBe('Debugging and refactoring');
+      expect(service.getMatchSnippet(mockTools[0]!, 'azure')?.text).toBe('ADO (Azure DevOps)');
+    });
+
+    it('should return null when nothing but the name matches', () => {
+      expect(service.getMatchSnippet(mockTools[0]!, 'warp')).toBeNull();
+    });
   });
 
   describe('getToolsSorted', () => {
@@ -598,6 +633,25 @@ describe('AIToolsDataService', () => {
     });
   });
 
+  describe('getSentimentBreakdown', () => {
+    it('should count experiences by sentiment', () => {
+      const tool: AITool = {
+        ...mockTools[0]!,
+        userExperiences: [
+          ...mockUserExperiences,
+          { ...mockUserExperiences[0]!, id: 'exp-challenge', sentiment: 'challenge' }
+        ]
+      };
+
+      expect(service.getSentimentBreakdown(tool)).toEqual({ positive: 2, mixed: 0, challenge: 1 });
+    });
+
+    it('should count nothing for a tool without experiences', () => {
+      expect(service.getSentimentBreakdown({ ...mockTools[0]!, userExperiences: [] }))
+        .toEqual({ positive: 0, mixed: 0, challenge: 0 });
+    });
+  });
+
   describe('getAllUseCases', () => {
     beforeEach(async () => {
       const mockResponse = {
@@ -692,6 +746,27 @@ describe('AIToolsDataService', () => {
     });
   });
 
+  describe('refreshTools', () => {
+    it('should replace the loaded tools when the file changed', async () => {
+      const updatedTools = [{ ...mockTools[0]!, description: 'Updated description' }];
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue(mockToolsData) })
+        .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ ...mockToolsData, tools: updatedTools }) });
+
+      await service.loadTools();
+      await service.refreshTools();
+
+      expect(service.getAllTools()).toEqual(updatedTools);
+    });
+
+    it('should not load tools that were never loaded', async () => {
+      await service.refreshTools();
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(service.isDataLoaded()).toBe(false);
+    });
+  });
+
   describe('clearCache', () => {
     it('should clear cached data', async () => {
       const mockResponse = {
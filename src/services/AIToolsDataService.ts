@@ -1,83 +1,59 @@
-import { AITool, AIToolsData, ToolCategory, isAIToolsData } from '../types';
+import {
+  AITool,
+  AIToolsData,
+  MatchSnippet,
+  SentimentBreakdown,
+  ToolCategory,
+  validateAITool,
+  validateToolCategories
+} from '../types';
+import { fuzzyMatchService } from './FuzzyMatchService';
+import { DataLoader, DataLoadOptions, partitionRecords } from './DataLoader';
+import { DataValidationError } from './AppErrors';
+import { validationReportService } from './ValidationReportService';
+
+const TOOLS_FILE = 'ai-tools.json';
+
+/**
+ * Relative weight of a search match in each part of a tool, so that name
+ * hits rank above description hits, which rank above other details
+ */
+const NAME_WEIGHT = 100;
+const DESCRIPTION_WEIGHT = 10;
+const DETAIL_WEIGHT = 1;
 
 export class AIToolsDataService {
   private toolsData: AIToolsData | null = null;
-  private isLoaded = false;
+  private loader = new DataLoader<AIToolsData>({
+    file: TOOLS_FILE,
+    label: 'AI tools data',
+    name: 'AI tools',
+    parse: parseToolsData
+  });
 
   /**
    * Load AI tools data from the static JSON file
    */
-  async loadTools(): Promise<AITool[]> {
-    if (this.isLoaded && this.toolsData) {
-      return this.toolsData.tools;
-    }
-
+  async loadTools(options: DataLoadOptions = {}): Promise<AITool[]> {
     try {
-      // Use process.env.PUBLIC_URL to handle different deployment paths
-      const publicUrl = process.env.PUBLIC_URL || '';
-      const url = `${publicUrl}/ai-tools.json`;
-      
-      // Add timeout to prevent hanging requests
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      
-      const response = await fetch(url, { 
-        signal: controller.signal,
-        headers: {
-          'Cache-Control': 'no-cache'
-        }
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('AI tools data file not found. Please check if ai-tools.json exists in the public folder.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error while loading AI tools data. Please try again later.');
-        } else {
-          throw new Error(`Failed to load AI tools: ${response.status} ${response.statusText}`);
-        }
-      }
-
-      let data;
-      try {
-        data = await response.json();
-      } catch (parseError) {
-        throw new Error('Invalid AI tools data format: file contains malformed JSON');
-      }
-      
-      if (!data || typeof data !== 'object') {
-        throw new Error('Invalid AI tools data format: expected JSON object');
-      }
-      
-      // Validate the entire data structure using type guard
-      if (!isAIToolsData(data)) {
-        throw new Error('Invalid AI tools data format: data structure does not match expected format');
-      }
-
-      // Additional validation for tools array
-      if (data.tools.length === 0) {
-        throw new Error('No AI tools found in data file. Please check the ai-tools data format.');
-      }
-
-      this.toolsData = data;
-      this.isLoaded = true;
+      this.toolsData = await this.loader.load(options);
       return this.toolsData.tools;
     } catch (error) {
       console.error('Error loading AI tools:', error);
-      
-      // Provide more specific error messages
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error('Network error: Unable to connect to load AI tools data. Please check your internet connection.');
-      } else if (error instanceof DOMException && error.name === 'AbortError') {
-        throw new Error('Request timeout: Loading AI tools data took too long. Please try again.');
-      }
-      
       throw error;
     }
   }
 
+  /**
+   * Check the AI tools file for changes since it was loaded, keeping the
+   * loaded tools if it is unchanged. Does nothing before the first load.
+   */
+  async refreshTools(): Promise<void> {
+    if (this.loader.isLoaded()) {
+      this.toolsData = await this.loader.revalidate();
+    }
+  }
+
   /**
    * Get a specific tool by ID
    * @param id The ID of the tool to retrieve
@@ -114,9 +90,10 @@ export class AIToolsDataService {
   }
 
   /**
-   * Search tools by text query across names, descriptions, and use cases
+   * Search tools by text query across names, descriptions, use cases, user
+   * experiences and integrations, tolerating typos and matching acronyms
    * @param query The search query
-   * @returns Array of tools matching the query
+   * @returns Array of tools matching the query, most relevant first
    */
   searchTools(query: string): AITool[] {
     if (!this.toolsData) {
@@ -127,23 +104,25 @@ export class AIToolsDataService {
       return this.getAllTools();
     }
 
-    const searchQuery = query.toLowerCase().trim();
-    
-    return this.toolsData.tools.filter(tool => 
-      tool.name.toLowerCase().includes(searchQuery) ||
-      tool.description.toLowerCase().includes(searchQuery) ||
-      tool.commonUseCases.some(useCase => 
-        useCase.toLowerCase().includes(searchQuery)
-      ) ||
-      tool.userExperiences.some(experience =>
-        experience.quote.toLowerCase().includes(searchQuery) ||
-        experience.context.toLowerCase().includes(searchQuery) ||
-        experience.useCase.toLowerCase().includes(searchQuery)
-      ) ||
-      (tool.integrations && tool.integrations.some(integration =>
-        integration.toLowerCase().includes(searchQuery)
-      ))
-    );
+    const searchQuery = query.trim();
+
+    return fuzzyMatchService.rankByRelevance(this.toolsData.tools, tool => Math.max(
+      NAME_WEIGHT * fuzzyMatchService.scoreName(searchQuery, tool.name),
+      fuzzyMatchService.scoreFields(searchQuery, [
+        { text: tool.description, weight: DESCRIPTION_WEIGHT },
+        ...getToolDetails(tool).map(detail => ({ text: detail, weight: DETAIL_WEIGHT }))
+      ])
+    ));
+  }
+
+  /**
+   * Get an excerpt showing where a tool matched a search query
+   * @param tool The tool to describe
+   * @param query The search query
+   * @returns Snippet from the description or details, or null if only the name matched
+   */
+  getMatchSnippet(tool: AITool, query: string): MatchSnippet | null {
+    return fuzzyMatchService.createSnippet(query, [tool.description, ...getToolDetails(tool)]);
   }
 
   /**
@@ -167,6 +146,15 @@ export class AIToolsDataService {
     return this.toolsData?.categories || null;
   }
 
+  /**
+   * Get the label the tools file gives a category
+   * @param category The category to label
+   * @returns The category's label, or its id when the file does not describe it
+   */
+  getCategoryLabel(category: ToolCategory): string {
+    return this.getCategories()?.[category]?.label ?? category;
+  }
+
   /**
    * Get tools filtered by multiple criteria
    * @param filters Object containing filter criteria
@@ -232,6 +220,19 @@ export class AIToolsDataService {
     );
   }
 
+  /**
+   * Count a tool's user experiences by sentiment
+   * @param tool The tool whose experiences to count
+   * @returns The number of positive, mixed and challenge experiences
+   */
+  getSentimentBreakdown(tool: AITool): SentimentBreakdown {
+    const breakdown: SentimentBreakdown = { positive: 0, mixed: 0, challenge: 0 };
+    tool.userExperiences.forEach(experience => {
+      breakdown[experience.sentiment]++;
+    });
+    return breakdown;
+  }
+
   /**
    * Get all unique use cases across all tools
    * @returns Array of unique use cases
@@ -279,7 +280,7 @@ export class AIToolsDataService {
    * @returns true if data is loaded, false otherwise
    */
   isDataLoaded(): boolean {
-    return this.isLoaded && this.toolsData !== null;
+    return this.loader.isLoaded() && this.toolsData !== null;
   }
 
   /**
@@ -287,9 +288,51 @@ export class AIToolsDataService {
    */
   clearCache(): void {
     this.toolsData = null;
-    this.isLoaded = false;
+    this.loader.clear();
   }
 }
 
+/**
+ * Validate the AI tools file, keeping the valid tools
+ *
+ * The categories describe every tool, so a problem with them fails the
+ * whole file; a broken tool is skipped unless no tool is valid.
+ */
+function parseToolsData(data: { tools?: unknown; categories?: unknown }): AIToolsData {
+  const invalidFormat = 'Invalid AI tools data format: data structure does not match expected format';
+  if (!Array.isArray(data.tools) || validateToolCategories(data.categories, 'categories').length > 0) {
+    throw new DataValidationError('invalid-data', invalidFormat);
+  }
+
+  // Additional validation for tools array
+  if (data.tools.length === 0) {
+    throw new DataValidationError('empty', 'No AI tools found in data file. Please check the ai-tools data format.');
+  }
+
+  const { valid: tools, invalid } = partitionRecords<AITool>(data.tools, 'tools', validateAITool);
+  validationReportService.report(TOOLS_FILE, invalid);
+
+  if (tools.length === 0) {
+    throw new DataValidationError('invalid-data', invalidFormat, { invalidRecords: invalid });
+  }
+
+  if (invalid.length > 0) {
+    console.warn(`${invalid.length} invalid AI tools were skipped`);
+  }
+
+  return { tools, categories: data.categories as AIToolsData['categories'] };
+}
+
+/**
+ * Searchable text of a tool besides its name and description
+ */
+function getToolDetails(tool: AITool): string[] {
+  return [
+    ...tool.commonUseCases,
+    ...tool.userExperiences.flatMap(experience => [experience.quote, experience.context, experience.useCase]),
+    ...(tool.integrations ?? [])
+  ];
+}
+
 // Export a singleton instance
 export const aiToolsDataService = new AIToolsDataService();
\ No newline at end of file
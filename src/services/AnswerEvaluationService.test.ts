@@ -0,0 +1,149 @@
+import { AnswerEvaluationService } from './AnswerEvaluationService';
+import { QuizQuestion } from '../types';
+
+describe('AnswerEvaluationService', () => {
+  let service: AnswerEvaluationService;
+
+  const base = { term: 'AI', question: 'Question?', termId: 'ai' };
+
+  const singleChoice: QuizQuestion = {
+    ...base,
+    id: 'single',
+    options: ['A', 'B', 'C'],
+    correctAnswer: 'B'
+  };
+
+  const multiSelect: QuizQuestion = {
+    ...base,
+    id: 'multi',
+    type: 'multi-select',
+    options: ['A', 'B', 'C'],
+    correctAnswers: ['A', 'C']
+  };
+
+  const trueFalse: QuizQuestion = {
+    ...base,
+    id: 'true-false',
+    type: 'true-false',
+    correctAnswer: false
+  };
+
+  const ordering: QuizQuestion = {
+    ...base,
+    id: 'ordering',
+    type: 'ordering',
+    items: ['Second', 'First', 'Third'],
+    correctOrder: ['First', 'Second', 'Third']
+  };
+
+  const freeText: QuizQuestion = {
+    ...base,
+    id: 'free-text',
+    type: 'free-text',
+    acceptedAnswers: ['Fine-Tuning', 'Finetuning']
+  };
+
+  beforeEach(() => {
+    service = new AnswerEvaluationService();
+  });
+
+  describe('isCorrect', () => {
+    it('should grade single-choice answers by exact option', () => {
+      expect(service.isCorrect(singleChoice, 'B')).toBe(true);
+      expect(service.isCorrect(singleChoice, 'A')).toBe(false);
+    });
+
+    it('should require exactly the correct options for multi-select answers', () => {
+      expect(service.isCorrect(multiSelect, ['C', 'A'])).toBe(true);
+      expect(service.isCorrect(multiSelect, ['A'])).toBe(false);
+      expect(service.isCorrect(multiSelect, ['A', 'B', 'C'])).toBe(false);
+      expect(service.isCorrect(multiSelect, 'A')).toBe(false);
+    });
+
+    it('should grade true/false answers by value', () => {
+      expect(service.isCorrect(trueFalse, false)).toBe(true);
+      expect(service.isCorrect(trueFalse, true)).toBe(false);
+      expect(service.isCorrect(trueFalse, 'false')).toBe(false);
+    });
+
+    it('should require the exact order for ordering answers', () => {
+      expect(service.isCorrect(ordering, ['First', 'Second', 'Third'])).toBe(true);
+      expect(service.isCorrect(ordering, ['Second', 'First', 'Third'])).toBe(false);
+      expect(service.isCorrect(ordering, ['First', 'Second'])).toBe(false);
+    });
+
+    it('should match free-text answers against accepted answers', () => {
+      expect(service.isCorrect(freeText, 'fine tuning')).toBe(true);
+      expect(service.isCorrect(freeText, 'Finetuning')).toBe(true);
+      expect(service.isCorrect(freeText, ['Fine-Tuning'])).toBe(false);
+    });
+  });
+
+  describe('matchesFreeText', () => {
+    it('should ignore case, punctuation and extra whitespace', () => {
+      expect(service.matchesFreeText(['Large Language Model'], '  large-language   model! ')).toBe(true);
+    });
+
+    it('should tolerate small typos in longer answers', () => {
+      expect(service.matchesFreeText(['Hyperparameter'], 'hyperparamter')).toBe(true);
+      expect(service.matchesFreeText(['Embedding'], 'embeding')).toBe(true);
+    });
+
+    it('should reject answers that differ by too much', () => {
+      expect(service.matchesFreeText(['Embedding'], 'bedding')).toBe(false);
+      expect(service.matchesFreeText(['Hyperparameter'], 'parameter')).toBe(false);
+    });
+
+    it('should require an exact match for very short answers', () => {
+      expect(service.matchesFreeText(['LLM'], 'llm')).toBe(true);
+      expect(service.matchesFreeText(['LLM'], 'llx')).toBe(false);
+    });
+
+    it('should reject empty answers', () => {
+      expect(service.matchesFreeText(['Embedding'], '   ')).toBe(false);
+    });
+  });
+
+  describe('formatAnswer', () => {
+    it('should describe each kind of answer as text', () => {
+      expect(service.formatAnswer(singleChoice, 'B')).toBe('B');
+      expect(service.formatAnswer(multiSelect, ['A', 'C'])).toBe('A, C');
+      expect(service.formatAnswer(trueFalse, true)).toBe('True');
+      expect(service.formatAnswer(ordering, ['First', 'Second'])).toBe('First → Second');
+      expect(service.formatAnswer(freeText, '  fine tuning ')).toBe('fine tuning');
+    });
+  });
+
+  describe('getDistractorRationale', () => {
+    const withRationale: QuizQuestion = {
+      ...base,
+      id: 'rationale',
+      type: 'multi-select',
+      options: ['A', 'B', 'C', 'D'],
+      correctAnswers: ['A'],
+      rationale: { 'B': 'B is wrong.', 'D': 'D is wrong.' }
+    };
+
+    it('should return rationale for picked distractors in option order', () => {
+      expect(service.getDistractorRationale(withRationale, ['D', 'A', 'B', 'C'])).toEqual([
+        { option: 'B', rationale: 'B is wrong.' },
+        { option: 'D', rationale: 'D is wrong.' }
+      ]);
+    });
+
+    it('should return nothing for questions without rationale', () => {
+      expect(service.getDistractorRationale(singleChoice, ['A'])).toEqual([]);
+      expect(service.getDistractorRationale(freeText, ['Training'])).toEqual([]);
+    });
+  });
+
+  describe('getCorrectAnswerText', () => {
+    it('should describe the correct answer for each question type', () => {
+      expect(service.getCorrectAnswerText(singleChoice)).toBe('B');
+      expect(service.getCorrectAnswerText(multiSelect)).toBe('A, C');
+      expect(service.getCorrectAnswerText(trueFalse)).toBe('False');
+      expect(service.getCorrectAnswerText(ordering)).toBe('First → Second → Third');
+      expect(service.getCorrectAnswerText(freeText)).toBe('Fine-Tuning');
+    });
+  });
+});
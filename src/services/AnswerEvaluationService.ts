@@ -0,0 +1,162 @@
+/**
+ * AnswerEvaluationService - grading and display of quiz answers
+ *
+ * Knows how each question format is answered, so components and services can
+ * check and describe answers without switching on the question type themselves.
+ */
+
+import { QuizAnswer, QuizQuestion } from '../types';
+import { fuzzyMatchService } from './FuzzyMatchService';
+
+/**
+ * Separator used when showing an arranged order as text
+ */
+const ORDER_SEPARATOR = ' → ';
+
+/**
+ * Shortest normalized answer that tolerates a typo
+ */
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Share of an accepted answer's characters that may differ in a free-text answer
+ */
+const FUZZY_TOLERANCE = 0.2;
+
+export class AnswerEvaluationService {
+  /**
+   * Check whether an answer is correct for a question
+   * @param question The question being answered
+   * @param answer The user's answer
+   * @returns true if the answer is correct, false otherwise
+   */
+  isCorrect(question: QuizQuestion, answer: QuizAnswer): boolean {
+    switch (question.type) {
+      case 'multi-select': {
+        if (!Array.isArray(answer)) {
+          return false;
+        }
+        const selected = new Set(answer);
+        return (
+          selected.size === question.correctAnswers.length &&
+          question.correctAnswers.every(correct => selected.has(correct))
+        );
+      }
+      case 'true-false':
+        return answer === question.correctAnswer;
+      case 'ordering':
+        return (
+          Array.isArray(answer) &&
+          answer.length === question.correctOrder.length &&
+          answer.every((item, index) => item === question.correctOrder[index])
+        );
+      case 'free-text':
+        return typeof answer === 'string' && this.matchesFreeText(question.acceptedAnswers, answer);
+      default:
+        return answer === question.correctAnswer;
+    }
+  }
+
+  /**
+   * Check a typed answer against accepted answers, ignoring case, punctuation
+   * and extra spaces, and allowing a small number of typos in longer answers
+   * @param acceptedAnswers Answers that count as correct
+   * @param answer The typed answer
+   * @returns true if the answer matches an accepted answer
+   */
+  matchesFreeText(acceptedAnswers: string[], answer: string): boolean {
+    const normalizedAnswer = normalizeText(answer);
+
+    if (!normalizedAnswer) {
+      return false;
+    }
+
+    return acceptedAnswers.some(accepted => {
+      const normalizedAccepted = normalizeText(accepted);
+
+      if (normalizedAccepted === normalizedAnswer) {
+        return true;
+      }
+
+      if (normalizedAccepted.length < MIN_FUZZY_LENGTH) {
+        return false;
+      }
+
+      const allowedEdits = Math.max(1, Math.floor(normalizedAccepted.length * FUZZY_TOLERANCE));
+      return fuzzyMatchService.getEditDistance(normalizedAccepted, normalizedAnswer) <= allowedEdits;
+    });
+  }
+
+  /**
+   * Describe an answer as text for feedback and answer history
+   * @param question The question being answered
+   * @param answer The user's answer
+   * @returns Human-readable answer
+   */
+  formatAnswer(question: QuizQuestion, answer: QuizAnswer): string {
+    if (typeof answer === 'boolean') {
+      return answer ? 'True' : 'False';
+    }
+
+    if (Array.isArray(answer)) {
+      return question.type === 'ordering' ? answer.join(ORDER_SEPARATOR) : answer.join(', ');
+    }
+
+    return answer.trim();
+  }
+
+  /**
+   * Get the rationale for each wrong option the user picked
+   * @param question The question being answered
+   * @param selectedOptions Options the user picked
+   * @returns Rationale for every picked distractor that has one, in option order
+   */
+  getDistractorRationale(
+    question: QuizQuestion,
+    selectedOptions: string[]
+  ): Array<{ option: string; rationale: string }> {
+    if (question.type !== undefined && question.type !== 'single-choice' && question.type !== 'multi-select') {
+      return [];
+    }
+
+    const rationale = question.rationale ?? {};
+
+    return question.options
+      .filter(option => selectedOptions.includes(option) && rationale[option] !== undefined)
+      .map(option => ({ option, rationale: rationale[option] as string }));
+  }
+
+  /**
+   * Describe the correct answer for a question as text
+   * @param question The question to describe
+   * @returns Human-readable correct answer
+   */
+  getCorrectAnswerText(question: QuizQuestion): string {
+    switch (question.type) {
+      case 'multi-select':
+        return question.correctAnswers.join(', ');
+      case 'true-false':
+        return question.correctAnswer ? 'True' : 'False';
+      case 'ordering':
+        return question.correctOrder.join(ORDER_SEPARATOR);
+      case 'free-text':
+        return question.acceptedAnswers[0] ?? '';
+      default:
+        return question.correctAnswer;
+    }
+  }
+}
+
+/**
+ * Lower-case text and strip punctuation and repeated whitespace
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Export a singleton instance
+export const answerEvaluationService = new AnswerEvaluationService();
@@ -0,0 +1,71 @@
+import {
+  DataValidationError,
+  NetworkError,
+  NotFoundError,
+  StorageError,
+  describeErrorDetails,
+  getErrorKind,
+  isRetryableError
+} from './AppErrors';
+
+describe('AppErrors', () => {
+  describe('getErrorKind', () => {
+    it('maps each error class to how it is presented', () => {
+      expect(getErrorKind(new NetworkError('timeout', 'Too slow'))).toBe('network');
+      expect(getErrorKind(new DataValidationError('parse', 'Bad JSON'))).toBe('validation');
+      expect(getErrorKind(new NotFoundError('Missing'))).toBe('not-found');
+      expect(getErrorKind(new StorageError('write', 'Full'))).toBe('storage');
+    });
+
+    it('treats other errors as generic', () => {
+      expect(getErrorKind(new Error('Network error'))).toBe('generic');
+      expect(getErrorKind('failed')).toBe('generic');
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('allows retrying connection and server failures', () => {
+      expect(isRetryableError(new NetworkError('network', 'Offline'))).toBe(true);
+      expect(isRetryableError(new NetworkError('server', 'Down', { status: 503 }))).toBe(true);
+    });
+
+    it('rules out retrying failures that will repeat', () => {
+      expect(isRetryableError(new NetworkError('http', 'Forbidden', { status: 403 }))).toBe(false);
+      expect(isRetryableError(new DataValidationError('invalid-data', 'Wrong shape'))).toBe(false);
+      expect(isRetryableError(new NotFoundError('Missing'))).toBe(false);
+    });
+
+    it('allows retrying unknown errors', () => {
+      expect(isRetryableError(new Error('Something broke'))).toBe(true);
+    });
+  });
+
+  describe('describeErrorDetails', () => {
+    it('lists the records that failed validation and their issues', () => {
+      const error = new DataValidationError('empty', 'No valid terms', {
+        invalidRecords: [
+          { index: 1, id: 'token', issues: [{ path: 'terms[1].definition', message: 'is required' }] },
+          { index: 4, issues: [{ path: 'terms[4].id', message: 'is required' }] }
+        ]
+      });
+
+      expect(describeErrorDetails(error)).toBe(
+        'Invalid records: #1 (token), #4\nterms[1].definition: is required\nterms[4].id: is required'
+      );
+    });
+
+    it('has nothing to add for other errors', () => {
+      expect(describeErrorDetails(new DataValidationError('parse', 'Bad JSON'))).toBe('');
+      expect(describeErrorDetails(new NetworkError('network', 'Offline'))).toBe('');
+    });
+  });
+
+  it('keeps the class name and instanceof checks', () => {
+    const error = new NotFoundError('Learning path not found', 'unknown');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.name).toBe('NotFoundError');
+    expect(error.resource).toBe('unknown');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * AppErrors - typed errors thrown by the services
+ *
+ * Each class says what went wrong, so components can choose how to present
+ * it (title, suggestions, whether retrying can help) without reading the
+ * message, which is written for the user.
+ */
+
+import { ErrorKind, InvalidRecord, NetworkErrorCode, ValidationErrorCode } from '../types';
+
+/**
+ * Base class for errors the application knows how to present
+ */
+export abstract class AppError extends Error {
+  /** How the error is presented */
+  abstract readonly kind: ErrorKind;
+  /** Whether trying the same thing again may succeed */
+  abstract readonly retryable: boolean;
+}
+
+/**
+ * A request failed or never reached the server
+ */
+export class NetworkError extends AppError {
+  readonly kind = 'network';
+  readonly retryable: boolean;
+  readonly code: NetworkErrorCode;
+  readonly status: number | undefined;
+  readonly url: string | undefined;
+
+  constructor(code: NetworkErrorCode, message: string, details: { status?: number; url?: string } = {}) {
+    super(message);
+    this.name = 'NetworkError';
+    this.code = code;
+    this.status = details.status;
+    this.url = details.url;
+    // Any status other than a server failure will be the same next time
+    this.retryable = code !== 'http';
+  }
+}
+
+/**
+ * Data was loaded but could not be used
+ */
+export class DataValidationError extends AppError {
+  readonly kind = 'validation';
+  readonly retryable = false;
+  readonly code: ValidationErrorCode;
+  readonly url: string | undefined;
+  /** Records that were skipped because they failed validation */
+  readonly invalidRecords: InvalidRecord[];
+
+  constructor(
+    code: ValidationErrorCode,
+    message: string,
+    details: { url?: string; invalidRecords?: InvalidRecord[] } = {}
+  ) {
+    super(message);
+    this.name = 'DataValidationError';
+    this.code = code;
+    this.url = details.url;
+    this.invalidRecords = details.invalidRecords ?? [];
+  }
+}
+
+/**
+ * A file, record or route target does not exist
+ */
+export class NotFoundError extends AppError {
+  readonly kind = 'not-found';
+  readonly retryable = false;
+  /** What was looked for, such as a URL or an id */
+  readonly resource: string | undefined;
+
+  constructor(message: string, resource?: string) {
+    super(message);
+    this.name = 'NotFoundError';
+    this.resource = resource;
+  }
+}
+
+/**
+ * Browser storage could not be read or written
+ */
+export class StorageError extends AppError {
+  readonly kind = 'storage';
+  readonly retryable = false;
+  readonly operation: 'read' | 'write' | 'clear' | 'migrate';
+
+  constructor(operation: 'read' | 'write' | 'clear' | 'migrate', message: string) {
+    super(message);
+    this.name = 'StorageError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * How an error should be presented; errors from outside the services are
+ * generic
+ */
+export function getErrorKind(error: unknown): ErrorKind {
+  return error instanceof AppError ? error.kind : 'generic';
+}
+
+/**
+ * Whether offering to retry makes sense; unknown errors might be temporary
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof AppError ? error.retryable : true;
+}
+
+/**
+ * Extra detail for developers, such as which records failed validation and why
+ * @returns A line per detail, or an empty string when there is nothing to add
+ */
+export function describeErrorDetails(error: unknown): string {
+  if (!(error instanceof DataValidationError) || error.invalidRecords.length === 0) {
+    return '';
+  }
+
+  const records = error.invalidRecords.map(record =>
+    record.id ? `#${record.index} (${record.id})` : `#${record.index}`
+  );
+  const issues = error.invalidRecords.flatMap(record =>
+    record.issues.map(issue => `${issue.path}: ${issue.message}`)
+  );
+  return [`Invalid records: ${records.join(', ')}`, ...issues].join('\n');
+}
@@ -0,0 +1,200 @@
+import { ContentFiles, formatContentLintReport, lintContent } from './ContentLint';
+
+const term = (id: string, name: string, extra: object = {}) => ({
+  id,
+  term: name,
+  definition: `${name} definition`,
+  externalLink: `https://example.com/${id}`,
+  roleContext: {
+    business: 'Business context',
+    'pm-designer': 'PM context',
+    engineer: 'Engineer context',
+    'data-scientist': 'Data scientist context'
+  },
+  ...extra
+});
+
+const question = (id: string, termId: string) => ({
+  id,
+  termId,
+  question: `What is ${termId}?`,
+  options: ['A', 'B'],
+  correctAnswer: 'A'
+});
+
+const tool = (id: string, category: string, extra: object = {}) => ({
+  id,
+  name: id,
+  category,
+  description: `${id} description`,
+  userExperiences: [],
+  commonUseCases: ['Coding'],
+  ...extra
+});
+
+const validFiles = (): ContentFiles => ({
+  'glossary.json': { terms: [term('token', 'Token'), term('prompt', 'Prompt', { relatedTerms: ['token'] })] },
+  'questions.json': { questions: [question('token-001', 'token')] },
+  'ai-tools.json': {
+    tools: [tool('copilot', 'code-assistant', { officialLink: 'https://github.com/features/copilot' })],
+    categories: { 'code-assistant': { label: 'Code Assistants', description: 'Write code' } }
+  },
+  'learning-paths.json': {
+    paths: [{ id: 'basics', title: 'Basics', description: 'Start here', termIds: ['token', 'prompt'] }]
+  },
+  'introduction.json': {
+    sections: [{ id: 'overview', title: 'Overview', content: 'Why AI matters.', variant: 'default' }],
+    navigation: { next: { label: 'Explore AI Glossary', destination: 'glossary' } }
+  }
+});
+
+const issuesOf = (files: ContentFiles, file: string) =>
+  lintContent(files).find(result => result.file === file)?.issues;
+
+describe('lintContent', () => {
+  it('finds no problems in consistent content', () => {
+    const results = lintContent(validFiles());
+
+    expect(results.map(result => result.file)).toEqual([
+      'glossary.json', 'questions.json', 'ai-tools.json', 'learning-paths.json', 'introduction.json'
+    ]);
+    results.forEach(result => expect(result.issues).toEqual([]));
+  });
+
+  it('reports records that fail validation by path', () => {
+    const files = validFiles();
+    files['glossary.json'] = { terms: [term('token', 'Token', { category: 'magic' })] };
+
+    expect(issuesOf(files, 'glossary.json')).toEqual([
+      { path: 'terms[0].category', message: expect.stringMatching(/^expected one of /) }
+    ]);
+  });
+
+  it('reports a file without its list', () => {
+    expect(issuesOf({ 'questions.json': { items: [] } }, 'questions.json')).toEqual([
+      { path: 'questions', message: 'is required' }
+    ]);
+  });
+
+  it('reports repeated ids', () => {
+    const files = validFiles();
+    files['questions.json'] = {
+      questions: [question('token-001', 'token'), question('token-001', 'token')]
+    };
+
+    expect(issuesOf(files, 'questions.json')).toEqual([
+      { path: 'questions[1].id', message: 'repeats "token-001" from questions[0]' }
+    ]);
+  });
+
+  it('reports questions about a term the glossary does not have', () => {
+    const files = validFiles();
+    files['questions.json'] = { questions: [question('q-1', 'tokens')] };
+
+    expect(issuesOf(files, 'questions.json')).toEqual([
+      { path: 'questions[0].termId', message: 'no glossary term has id "tokens"' }
+    ]);
+  });
+
+  it('reports term references that do not resolve', () => {
+    const files = validFiles();
+    files['glossary.json'] = { terms: [term('token', 'Token', { prerequisites: ['tokenizer'] })] };
+    files['learning-paths.json'] = {
+      paths: [{ id: 'basics', title: 'Basics', description: '', termIds: ['token', 'prompt'] }]
+    };
+
+    expect(issuesOf(files, 'glossary.json')).toEqual([
+      { path: 'terms[0].prerequisites[0]', message: 'no glossary term has id "tokenizer"' }
+    ]);
+    expect(issuesOf(files, 'learning-paths.json')).toEqual([
+      { path: 'paths[0].termIds[1]', message: 'no glossary term has id "prompt"' }
+    ]);
+  });
+
+  it('reports tool categories without an entry and malformed links', () => {
+    const files = validFiles();
+    files['ai-tools.json'] = {
+      tools: [tool('warp', 'terminal-tool', { officialLink: 'warp.dev' })],
+      categories: { 'code-assistant': { label: 'Code Assistants', description: 'Write code' } }
+    };
+
+    expect(issuesOf(files, 'ai-tools.json')).toEqual([
+      { path: 'tools[0].category', message: '"terminal-tool" has no entry in categories' },
+      { path: 'tools[0].officialLink', message: 'expected an http or https URL, got "warp.dev"' }
+    ]);
+  });
+
+  it('reports repeated introduction sections and broken navigation', () => {
+    const files = validFiles();
+    files['introduction.json'] = {
+      sections: [
+        { id: 'overview', title: 'Overview', content: 'Why AI matters.' },
+        { id: 'overview', title: 'Overview again', content: 'Still why AI matters.' }
+      ],
+      navigation: { next: { label: 'Explore AI Tools', destination: 'tools' } }
+    };
+
+    expect(issuesOf(files, 'introduction.json')).toEqual([
+      { path: 'sections[1].id', message: 'repeats "overview" from sections[0]' },
+      { path: 'navigation.next.destination', message: 'expected one of glossary, quiz, home' }
+    ]);
+  });
+
+  it('reports repeated knowledge checks and checks about unknown terms', () => {
+    const files = validFiles();
+    const check = (id: string, extra: object = {}) => ({ ...question(id, 'token'), ...extra });
+    files['introduction.json'] = {
+      sections: [
+        { id: 'overview', title: 'Overview', content: 'Why AI matters.', checks: [check('check-1')] },
+        {
+          id: 'risks',
+          title: 'Risks',
+          content: 'What can go wrong.',
+          checks: [check('check-1'), check('check-2', { termId: 'missing' }), { ...check('check-3'), termId: undefined }]
+        }
+      ],
+      navigation: {}
+    };
+
+    expect(issuesOf(files, 'introduction.json')).toEqual([
+      { path: 'sections[1].checks[0].id', message: 'repeats "check-1" from sections[0].checks[0]' },
+      { path: 'sections[1].checks[1].termId', message: 'no glossary term has id "missing"' }
+    ]);
+  });
+
+  it('skips glossary references when the glossary could not be read', () => {
+    const files = validFiles();
+    delete files['glossary.json'];
+
+    expect(lintContent(files).map(result => result.issues)).toEqual([[], [], [], []]);
+  });
+});
+
+describe('formatContentLintReport', () => {
+  it('lists the issues of each file with a total', () => {
+    const report = formatContentLintReport([
+      { file: 'glossary.json', issues: [] },
+      {
+        file: 'questions.json',
+        issues: [
+          { path: '', message: 'contains malformed JSON' },
+          { path: 'questions[1].id', message: 'is required' }
+        ]
+      }
+    ]);
+
+    expect(report).toBe([
+      'questions.json',
+      '  (file): contains malformed JSON',
+      '  questions[1].id: is required',
+      '',
+      '2 problems in 1 of 2 content files.'
+    ].join('\n'));
+  });
+
+  it('confirms when there are no problems', () => {
+    expect(formatContentLintReport([{ file: 'glossary.json', issues: [] }])).toBe(
+      'No problems found in 1 content file.'
+    );
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * ContentLint - checks the content files before they are deployed
+ *
+ * Runs the same validators the data services use on every record, then
+ * checks what no single record can: ids are unique, questions and learning
+ * paths point at glossary terms that exist, tools use a described category,
+ * introduction sections and their knowledge checks can be told apart, and
+ * external links are well-formed. Used by the lint:content script
+ * (scripts/lint-content.ts), which reads the files from the public folder.
+ */
+
+import {
+  AITool,
+  ContentLintResult,
+  GlossaryTerm,
+  IntroductionSection,
+  LearningPath,
+  QuizQuestionData,
+  SectionCheckQuestion,
+  ValidationIssue,
+  validateAITool,
+  validateGlossaryTerm,
+  validateIntroductionNavigation,
+  validateIntroductionSection,
+  validateLearningPath,
+  validateQuizQuestion,
+  validateToolCategories
+} from '../types';
+
+export const CONTENT_FILES = [
+  'glossary.json',
+  'questions.json',
+  'ai-tools.json',
+  'learning-paths.json',
+  'introduction.json'
+] as const;
+
+export type ContentFile = typeof CONTENT_FILES[number];
+
+/**
+ * Parsed contents of each content file; a file that could not be read is
+ * left out and its checks are skipped
+ */
+export type ContentFiles = Partial<Record<ContentFile, unknown>>;
+
+/**
+ * Records of one list that passed validation, with their paths
+ */
+interface CheckedRecord<T> {
+  path: string;
+  record: T;
+}
+
+/**
+ * Check the content files on their own and against each other
+ * @returns The issues found in each file that was given, in file order
+ */
+export function lintContent(files: ContentFiles): ContentLintResult[] {
+  const results: ContentLintResult[] = [];
+  const issuesFor = (file: ContentFile): ValidationIssue[] => {
+    const result: ContentLintResult = { file, issues: [] };
+    results.push(result);
+    return result.issues;
+  };
+
+  let termIds: Set<string> | null = null;
+
+  if ('glossary.json' in files) {
+    const issues = issuesFor('glossary.json');
+    const terms = checkRecords<GlossaryTerm>(files['glossary.json'], 'terms', validateGlossaryTerm, issues);
+    termIds = new Set(terms.map(({ record }) => record.id));
+
+    checkUniqueIds(terms, issues);
+    terms.forEach(({ path, record }) => {
+      checkLink(record.externalLink, `${path}.externalLink`, issues);
+      checkTermIds(record.relatedTerms ?? [], `${path}.relatedTerms`, termIds, issues);
+      checkTermIds(record.prerequisites ?? [], `${path}.prerequisites`, termIds, issues);
+    });
+  }
+
+  if ('questions.json' in files) {
+    const issues = issuesFor('questions.json');
+    const questions = checkRecords<QuizQuestionData>(files['questions.json'], 'questions', validateQuizQuestion, issues);
+
+    checkUniqueIds(questions, issues);
+    questions.forEach(({ path, record }) => checkTermId(record.termId, `${path}.termId`, termIds, issues));
+  }
+
+  if ('ai-tools.json' in files) {
+    const issues = issuesFor('ai-tools.json');
+    const data = files['ai-tools.json'];
+    const categories = isObject(data) ? data.categories : undefined;
+    const categoryIssues = validateToolCategories(categories, 'categories');
+    issues.push(...categoryIssues);
+
+    const tools = checkRecords<AITool>(data, 'tools', validateAITool, issues);
+    checkUniqueIds(tools, issues);
+    tools.forEach(({ path, record }) => {
+      if (categoryIssues.length === 0 && !(record.category in (categories as object))) {
+        issues.push({ path: `${path}.category`, message: `"${record.category}" has no entry in categories` });
+      }
+      if (record.officialLink !== undefined) {
+        checkLink(record.officialLink, `${path}.officialLink`, issues);
+      }
+      checkUniqueIds(
+        record.userExperiences.map((experience, index) => ({ path: `${path}.userExperiences[${index}]`, record: experience })),
+        issues
+      );
+    });
+  }
+
+  if ('learning-paths.json' in files) {
+    const issues = issuesFor('learning-paths.json');
+    const paths = checkRecords<LearningPath>(files['learning-paths.json'], 'paths', validateLearningPath, issues);
+
+    checkUniqueIds(paths, issues);
+    paths.forEach(({ path, record }) => checkTermIds(record.termIds, `${path}.termIds`, termIds, issues));
+  }
+
+  if ('introduction.json' in files) {
+    const issues = issuesFor('introduction.json');
+    const data = files['introduction.json'];
+    const sections = checkRecords<IntroductionSection>(data, 'sections', validateIntroductionSection, issues);
+
+    checkUniqueIds(sections, issues);
+
+    const checks = sections.reduce<CheckedRecord<SectionCheckQuestion>[]>((all, { path, record }) => all.concat(
+      (record.checks ?? []).map((check, index) => ({ path: `${path}.checks[${index}]`, record: check }))
+    ), []);
+    checkUniqueIds(checks, issues);
+    checks.forEach(({ path, record }) => {
+      if (record.termId !== undefined) {
+        checkTermId(record.termId, `${path}.termId`, termIds, issues);
+      }
+    });
+    if (isObject(data)) {
+      issues.push(...validateIntroductionNavigation(data.navigation, 'navigation'));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Write the results as a report with a line per issue, grouped by file
+ */
+export function formatContentLintReport(results: ContentLintResult[]): string {
+  const failed = results.filter(result => result.issues.length > 0);
+  if (failed.length === 0) {
+    return `No problems found in ${results.length} content ${results.length === 1 ? 'file' : 'files'}.`;
+  }
+
+  const total = failed.reduce((count, result) => count + result.issues.length, 0);
+  const sections = failed.map(result => [
+    result.file,
+    ...result.issues.map(issue => `  ${issue.path || '(file)'}: ${issue.message}`)
+  ].join('\n'));
+
+  return [
+    ...sections,
+    `${total} ${total === 1 ? 'problem' : 'problems'} in ${failed.length} of ${results.length} content files.`
+  ].join('\n\n');
+}
+
+/**
+ * Validate each record of a list in a file, keeping the records that pass
+ */
+function checkRecords<T>(
+  data: unknown,
+  listPath: string,
+  validate: (record: unknown, path: string) => ValidationIssue[],
+  issues: ValidationIssue[]
+): CheckedRecord<T>[] {
+  if (!isObject(data)) {
+    issues.push({ path: '', message: 'expected a JSON object' });
+    return [];
+  }
+
+  const records = data[listPath];
+  if (!Array.isArray(records)) {
+    issues.push({ path: listPath, message: records === undefined ? 'is required' : 'expected a list' });
+    return [];
+  }
+
+  const checked: CheckedRecord<T>[] = [];
+  records.forEach((record: unknown, index) => {
+    const path = `${listPath}[${index}]`;
+    const recordIssues = validate(record, path);
+    if (recordIssues.length === 0) {
+      checked.push({ path, record: record as T });
+    }
+    issues.push(...recordIssues);
+  });
+  return checked;
+}
+
+function checkUniqueIds(records: CheckedRecord<{ id: string }>[], issues: ValidationIssue[]): void {
+  const firstPaths = new Map<string, string>();
+  records.forEach(({ path, record }) => {
+    const firstPath = firstPaths.get(record.id);
+    if (firstPath) {
+      issues.push({ path: `${path}.id`, message: `repeats "${record.id}" from ${firstPath}` });
+    } else {
+      firstPaths.set(record.id, path);
+    }
+  });
+}
+
+/**
+ * Term ids must name a glossary term; skipped when the glossary is missing
+ */
+function checkTermId(id: string, path: string, termIds: Set<string> | null, issues: ValidationIssue[]): void {
+  if (termIds && !termIds.has(id)) {
+    issues.push({ path, message: `no glossary term has id "${id}"` });
+  }
+}
+
+function checkTermIds(ids: string[], path: string, termIds: Set<string> | null, issues: ValidationIssue[]): void {
+  ids.forEach((id, index) => checkTermId(id, `${path}[${index}]`, termIds, issues));
+}
+
+/**
+ * External links must be absolute http or https URLs
+ */
+function checkLink(link: string, path: string, issues: ValidationIssue[]): void {
+  let url: URL | null = null;
+  try {
+    url = new URL(link);
+  } catch {
+    // Reported below
+  }
+
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    issues.push({ path, message: `expected an http or https URL, got "${link}"` });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
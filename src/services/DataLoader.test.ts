@@ -0,0 +1,329 @@
+import { DataLoader, DataLoaderConfig, partitionRecords } from './DataLoader';
+import { DataValidationError, NetworkError, NotFoundError } from './AppErrors';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+interface ItemsData {
+  items: string[];
+}
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers(headers),
+  json: jest.fn().mockResolvedValue(body)
+});
+
+const statusResponse = (status: number, statusText: string) => ({
+  ok: false,
+  status,
+  statusText,
+  headers: new Headers()
+});
+
+describe('DataLoader', () => {
+  let loader: DataLoader<ItemsData>;
+
+  const createLoader = (overrides: Partial<DataLoaderConfig<ItemsData>> = {}) =>
+    new DataLoader<ItemsData>({
+      file: 'items.json',
+      label: 'item data',
+      name: 'items',
+      parse: data => {
+        if (!Array.isArray((data as Partial<ItemsData>).items)) {
+          throw new DataValidationError('invalid-data', 'Invalid items data format: missing items');
+        }
+        return data as ItemsData;
+      },
+      retryDelayMs: 1,
+      ...overrides
+    });
+
+  beforeEach(() => {
+    loader = createLoader();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('load', () => {
+    it('fetches and parses the file from the public folder', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ items: ['a'] }));
+
+      const result = await loader.load();
+
+      expect(fetch).toHaveBeenCalledWith('/items.json', expect.objectContaining({
+        headers: { 'Cache-Control': 'no-cache' }
+      }));
+      expect(result).toEqual({ items: ['a'] });
+      expect(loader.isLoaded()).toBe(true);
+      expect(loader.getData()).toEqual({ items: ['a'] });
+    });
+
+    it('returns the cached copy on later calls', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ items: ['a'] }));
+
+      await loader.load();
+      await loader.load();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares one request between concurrent callers', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ items: ['a'] }));
+
+      const [first, second] = await Promise.all([loader.load(), loader.load()]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(first).toBe(second);
+    });
+
+    it('fetches again after being cleared', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ items: ['a'] }));
+
+      await loader.load();
+      loader.clear();
+
+      expect(loader.isLoaded()).toBe(false);
+      await loader.load();
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('errors', () => {
+    const loadError = async (): Promise<unknown> => {
+      try {
+        await loader.load();
+      } catch (error) {
+        return error;
+      }
+      throw new Error('Expected the load to fail');
+    };
+
+    it('reports a missing file', async () => {
+      (fetch as jest.Mock).mockResolvedValue(statusResponse(404, 'Not Found'));
+
+      const error = await loadError();
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toMatchObject({
+        resource: '/items.json',
+        message: 'Item data file not found. Please check if items.json exists in the public folder.'
+      });
+    });
+
+    it('reports other unsuccessful statuses', async () => {
+      (fetch as jest.Mock).mockResolvedValue(statusResponse(403, 'Forbidden'));
+
+      const error = await loadError();
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toMatchObject({
+        code: 'http',
+        status: 403,
+        retryable: false,
+        message: 'Failed to load items: 403 Forbidden'
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports malformed JSON', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ...jsonResponse(null),
+        json: jest.fn().mockRejectedValue(new SyntaxError('Unexpected token'))
+      });
+
+      const error = await loadError();
+
+      expect(error).toBeInstanceOf(DataValidationError);
+      expect(error).toMatchObject({
+        code: 'parse',
+        message: 'Invalid items data format: file contains malformed JSON'
+      });
+    });
+
+    it('rejects JSON that is not an object', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse('items'));
+
+      const error = await loadError();
+
+      expect(error).toMatchObject({
+        code: 'invalid-data',
+        message: 'Invalid items data format: expected JSON object'
+      });
+    });
+
+    it('passes on errors thrown while parsing', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ other: [] }));
+
+      const error = await loadError();
+
+      expect(error).toMatchObject({ code: 'invalid-data' });
+      expect(loader.isLoaded()).toBe(false);
+    });
+
+    it('reports a timeout without retrying', async () => {
+      (fetch as jest.Mock).mockRejectedValue(new DOMException('The operation was aborted', 'AbortError'));
+
+      const error = await loadError();
+
+      expect(error).toMatchObject({
+        code: 'timeout',
+        message: 'Request timeout: Loading item data took too long. Please try again.'
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a cancelled request', async () => {
+      const controller = new AbortController();
+      (fetch as jest.Mock).mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
+
+      const pending = loader.load({ signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ code: 'aborted' });
+    });
+
+    it('rejects at once when the signal was already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(loader.load({ signal: controller.signal })).rejects.toMatchObject({
+        code: 'aborted',
+        message: 'Loading item data was cancelled.'
+      });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('keeps a shared request going when one caller stops waiting', async () => {
+      let respond: (response: unknown) => void = () => {};
+      (fetch as jest.Mock).mockImplementation(() => new Promise(resolve => {
+        respond = resolve;
+      }));
+      const controller = new AbortController();
+
+      const cancelled = loader.load({ signal: controller.signal });
+      const other = loader.load();
+      controller.abort();
+      respond(jsonResponse({ items: ['a'] }));
+
+      await expect(cancelled).rejects.toMatchObject({ code: 'aborted' });
+      await expect(other).resolves.toEqual({ items: ['a'] });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels the request once every caller has stopped waiting', async () => {
+      (fetch as jest.Mock).mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const pending = [loader.load({ signal: first.signal }), loader.load({ signal: second.signal })];
+      first.abort();
+      second.abort();
+
+      await expect(Promise.all(pending)).rejects.toMatchObject({ code: 'aborted' });
+      expect(((fetch as jest.Mock).mock.calls[0][1] as RequestInit).signal?.aborted).toBe(true);
+
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ items: ['a'] }));
+      await expect(loader.load()).resolves.toEqual({ items: ['a'] });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retries', () => {
+    it('retries network failures with backoff before giving up', async () => {
+      (fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(loader.load()).rejects.toMatchObject({
+        code: 'network',
+        message: 'Network error: Unable to connect to load item data. Please check your internet connection.'
+      });
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('recovers when a retry succeeds', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(statusResponse(503, 'Service Unavailable'))
+        .mockResolvedValueOnce(jsonResponse({ items: ['a'] }));
+
+      await expect(loader.load()).resolves.toEqual({ items: ['a'] });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('uses the configured number of retries', async () => {
+      loader = createLoader({ retries: 0 });
+      (fetch as jest.Mock).mockResolvedValue(statusResponse(500, 'Internal Server Error'));
+
+      await expect(loader.load()).rejects.toMatchObject({
+        code: 'server',
+        message: 'Server error while loading item data. Please try again later.'
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('revalidate', () => {
+    it('sends the cached validators and keeps the cached copy when unchanged', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ items: ['a'] }, {
+          ETag: '"v1"',
+          'Last-Modified': 'Mon, 19 Oct 2026 10:00:00 GMT'
+        }))
+        .mockResolvedValueOnce({ ok: false, status: 304, statusText: 'Not Modified', headers: new Headers() });
+
+      const first = await loader.load();
+      const second = await loader.revalidate();
+
+      expect(fetch).toHaveBeenLastCalledWith('/items.json', expect.objectContaining({
+        headers: {
+          'Cache-Control': 'no-cache',
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Mon, 19 Oct 2026 10:00:00 GMT'
+        }
+      }));
+      expect(second).toBe(first);
+    });
+
+    it('replaces the cached copy when the file changed', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ items: ['a'] }, { ETag: '"v1"' }))
+        .mockResolvedValueOnce(jsonResponse({ items: ['a', 'b'] }, { ETag: '"v2"' }));
+
+      await loader.load();
+      await loader.revalidate();
+
+      expect(loader.getData()).toEqual({ items: ['a', 'b'] });
+    });
+
+    it('loads normally when nothing is cached', async () => {
+      (fetch as jest.Mock).mockResolvedValue(jsonResponse({ items: ['a'] }));
+
+      await loader.revalidate();
+
+      expect(fetch).toHaveBeenCalledWith('/items.json', expect.objectContaining({
+        headers: { 'Cache-Control': 'no-cache' }
+      }));
+    });
+  });
+});
+
+describe('partitionRecords', () => {
+  const validateText = (record: unknown, path: string) =>
+    typeof record === 'string' ? [] : [{ path, message: 'expected a string' }];
+
+  it('keeps valid records and reports the position, id and issues of the rest', () => {
+    const result = partitionRecords<string>(['a', { id: 'bad' }, 'b', 3], 'items', validateText);
+
+    expect(result.valid).toEqual(['a', 'b']);
+    expect(result.invalid).toEqual([
+      { index: 1, id: 'bad', issues: [{ path: 'items[1]', message: 'expected a string' }] },
+      { index: 3, issues: [{ path: 'items[3]', message: 'expected a string' }] }
+    ]);
+  });
+});
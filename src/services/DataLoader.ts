@@ -0,0 +1,339 @@
+/**
+ * DataLoader - fetches one JSON file from the public folder
+ *
+ * Shared by the data services so they handle deployment paths, timeouts,
+ * status codes and connection failures the same way. Each loader caches its
+ * file, shares one request between concurrent callers, retries failures that
+ * may be temporary and can revalidate the cached copy with the validators
+ * (ETag / Last-Modified) the server sent with it. Failures are thrown as
+ * the typed errors in AppErrors, so callers never need to inspect messages.
+ */
+
+import { InvalidRecord, NetworkErrorCode, ValidationIssue } from '../types';
+import { DataValidationError, NetworkError, NotFoundError } from './AppErrors';
+
+/**
+ * Failures worth trying again at once: the next attempt may well succeed
+ */
+const RETRYABLE_CODES: NetworkErrorCode[] = ['network', 'server'];
+
+export interface DataLoaderConfig<T> {
+  /** File name inside the public folder, e.g. "glossary.json" */
+  file: string;
+  /** What the file holds, used in messages, e.g. "glossary data" */
+  label: string;
+  /** Short name used in status and format messages, e.g. "glossary" */
+  name: string;
+  /**
+   * Turn the parsed JSON object into the loaded value
+   *
+   * Throw a DataValidationError with code 'invalid-data' or 'empty' when
+   * the contents cannot be used.
+   */
+  parse: (data: object) => T;
+  /** Milliseconds before a request is abandoned (default 10 seconds) */
+  timeoutMs?: number;
+  /** Extra attempts after a network or server failure (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each later one (default 250ms) */
+  retryDelayMs?: number;
+}
+
+export interface DataLoadOptions {
+  /**
+   * Stops waiting for the file; the loader throws a NetworkError with code
+   * 'aborted'. A request shared with other callers is only cancelled once
+   * every caller waiting for it has stopped.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Validators the server sent with the cached copy
+ */
+interface CacheValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * A request in progress and the callers waiting for it
+ */
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  /** Cancels the request itself */
+  controller: AbortController;
+  /** Callers that can still stop waiting */
+  waiting: number;
+}
+
+export class DataLoader<T> {
+  private data: T | null = null;
+  private validators: CacheValidators = { etag: null, lastModified: null };
+  private pending: SharedRequest<T> | null = null;
+
+  constructor(private readonly config: DataLoaderConfig<T>) {}
+
+  /**
+   * Load the file, or return the cached copy
+   *
+   * Callers that ask while a request is in progress share its result.
+   */
+  async load(options: DataLoadOptions = {}): Promise<T> {
+    if (this.data !== null) {
+      return this.data;
+    }
+
+    return this.share(signal => this.request(false, signal), options.signal);
+  }
+
+  /**
+   * Ask the server whether the file changed since it was cached
+   *
+   * Sends the cached validators, so an unchanged file costs a 304 and keeps
+   * the cached copy. Without a cached copy this is the same as load().
+   */
+  async revalidate(options: DataLoadOptions = {}): Promise<T> {
+    return this.share(signal => this.request(this.data !== null, signal), options.signal);
+  }
+
+  /**
+   * Check if the file has been loaded
+   */
+  isLoaded(): boolean {
+    return this.data !== null;
+  }
+
+  /**
+   * Get the cached copy without loading
+   */
+  getData(): T | null {
+    return this.data;
+  }
+
+  /**
+   * Forget the cached copy so the next load fetches the file again
+   */
+  clear(): void {
+    this.data = null;
+    this.validators = { etag: null, lastModified: null };
+  }
+
+  /**
+   * Reuse the request in progress or start a new one
+   *
+   * The caller's signal only ends its own wait, so one caller giving up does
+   * not fail the request for the others. Once nobody is waiting any more the
+   * request is cancelled and the next caller starts a fresh one.
+   */
+  private share(start: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(this.cancelledError());
+    }
+
+    let shared = this.pending;
+    if (!shared) {
+      const controller = new AbortController();
+      const created: SharedRequest<T> = {
+        promise: start(controller.signal).finally(() => {
+          if (this.pending === created) {
+            this.pending = null;
+          }
+        }),
+        controller,
+        waiting: 0
+      };
+      this.pending = shared = created;
+    }
+
+    const request = shared;
+    if (!signal) {
+      // This caller never stops waiting, so the request is never cancelled
+      request.waiting = Infinity;
+      return request.promise;
+    }
+
+    request.waiting += 1;
+    return new Promise<T>((resolve, reject) => {
+      const stopWaiting = () => {
+        request.waiting -= 1;
+        if (request.waiting === 0) {
+          request.controller.abort();
+          if (this.pending === request) {
+            this.pending = null;
+          }
+        }
+        reject(this.cancelledError());
+      };
+
+      signal.addEventListener('abort', stopWaiting, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', stopWaiting));
+    });
+  }
+
+  /**
+   * Fetch the file, retrying network and server failures with backoff
+   */
+  private async request(conditional: boolean, signal: AbortSignal): Promise<T> {
+    const { retries = 2, retryDelayMs = 250 } = this.config;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce(conditional, signal);
+      } catch (error) {
+        const retryable = error instanceof NetworkError && RETRYABLE_CODES.includes(error.code);
+        if (!retryable || attempt >= retries || signal.aborted) {
+          throw error;
+        }
+        await wait(retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Make a single request and parse the response
+   */
+  private async fetchOnce(conditional: boolean, signal: AbortSignal): Promise<T> {
+    const { file, label, name, parse, timeoutMs = 10000 } = this.config;
+    const url = this.getUrl();
+
+    // Abort on timeout or when every caller has stopped waiting
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const cancel = () => controller.abort();
+    signal.addEventListener('abort', cancel);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        signal: controller.signal,
+        headers: this.buildHeaders(conditional)
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        if (signal.aborted) {
+          throw this.cancelledError();
+        }
+        throw new NetworkError('timeout', `Request timeout: Loading ${label} took too long. Please try again.`, { url });
+      }
+      if (error instanceof TypeError) {
+        throw new NetworkError(
+          'network',
+          `Network error: Unable to connect to load ${label}. Please check your internet connection.`,
+          { url }
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', cancel);
+    }
+
+    if (conditional && response.status === 304 && this.data !== null) {
+      return this.data;
+    }
+
+    if (!response.ok) {
+      const { status } = response;
+      if (status === 404) {
+        throw new NotFoundError(
+          `${capitalize(label)} file not found. Please check if ${file} exists in the public folder.`,
+          url
+        );
+      } else if (status >= 500) {
+        throw new NetworkError('server', `Server error while loading ${label}. Please try again later.`, { status, url });
+      }
+      throw new NetworkError('http', `Failed to load ${name}: ${status} ${response.statusText}`, { status, url });
+    }
+
+    let json: unknown;
+    try {
+      json = await response.json();
+    } catch (parseError) {
+      throw new DataValidationError('parse', `Invalid ${name} data format: file contains malformed JSON`, { url });
+    }
+
+    if (!json || typeof json !== 'object') {
+      throw new DataValidationError('invalid-data', `Invalid ${name} data format: expected JSON object`, { url });
+    }
+
+    const data = parse(json);
+    this.data = data;
+    this.validators = {
+      etag: response.headers?.get('ETag') ?? null,
+      lastModified: response.headers?.get('Last-Modified') ?? null
+    };
+    return data;
+  }
+
+  /**
+   * URL of the file, allowing for the deployment path in PUBLIC_URL
+   */
+  private getUrl(): string {
+    const publicUrl = process.env.PUBLIC_URL || '';
+    return `${publicUrl}/${this.config.file}`;
+  }
+
+  /**
+   * Error for a caller that stopped waiting
+   */
+  private cancelledError(): NetworkError {
+    return new NetworkError('aborted', `Loading ${this.config.label} was cancelled.`, { url: this.getUrl() });
+  }
+
+  /**
+   * Request headers, with the cached validators when revalidating
+   */
+  private buildHeaders(conditional: boolean): Record<string, string> {
+    const headers: Record<string, string> = { 'Cache-Control': 'no-cache' };
+
+    if (conditional) {
+      if (this.validators.etag) {
+        headers['If-None-Match'] = this.validators.etag;
+      }
+      if (this.validators.lastModified) {
+        headers['If-Modified-Since'] = this.validators.lastModified;
+      }
+    }
+
+    return headers;
+  }
+}
+
+/**
+ * Split a list from a data file into the records that pass validation and
+ * the records that do not, with the issues found in each
+ * @param records The list as read from the file
+ * @param listPath Path of the list in the file, e.g. "terms"
+ * @param validate Lists the issues with a single record at the given path
+ */
+export function partitionRecords<T>(
+  records: unknown[],
+  listPath: string,
+  validate: (record: unknown, path: string) => ValidationIssue[]
+): { valid: T[]; invalid: InvalidRecord[] } {
+  const valid: T[] = [];
+  const invalid: InvalidRecord[] = [];
+
+  records.forEach((record, index) => {
+    const issues = validate(record, `${listPath}[${index}]`);
+    if (issues.length === 0) {
+      valid.push(record as T);
+      return;
+    }
+    const id = (record as { id?: unknown } | null)?.id;
+    invalid.push(typeof id === 'string' && id ? { index, id, issues } : { index, issues });
+  });
+
+  return { valid, invalid };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
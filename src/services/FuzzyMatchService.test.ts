@@ -0,0 +1,141 @@
+import { FuzzyMatchService } from './FuzzyMatchService';
+
+describe('FuzzyMatchService', () => {
+  let service: FuzzyMatchService;
+
+  beforeEach(() => {
+    service = new FuzzyMatchService();
+  });
+
+  describe('matchWord', () => {
+    it('should rate exact matches above prefix, substring and typo matches', () => {
+      const exact = service.matchWord('embedding', 'embedding');
+      const prefix = service.matchWord('embed', 'embedding');
+      const substring = service.matchWord('bed', 'embedding');
+      const typo = service.matchWord('embeding', 'embedding');
+
+      expect(exact).toBe(1);
+      expect(prefix).toBeLessThan(exact);
+      expect(substring).toBeLessThan(prefix);
+      expect(typo).toBeGreaterThan(0);
+      expect(typo).toBeLessThan(substring);
+    });
+
+    it('should allow one typo in medium words and two in long words', () => {
+      expect(service.matchWord('tokan', 'token')).toBeGreaterThan(0);
+      expect(service.matchWord('hallucenation', 'hallucination')).toBeGreaterThan(0);
+      expect(service.matchWord('halucenation', 'hallucination')).toBeGreaterThan(0);
+      expect(service.matchWord('tkne', 'token')).toBe(0);
+    });
+
+    it('should not tolerate typos in short words', () => {
+      expect(service.matchWord('gpu', 'gpt')).toBe(0);
+      expect(service.matchWord('e', 'embedding')).toBe(0);
+    });
+  });
+
+  describe('scoreText', () => {
+    it('should require every query word to match', () => {
+      expect(service.scoreText('large model', 'Large Language Model')).toBe(1);
+      expect(service.scoreText('large banana', 'Large Language Model')).toBe(0);
+    });
+
+    it('should ignore case and punctuation', () => {
+      expect(service.scoreText('RETRIEVAL-augmented!', 'Retrieval-Augmented Generation')).toBe(1);
+    });
+
+    it('should return 0 for empty input', () => {
+      expect(service.scoreText('', 'text')).toBe(0);
+      expect(service.scoreText('text', '')).toBe(0);
+    });
+  });
+
+  describe('scoreName', () => {
+    it('should match a parenthesised acronym', () => {
+      expect(service.scoreName('RAG', 'Retrieval-Augmented Generation (RAG)')).toBe(1);
+    });
+
+    it('should match the initials of a multi-word name', () => {
+      expect(service.scoreName('LLM', 'Large Language Model')).toBe(1);
+    });
+
+    it('should match the full name when the name is an acronym', () => {
+      expect(service.scoreName('large language model', 'LLM')).toBe(1);
+    });
+
+    it('should match aliases', () => {
+      expect(service.scoreName('finetuning', 'Fine-Tuning', ['Finetuning'])).toBe(1);
+      expect(service.scoreName('finetuning', 'Fine-Tuning')).toBe(0);
+    });
+  });
+
+  describe('scoreFields', () => {
+    it('should keep the best weighted match', () => {
+      const score = service.scoreFields('vector', [
+        { text: 'A numeric vector', weight: 10 },
+        { text: 'Store vectors', weight: 1 }
+      ]);
+
+      expect(score).toBe(10);
+    });
+  });
+
+  describe('rankByRelevance', () => {
+    it('should drop non-matches and sort by score, keeping the order of ties', () => {
+      const scores: Record<string, number> = { a: 1, b: 0, c: 5, d: 1 };
+
+      expect(service.rankByRelevance(['a', 'b', 'c', 'd'], item => scores[item] ?? 0)).toEqual(['c', 'a', 'd']);
+    });
+  });
+
+  describe('getAcronyms', () => {
+    it('should return parenthesised abbreviations and initials', () => {
+      expect(service.getAcronyms('Retrieval-Augmented Generation (RAG)')).toEqual(['rag']);
+      expect(service.getAcronyms('Natural Language Processing')).toEqual(['nlp']);
+      expect(service.getAcronyms('Embedding')).toEqual([]);
+    });
+  });
+
+  describe('createSnippet', () => {
+    it('should mark every matching word', () => {
+      const snippet = service.createSnippet('embeding vector', ['An embedding is a vector of numbers.']);
+
+      expect(snippet?.matches.map(range => snippet.text.slice(range.start, range.end)))
+        .toEqual(['embedding', 'vector']);
+    });
+
+    it('should mark only the matching part of a prefix match', () => {
+      const snippet = service.createSnippet('embed', ['Embeddings power search.']);
+
+      expect(snippet?.matches).toEqual([{ start: 0, end: 5 }]);
+    });
+
+    it('should use the first text that matches', () => {
+      const snippet = service.createSnippet('pipelines', ['A definition.', 'Build retrieval pipelines.']);
+
+      expect(snippet?.text).toBe('Build retrieval pipelines.');
+    });
+
+    it('should cut long texts around the first match', () => {
+      const text = `${'Filler words about nothing. '.repeat(10)}The keyword appears here. ${'More filler. '.repeat(10)}`;
+      const snippet = service.createSnippet('keyword', [text]);
+      const match = snippet!.matches[0]!;
+
+      expect(snippet!.text.startsWith('…')).toBe(true);
+      expect(snippet!.text.endsWith('…')).toBe(true);
+      expect(snippet!.text.slice(match.start, match.end)).toBe('keyword');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(service.createSnippet('banana', ['No fruit here.'])).toBeNull();
+    });
+  });
+
+  describe('getEditDistance', () => {
+    it('should count single-character edits', () => {
+      expect(service.getEditDistance('kitten', 'sitting')).toBe(3);
+      expect(service.getEditDistance('', 'abc')).toBe(3);
+      expect(service.getEditDistance('same', 'same')).toBe(0);
+    });
+  });
+});
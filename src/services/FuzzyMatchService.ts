@@ -0,0 +1,316 @@
+/**
+ * FuzzyMatchService - typo-tolerant text matching and relevance ranking
+ *
+ * Shared by the glossary, AI tools and portal-wide search so that every
+ * search box accepts the same typos and acronyms and ranks hits the same way.
+ */
+
+import { MatchSnippet, TextRange, WeightedText } from '../types';
+
+/**
+ * Match quality for each way a query word can match a word in the text
+ */
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.9;
+const SUBSTRING_MATCH = 0.7;
+const TYPO_MATCH = 0.6;
+
+/**
+ * Shortest query word that may match the start of a longer word
+ */
+const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Shortest query word that may match inside a longer word
+ */
+const MIN_SUBSTRING_LENGTH = 3;
+
+/**
+ * Shortest query words that tolerate one and two typos
+ */
+const MIN_ONE_TYPO_LENGTH = 5;
+const MIN_TWO_TYPO_LENGTH = 9;
+
+/**
+ * Approximate length of a match snippet in characters
+ */
+const SNIPPET_LENGTH = 120;
+
+/**
+ * Characters of context kept before the first match in a snippet
+ */
+const SNIPPET_LEAD = 30;
+
+const WORD_PATTERN = /[a-z0-9]+/gi;
+
+export class FuzzyMatchService {
+  /**
+   * Split text into lower-case words
+   * @param text Text to split
+   * @returns Words without punctuation
+   */
+  tokenize(text: string): string[] {
+    return text.toLowerCase().match(WORD_PATTERN) ?? [];
+  }
+
+  /**
+   * Rate how well a single query word matches a word from the text
+   * @param queryWord Lower-case query word
+   * @param word Lower-case word from the text
+   * @returns 1 for an exact match, lower for prefix, substring and typo matches, 0 for none
+   */
+  matchWord(queryWord: string, word: string): number {
+    if (word === queryWord) {
+      return EXACT_MATCH;
+    }
+
+    if (queryWord.length >= MIN_PREFIX_LENGTH && word.startsWith(queryWord)) {
+      return PREFIX_MATCH;
+    }
+
+    if (queryWord.length >= MIN_SUBSTRING_LENGTH && word.includes(queryWord)) {
+      return SUBSTRING_MATCH;
+    }
+
+    const allowedTypos = getAllowedTypos(queryWord);
+    if (
+      allowedTypos > 0 &&
+      Math.abs(word.length - queryWord.length) <= allowedTypos &&
+      this.getEditDistance(queryWord, word) <= allowedTypos
+    ) {
+      return TYPO_MATCH;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Rate how well a query matches a text
+   *
+   * Every query word must match some word of the text; the score is the
+   * average quality of those matches.
+   * @param query Search query
+   * @param text Text to match against
+   * @returns Score between 0 (no match) and 1 (every word matched exactly)
+   */
+  scoreText(query: string, text: string): number {
+    const queryWords = this.tokenize(query);
+    const words = this.tokenize(text);
+
+    if (queryWords.length === 0 || words.length === 0) {
+      return 0;
+    }
+
+    let total = 0;
+    for (const queryWord of queryWords) {
+      const best = Math.max(...words.map(word => this.matchWord(queryWord, word)));
+      if (best === 0) {
+        return 0;
+      }
+      total += best;
+    }
+
+    return total / queryWords.length;
+  }
+
+  /**
+   * Rate how well a query matches a name, its aliases or their acronyms
+   *
+   * "LLM" matches "Large Language Model (LLM)" and "Large Language Model",
+   * and "large language model" matches a name that is just "LLM".
+   * @param query Search query
+   * @param name Display name
+   * @param aliases Other names for the same thing
+   * @returns Score between 0 and 1
+   */
+  scoreName(query: string, name: string, aliases: string[] = []): number {
+    const names = [name, ...aliases];
+    const candidates = [...names, ...names.flatMap(value => this.getAcronyms(value))];
+    const queryAcronym = getInitials(this.tokenize(query));
+
+    const matchesQueryAcronym = queryAcronym !== '' && candidates.some(candidate => {
+      const words = this.tokenize(candidate);
+      return words.length === 1 && words[0] === queryAcronym;
+    });
+
+    return Math.max(
+      ...candidates.map(candidate => this.scoreText(query, candidate)),
+      matchesQueryAcronym ? EXACT_MATCH : 0
+    );
+  }
+
+  /**
+   * Score a query against weighted texts, keeping the best weighted match
+   * @param query Search query
+   * @param fields Texts with the weight of a match in each
+   * @returns Highest weight × match score, or 0 if nothing matched
+   */
+  scoreFields(query: string, fields: WeightedText[]): number {
+    return fields.reduce(
+      (best, field) => Math.max(best, field.weight * this.scoreText(query, field.text)),
+      0
+    );
+  }
+
+  /**
+   * Keep the items that match and order them by score, best first
+   * @param items Items to rank
+   * @param getScore Relevance of an item; 0 means no match
+   * @returns Matching items; equal scores keep their original order
+   */
+  rankByRelevance<T>(items: T[], getScore: (item: T) => number): T[] {
+    return items
+      .map((item, index) => ({ item, index, score: getScore(item) }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(entry => entry.item);
+  }
+
+  /**
+   * Acronyms a name may be searched by: parenthesised abbreviations and,
+   * for multi-word names, the initials
+   * @param name Display name, e.g. "Retrieval-Augmented Generation (RAG)"
+   * @returns Lower-case acronyms, e.g. ["rag"]
+   */
+  getAcronyms(name: string): string[] {
+    const acronyms = new Set<string>();
+
+    (name.match(/\(([^)]+)\)/g) ?? []).forEach(group => {
+      const inner = group.slice(1, -1).trim().toLowerCase();
+      if (inner) {
+        acronyms.add(inner);
+      }
+    });
+
+    const initials = getInitials(this.tokenize(name.replace(/\([^)]*\)/g, ' ')));
+    if (initials) {
+      acronyms.add(initials);
+    }
+
+    return Array.from(acronyms);
+  }
+
+  /**
+   * Find the parts of a text that match any query word
+   * @param query Search query
+   * @param text Text to search
+   * @returns Ranges of matching characters in text order
+   */
+  findMatchRanges(query: string, text: string): TextRange[] {
+    const queryWords = this.tokenize(query);
+    const ranges: TextRange[] = [];
+
+    if (queryWords.length === 0) {
+      return ranges;
+    }
+
+    const pattern = new RegExp(WORD_PATTERN.source, 'gi');
+    let found: RegExpExecArray | null;
+
+    while ((found = pattern.exec(text)) !== null) {
+      const start = found.index;
+      const word = found[0].toLowerCase();
+      let best: TextRange | null = null;
+      let bestQuality = 0;
+
+      for (const queryWord of queryWords) {
+        const quality = this.matchWord(queryWord, word);
+        if (quality <= bestQuality) {
+          continue;
+        }
+
+        bestQuality = quality;
+        if (quality === PREFIX_MATCH || quality === SUBSTRING_MATCH) {
+          const offset = word.indexOf(queryWord);
+          best = { start: start + offset, end: start + offset + queryWord.length };
+        } else {
+          best = { start, end: start + word.length };
+        }
+      }
+
+      if (best) {
+        ranges.push(best);
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Cut a short excerpt around the first match in the first text that has one
+   * @param query Search query
+   * @param texts Candidate texts, most relevant first
+   * @returns Excerpt with match ranges relative to it, or null if nothing matched
+   */
+  createSnippet(query: string, texts: string[]): MatchSnippet | null {
+    for (const rawText of texts) {
+      const text = rawText.replace(/\s+/g, ' ').trim();
+      const ranges = this.findMatchRanges(query, text);
+      const first = ranges[0];
+
+      if (!first) {
+        continue;
+      }
+
+      if (text.length <= SNIPPET_LENGTH) {
+        return { text, matches: ranges };
+      }
+
+      const start = Math.max(0, Math.min(first.start - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+      const end = Math.min(text.length, start + SNIPPET_LENGTH);
+      const prefix = start > 0 ? '…' : '';
+      const suffix = end < text.length ? '…' : '';
+      const shift = prefix.length - start;
+
+      return {
+        text: `${prefix}${text.slice(start, end)}${suffix}`,
+        matches: ranges
+          .filter(range => range.start >= start && range.end <= end)
+          .map(range => ({ start: range.start + shift, end: range.end + shift }))
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Levenshtein distance between two strings
+   * @param a First string
+   * @param b Second string
+   * @returns Number of single-character edits needed to turn a into b
+   */
+  getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+        current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution);
+      }
+      previous = current;
+    }
+
+    return previous[b.length] ?? 0;
+  }
+}
+
+/**
+ * Number of typos tolerated for a query word of this length
+ */
+function getAllowedTypos(queryWord: string): number {
+  if (queryWord.length >= MIN_TWO_TYPO_LENGTH) {
+    return 2;
+  }
+  return queryWord.length >= MIN_ONE_TYPO_LENGTH ? 1 : 0;
+}
+
+/**
+ * First letters of two or more words, or an empty string
+ */
+function getInitials(words: string[]): string {
+  return words.length >= 2 ? words.map(word => word[0]).join('') : '';
+}
+
+// Export a singleton instance
+export const fuzzyMatchService = new FuzzyMatchService();
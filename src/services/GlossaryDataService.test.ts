@@ -137,6 +137,19 @@ describe('GlossaryDataService', () => {
 
       await expect(service.loadGlossary()).rejects.toThrow('No valid terms found in data file');
     });
+
+    it('should filter out terms with invalid relationship fields', async () => {
+      const selfReference = { ...mockTerms[0]!, id: 'self', relatedTerms: ['self'] };
+      const badCategory = { ...mockTerms[0]!, id: 'bad-category', category: 'robotics' };
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ terms: [...mockTerms, selfReference, badCategory] })
+      });
+
+      const result = await service.loadGlossary();
+
+      expect(result).toEqual(mockTerms);
+    });
   });
 
   describe('getTermById', () => {
@@ -284,6 +297,65 @@ describe('GlossaryDataService', () => {
       const result = service.searchTerms('nonexistent');
       expect(result).toHaveLength(0);
     });
+
+    it('should tolerate typos', () => {
+      expect(service.searchTerms('machne lerning')[0]?.id).toBe('ml');
+      expect(service.searchTerms('artifical')[0]?.id).toBe('ai');
+    });
+
+    it('should match acronyms of term names', () => {
+      expect(service.searchTerms('ML')[0]?.id).toBe('ml');
+      expect(service.searchTerms('AI')[0]?.id).toBe('ai');
+    });
+
+    it('should rank name matches above definition and role context matches', () => {
+      // "Dataset" matches by name, Machine Learning by definition, Artificial Intelligence not at all
+      expect(service.searchTerms('data').map(term => term.id)).toEqual(['dataset', 'ml']);
+    });
+
+    it('should rank definition matches above role context matches', async () => {
+      const roleContext = {
+        business: 'Affects cost',
+        'pm-designer': 'Limits prompt size',
+        engineer: 'Counted whenever input is processed',
+        'data-scientist': 'Tune for long documents'
+      };
+      const rankedTerms: GlossaryTerm[] = [
+        { ...mockTerms[0]!, id: 'context-window', term: 'Context Window', definition: 'How much input fits at once.', roleContext },
+        { ...mockTerms[0]!, id: 'token', term: 'Token', definition: 'A piece of text processed by a model.', roleContext }
+      ];
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ terms: rankedTerms })
+      });
+      const rankingService = new GlossaryDataService();
+      await rankingService.loadGlossary();
+
+      // Both mention processing in their engineer context, only Token in its definition
+      expect(rankingService.searchTerms('processed').map(term => term.id)).toEqual(['token', 'context-window']);
+    });
+  });
+
+  describe('getMatchSnippet', () => {
+    it('should highlight the matching words of the definition', () => {
+      const term = mockTerms[1]!;
+      const snippet = service.getMatchSnippet(term, 'patterns');
+
+      expect(snippet?.text).toBe(term.definition);
+      expect(snippet?.matches).toHaveLength(1);
+      const match = snippet!.matches[0]!;
+      expect(snippet!.text.slice(match.start, match.end)).toBe('patterns');
+    });
+
+    it('should fall back to role context when the definition does not match', () => {
+      const snippet = service.getMatchSnippet(mockTerms[0]!, 'automation');
+
+      expect(snippet?.text).toBe('Understand automation potential');
+    });
+
+    it('should return null when nothing but the name matches', () => {
+      expect(service.getMatchSnippet(mockTerms[2]!, 'dataset')).toBeNull();
+    });
   });
 
   describe('getTermsSorted', () => {
@@ -312,6 +384,111 @@ describe('GlossaryDataService', () => {
     });
   });
 
+  describe('getRelatedTerms and getPrerequisites', () => {
+    const linkedTerms: GlossaryTerm[] = [
+      { ...mockTerms[0]!, relatedTerms: ['ml', 'missing'] },
+      { ...mockTerms[1]!, prerequisites: ['ai', 'missing'] },
+      { ...mockTerms[2]!, relatedTerms: ['ai'], aliases: ['Corpus'] }
+    ];
+
+    beforeEach(async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ terms: linkedTerms })
+      });
+      await service.loadGlossary();
+    });
+
+    it('should return declared related terms followed by terms that link back', () => {
+      expect(service.getRelatedTerms('ai').map(term => term.id)).toEqual(['ml', 'dataset']);
+    });
+
+    it('should treat relations as two-way', () => {
+      expect(service.getRelatedTerms('ml').map(term => term.id)).toEqual(['ai']);
+      expect(service.getRelatedTerms('dataset').map(term => term.id)).toEqual(['ai']);
+    });
+
+    it('should return prerequisites, skipping unknown terms', () => {
+      expect(service.getPrerequisites('ml').map(term => term.id)).toEqual(['ai']);
+      expect(service.getPrerequisites('ai')).toEqual([]);
+    });
+
+    it('should return nothing for unknown terms', () => {
+      expect(service.getRelatedTerms('missing')).toEqual([]);
+      expect(service.getPrerequisites('missing')).toEqual([]);
+    });
+
+    it('should find terms by alias', () => {
+      expect(service.searchTerms('corpus')[0]?.id).toBe('dataset');
+    });
+  });
+
+  describe('findTermMentions', () => {
+    const mentionTerms: GlossaryTerm[] = [
+      ...mockTerms,
+      { ...mockTerms[1]!, id: 'llm', term: 'Large Language Model (LLM)', aliases: ['Foundation Model'] },
+      { ...mockTerms[1]!, id: 'model', term: 'Model' }
+    ];
+
+    const mentionedText = (text: string, excludeTermId?: string) =>
+      service.findTermMentions(text, excludeTermId).map(mention => [mention.termId, text.slice(mention.start, mention.end)]);
+
+    beforeEach(async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ terms: mentionTerms })
+      });
+      await service.loadGlossary();
+    });
+
+    it('should find term names and aliases as whole words', () => {
+      expect(mentionedText('Machine learning builds on artificial intelligence; a foundation model is one example.')).toEqual([
+        ['ml', 'Machine learning'],
+        ['ai', 'artificial intelligence'],
+        ['llm', 'foundation model']
+      ]);
+    });
+
+    it('should match plurals but not parts of other words', () => {
+      expect(mentionedText('Compare datasets, not said words.')).toEqual([['dataset', 'datasets']]);
+    });
+
+    it('should match parenthesised acronyms case-sensitively', () => {
+      expect(mentionedText('An LLM writes text')).toEqual([['llm', 'LLM']]);
+      expect(mentionedText('The llm in "allm" and the llms of work')).toEqual([]);
+    });
+
+    it('should prefer longer names and link each term once', () => {
+      expect(mentionedText('A large language model is a model. Models vary.')).toEqual([
+        ['llm', 'large language model'],
+        ['model', 'model']
+      ]);
+    });
+
+    it('should skip the excluded term', () => {
+      expect(mentionedText('A model of models', 'model')).toEqual([]);
+    });
+
+    it('should find nothing before the glossary is loaded', () => {
+      expect(new GlossaryDataService().findTermMentions('Machine Learning')).toEqual([]);
+    });
+  });
+
+  describe('loadGlossary concurrency', () => {
+    it('should share one request between concurrent loads', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ terms: mockTerms })
+      });
+
+      const [first, second] = await Promise.all([service.loadGlossary(), service.loadGlossary()]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(mockTerms);
+      expect(second).toEqual(mockTerms);
+    });
+  });
+
   describe('getRoleContext', () => {
     beforeEach(async () => {
       const mockResponse = {
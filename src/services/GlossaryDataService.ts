@@ -1,84 +1,99 @@
-import { GlossaryTerm, UserRole } from '../types';
+import { GlossaryTerm, MatchSnippet, TermMention, UserRole, ValidationIssue, validateGlossaryTerm } from '../types';
+import { fuzzyMatchService } from './FuzzyMatchService';
+import { DataLoader, DataLoadOptions, partitionRecords } from './DataLoader';
+import { DataValidationError } from './AppErrors';
+import { validationReportService } from './ValidationReportService';
+
+const GLOSSARY_FILE = 'glossary.json';
+
+/**
+ * Relative weight of a search match in each part of a term, so that name
+ * hits rank above definition hits, which rank above role context hits
+ */
+const NAME_WEIGHT = 100;
+const DEFINITION_WEIGHT = 10;
+const ROLE_CONTEXT_WEIGHT = 1;
+
+/**
+ * Shortest term name that is linked when mentioned in text
+ */
+const MIN_MENTION_LENGTH = 2;
+
+/**
+ * A compiled pattern matching one name of a term
+ */
+interface MentionPattern {
+  termId: string;
+  pattern: RegExp;
+}
 
 export class GlossaryDataService {
   private terms: GlossaryTerm[] = [];
-  private isLoaded = false;
+  private mentionPatterns: MentionPattern[] | null = null;
+  private loader = new DataLoader<GlossaryTerm[]>({
+    file: GLOSSARY_FILE,
+    label: 'glossary data',
+    name: 'glossary',
+    parse: data => this.parseTerms(data)
+  });
 
   /**
    * Load glossary terms from the static JSON file
+   *
+   * Callers that ask while a load is in progress share its result.
    */
-  async loadGlossary(): Promise<GlossaryTerm[]> {
-    if (this.isLoaded) {
-      return this.terms;
-    }
+  async loadGlossary(options: DataLoadOptions = {}): Promise<GlossaryTerm[]> {
+    this.useTerms(await this.loader.load(options));
+    return this.terms;
+  }
 
-    try {
-      // Use process.env.PUBLIC_URL to handle different deployment paths
-      const publicUrl = process.env.PUBLIC_URL || '';
-      const url = `${publicUrl}/glossary.json`;
-      
-      // Add timeout to prevent hanging requests
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      
-      const response = await fetch(url, { 
-        signal: controller.signal,
-        headers: {
-          'Cache-Control': 'no-cache'
-        }
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Glossary data file not found. Please check if glossary.json exists in the public folder.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error while loading glossary data. Please try again later.');
-        } else {
-          throw new Error(`Failed to load glossary: ${response.status} ${response.statusText}`);
-        }
-      }
+  /**
+   * Check the glossary file for changes since it was loaded, keeping the
+   * loaded terms if it is unchanged. Does nothing before the first load.
+   */
+  async refreshGlossary(): Promise<void> {
+    if (this.loader.isLoaded()) {
+      this.useTerms(await this.loader.revalidate());
+    }
+  }
 
-      let data;
-      try {
-        data = await response.json();
-      } catch (parseError) {
-        throw new Error('Invalid glossary data format: file contains malformed JSON');
-      }
-      
-      if (!data || typeof data !== 'object') {
-        throw new Error('Invalid glossary data format: expected JSON object');
-      }
-      
-      if (!data.terms || !Array.isArray(data.terms)) {
-        throw new Error('Invalid glossary data format: missing or invalid terms array');
-      }
+  /**
+   * Switch to newly loaded terms
+   */
+  private useTerms(terms: GlossaryTerm[]): void {
+    // Mention patterns are built from the terms, so rebuild them for new ones
+    if (terms !== this.terms) {
+      this.terms = terms;
+      this.mentionPatterns = null;
+    }
+  }
 
-      // Validate each term has required fields
-      const validTerms = data.terms.filter((term: any) => 
-        this.isValidTerm(term)
-      );
+  /**
+   * Validate the glossary file, keeping the valid terms
+   */
+  private parseTerms(data: { terms?: unknown }): GlossaryTerm[] {
+    if (!data.terms || !Array.isArray(data.terms)) {
+      throw new DataValidationError('invalid-data', 'Invalid glossary data format: missing or invalid terms array');
+    }
 
-      if (validTerms.length === 0) {
-        throw new Error('No valid terms found in data file. Please check the glossary data format.');
-      }
+    // Validate each term has required fields
+    const { valid: validTerms, invalid } = partitionRecords<GlossaryTerm>(
+      data.terms,
+      'terms',
+      (term, path) => this.validateTerm(term, path)
+    );
+    validationReportService.report(GLOSSARY_FILE, invalid);
 
-      // Some terms were invalid but continue with valid ones
-
-      this.terms = validTerms;
-      this.isLoaded = true;
-      return this.terms;
-    } catch (error) {
-      // Provide more specific error messages
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error('Network error: Unable to connect to load glossary data. Please check your internet connection.');
-      } else if (error instanceof DOMException && error.name === 'AbortError') {
-        throw new Error('Request timeout: Loading glossary data took too long. Please try again.');
-      }
-      
-      throw error;
+    if (validTerms.length === 0) {
+      throw new DataValidationError(
+        'empty',
+        'No valid terms found in data file. Please check the glossary data format.',
+        { invalidRecords: invalid }
+      );
     }
+
+    // Some terms were invalid but continue with valid ones
+    return validTerms;
   }
 
   /**
@@ -112,24 +127,107 @@ export class GlossaryDataService {
   }
 
   /**
-   * Search terms by text query
+   * Search terms by text query, tolerating typos and matching acronyms
    * @param query The search query
-   * @returns Array of terms matching the query
+   * @returns Array of terms matching the query, most relevant first
    */
   searchTerms(query: string): GlossaryTerm[] {
     if (!query.trim()) {
       return this.getAllTerms();
     }
 
-    const searchQuery = query.toLowerCase().trim();
-    
-    return this.terms.filter(term => 
-      term.term.toLowerCase().includes(searchQuery) ||
-      term.definition.toLowerCase().includes(searchQuery) ||
-      Object.values(term.roleContext).some(context => 
-        context.toLowerCase().includes(searchQuery)
-      )
-    );
+    const searchQuery = query.trim();
+
+    return fuzzyMatchService.rankByRelevance(this.terms, term => Math.max(
+      NAME_WEIGHT * fuzzyMatchService.scoreName(searchQuery, term.term, term.aliases),
+      fuzzyMatchService.scoreFields(searchQuery, [
+        { text: term.definition, weight: DEFINITION_WEIGHT },
+        ...Object.values(term.roleContext).map(context => ({ text: context, weight: ROLE_CONTEXT_WEIGHT }))
+      ])
+    ));
+  }
+
+  /**
+   * Get an excerpt showing where a term matched a search query
+   * @param term The term to describe
+   * @param query The search query
+   * @returns Snippet from the definition or role context, or null if only the name matched
+   */
+  getMatchSnippet(term: GlossaryTerm, query: string): MatchSnippet | null {
+    return fuzzyMatchService.createSnippet(query, [
+      term.definition,
+      ...Object.values(term.roleContext)
+    ]);
+  }
+
+  /**
+   * Get the terms related to a term, in either direction
+   *
+   * Terms the given term lists come first, followed by terms that list it.
+   * References to unknown terms are skipped.
+   * @param termId The ID of the term
+   * @returns Related terms without duplicates
+   */
+  getRelatedTerms(termId: string): GlossaryTerm[] {
+    const term = this.getTermById(termId);
+    if (!term) {
+      return [];
+    }
+
+    const relatedIds = new Set(term.relatedTerms ?? []);
+    this.terms.forEach(other => {
+      if (other.relatedTerms?.includes(termId)) {
+        relatedIds.add(other.id);
+      }
+    });
+    relatedIds.delete(termId);
+
+    return this.resolveTermIds(Array.from(relatedIds));
+  }
+
+  /**
+   * Get the terms to understand before a term
+   * @param termId The ID of the term
+   * @returns Prerequisite terms; references to unknown terms are skipped
+   */
+  getPrerequisites(termId: string): GlossaryTerm[] {
+    return this.resolveTermIds(this.getTermById(termId)?.prerequisites ?? []);
+  }
+
+  /**
+   * Find mentions of glossary terms in a piece of text
+   *
+   * Matches term names, acronyms in parentheses and aliases as whole words,
+   * allowing a plural "s". All-caps names such as "AI" match case-sensitively.
+   * Only the first mention of each term is returned, longer names win over
+   * shorter ones they overlap, e.g. "Large Language Model" over "Model".
+   * @param text Text to scan
+   * @param excludeTermId Term to leave unlinked, e.g. the one being defined
+   * @returns Mentions in text order
+   */
+  findTermMentions(text: string, excludeTermId?: string): TermMention[] {
+    const mentions: TermMention[] = [];
+    const linkedTermIds = new Set<string>(excludeTermId ? [excludeTermId] : []);
+
+    for (const { termId, pattern } of this.getMentionPatterns()) {
+      if (linkedTermIds.has(termId)) {
+        continue;
+      }
+
+      pattern.lastIndex = 0;
+      let found: RegExpExecArray | null;
+      while ((found = pattern.exec(text)) !== null) {
+        const start = found.index;
+        const end = start + found[0].length;
+        if (!mentions.some(mention => start < mention.end && end > mention.start)) {
+          mentions.push({ termId, start, end });
+          linkedTermIds.add(termId);
+          break;
+        }
+      }
+    }
+
+    return mentions.sort((a, b) => a.start - b.start);
   }
 
   /**
@@ -170,27 +268,72 @@ export class GlossaryDataService {
   }
 
   /**
-   * Validate if a term object has all required fields
+   * Build one pattern per name a term can be mentioned by, longest name first
+   */
+  private getMentionPatterns(): MentionPattern[] {
+    if (!this.mentionPatterns) {
+      this.mentionPatterns = this.terms
+        .flatMap(term => getMentionNames(term).map(name => ({ termId: term.id, name })))
+        .filter(({ name }) => name.length >= MIN_MENTION_LENGTH)
+        .sort((a, b) => b.name.length - a.name.length)
+        .map(({ termId, name }) => ({
+          termId,
+          pattern: new RegExp(
+            `\\b${escapeRegExp(name)}(?:s|es)?\\b`,
+            name === name.toUpperCase() ? 'g' : 'gi'
+          )
+        }));
+    }
+
+    return this.mentionPatterns;
+  }
+
+  /**
+   * Look up terms by ID, keeping the given order
+   */
+  private resolveTermIds(ids: string[]): GlossaryTerm[] {
+    return ids
+      .map(id => this.getTermById(id))
+      .filter((term): term is GlossaryTerm => term !== undefined);
+  }
+
+  /**
+   * List the problems with a term, which must also explain itself for every role
    * @param term The term object to validate
-   * @returns true if valid, false otherwise
+   * @param path Where the term sits in the file, e.g. "terms[3]"
+   * @returns The issues found; empty when the term is valid
    */
-  private isValidTerm(term: any): boolean {
+  private validateTerm(term: unknown, path: string): ValidationIssue[] {
+    const issues = validateGlossaryTerm(term, path);
+    if (issues.length > 0) {
+      return issues;
+    }
+
     const requiredRoles: UserRole[] = ['business', 'pm-designer', 'engineer', 'data-scientist'];
-    
-    return (
-      typeof term.id === 'string' &&
-      typeof term.term === 'string' &&
-      typeof term.definition === 'string' &&
-      typeof term.externalLink === 'string' &&
-      term.roleContext &&
-      typeof term.roleContext === 'object' &&
-      requiredRoles.every(role => 
-        typeof term.roleContext[role] === 'string' &&
-        term.roleContext[role].length > 0
-      )
-    );
+    const { roleContext } = term as GlossaryTerm;
+    return requiredRoles
+      .filter(role => roleContext[role].length === 0)
+      .map(role => ({ path: `${path}.roleContext.${role}`, message: 'must not be empty' }));
   }
 }
 
+/**
+ * Names a term may be mentioned by: its name without any parenthesised
+ * acronym, the acronym itself and its aliases
+ */
+function getMentionNames(term: GlossaryTerm): string[] {
+  const acronyms = (term.term.match(/\(([^)]+)\)/g) ?? []).map(group => group.slice(1, -1).trim());
+  const baseName = term.term.replace(/\([^)]*\)/g, '').trim();
+
+  return Array.from(new Set([baseName, ...acronyms, ...(term.aliases ?? [])]));
+}
+
+/**
+ * Escape characters with a special meaning in regular expressions
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 // Export a singleton instance
 export const glossaryDataService = new GlossaryDataService();
\ No newline at end of file
@@ -0,0 +1,269 @@
+import { IntroductionDataService } from './IntroductionDataService';
+import { DataValidationError } from './AppErrors';
+import { validationReportService } from './ValidationReportService';
+import { IntroductionContent } from '../types';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('IntroductionDataService', () => {
+  let service: IntroductionDataService;
+
+  const mockContent: IntroductionContent = {
+    sections: [
+      {
+        id: 'overview',
+        title: 'Understanding AI',
+        subtitle: 'A balanced perspective',
+        content: 'First paragraph.\n\nSecond **paragraph**.',
+        variant: 'default'
+      },
+      {
+        id: 'productive-friction',
+        title: 'Productive Friction',
+        content: 'Keep some effort in the loop.',
+        variant: 'highlighted',
+        checks: [
+          {
+            id: 'check-friction',
+            type: 'true-false',
+            question: 'Productive friction means avoiding AI tools.',
+            correctAnswer: false
+          }
+        ]
+      }
+    ],
+    navigation: {
+      next: { label: 'Explore AI Glossary', destination: 'glossary' }
+    }
+  };
+
+  const mockFetchResponse = (data: unknown) => {
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: jest.fn().mockResolvedValue(data)
+    });
+  };
+
+  beforeEach(() => {
+    service = new IntroductionDataService();
+    validationReportService.clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('loadIntroduction', () => {
+    it('should load the introduction successfully', async () => {
+      mockFetchResponse(mockContent);
+
+      const result = await service.loadIntroduction();
+
+      expect(fetch).toHaveBeenCalledWith('/introduction.json', expect.objectContaining({
+        headers: { 'Cache-Control': 'no-cache' }
+      }));
+      expect(result).toEqual(mockContent);
+      expect(service.isDataLoaded()).toBe(true);
+    });
+
+    it('should return cached content on subsequent calls', async () => {
+      mockFetchResponse(mockContent);
+
+      await service.loadIntroduction();
+      await service.loadIntroduction();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip invalid and duplicate sections with a warning', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchResponse({
+        ...mockContent,
+        sections: [
+          ...mockContent.sections,
+          { id: 'no-content', title: 'No content', content: '' },
+          { ...mockContent.sections[0], title: 'Duplicate' }
+        ]
+      });
+
+      const result = await service.loadIntroduction();
+
+      expect(result.sections.map(section => section.id)).toEqual(['overview', 'productive-friction']);
+      expect(consoleSpy).toHaveBeenCalledWith('2 invalid introduction sections were skipped');
+      expect(validationReportService.getReports()).toEqual([
+        {
+          file: 'introduction.json',
+          skipped: [
+            { index: 2, id: 'no-content', issues: [{ path: 'sections[2].content', message: 'must not be empty' }] },
+            { index: 3, id: 'overview', issues: [{ path: 'sections[3].id', message: 'repeats "overview" from an earlier section' }] }
+          ]
+        }
+      ]);
+    });
+
+    it('should skip a section repeating a knowledge check from an earlier section', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const [overview, friction] = mockContent.sections;
+      mockFetchResponse({
+        ...mockContent,
+        sections: [friction, { ...overview, checks: friction?.checks }]
+      });
+
+      const result = await service.loadIntroduction();
+
+      expect(result.sections.map(section => section.id)).toEqual(['productive-friction']);
+      expect(validationReportService.getReports()[0]?.skipped).toEqual([
+        {
+          index: 1,
+          id: 'overview',
+          issues: [{ path: 'sections[1].checks[0].id', message: 'repeats "check-friction" from an earlier check' }]
+        }
+      ]);
+    });
+
+    it('should throw error when the file is missing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await expect(service.loadIntroduction()).rejects.toThrow('Introduction content file not found');
+    });
+
+    it('should throw error for malformed data', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchResponse({ ...mockContent, navigation: { next: { label: 'Go', destination: 'tools' } } });
+
+      const error = await service.loadIntroduction().catch(err => err);
+
+      expect(error).toBeInstanceOf(DataValidationError);
+      expect(error.code).toBe('invalid-data');
+      expect(error.message).toBe('Invalid introduction data format: data structure does not match expected format');
+    });
+
+    it('should report which sections failed validation when none is valid', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchResponse({ ...mockContent, sections: [{ id: 'broken', title: 'Broken', content: 'Text', variant: 'loud' }] });
+
+      const error = await service.loadIntroduction().catch(err => err);
+
+      expect(error.code).toBe('empty');
+      expect(error.invalidRecords).toEqual([
+        {
+          index: 0,
+          id: 'broken',
+          issues: [{ path: 'sections[0].variant', message: 'expected one of default, highlighted, warning' }]
+        }
+      ]);
+    });
+  });
+
+  describe('section lookup', () => {
+    it('should return nothing before the introduction is loaded', () => {
+      expect(service.getSections()).toEqual([]);
+      expect(service.getSectionById('overview')).toBeUndefined();
+    });
+
+    it('should find loaded sections by id', async () => {
+      mockFetchResponse(mockContent);
+      await service.loadIntroduction();
+
+      expect(service.getSections()).toHaveLength(2);
+      expect(service.getSectionById('productive-friction')?.title).toBe('Productive Friction');
+      expect(service.getSectionById('missing')).toBeUndefined();
+    });
+  });
+
+  describe('getReadingSummary', () => {
+    const read = (sectionId: string) => ({ sectionId, method: 'viewed' as const, readAt: 1000 });
+
+    beforeEach(async () => {
+      mockFetchResponse(mockContent);
+      await service.loadIntroduction();
+    });
+
+    it('should start at the first section before anything is read', () => {
+      expect(service.getReadingSummary({ readSections: {}, checkResults: {} })).toEqual({
+        readCount: 0,
+        totalSections: 2,
+        percentage: 0,
+        isStarted: false,
+        checksCorrect: 0,
+        totalChecks: 1,
+        resumeSection: mockContent.sections[0]
+      });
+    });
+
+    it('should resume at the section last in view', () => {
+      const summary = service.getReadingSummary({ readSections: {}, checkResults: {}, lastSectionId: 'productive-friction' });
+
+      expect(summary.isStarted).toBe(true);
+      expect(summary.resumeSection?.id).toBe('productive-friction');
+    });
+
+    it('should resume at the next unread section once the last one is read', () => {
+      const summary = service.getReadingSummary({
+        readSections: { 'productive-friction': read('productive-friction') },
+        checkResults: {},
+        lastSectionId: 'productive-friction'
+      });
+
+      expect(summary).toMatchObject({ readCount: 1, percentage: 50 });
+      expect(summary.resumeSection?.id).toBe('overview');
+    });
+
+    it('should have nothing to resume once every section is read', () => {
+      const summary = service.getReadingSummary({
+        readSections: { overview: read('overview'), 'productive-friction': read('productive-friction') },
+        checkResults: {}
+      });
+
+      expect(summary).toEqual({
+        readCount: 2,
+        totalSections: 2,
+        percentage: 100,
+        isStarted: true,
+        checksCorrect: 0,
+        totalChecks: 1
+      });
+    });
+
+    it('should count knowledge checks last answered correctly', () => {
+      const answer = (questionId: string, isCorrect: boolean) =>
+        ({ questionId, sectionId: 'productive-friction', isCorrect, answeredAt: 1000 });
+
+      expect(service.getReadingSummary({
+        readSections: {},
+        checkResults: { 'check-friction': answer('check-friction', true), removed: answer('removed', true) }
+      })).toMatchObject({ checksCorrect: 1, totalChecks: 1 });
+      expect(service.getReadingSummary({
+        readSections: {},
+        checkResults: { 'check-friction': answer('check-friction', false) }
+      })).toMatchObject({ checksCorrect: 0, totalChecks: 1 });
+    });
+
+    it('should ignore sections that are no longer in the file', () => {
+      const summary = service.getReadingSummary({
+        readSections: { removed: read('removed') },
+        checkResults: {},
+        lastSectionId: 'removed'
+      });
+
+      expect(summary).toMatchObject({ readCount: 0, isStarted: false });
+      expect(summary.resumeSection?.id).toBe('overview');
+    });
+  });
+
+  describe('clearCache', () => {
+    it('should fetch the file again after clearing', async () => {
+      mockFetchResponse(mockContent);
+      await service.loadIntroduction();
+
+      service.clearCache();
+
+      expect(service.isDataLoaded()).toBe(false);
+      await service.loadIntroduction();
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
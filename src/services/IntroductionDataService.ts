@@ -0,0 +1,181 @@
+/**
+ * IntroductionDataService - the sections of the AI introduction
+ *
+ * Loads the introduction from the static JSON file, where each section's
+ * text is kept as lightly formatted Markdown so it can be edited without a
+ * code change.
+ */
+
+import {
+  IntroductionContent,
+  IntroductionProgress,
+  IntroductionReadingSummary,
+  IntroductionSection,
+  SectionCheckQuestion,
+  validateIntroductionNavigation,
+  validateIntroductionSection
+} from '../types';
+import { DataLoader, DataLoadOptions, partitionRecords } from './DataLoader';
+import { DataValidationError } from './AppErrors';
+import { validationReportService } from './ValidationReportService';
+
+const INTRODUCTION_FILE = 'introduction.json';
+
+export class IntroductionDataService {
+  private content: IntroductionContent | null = null;
+  private loader = new DataLoader<IntroductionContent>({
+    file: INTRODUCTION_FILE,
+    label: 'introduction content',
+    name: 'introduction',
+    parse: parseIntroduction
+  });
+
+  /**
+   * Load the introduction from the static JSON file
+   *
+   * Invalid sections are skipped with a warning so one bad entry does not
+   * hide the rest, and reported to the validation report.
+   */
+  async loadIntroduction(options: DataLoadOptions = {}): Promise<IntroductionContent> {
+    try {
+      this.content = await this.loader.load(options);
+      return this.content;
+    } catch (error) {
+      console.error('Error loading introduction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check the introduction file for changes since it was loaded, keeping the
+   * loaded sections if it is unchanged. Does nothing before the first load.
+   */
+  async refreshIntroduction(): Promise<void> {
+    if (this.loader.isLoaded()) {
+      this.content = await this.loader.revalidate();
+    }
+  }
+
+  /**
+   * Get all loaded sections
+   * @returns Array of sections in reading order
+   */
+  getSections(): IntroductionSection[] {
+    return this.content ? [...this.content.sections] : [];
+  }
+
+  /**
+   * Get a specific section by ID
+   * @param id The ID of the section to retrieve
+   * @returns The section or undefined if not found
+   */
+  getSectionById(id: string): IntroductionSection | undefined {
+    return this.content?.sections.find(section => section.id === id);
+  }
+
+  /**
+   * Summarize saved reading progress against the loaded sections
+   *
+   * Reading resumes at the section last in view, or at the first unread
+   * section after it once that one is read. Progress for sections and
+   * knowledge checks no longer in the file is ignored.
+   * @param progress Saved progress through the introduction
+   */
+  getReadingSummary(progress: IntroductionProgress): IntroductionReadingSummary {
+    const sections = this.getSections();
+    const isRead = (section: IntroductionSection) => progress.readSections[section.id] !== undefined;
+    const readCount = sections.filter(isRead).length;
+    const lastIndex = sections.findIndex(section => section.id === progress.lastSectionId);
+
+    const checks = sections.reduce<SectionCheckQuestion[]>((all, section) => all.concat(section.checks ?? []), []);
+    const checksCorrect = checks.filter(check => progress.checkResults[check.id]?.isCorrect).length;
+
+    const start = Math.max(lastIndex, 0);
+    const resumeSection = [...sections.slice(start), ...sections.slice(0, start)]
+      .find(section => !isRead(section));
+
+    return {
+      readCount,
+      totalSections: sections.length,
+      percentage: sections.length > 0 ? Math.round((readCount / sections.length) * 100) : 0,
+      isStarted: readCount > 0 || lastIndex >= 0,
+      checksCorrect,
+      totalChecks: checks.length,
+      ...(resumeSection && { resumeSection })
+    };
+  }
+
+  /**
+   * Check if data is loaded
+   * @returns true if the introduction is loaded, false otherwise
+   */
+  isDataLoaded(): boolean {
+    return this.loader.isLoaded() && this.content !== null;
+  }
+
+  /**
+   * Clear cached data (useful for testing or forcing reload)
+   */
+  clearCache(): void {
+    this.content = null;
+    this.loader.clear();
+  }
+}
+
+/**
+ * Validate the introduction file, keeping the valid sections
+ *
+ * Section ids double as page anchors and deep links, and knowledge check
+ * ids key their saved results, so a section repeating either is skipped like
+ * any other invalid section.
+ */
+function parseIntroduction(data: { sections?: unknown; navigation?: unknown }): IntroductionContent {
+  if (!Array.isArray(data.sections) || validateIntroductionNavigation(data.navigation, 'navigation').length > 0) {
+    throw new DataValidationError(
+      'invalid-data',
+      'Invalid introduction data format: data structure does not match expected format'
+    );
+  }
+
+  const seenIds = new Set<string>();
+  const seenCheckIds = new Set<string>();
+  const { valid: sections, invalid } = partitionRecords<IntroductionSection>(data.sections, 'sections', (section, at) => {
+    const issues = validateIntroductionSection(section, at);
+    if (issues.length > 0) {
+      return issues;
+    }
+    const { id } = section as IntroductionSection;
+    if (seenIds.has(id)) {
+      return [{ path: `${at}.id`, message: `repeats "${id}" from an earlier section` }];
+    }
+    const checks = (section as IntroductionSection).checks ?? [];
+    const repeatedChecks = checks
+      .map((check, index) => ({ id: check.id, index }))
+      .filter(check => seenCheckIds.has(check.id))
+      .map(check => ({ path: `${at}.checks[${check.index}].id`, message: `repeats "${check.id}" from an earlier check` }));
+    if (repeatedChecks.length > 0) {
+      return repeatedChecks;
+    }
+    seenIds.add(id);
+    checks.forEach(check => seenCheckIds.add(check.id));
+    return [];
+  });
+  validationReportService.report(INTRODUCTION_FILE, invalid);
+
+  if (sections.length === 0) {
+    throw new DataValidationError(
+      'empty',
+      'No valid introduction sections found in data file. Please check the introduction data format.',
+      { invalidRecords: invalid }
+    );
+  }
+
+  if (invalid.length > 0) {
+    console.warn(`${invalid.length} invalid introduction sections were skipped`);
+  }
+
+  return { sections, navigation: data.navigation as IntroductionContent['navigation'] };
+}
+
+// Export a singleton instance
+export const introductionDataService = new IntroductionDataService();
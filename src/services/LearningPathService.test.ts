@@ -0,0 +1,217 @@
+import { LearningPathService } from './LearningPathService';
+import { glossaryDataService } from './GlossaryDataService';
+import { DataValidationError } from './AppErrors';
+import { GlossaryTerm, LearningPath, QuestionOutcome } from '../types';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('LearningPathService', () => {
+  let service: LearningPathService;
+
+  const mockPaths: LearningPath[] = [
+    {
+      id: 'llm-fundamentals',
+      title: 'LLM Fundamentals',
+      description: 'How large language models work',
+      termIds: ['token', 'large-language-model', 'prompt']
+    },
+    {
+      id: 'responsible-ai',
+      title: 'Responsible AI',
+      description: 'Where models go wrong',
+      termIds: ['bias', 'drift']
+    }
+  ];
+
+  const makeTerm = (id: string, term: string): GlossaryTerm => ({
+    id,
+    term,
+    definition: `${term} definition`,
+    externalLink: `https://example.com/${id}`,
+    roleContext: {
+      business: 'Business context',
+      'pm-designer': 'Design context',
+      engineer: 'Engineering context',
+      'data-scientist': 'Data science context'
+    }
+  });
+
+  const glossaryTerms: Record<string, GlossaryTerm> = {
+    token: makeTerm('token', 'Token'),
+    'large-language-model': makeTerm('large-language-model', 'Large Language Model (LLM)'),
+    prompt: makeTerm('prompt', 'Prompt')
+  };
+
+  const outcome = (termId: string, isCorrect: boolean): QuestionOutcome => ({
+    questionId: `${termId}-q`,
+    termId,
+    selectedAnswer: 'answer',
+    isCorrect,
+    timeTakenMs: 1000,
+    timestamp: 1
+  });
+
+  const mockFetchResponse = (data: unknown) => {
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: jest.fn().mockResolvedValue(data)
+    });
+  };
+
+  beforeEach(() => {
+    service = new LearningPathService();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('loadPaths', () => {
+    it('should load learning paths successfully', async () => {
+      mockFetchResponse({ paths: mockPaths });
+
+      const result = await service.loadPaths();
+
+      expect(fetch).toHaveBeenCalledWith('/learning-paths.json', expect.objectContaining({
+        headers: { 'Cache-Control': 'no-cache' }
+      }));
+      expect(result).toEqual(mockPaths);
+      expect(service.isDataLoaded()).toBe(true);
+    });
+
+    it('should return cached paths on subsequent calls', async () => {
+      mockFetchResponse({ paths: mockPaths });
+
+      await service.loadPaths();
+      await service.loadPaths();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip invalid and duplicate paths with a warning', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchResponse({
+        paths: [
+          ...mockPaths,
+          { id: 'empty', title: 'Empty', description: '', termIds: [] },
+          { ...mockPaths[0], title: 'Duplicate' }
+        ]
+      });
+
+      const result = await service.loadPaths();
+
+      expect(result.map(path => path.id)).toEqual(['llm-fundamentals', 'responsible-ai']);
+      expect(consoleSpy).toHaveBeenCalledWith('2 invalid learning paths were skipped');
+    });
+
+    it('should throw error when the file is missing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await expect(service.loadPaths()).rejects.toThrow('Learning paths file not found');
+    });
+
+    it('should throw error for malformed data', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchResponse({ routes: [] });
+
+      await expect(service.loadPaths()).rejects.toThrow(
+        'Invalid learning paths data format: missing or invalid paths array'
+      );
+    });
+
+    it('should throw error when no path is valid', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchResponse({ paths: [{ id: 'broken' }] });
+
+      await expect(service.loadPaths()).rejects.toThrow('No valid learning paths found in data file');
+    });
+
+    it('should report which paths failed validation', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchResponse({ paths: [{ id: 'broken' }, { title: 'No id' }] });
+
+      const error = await service.loadPaths().catch(err => err);
+
+      expect(error).toBeInstanceOf(DataValidationError);
+      expect(error.code).toBe('empty');
+      expect(error.invalidRecords).toEqual([
+        { index: 0, id: 'broken', issues: expect.arrayContaining([{ path: 'paths[0].title', message: 'is required' }]) },
+        { index: 1, issues: expect.arrayContaining([{ path: 'paths[1].id', message: 'is required' }]) }
+      ]);
+    });
+
+    it('should report network errors', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(service.loadPaths()).rejects.toThrow('Network error: Unable to connect to load learning paths');
+    });
+  });
+
+  describe('path lookups', () => {
+    beforeEach(async () => {
+      mockFetchResponse({ paths: mockPaths });
+      await service.loadPaths();
+      jest.spyOn(glossaryDataService, 'getTermById').mockImplementation(id => glossaryTerms[id]);
+    });
+
+    it('should find paths by id', () => {
+      expect(service.getPathById('responsible-ai')?.title).toBe('Responsible AI');
+      expect(service.getPathById('unknown')).toBeUndefined();
+      expect(service.getAllPaths()).toHaveLength(2);
+    });
+
+    it('should resolve path terms in order and skip unknown ids', () => {
+      const terms = service.getPathTerms(mockPaths[0]!);
+
+      expect(terms.map(term => term.id)).toEqual(['token', 'large-language-model', 'prompt']);
+      expect(service.getPathTerms(mockPaths[1]!)).toEqual([]);
+    });
+
+    it('should count terms answered correctly at least once as completed', () => {
+      const history = [
+        outcome('token', false),
+        outcome('token', true),
+        outcome('prompt', false),
+        outcome('large-language-model', true),
+        outcome('bias', true)
+      ];
+
+      expect(service.getPathProgress(mockPaths[0]!, history)).toEqual({
+        pathId: 'llm-fundamentals',
+        completedTermIds: ['token', 'large-language-model'],
+        totalTerms: 3,
+        percentage: 67
+      });
+    });
+
+    it('should match terms by id whether or not the glossary has them', () => {
+      const history = [outcome('bias', true), outcome('Drift', true)];
+
+      expect(service.getPathProgress(mockPaths[1]!, history)).toMatchObject({
+        completedTermIds: ['bias'],
+        percentage: 50
+      });
+    });
+
+    it('should report no progress without answers', () => {
+      expect(service.getPathProgress(mockPaths[0]!, []).percentage).toBe(0);
+    });
+  });
+
+  describe('clearCache', () => {
+    it('should forget loaded paths', async () => {
+      mockFetchResponse({ paths: mockPaths });
+      await service.loadPaths();
+
+      service.clearCache();
+
+      expect(service.isDataLoaded()).toBe(false);
+      expect(service.getAllPaths()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * LearningPathService - curated sequences of glossary terms
+ *
+ * Loads learning paths such as "LLM Fundamentals" from the static JSON file,
+ * resolves their term ids against the glossary and works out how far the
+ * user has got through each path from their answer history.
+ */
+
+import {
+  GlossaryTerm,
+  LearningPath,
+  LearningPathProgress,
+  QuestionOutcome,
+  validateLearningPath
+} from '../types';
+import { glossaryDataService } from './GlossaryDataService';
+import { DataLoader, DataLoadOptions, partitionRecords } from './DataLoader';
+import { DataValidationError } from './AppErrors';
+import { validationReportService } from './ValidationReportService';
+
+const PATHS_FILE = 'learning-paths.json';
+
+export class LearningPathService {
+  private paths: LearningPath[] = [];
+  private loader = new DataLoader<LearningPath[]>({
+    file: PATHS_FILE,
+    label: 'learning paths',
+    name: 'learning paths',
+    parse: parsePaths
+  });
+
+  /**
+   * Load learning paths from the static JSON file
+   *
+   * Invalid paths are skipped with a warning so one bad entry does not hide
+   * the rest, and reported to the validation report.
+   */
+  async loadPaths(options: DataLoadOptions = {}): Promise<LearningPath[]> {
+    try {
+      this.paths = await this.loader.load(options);
+      return this.paths;
+    } catch (error) {
+      console.error('Error loading learning paths:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check the learning paths file for changes since it was loaded, keeping
+   * the loaded paths if it is unchanged. Does nothing before the first load.
+   */
+  async refreshPaths(): Promise<void> {
+    if (this.loader.isLoaded()) {
+      this.paths = await this.loader.revalidate();
+    }
+  }
+
+  /**
+   * Get a specific path by ID
+   * @param id The ID of the path to retrieve
+   * @returns The path or undefined if not found
+   */
+  getPathById(id: string): LearningPath | undefined {
+    return this.paths.find(path => path.id === id);
+  }
+
+  /**
+   * Get all loaded paths
+   * @returns Array of all paths in file order
+   */
+  getAllPaths(): LearningPath[] {
+    return [...this.paths];
+  }
+
+  /**
+   * Resolve a path's term ids against the loaded glossary
+   * @param path The path whose terms to look up
+   * @returns Glossary terms in path order; ids missing from the glossary are skipped
+   */
+  getPathTerms(path: LearningPath): GlossaryTerm[] {
+    return path.termIds
+      .map(id => glossaryDataService.getTermById(id))
+      .filter((term): term is GlossaryTerm => term !== undefined);
+  }
+
+  /**
+   * Work out how far the user has got through a path
+   *
+   * A term counts as completed once any question about it has been answered
+   * correctly.
+   * @param path The path to measure
+   * @param history Per-question answer history
+   * @returns Completed term ids in path order and the overall percentage
+   */
+  getPathProgress(path: LearningPath, history: QuestionOutcome[]): LearningPathProgress {
+    const correctTermIds = new Set(
+      history.filter(outcome => outcome.isCorrect).map(outcome => outcome.termId)
+    );
+
+    const completedTermIds = path.termIds.filter(id => correctTermIds.has(id));
+    const totalTerms = path.termIds.length;
+
+    return {
+      pathId: path.id,
+      completedTermIds,
+      totalTerms,
+      percentage: totalTerms > 0 ? Math.round((completedTermIds.length / totalTerms) * 100) : 0
+    };
+  }
+
+  /**
+   * Check if data is loaded
+   * @returns true if paths are loaded, false otherwise
+   */
+  isDataLoaded(): boolean {
+    return this.loader.isLoaded();
+  }
+
+  /**
+   * Clear cached data (useful for testing or forcing reload)
+   */
+  clearCache(): void {
+    this.paths = [];
+    this.loader.clear();
+  }
+}
+
+/**
+ * Validate the learning paths file, keeping the valid paths
+ */
+function parsePaths(data: { paths?: unknown }): LearningPath[] {
+  if (!data.paths || !Array.isArray(data.paths)) {
+    throw new DataValidationError('invalid-data', 'Invalid learning paths data format: missing or invalid paths array');
+  }
+
+  const seenIds = new Set<string>();
+  const { valid: validPaths, invalid } = partitionRecords<LearningPath>(data.paths, 'paths', (path, at) => {
+    const issues = validateLearningPath(path, at);
+    if (issues.length > 0) {
+      return issues;
+    }
+    const { id } = path as LearningPath;
+    if (seenIds.has(id)) {
+      return [{ path: `${at}.id`, message: `repeats "${id}" from an earlier path` }];
+    }
+    seenIds.add(id);
+    return [];
+  });
+  validationReportService.report(PATHS_FILE, invalid);
+
+  if (validPaths.length === 0) {
+    throw new DataValidationError(
+      'empty',
+      'No valid learning paths found in data file. Please check the learning paths data format.',
+      { invalidRecords: invalid }
+    );
+  }
+
+  if (validPaths.length < data.paths.length) {
+    console.warn(`${data.paths.length - validPaths.length} invalid learning paths were skipped`);
+  }
+
+  return validPaths;
+}
+
+// Export a singleton instance
+export const learningPathService = new LearningPathService();
@@ -6,7 +6,9 @@
  */
 
 import { LocalStorageService } from './LocalStorageService';
-import { QuizAttempt, StoredUserData, UserProgress } from '../types';
+import { STORAGE_MIGRATIONS } from './StorageMigrations';
+import { StorageError } from './AppErrors';
+import { QuestionOutcome, QuizAttempt, StoredUserData, UserProgress } from '../types';
 
 // Mock localStorage
 let mockStore: Record<string, string> = {};
@@ -78,7 +80,7 @@ describe('LocalStorageService', () => {
 
         it('should migrate data on initialization if needed', () => {
             // Set up old version data
-            const oldData: StoredUserData = {
+            const oldData = {
                 version: '0.9.0',
                 quizHistory: [],
                 answeredTerms: ['term1'],
@@ -91,7 +93,7 @@ describe('LocalStorageService', () => {
 
             // Check that data was migrated
             const storedData = JSON.parse(mockLocalStorage.getItem('ai-glossary-user-data') || '{}');
-            expect(storedData.version).toBe('1.0.0');
+            expect(storedData.version).toBe('1.4.0');
         });
     });
 
@@ -108,7 +110,7 @@ describe('LocalStorageService', () => {
 
         it('should return stored progress when data exists', () => {
             const storedData: StoredUserData = {
-                version: '1.0.0',
+                version: '1.4.0',
                 quizHistory: [
                     {
                         timestamp: Date.now(),
@@ -118,6 +120,8 @@ describe('LocalStorageService', () => {
                     }
                 ],
                 answeredTerms: ['term1', 'term2', 'term3'],
+                answerHistory: [],
+                introductionProgress: { readSections: {}, checkResults: {} },
                 preferences: {}
             };
 
@@ -324,6 +328,225 @@ describe('LocalStorageService', () => {
         });
     });
 
+    describe('Answer History', () => {
+        const outcome: QuestionOutcome = {
+            questionId: 'q1',
+            termId: 'term1',
+            selectedAnswer: 'Option A',
+            isCorrect: true,
+            timeTakenMs: 4200,
+            timestamp: Date.now()
+        };
+
+        it('should return an empty history when no answers exist', () => {
+            expect(service.getAnswerHistory()).toEqual([]);
+        });
+
+        it('should append outcomes and persist them', () => {
+            const second = { ...outcome, questionId: 'q2', termId: 'term2', isCorrect: false };
+
+            service.recordAnswerOutcomes([outcome]);
+            service.recordAnswerOutcomes([second]);
+
+            expect(service.getAnswerHistory()).toEqual([outcome, second]);
+
+            const storedData = JSON.parse(mockStore['ai-glossary-user-data'] || '{}');
+            expect(storedData.answerHistory).toHaveLength(2);
+        });
+
+        it('should reject invalid outcomes', () => {
+            service.recordAnswerOutcomes([{ ...outcome, timeTakenMs: -1 }]);
+
+            expect(service.getAnswerHistory()).toEqual([]);
+            expect(mockConsole.error).toHaveBeenCalledWith(
+                'Invalid answer outcome data:',
+                expect.any(Array)
+            );
+        });
+
+        it('should cap the history at the most recent 500 outcomes', () => {
+            const outcomes = Array.from({ length: 510 }, (_, i) => ({
+                ...outcome,
+                questionId: `q${i}`
+            }));
+
+            service.recordAnswerOutcomes(outcomes);
+
+            const history = service.getAnswerHistory();
+            expect(history).toHaveLength(500);
+            expect(history[0]?.questionId).toBe('q10');
+        });
+
+        it('should keep history in memory when localStorage is unavailable', () => {
+            mockLocalStorage.setItem.mockImplementation(() => {
+                throw new Error('localStorage not available');
+            });
+
+            service = new LocalStorageService();
+            service.recordAnswerOutcomes([outcome]);
+
+            expect(service.getAnswerHistory()).toEqual([outcome]);
+        });
+    });
+
+    describe('Review Schedule', () => {
+        it('should return an empty schedule when no reviews exist', () => {
+            expect(service.getReviewSchedule()).toEqual({});
+        });
+
+        it('should schedule answered terms and persist them', () => {
+            const timestamp = Date.now();
+
+            service.recordTermReviews([
+                { termId: 'term1', isCorrect: true },
+                { termId: 'term2', isCorrect: false }
+            ], timestamp);
+
+            const schedule = service.getReviewSchedule();
+            expect(schedule.term1).toMatchObject({ termId: 'term1', repetitions: 1, lastReviewed: timestamp });
+            expect(schedule.term2).toMatchObject({ termId: 'term2', repetitions: 0, lastReviewed: timestamp });
+
+            const storedData = JSON.parse(mockStore['ai-glossary-user-data'] || '{}');
+            expect(Object.keys(storedData.reviewSchedule)).toEqual(['term1', 'term2']);
+        });
+
+        it('should build on the existing review state for a term', () => {
+            const timestamp = Date.now();
+
+            service.recordTermReviews([{ termId: 'term1', isCorrect: true }], timestamp);
+            service.recordTermReviews([{ termId: 'term1', isCorrect: true }], timestamp);
+
+            expect(service.getReviewSchedule().term1).toMatchObject({ repetitions: 2, interval: 6 });
+        });
+
+        it('should keep the schedule in memory when localStorage is unavailable', () => {
+            mockLocalStorage.setItem.mockImplementation(() => {
+                throw new Error('localStorage not available');
+            });
+
+            service = new LocalStorageService();
+            service.recordTermReviews([{ termId: 'term1', isCorrect: false }]);
+
+            expect(service.getReviewSchedule().term1).toMatchObject({ termId: 'term1', repetitions: 0 });
+        });
+
+        it('should preserve the schedule during migration', () => {
+            const oldData = {
+                version: '0.9.0',
+                quizHistory: [],
+                answeredTerms: ['term1'],
+                reviewSchedule: {
+                    term1: { term: 'term1', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: 1, lastReviewed: 1 }
+                },
+                preferences: {}
+            };
+
+            mockLocalStorage.setItem('ai-glossary-user-data', JSON.stringify(oldData));
+
+            service = new LocalStorageService();
+
+            expect(service.getReviewSchedule()).toEqual({
+                term1: { termId: 'term1', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: 1, lastReviewed: 1 }
+            });
+        });
+    });
+
+    describe('Introduction Progress', () => {
+        it('should return no sections read when nothing is stored', () => {
+            expect(service.getIntroductionProgress()).toEqual({ readSections: {}, checkResults: {} });
+        });
+
+        it('should record read sections and persist them', () => {
+            service.markSectionRead('ai-advantages', 'viewed', 1000);
+            service.markSectionRead('cognitive-risks', 'marked', 2000);
+
+            expect(service.getIntroductionProgress().readSections).toEqual({
+                'ai-advantages': { sectionId: 'ai-advantages', method: 'viewed', readAt: 1000 },
+                'cognitive-risks': { sectionId: 'cognitive-risks', method: 'marked', readAt: 2000 }
+            });
+
+            const storedData = JSON.parse(mockStore['ai-glossary-user-data'] || '{}');
+            expect(Object.keys(storedData.introductionProgress.readSections)).toEqual(['ai-advantages', 'cognitive-risks']);
+        });
+
+        it('should keep the time a section was first read', () => {
+            service.markSectionRead('ai-advantages', 'viewed', 1000);
+            service.markSectionRead('ai-advantages', 'marked', 2000);
+
+            expect(service.getIntroductionProgress().readSections['ai-advantages']).toEqual({
+                sectionId: 'ai-advantages',
+                method: 'viewed',
+                readAt: 1000
+            });
+        });
+
+        it('should mark a section unread again', () => {
+            service.markSectionRead('ai-advantages', 'marked', 1000);
+
+            expect(service.markSectionUnread('ai-advantages').readSections).toEqual({});
+            expect(service.getIntroductionProgress().readSections).toEqual({});
+        });
+
+        it('should record the latest answer to each knowledge check', () => {
+            service.recordCheckResult('invisible-degradation', 'check-degradation-signs', false, 1000);
+            service.recordCheckResult('invisible-degradation', 'check-degradation-signs', true, 2000);
+
+            expect(service.getIntroductionProgress().checkResults).toEqual({
+                'check-degradation-signs': {
+                    questionId: 'check-degradation-signs',
+                    sectionId: 'invisible-degradation',
+                    isCorrect: true,
+                    answeredAt: 2000
+                }
+            });
+
+            const storedData = JSON.parse(mockStore['ai-glossary-user-data'] || '{}');
+            expect(storedData.introductionProgress.checkResults['check-degradation-signs'].isCorrect).toBe(true);
+        });
+
+        it('should remember the last section in view', () => {
+            service.setLastIntroductionSection('productive-friction');
+
+            expect(service.getIntroductionProgress().lastSectionId).toBe('productive-friction');
+        });
+
+        it('should not let callers change the saved progress', () => {
+            service.getIntroductionProgress().readSections['ai-advantages'] = {
+                sectionId: 'ai-advantages',
+                method: 'marked',
+                readAt: 1000
+            };
+
+            expect(service.getIntroductionProgress().readSections).toEqual({});
+        });
+
+        it('should keep progress in memory when localStorage is unavailable', () => {
+            mockLocalStorage.setItem.mockImplementation(() => {
+                throw new Error('localStorage not available');
+            });
+
+            service = new LocalStorageService();
+            service.markSectionRead('ai-advantages', 'viewed', 1000);
+            service.setLastIntroductionSection('ai-advantages');
+
+            expect(service.getIntroductionProgress()).toEqual({
+                readSections: {
+                    'ai-advantages': { sectionId: 'ai-advantages', method: 'viewed', readAt: 1000 }
+                },
+                checkResults: {},
+                lastSectionId: 'ai-advantages'
+            });
+        });
+
+        it('should be cleared with the rest of the data', () => {
+            service.markSectionRead('ai-advantages', 'viewed', 1000);
+
+            service.clearAllData();
+
+            expect(service.getIntroductionProgress()).toEqual({ readSections: {}, checkResults: {} });
+        });
+    });
+
     describe('clearAllData', () => {
         it('should clear all data from localStorage', () => {
             service.recordQuizAttempt({
@@ -404,6 +627,123 @@ describe('LocalStorageService', () => {
             expect(progress.answeredTerms).toEqual(new Set());
         });
 
+        it('should migrate 1.0.0 data to the current version without losing progress', () => {
+            const v1Data = {
+                version: '1.0.0',
+                quizHistory: [
+                    {
+                        timestamp: Date.now(),
+                        score: 3,
+                        totalQuestions: 3,
+                        questionsAnswered: ['term1', 'term2', 'term3']
+                    }
+                ],
+                answeredTerms: ['term1', 'term2', 'term3'],
+                preferences: { selectedRole: 'engineer' }
+            };
+
+            mockLocalStorage.setItem('ai-glossary-user-data', JSON.stringify(v1Data));
+
+            service = new LocalStorageService();
+
+            const storedData = JSON.parse(mockStore['ai-glossary-user-data'] || '{}');
+            expect(storedData).toEqual({
+                ...v1Data,
+                version: '1.4.0',
+                answerHistory: [],
+                introductionProgress: { readSections: {}, checkResults: {} }
+            });
+            expect(service.getProgress().bestScore).toBe(3);
+            expect(service.getPreferences()).toEqual({ selectedRole: 'engineer' });
+        });
+
+        it('should read older data written after initialization', () => {
+            const v1Data = {
+                version: '1.0.0',
+                quizHistory: [],
+                answeredTerms: ['term1'],
+                preferences: {}
+            };
+
+            mockLocalStorage.setItem('ai-glossary-user-data', JSON.stringify(v1Data));
+
+            expect(service.getProgress().answeredTerms).toEqual(new Set(['term1']));
+            expect(service.getAnswerHistory()).toEqual([]);
+        });
+
+        it('should back up the data as it was before migrating', () => {
+            const v1Raw = JSON.stringify({ version: '1.0.0', quizHistory: [], answeredTerms: ['term1'], preferences: {} });
+            mockStore['ai-glossary-user-data'] = v1Raw;
+
+            service = new LocalStorageService();
+
+            expect(mockStore['ai-glossary-user-data-backup']).toBe(v1Raw);
+            expect(JSON.parse(mockStore['ai-glossary-user-data'] || '{}').version).toBe('1.4.0');
+            expect(service.getMigrationError()).toBeNull();
+        });
+
+        describe('when a step fails', () => {
+            const v1Raw = JSON.stringify({ version: '1.0.0', quizHistory: [], answeredTerms: ['term1'], preferences: {} });
+
+            beforeEach(() => {
+                jest.spyOn(STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1]!, 'migrate').mockImplementation(() => {
+                    throw new Error('Unexpected format');
+                });
+                mockStore['ai-glossary-user-data'] = v1Raw;
+                service = new LocalStorageService();
+            });
+
+            afterEach(() => {
+                jest.restoreAllMocks();
+            });
+
+            it('should keep the data as it was', () => {
+                expect(mockStore['ai-glossary-user-data']).toBe(v1Raw);
+            });
+
+            it('should report the failure', () => {
+                expect(service.getMigrationError()).toBeInstanceOf(StorageError);
+                expect(service.getMigrationError()?.operation).toBe('migrate');
+            });
+
+            it('should keep new progress in memory without overwriting the saved data', () => {
+                service.recordQuizAttempt({
+                    timestamp: Date.now(),
+                    score: 1,
+                    totalQuestions: 3,
+                    questionsAnswered: ['term2']
+                });
+
+                expect(service.getProgress().answeredTerms).toEqual(new Set(['term2']));
+                expect(mockStore['ai-glossary-user-data']).toBe(v1Raw);
+            });
+        });
+
+        describe('when the backup cannot be written', () => {
+            const v1Raw = JSON.stringify({ version: '1.0.0', quizHistory: [], answeredTerms: ['term1'], preferences: {} });
+
+            beforeEach(() => {
+                mockStore['ai-glossary-user-data'] = v1Raw;
+                mockStore['ai-glossary-user-data-backup'] = JSON.stringify({ version: '0.9.0', answeredTerms: ['stale'] });
+                mockLocalStorage.setItem.mockImplementation((key: string, value: string) => {
+                    if (key === 'ai-glossary-user-data-backup') {
+                        throw new Error('QuotaExceededError');
+                    }
+                    mockStore[key] = value;
+                });
+                service = new LocalStorageService();
+            });
+
+            it('should keep the data as it was rather than an earlier backup', () => {
+                expect(mockStore['ai-glossary-user-data']).toBe(v1Raw);
+                expect(service.getMigrationError()).toBeInstanceOf(StorageError);
+            });
+
+            it('should remove the backup left by an earlier migration', () => {
+                expect(mockStore['ai-glossary-user-data-backup']).toBeUndefined();
+            });
+        });
+
         it('should handle migration errors gracefully', () => {
             mockLocalStorage.getItem.mockReturnValue('invalid json');
 
@@ -3,20 +3,35 @@
  * 
  * Provides centralized localStorage management with error handling,
  * data migration, and graceful fallbacks when localStorage is unavailable.
+ * Data saved by an older version is upgraded by the steps in
+ * StorageMigrations, after backing up the data as it was.
  */
 
 import {
   UserProgress,
   QuizAttempt,
+  QuestionOutcome,
   StoredUserData,
+  ReviewSchedule,
+  IntroductionProgress,
+  SectionReadMethod,
   isStoredUserData,
-  isQuizAttempt
+  isQuizAttempt,
+  isQuestionOutcome
 } from '../types';
+import { spacedRepetitionService } from './SpacedRepetitionService';
+import { StorageError } from './AppErrors';
+import {
+  CURRENT_STORAGE_VERSION,
+  MIGRATION_FAILED_MESSAGE,
+  migrateStoredData,
+  needsMigration
+} from './StorageMigrations';
 
 /**
- * Current schema version for data migration
+ * Maximum number of per-question outcomes kept in answer history
  */
-const CURRENT_VERSION = '1.0.0';
+const MAX_ANSWER_HISTORY = 500;
 
 /**
  * Default user progress when no data exists
@@ -31,9 +46,11 @@ const DEFAULT_USER_PROGRESS: UserProgress = {
  * Default stored user data structure
  */
 const DEFAULT_STORED_DATA: StoredUserData = {
-  version: CURRENT_VERSION,
+  version: CURRENT_STORAGE_VERSION,
   quizHistory: [],
   answeredTerms: [],
+  answerHistory: [],
+  introductionProgress: { readSections: {}, checkResults: {} },
   preferences: {}
 };
 
@@ -42,16 +59,28 @@ const DEFAULT_STORED_DATA: StoredUserData = {
  */
 const STORAGE_KEY = 'ai-glossary-user-data';
 
+/**
+ * LocalStorage key for the user data as it was before the last migration
+ */
+const BACKUP_KEY = 'ai-glossary-user-data-backup';
+
 /**
  * Service class for managing localStorage operations with error handling
  */
 export class LocalStorageService {
   private isAvailable: boolean;
   private fallbackData: UserProgress;
+  private fallbackSchedule: ReviewSchedule;
+  private fallbackHistory: QuestionOutcome[];
+  private fallbackIntroduction: IntroductionProgress;
+  private migrationError: StorageError | null = null;
 
   constructor() {
     this.isAvailable = this.checkLocalStorageAvailability();
     this.fallbackData = { ...DEFAULT_USER_PROGRESS };
+    this.fallbackSchedule = {};
+    this.fallbackHistory = [];
+    this.fallbackIntroduction = { readSections: {}, checkResults: {} };
     
     if (this.isAvailable) {
       this.migrateDataIfNeeded();
@@ -133,8 +162,8 @@ export class LocalStorageService {
     
     // Update answered terms
     const updatedAnsweredTerms = new Set<string>();
-    currentProgress.answeredTerms.forEach(term => updatedAnsweredTerms.add(term));
-    attempt.questionsAnswered.forEach(term => updatedAnsweredTerms.add(term));
+    currentProgress.answeredTerms.forEach(termId => updatedAnsweredTerms.add(termId));
+    attempt.questionsAnswered.forEach(termId => updatedAnsweredTerms.add(termId));
 
     this.updateProgress({
       quizAttempts: updatedAttempts,
@@ -143,6 +172,203 @@ export class LocalStorageService {
     });
   }
 
+  /**
+   * Get per-question answer history, oldest first
+   */
+  public getAnswerHistory(): QuestionOutcome[] {
+    if (!this.isAvailable) {
+      return [...this.fallbackHistory];
+    }
+
+    try {
+      const storedData = this.getStoredData();
+      return [...storedData.answerHistory];
+    } catch (error) {
+      console.error('Error reading answer history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Append per-question outcomes to the answer history
+   * @param outcomes The outcomes of the questions answered in a quiz
+   */
+  public recordAnswerOutcomes(outcomes: QuestionOutcome[]): void {
+    const validOutcomes = outcomes.filter(outcome => isQuestionOutcome(outcome));
+
+    if (validOutcomes.length < outcomes.length) {
+      console.error('Invalid answer outcome data:', outcomes);
+    }
+
+    if (validOutcomes.length === 0) {
+      return;
+    }
+
+    const updatedHistory = [...this.getAnswerHistory(), ...validOutcomes]
+      .slice(-MAX_ANSWER_HISTORY);
+
+    if (!this.isAvailable) {
+      this.fallbackHistory = updatedHistory;
+      return;
+    }
+
+    try {
+      const currentData = this.getStoredData();
+      this.setStoredData({
+        ...currentData,
+        answerHistory: updatedHistory
+      });
+    } catch (error) {
+      console.error('Error updating answer history:', error);
+      this.fallbackHistory = updatedHistory;
+    }
+  }
+
+  /**
+   * Get the spaced-repetition review schedule
+   */
+  public getReviewSchedule(): ReviewSchedule {
+    if (!this.isAvailable) {
+      return { ...this.fallbackSchedule };
+    }
+
+    try {
+      const storedData = this.getStoredData();
+      return { ...(storedData.reviewSchedule ?? {}) };
+    } catch (error) {
+      console.error('Error reading review schedule:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Record answered terms against the spaced-repetition schedule
+   * @param reviews Ids of the terms answered and whether each answer was correct
+   * @param timestamp When the reviews took place
+   */
+  public recordTermReviews(
+    reviews: Array<{ termId: string; isCorrect: boolean }>,
+    timestamp: number = Date.now()
+  ): void {
+    const schedule = this.getReviewSchedule();
+
+    reviews.forEach(({ termId, isCorrect }) => {
+      schedule[termId] = spacedRepetitionService.scheduleReview(
+        termId,
+        schedule[termId],
+        spacedRepetitionService.qualityFromAnswer(isCorrect),
+        timestamp
+      );
+    });
+
+    if (!this.isAvailable) {
+      this.fallbackSchedule = schedule;
+      return;
+    }
+
+    try {
+      const currentData = this.getStoredData();
+      this.setStoredData({
+        ...currentData,
+        reviewSchedule: schedule
+      });
+    } catch (error) {
+      console.error('Error updating review schedule:', error);
+      this.fallbackSchedule = schedule;
+    }
+  }
+
+  /**
+   * Get progress through the introduction
+   */
+  public getIntroductionProgress(): IntroductionProgress {
+    if (!this.isAvailable) {
+      return this.copyIntroductionProgress(this.fallbackIntroduction);
+    }
+
+    try {
+      const storedData = this.getStoredData();
+      return this.copyIntroductionProgress(storedData.introductionProgress);
+    } catch (error) {
+      console.error('Error reading introduction progress:', error);
+      return { readSections: {}, checkResults: {} };
+    }
+  }
+
+  /**
+   * Record an introduction section as read; a section keeps the time it was
+   * first read
+   * @param sectionId The section read
+   * @param method Whether it stayed in view long enough or was marked as read
+   * @param timestamp When the section was read
+   */
+  public markSectionRead(
+    sectionId: string,
+    method: SectionReadMethod,
+    timestamp: number = Date.now()
+  ): IntroductionProgress {
+    const progress = this.getIntroductionProgress();
+    if (!sectionId || progress.readSections[sectionId]) {
+      return progress;
+    }
+
+    progress.readSections[sectionId] = { sectionId, method, readAt: timestamp };
+    this.saveIntroductionProgress(progress);
+    return progress;
+  }
+
+  /**
+   * Count an introduction section as unread again
+   */
+  public markSectionUnread(sectionId: string): IntroductionProgress {
+    const progress = this.getIntroductionProgress();
+    if (!progress.readSections[sectionId]) {
+      return progress;
+    }
+
+    delete progress.readSections[sectionId];
+    this.saveIntroductionProgress(progress);
+    return progress;
+  }
+
+  /**
+   * Record the answer to a knowledge check in an introduction section; only
+   * the latest answer is kept
+   * @param sectionId The section the check belongs to
+   * @param questionId The check answered
+   * @param isCorrect Whether the answer was correct
+   * @param timestamp When the check was answered
+   */
+  public recordCheckResult(
+    sectionId: string,
+    questionId: string,
+    isCorrect: boolean,
+    timestamp: number = Date.now()
+  ): IntroductionProgress {
+    const progress = this.getIntroductionProgress();
+    if (!sectionId || !questionId) {
+      return progress;
+    }
+
+    progress.checkResults[questionId] = { questionId, sectionId, isCorrect, answeredAt: timestamp };
+    this.saveIntroductionProgress(progress);
+    return progress;
+  }
+
+  /**
+   * Remember the introduction section in view, to resume reading there
+   */
+  public setLastIntroductionSection(sectionId: string): IntroductionProgress {
+    const progress = this.getIntroductionProgress();
+    if (!sectionId || progress.lastSectionId === sectionId) {
+      return progress;
+    }
+
+    progress.lastSectionId = sectionId;
+    this.saveIntroductionProgress(progress);
+    return progress;
+  }
+
   /**
    * Get user preferences
    */
@@ -190,11 +416,15 @@ export class LocalStorageService {
   public clearAllData(): void {
     if (!this.isAvailable) {
       this.fallbackData = { ...DEFAULT_USER_PROGRESS };
+      this.fallbackSchedule = {};
+      this.fallbackHistory = [];
+      this.fallbackIntroduction = { readSections: {}, checkResults: {} };
       return;
     }
 
     try {
       localStorage.removeItem(STORAGE_KEY);
+      localStorage.removeItem(BACKUP_KEY);
     } catch (error) {
       console.error('Error clearing user data:', error);
     }
@@ -207,6 +437,16 @@ export class LocalStorageService {
     return this.isAvailable;
   }
 
+  /**
+   * Get the error that stopped saved data from being migrated, if any
+   *
+   * The saved data is left as it was and progress is kept for this session
+   * only, so it is not overwritten before the problem is fixed.
+   */
+  public getMigrationError(): StorageError | null {
+    return this.migrationError;
+  }
+
   /**
    * Get raw stored data with validation
    */
@@ -218,7 +458,16 @@ export class LocalStorageService {
         return { ...DEFAULT_STORED_DATA };
       }
 
-      const parsedData = JSON.parse(rawData);
+      let parsedData = JSON.parse(rawData);
+
+      // Data written by an older version is upgraded in memory before validation
+      if (parsedData && typeof parsedData === 'object' && needsMigration(parsedData)) {
+        try {
+          parsedData = migrateStoredData(parsedData);
+        } catch (error) {
+          // Left as it was; validation below decides whether it can be used
+        }
+      }
       
       if (!isStoredUserData(parsedData)) {
         console.warn('Invalid stored data format, using defaults');
@@ -246,11 +495,44 @@ export class LocalStorageService {
         this.clearOldQuizAttempts(data);
       } else {
         console.error('Error storing data:', error);
-        throw error; // Re-throw to be caught by calling methods
+        // Re-throw to be caught by calling methods
+        throw new StorageError('write', 'Your progress could not be saved because browser storage is unavailable.');
       }
     }
   }
 
+  /**
+   * Save introduction progress, keeping it for the session if it cannot be stored
+   */
+  private saveIntroductionProgress(progress: IntroductionProgress): void {
+    if (!this.isAvailable) {
+      this.fallbackIntroduction = progress;
+      return;
+    }
+
+    try {
+      const currentData = this.getStoredData();
+      this.setStoredData({
+        ...currentData,
+        introductionProgress: progress
+      });
+    } catch (error) {
+      console.error('Error updating introduction progress:', error);
+      this.fallbackIntroduction = progress;
+    }
+  }
+
+  /**
+   * Copy introduction progress so callers cannot change the saved records
+   */
+  private copyIntroductionProgress(progress: IntroductionProgress): IntroductionProgress {
+    return {
+      ...progress,
+      readSections: { ...progress.readSections },
+      checkResults: { ...progress.checkResults }
+    };
+  }
+
   /**
    * Convert stored data format to UserProgress format
    */
@@ -267,39 +549,67 @@ export class LocalStorageService {
 
   /**
    * Migrate data from older versions if needed
+   *
+   * The data is backed up first. If any step fails, the backup is restored
+   * and the service keeps progress in memory, so the saved data survives
+   * until a fixed version can migrate it.
    */
   private migrateDataIfNeeded(): void {
+    let rawData: string | null;
+    let parsedData: unknown;
     try {
-      const rawData = localStorage.getItem(STORAGE_KEY);
+      rawData = localStorage.getItem(STORAGE_KEY);
       if (!rawData) {
         return; // No data to migrate
       }
+      parsedData = JSON.parse(rawData);
+    } catch (error) {
+      console.error('Error during data migration:', error);
+      return;
+    }
 
-      const parsedData = JSON.parse(rawData);
-      
-      if (!parsedData.version || parsedData.version !== CURRENT_VERSION) {
-        const migratedData = this.migrateData(parsedData);
-        this.setStoredData(migratedData);
-      }
+    if (!parsedData || typeof parsedData !== 'object' || !needsMigration(parsedData)) {
+      return;
+    }
+
+    const fromVersion = (parsedData as { version?: unknown }).version || 'unknown';
+    try {
+      this.backUpBeforeMigration(rawData);
+      this.setStoredData(migrateStoredData(parsedData));
+      console.log(`Migrated data from version ${fromVersion} to ${CURRENT_STORAGE_VERSION}`);
     } catch (error) {
       console.error('Error during data migration:', error);
+      this.rollBackMigration(rawData);
+      this.migrationError = error instanceof StorageError && error.operation === 'migrate'
+        ? error
+        : new StorageError('migrate', MIGRATION_FAILED_MESSAGE);
+      this.isAvailable = false;
     }
   }
 
   /**
-   * Migrate data from older versions
+   * Save a copy of the data as it was before migrating. If the copy cannot be
+   * written, a backup left by an earlier migration is removed so it is not
+   * mistaken for this data.
    */
-  private migrateData(oldData: any): StoredUserData {
-    // For now, just update version and ensure all required fields exist
-    const migratedData: StoredUserData = {
-      version: CURRENT_VERSION,
-      quizHistory: oldData.quizHistory || [],
-      answeredTerms: oldData.answeredTerms || [],
-      preferences: oldData.preferences || {}
-    };
+  private backUpBeforeMigration(rawData: string): void {
+    try {
+      localStorage.setItem(BACKUP_KEY, rawData);
+    } catch (error) {
+      localStorage.removeItem(BACKUP_KEY);
+      throw error;
+    }
+  }
 
-    console.log(`Migrated data from version ${oldData.version || 'unknown'} to ${CURRENT_VERSION}`);
-    return migratedData;
+  /**
+   * Put back the data as it was before a failed migration
+   */
+  private rollBackMigration(rawData: string): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, rawData);
+    } catch (error) {
+      console.error('Error restoring data after a failed migration:', error);
+    }
   }
 
   /**
@@ -314,13 +624,15 @@ export class LocalStorageService {
 
       const cleanedData: StoredUserData = {
         ...data,
-        quizHistory: recentAttempts
+        quizHistory: recentAttempts,
+        answerHistory: data.answerHistory.slice(-MAX_ANSWER_HISTORY / 2)
       };
 
       localStorage.setItem(STORAGE_KEY, JSON.stringify(cleanedData));
       console.log('Cleared old quiz attempts to free up storage space');
     } catch (error) {
       console.error('Failed to clear old data:', error);
+      throw new StorageError('write', 'Your progress could not be saved because browser storage is full.');
     }
   }
 }
@@ -0,0 +1,132 @@
+import { markdownToPlainText, parseInline, parseMarkdown, sanitizeUrl } from './MarkdownParser';
+
+describe('MarkdownParser', () => {
+  describe('parseMarkdown', () => {
+    it('splits paragraphs on blank lines and joins wrapped lines', () => {
+      expect(parseMarkdown('First line\nsecond line.\n\nNext paragraph.')).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'First line second line.' }] },
+        { type: 'paragraph', children: [{ type: 'text', text: 'Next paragraph.' }] }
+      ]);
+    });
+
+    it('parses bulleted and numbered lists, including one right after a paragraph', () => {
+      expect(parseMarkdown('Approved tools:\n- Copilot\n* Cursor\n\n1. Ask\n2) Check')).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'Approved tools:' }] },
+        {
+          type: 'list',
+          ordered: false,
+          items: [[{ type: 'text', text: 'Copilot' }], [{ type: 'text', text: 'Cursor' }]]
+        },
+        {
+          type: 'list',
+          ordered: true,
+          items: [[{ type: 'text', text: 'Ask' }], [{ type: 'text', text: 'Check' }]]
+        }
+      ]);
+    });
+
+    it('continues a list item on an indented line', () => {
+      expect(parseMarkdown('- Use AI for research\n  and keep the reasoning\nAfter the list')).toEqual([
+        { type: 'list', ordered: false, items: [[{ type: 'text', text: 'Use AI for research and keep the reasoning' }]] },
+        { type: 'paragraph', children: [{ type: 'text', text: 'After the list' }] }
+      ]);
+    });
+
+    it('keeps fenced code exactly, with its language', () => {
+      const text = 'Call the API:\n```python\nresponse = client.embed(\n    texts=["**not bold**"]\n)\n```\nDone.';
+
+      expect(parseMarkdown(text)).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'Call the API:' }] },
+        { type: 'code', language: 'python', text: 'response = client.embed(\n    texts=["**not bold**"]\n)' },
+        { type: 'paragraph', children: [{ type: 'text', text: 'Done.' }] }
+      ]);
+    });
+
+    it('runs an unclosed code block to the end of the text', () => {
+      expect(parseMarkdown('```\nnpm test')).toEqual([{ type: 'code', text: 'npm test' }]);
+    });
+
+    it('returns no blocks for empty text', () => {
+      expect(parseMarkdown('  \n\n ')).toEqual([]);
+    });
+  });
+
+  describe('parseInline', () => {
+    it('parses bold, emphasis and code', () => {
+      expect(parseInline('**Skill** *substitution* uses `embed()`')).toEqual([
+        { type: 'strong', children: [{ type: 'text', text: 'Skill' }] },
+        { type: 'text', text: ' ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'substitution' }] },
+        { type: 'text', text: ' uses ' },
+        { type: 'code', text: 'embed()' }
+      ]);
+    });
+
+    it('leaves lone asterisks as text', () => {
+      expect(parseInline('2 * 3 * 4')).toEqual([{ type: 'text', text: '2 * 3 * 4' }]);
+    });
+
+    it('keeps safe links and turns bare web addresses into links', () => {
+      expect(parseInline('See [the docs](https://example.com/docs) or https://example.com/help.')).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'link', href: 'https://example.com/docs', children: [{ type: 'text', text: 'the docs' }] },
+        { type: 'text', text: ' or ' },
+        { type: 'link', href: 'https://example.com/help', children: [{ type: 'text', text: 'https://example.com/help' }] },
+        { type: 'text', text: '.' }
+      ]);
+    });
+
+    it('links portal routes', () => {
+      expect(parseInline('[RAG](#/glossary/term/rag)')).toEqual([
+        { type: 'link', href: '#/glossary/term/rag', children: [{ type: 'text', text: 'RAG' }] }
+      ]);
+    });
+
+    it('reduces unsafe links to their text', () => {
+      expect(parseInline('Click [here](javascript:alert) or [there](data:text/html;base64,PHNjcmlwdD4=) now')).toEqual([
+        { type: 'text', text: 'Click here or there now' }
+      ]);
+    });
+
+    it('keeps raw HTML as text', () => {
+      expect(parseInline('<img src=x onerror="alert(1)"> **bold**')).toEqual([
+        { type: 'text', text: '<img src=x onerror="alert(1)"> ' },
+        { type: 'strong', children: [{ type: 'text', text: 'bold' }] }
+      ]);
+    });
+
+    it('does not nest links inside link text', () => {
+      expect(parseInline('[see https://example.com](https://example.org)')).toEqual([
+        { type: 'link', href: 'https://example.org/', children: [{ type: 'text', text: 'see https://example.com' }] }
+      ]);
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('allows web, email and portal addresses', () => {
+      expect(sanitizeUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+      expect(sanitizeUrl('http://example.com/')).toBe('http://example.com/');
+      expect(sanitizeUrl('mailto:ai-team@example.com')).toBe('mailto:ai-team@example.com');
+      expect(sanitizeUrl('#/ai-tools/cursor')).toBe('#/ai-tools/cursor');
+    });
+
+    it('rejects script, data and relative addresses, however they are written', () => {
+      expect(sanitizeUrl(' javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('\nJavaScript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,hi')).toBeNull();
+      expect(sanitizeUrl('/glossary')).toBeNull();
+      expect(sanitizeUrl('')).toBeNull();
+    });
+  });
+
+  describe('markdownToPlainText', () => {
+    it('gives the text of each block without markup', () => {
+      expect(markdownToPlainText('**Bold** and [a link](https://example.com)\n\n- One\n- *Two*\n\n```\ncode()\n```')).toEqual([
+        'Bold and a link',
+        'One Two',
+        'code()'
+      ]);
+    });
+  });
+});
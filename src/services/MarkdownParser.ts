@@ -0,0 +1,216 @@
+/**
+ * MarkdownParser - the Markdown subset allowed in content fields
+ *
+ * Definitions, role context, tool notes, experience quotes and introduction
+ * sections may use paragraphs, bulleted and numbered lists, fenced code
+ * blocks, **bold**, *emphasis*, `code` and links. There is no raw HTML: tags
+ * stay text, which React escapes when rendering. Links are kept only when
+ * they lead to a web page, an email address or a portal route; any other
+ * link is reduced to its text.
+ */
+
+import { MarkdownBlock, MarkdownInline } from '../types';
+
+/**
+ * Protocols a link may use besides portal routes (#/...)
+ */
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const FENCE_PATTERN = /^\s*```\s*([\w+-]*)\s*$/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Inline markup, earliest match first: `code`, **bold**, *emphasis*,
+ * [label](address) and bare web addresses (without trailing punctuation)
+ */
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\(([^()\s]*)\)|(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])/g;
+
+/**
+ * List being collected while parsing
+ */
+interface OpenList {
+  ordered: boolean;
+  items: string[];
+}
+
+/**
+ * Split content into paragraphs, lists and code blocks
+ *
+ * Blank lines end paragraphs and lists. A list may follow a paragraph line
+ * directly, and an indented line continues the list item above it.
+ * @param text Content as written in the data file
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let list: OpenList | null = null;
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+  const closeList = () => {
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(item => parseInline(item)) });
+      list = null;
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      closeParagraph();
+      closeList();
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index] ?? '')) {
+        codeLines.push((lines[index] ?? '').replace(/\s+$/, ''));
+        index++;
+      }
+      const language = fence[1];
+      blocks.push({ type: 'code', ...(language && { language }), text: codeLines.join('\n') });
+      continue;
+    }
+
+    if (line.trim().length === 0) {
+      closeParagraph();
+      closeList();
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = bullet ? null : NUMBERED_PATTERN.exec(line);
+    const item = bullet ?? numbered;
+    if (item) {
+      closeParagraph();
+      const ordered = numbered !== null;
+      if (list && list.ordered !== ordered) {
+        closeList();
+      }
+      list = list ?? { ordered, items: [] };
+      list.items.push((item[1] ?? '').trim());
+      continue;
+    }
+
+    if (list && /^\s/.test(line)) {
+      const last = list.items.length - 1;
+      list.items[last] = `${list.items[last]} ${line.trim()}`;
+      continue;
+    }
+
+    closeList();
+    paragraph.push(line.trim());
+  }
+
+  closeParagraph();
+  closeList();
+  return blocks;
+}
+
+/**
+ * Split a line of text into plain, emphasized, code and link runs
+ * @param text Text without block structure, such as a quote
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  return parseRuns(text, true);
+}
+
+/**
+ * Check a link address from content
+ * @returns The address to link to, or null if it must not become a link
+ */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('#/')) {
+    return trimmed;
+  }
+
+  try {
+    // Browsers ignore tabs and line breaks in addresses, so check the address
+    // the way the browser will read it and link to that form
+    const parsed = new URL(trimmed);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plain text of each block, for searching and previews
+ */
+export function markdownToPlainText(text: string): string[] {
+  return parseMarkdown(text).map(block => {
+    if (block.type === 'paragraph') {
+      return inlineText(block.children);
+    }
+    if (block.type === 'list') {
+      return block.items.map(inlineText).join(' ');
+    }
+    return block.text;
+  });
+}
+
+function parseRuns(text: string, allowLinks: boolean): MarkdownInline[] {
+  const runs: MarkdownInline[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [source, code, strong, emphasis, label, href, url] = match;
+    pushText(runs, text.slice(position, match.index));
+    position = match.index + source.length;
+
+    if (code !== undefined) {
+      runs.push({ type: 'code', text: code });
+    } else if (strong !== undefined) {
+      runs.push({ type: 'strong', children: parseRuns(strong, allowLinks) });
+    } else if (emphasis !== undefined) {
+      runs.push({ type: 'emphasis', children: parseRuns(emphasis, allowLinks) });
+    } else if (label !== undefined) {
+      // Links cannot contain links, so the label is parsed without them
+      const children = parseRuns(label, false);
+      const safeHref = allowLinks ? sanitizeUrl(href ?? '') : null;
+      if (safeHref) {
+        runs.push({ type: 'link', href: safeHref, children });
+      } else {
+        children.forEach(child => (child.type === 'text' ? pushText(runs, child.text) : runs.push(child)));
+      }
+    } else if (url !== undefined) {
+      if (allowLinks) {
+        runs.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+      } else {
+        pushText(runs, url);
+      }
+    }
+  }
+
+  pushText(runs, text.slice(position));
+  return runs;
+}
+
+/**
+ * Add text, joining it to a text run just before it
+ */
+function pushText(runs: MarkdownInline[], text: string): void {
+  if (!text) {
+    return;
+  }
+  const last = runs[runs.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    runs.push({ type: 'text', text });
+  }
+}
+
+function inlineText(runs: MarkdownInline[]): string {
+  return runs.map(run => ('children' in run ? inlineText(run.children) : run.text)).join('');
+}
@@ -0,0 +1,210 @@
+import { QuestionGeneratorService } from './QuestionGeneratorService';
+import { GlossaryTerm, isQuizQuestion } from '../types';
+
+describe('QuestionGeneratorService', () => {
+  let service: QuestionGeneratorService;
+
+  const term: GlossaryTerm = {
+    id: 'drift',
+    term: 'Drift',
+    definition: 'Change in data or model behavior over time.',
+    externalLink: 'https://example.com/drift',
+    roleContext: {
+      'business': 'Understand model maintenance needs',
+      'pm-designer': 'Ensure model reliability',
+      'engineer': 'Set up monitoring',
+      'data-scientist': 'Trigger retraining pipelines'
+    }
+  };
+
+  beforeEach(() => {
+    service = new QuestionGeneratorService();
+  });
+
+  describe('generateDefinitionQuestions', () => {
+    const makeTerm = (id: string, name: string, definition: string): GlossaryTerm => ({
+      ...term,
+      id,
+      term: name,
+      definition
+    });
+
+    const terms: GlossaryTerm[] = [
+      makeTerm('model', 'Model', 'A trained system that makes predictions from input data.'),
+      makeTerm('latency', 'Latency', 'Time delay between a request and a response.'),
+      makeTerm('training', 'Training', 'Teaching a model to make predictions by learning from examples.'),
+      makeTerm('token', 'Token', 'A unit of text processed by a language model.'),
+      makeTerm('inference', 'Inference', 'Using a trained model to make predictions on new input.')
+    ];
+
+    it('should generate a definition-to-term and a term-to-definition question per term', () => {
+      const questions = service.generateDefinitionQuestions(terms);
+
+      expect(questions).toHaveLength(10);
+      expect(questions.filter(q => q.term === 'Model').map(q => q.id)).toEqual([
+        'model-generated-term',
+        'model-generated-definition'
+      ]);
+    });
+
+    it('should ask for the term given its definition', () => {
+      const question = service.generateDefinitionQuestions(terms)
+        .find(q => q.id === 'model-generated-term');
+
+      expect(question?.question).toContain('A trained system that makes predictions from input data.');
+      expect(question?.correctAnswer).toBe('Model');
+      expect(question?.options).toHaveLength(4);
+      expect(question?.options).toContain('Model');
+      expect(question?.termId).toBe('model');
+    });
+
+    it('should ask for the definition given the term', () => {
+      const question = service.generateDefinitionQuestions(terms)
+        .find(q => q.id === 'model-generated-definition');
+
+      expect(question?.question).toBe('What is the definition of Model?');
+      expect(question?.correctAnswer).toBe('A trained system that makes predictions from input data.');
+      expect(question?.options).toContain(question?.correctAnswer);
+    });
+
+    it('should explain the answer and say which term each distractor belongs to', () => {
+      const questions = service.generateDefinitionQuestions(terms);
+      const termQuestion = questions.find(q => q.id === 'model-generated-term');
+      const definitionQuestion = questions.find(q => q.id === 'model-generated-definition');
+
+      expect(termQuestion?.explanation).toBe('Model: A trained system that makes predictions from input data.');
+      expect(termQuestion?.rationale?.['Training']).toBe(
+        'Training is a different concept: Teaching a model to make predictions by learning from examples.'
+      );
+      expect(definitionQuestion?.rationale?.['Teaching a model to make predictions by learning from examples.']).toBe(
+        'That is the definition of Training.'
+      );
+    });
+
+    it('should prefer distractors with similar definitions', () => {
+      const question = service.generateDefinitionQuestions(terms)
+        .find(q => q.id === 'model-generated-term');
+
+      // Training and Inference share "model" and "predictions"; Latency shares no words
+      expect(question?.options).toEqual(expect.arrayContaining(['Training', 'Inference']));
+      expect(question?.options).not.toContain('Latency');
+    });
+
+    it('should keep the same option order between runs', () => {
+      expect(service.generateDefinitionQuestions(terms)).toEqual(service.generateDefinitionQuestions(terms));
+    });
+
+    it('should never offer duplicate options', () => {
+      const duplicate = makeTerm('model-copy', 'Model', 'A trained system that makes predictions from input data.');
+      const questions = service.generateDefinitionQuestions([...terms, duplicate]);
+
+      questions.forEach(question => {
+        expect(new Set(question.options).size).toBe(question.options.length);
+      });
+    });
+
+    it('should generate valid quiz questions', () => {
+      expect(service.generateDefinitionQuestions(terms).every(isQuizQuestion)).toBe(true);
+    });
+
+    it('should show Markdown definitions as plain text', () => {
+      const markdownTerms = [
+        makeTerm('model', 'Model', 'A **trained** system, see [models](https://example.com/models).'),
+        ...terms.slice(1)
+      ];
+      const questions = service.generateDefinitionQuestions(markdownTerms);
+      const termQuestion = questions.find(q => q.id === 'model-generated-term');
+      const definitionQuestion = questions.find(q => q.id === 'model-generated-definition');
+
+      expect(termQuestion?.question).toBe('Which term matches this definition: "A trained system, see models."');
+      expect(definitionQuestion?.correctAnswer).toBe('A trained system, see models.');
+      expect(definitionQuestion?.explanation).toBe('Model: A trained system, see models.');
+      questions.forEach(question => {
+        expect(JSON.stringify(question)).not.toMatch(/\*\*|\]\(/);
+      });
+    });
+
+    it('should skip generation when there are no other terms to use as distractors', () => {
+      expect(service.generateDefinitionQuestions([terms[0]!])).toEqual([]);
+    });
+  });
+
+  describe('generateRoleQuestions', () => {
+    it('should generate one question per role for each term', () => {
+      const questions = service.generateRoleQuestions([term]);
+
+      expect(questions).toHaveLength(4);
+      expect(questions.map(q => q.roles)).toEqual([
+        ['business'],
+        ['pm-designer'],
+        ['engineer'],
+        ['data-scientist']
+      ]);
+    });
+
+    it('should use the role context as the answer and other roles as distractors', () => {
+      const engineerQuestion = service.generateRoleQuestions([term])
+        .find(q => q.id === 'drift-role-engineer');
+
+      expect(engineerQuestion).toEqual({
+        id: 'drift-role-engineer',
+        term: 'Drift',
+        question: 'Which takeaway about Drift is aimed at the Engineer role?',
+        options: expect.arrayContaining([
+          'Understand model maintenance needs',
+          'Ensure model reliability',
+          'Set up monitoring',
+          'Trigger retraining pipelines'
+        ]),
+        correctAnswer: 'Set up monitoring',
+        termId: 'drift',
+        roles: ['engineer'],
+        rationale: {
+          'Understand model maintenance needs': 'That takeaway is aimed at the Business & Operations role.',
+          'Ensure model reliability': 'That takeaway is aimed at the Product Manager & Designer role.',
+          'Trigger retraining pipelines': 'That takeaway is aimed at the Data Scientist role.'
+        }
+      });
+    });
+
+    it('should not keep a role\'s answer in the same position for every term', () => {
+      const manyTerms = ['drift', 'bias', 'latency', 'tokens', 'embedding', 'prompt']
+        .map(id => ({ ...term, id, term: id }));
+      const answerPositions = service.generateRoleQuestions(manyTerms)
+        .filter(q => q.roles?.includes('business'))
+        .map(q => q.options.indexOf(q.correctAnswer));
+
+      expect(answerPositions).toHaveLength(manyTerms.length);
+      expect(new Set(answerPositions).size).toBeGreaterThan(1);
+    });
+
+    it('should generate valid quiz questions', () => {
+      const questions = service.generateRoleQuestions([term]);
+
+      expect(questions.every(isQuizQuestion)).toBe(true);
+    });
+
+    it('should show Markdown role context as plain text', () => {
+      const markdownTerm: GlossaryTerm = {
+        ...term,
+        roleContext: { ...term.roleContext, engineer: '- Set up **monitoring** with `alerts`' }
+      };
+      const questions = service.generateRoleQuestions([markdownTerm]);
+
+      expect(questions.find(q => q.id === 'drift-role-engineer')?.correctAnswer)
+        .toBe('Set up monitoring with alerts');
+      expect(questions.find(q => q.id === 'drift-role-business')?.rationale)
+        .toHaveProperty(['Set up monitoring with alerts'], 'That takeaway is aimed at the Engineer role.');
+    });
+
+    it('should skip terms whose role context is ambiguous', () => {
+      const ambiguous: GlossaryTerm = {
+        ...term,
+        id: 'ambiguous',
+        roleContext: { ...term.roleContext, 'engineer': 'Ensure model reliability' }
+      };
+
+      expect(service.generateRoleQuestions([ambiguous])).toEqual([]);
+    });
+  });
+});
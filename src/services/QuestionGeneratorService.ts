@@ -0,0 +1,197 @@
+import { GlossaryTerm, SingleChoiceQuestion, UserRole, ROLE_LABELS } from '../types';
+import { markdownToPlainText } from './MarkdownParser';
+
+const ROLES: UserRole[] = ['business', 'pm-designer', 'engineer', 'data-scientist'];
+
+/**
+ * Number of distractors offered alongside the correct answer
+ */
+const DISTRACTOR_COUNT = 3;
+
+/**
+ * Common words ignored when comparing definitions for similarity
+ */
+const STOP_WORDS = new Set([
+  'that', 'with', 'from', 'into', 'used', 'uses', 'using', 'this', 'them',
+  'they', 'their', 'when', 'over', 'than', 'such', 'data'
+]);
+
+export class QuestionGeneratorService {
+  /**
+   * Build definition-to-term and term-to-definition questions for every term,
+   * using the most similar other terms as distractors. Each distractor's
+   * rationale names the term it actually belongs to. Definitions are Markdown
+   * and are shown as plain text.
+   * @param terms Glossary terms to generate questions from
+   * @returns Array of generated questions
+   */
+  generateDefinitionQuestions(terms: GlossaryTerm[]): SingleChoiceQuestion[] {
+    const questions: SingleChoiceQuestion[] = [];
+
+    terms.forEach(term => {
+      const distractors = this.pickDistractors(term, terms);
+
+      if (distractors.length === 0) {
+        return;
+      }
+
+      const definition = toPlainText(term.definition);
+
+      questions.push({
+        id: `${term.id}-generated-term`,
+        termId: term.id,
+        term: term.term,
+        question: `Which term matches this definition: "${definition}"`,
+        options: shuffleWithSeed(
+          [term.term, ...distractors.map(d => d.term)],
+          `${term.id}-term`
+        ),
+        correctAnswer: term.term,
+        explanation: `${term.term}: ${definition}`,
+        rationale: Object.fromEntries(distractors.map(d => [
+          d.term,
+          `${d.term} is a different concept: ${toPlainText(d.definition)}`
+        ]))
+      });
+
+      questions.push({
+        id: `${term.id}-generated-definition`,
+        termId: term.id,
+        term: term.term,
+        question: `What is the definition of ${term.term}?`,
+        options: shuffleWithSeed(
+          [definition, ...distractors.map(d => toPlainText(d.definition))],
+          `${term.id}-definition`
+        ),
+        correctAnswer: definition,
+        explanation: `${term.term}: ${definition}`,
+        rationale: Object.fromEntries(distractors.map(d => [
+          toPlainText(d.definition),
+          `That is the definition of ${d.term}.`
+        ]))
+      });
+    });
+
+    return questions;
+  }
+
+  /**
+   * Build role-targeted questions from each term's role context. Every item
+   * asks which takeaway belongs to a specific role, using the other roles'
+   * context for the same term as distractors, and is tagged with that role.
+   * Role context is Markdown and is shown as plain text.
+   * Each question shuffles its own options so the answer's position does not
+   * give the role away.
+   * @param terms Glossary terms to generate questions from
+   * @returns Array of generated questions
+   */
+  generateRoleQuestions(terms: GlossaryTerm[]): SingleChoiceQuestion[] {
+    const questions: SingleChoiceQuestion[] = [];
+
+    terms.forEach(term => {
+      const contextFor = (role: UserRole) => toPlainText(term.roleContext[role]);
+      const options = ROLES.map(contextFor);
+
+      // Identical takeaways for two roles would make the question ambiguous
+      if (new Set(options).size !== options.length) {
+        return;
+      }
+
+      ROLES.forEach(role => {
+        questions.push({
+          id: `${term.id}-role-${role}`,
+          termId: term.id,
+          term: term.term,
+          question: `Which takeaway about ${term.term} is aimed at the ${ROLE_LABELS[role]} role?`,
+          options: shuffleWithSeed(options, `${term.id}-role-${role}`),
+          correctAnswer: contextFor(role),
+          roles: [role],
+          rationale: Object.fromEntries(ROLES
+            .filter(other => other !== role)
+            .map(other => [
+              contextFor(other),
+              `That takeaway is aimed at the ${ROLE_LABELS[other]} role.`
+            ]))
+        });
+      });
+    });
+
+    return questions;
+  }
+
+  /**
+   * Pick the other terms whose definitions share the most words with the
+   * target term, so distractors are plausible rather than obviously wrong.
+   * Terms with a duplicate name or definition are never offered.
+   * @param target The term the question is about
+   * @param terms All candidate terms
+   * @returns Up to DISTRACTOR_COUNT distractor terms
+   */
+  private pickDistractors(target: GlossaryTerm, terms: GlossaryTerm[]): GlossaryTerm[] {
+    const targetWords = getSignificantWords(`${target.term} ${toPlainText(target.definition)}`);
+    const seenTerms = new Set([target.term]);
+    const seenDefinitions = new Set([toPlainText(target.definition)]);
+
+    return terms
+      .filter(term => term.id !== target.id)
+      .map((term, index) => ({
+        term,
+        index,
+        score: getSignificantWords(`${term.term} ${toPlainText(term.definition)}`)
+          .filter(word => targetWords.includes(word)).length
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ term }) => term)
+      .filter(term => {
+        const definition = toPlainText(term.definition);
+        if (seenTerms.has(term.term) || seenDefinitions.has(definition)) {
+          return false;
+        }
+        seenTerms.add(term.term);
+        seenDefinitions.add(definition);
+        return true;
+      })
+      .slice(0, DISTRACTOR_COUNT);
+  }
+}
+
+/**
+ * Extract the distinct, lower-cased words of a text that are long enough to
+ * carry meaning
+ */
+function getSignificantWords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+  return Array.from(new Set(words.filter(word => word.length > 3 && !STOP_WORDS.has(word))));
+}
+
+/**
+ * Plain text of a Markdown field, for quiz stems, options and explanations
+ */
+function toPlainText(markdown: string): string {
+  return markdownToPlainText(markdown).join(' ');
+}
+
+/**
+ * Shuffle items in an order that depends only on the seed, so generated
+ * questions keep the same option order between page loads
+ */
+function shuffleWithSeed<T>(items: T[], seed: string): T[] {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (state * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    const j = Math.floor((state / 0x100000000) * (i + 1));
+    const current = shuffled[i] as T;
+    shuffled[i] = shuffled[j] as T;
+    shuffled[j] = current;
+  }
+
+  return shuffled;
+}
+
+// Export a singleton instance
+export const questionGeneratorService = new QuestionGeneratorService();
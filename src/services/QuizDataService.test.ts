@@ -1,5 +1,7 @@
 import { QuizDataService } from './QuizDataService';
-import { QuizQuestion } from '../types';
+import { GlossaryTerm, QuestionOutcome, QuizQuestion, ReviewSchedule, SingleChoiceQuestion } from '../types';
+import { glossaryDataService } from './GlossaryDataService';
+import { validationReportService } from './ValidationReportService';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -13,7 +15,7 @@ describe('QuizDataService', () => {
       question: 'What is AI?',
       options: ['Option A', 'Option B', 'Option C'],
       correctAnswer: 'Option A',
-      glossaryLink: '#ai'
+      termId: 'ai'
     },
     {
       id: 'test-2',
@@ -21,7 +23,7 @@ describe('QuizDataService', () => {
       question: 'What is ML?',
       options: ['Option X', 'Option Y', 'Option Z'],
       correctAnswer: 'Option Y',
-      glossaryLink: '#ml'
+      termId: 'ml'
     },
     {
       id: 'test-3',
@@ -29,13 +31,21 @@ describe('QuizDataService', () => {
       question: 'What is DL?',
       options: ['Option 1', 'Option 2', 'Option 3'],
       correctAnswer: 'Option 3',
-      glossaryLink: '#dl'
+      termId: 'dl'
     }
   ];
 
+  // Questions take their term names from the glossary
+  const questionTerms = [
+    { id: 'ai', term: 'AI' },
+    { id: 'ml', term: 'ML' },
+    { id: 'dl', term: 'DL' }
+  ] as GlossaryTerm[];
+
   beforeEach(() => {
     service = new QuizDataService();
     jest.clearAllMocks();
+    jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(questionTerms);
   });
 
   describe('loadQuestions', () => {
@@ -52,6 +62,27 @@ describe('QuizDataService', () => {
       expect(result).toEqual(mockQuestions);
     });
 
+    it('should load every supported question type and skip invalid ones', async () => {
+      const typedQuestions = [
+        { id: 'tf', type: 'true-false', term: 'AI', question: 'AI is ML?', correctAnswer: false, termId: 'ai' },
+        { id: 'order', type: 'ordering', term: 'ML', question: 'Order', items: ['b', 'a'], correctOrder: ['a', 'b'], termId: 'ml' },
+        { id: 'bad-order', type: 'ordering', term: 'ML', question: 'Order', items: ['b', 'a'], correctOrder: ['a'], termId: 'ml' },
+        { id: 'unknown', type: 'essay', term: 'DL', question: 'Discuss', termId: 'dl' }
+      ];
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: [...mockQuestions, ...typedQuestions] })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+
+      const result = await service.loadQuestions();
+
+      expect(result.map(q => q.id)).toEqual(['test-1', 'test-2', 'test-3', 'tf', 'order']);
+      expect(consoleSpy).toHaveBeenCalledWith('2 invalid questions were skipped');
+      consoleSpy.mockRestore();
+    });
+
     it('should return cached questions on subsequent calls', async () => {
       const mockResponse = {
         ok: true,
@@ -91,7 +122,7 @@ describe('QuizDataService', () => {
       const invalidQuestions = [
         ...mockQuestions,
         { id: 'invalid', term: 'Invalid' }, // Missing required fields
-        { id: 'invalid-2', term: 'Invalid2', question: 'Test?', options: [], correctAnswer: 'Wrong', glossaryLink: '#test' } // Empty options
+        { id: 'invalid-2', term: 'Invalid2', question: 'Test?', options: [], correctAnswer: 'Wrong', termId: 'test' } // Empty options
       ];
       
       const mockResponse = {
@@ -105,6 +136,26 @@ describe('QuizDataService', () => {
       expect(result).toEqual(mockQuestions);
     });
 
+    it('should take term names from the glossary and skip questions about unknown terms', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const questions = [
+        { ...mockQuestions[0], term: 'Outdated name' },
+        { ...mockQuestions[1], termId: 'missing' }
+      ];
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions })
+      });
+
+      const result = await service.loadQuestions();
+
+      expect(result).toEqual([{ ...mockQuestions[0], term: 'AI' }]);
+      expect(validationReportService.getReports()).toContainEqual({
+        file: 'questions.json',
+        skipped: [{ index: 1, id: 'test-2', issues: [{ path: 'questions[1].termId', message: 'no glossary term has id "missing"' }] }]
+      });
+    });
+
     it('should throw error when no valid questions found', async () => {
       const invalidQuestions = [
         { id: 'invalid', term: 'Invalid' },
@@ -134,11 +185,11 @@ describe('QuizDataService', () => {
     it('should select requested number of questions', () => {
       const result = service.selectRandomQuestions(2);
       expect(result).toHaveLength(2);
-      expect(result.every(q => mockQuestions.includes(q))).toBe(true);
+      expect(mockQuestions).toEqual(expect.arrayContaining(result));
     });
 
     it('should exclude specified terms', () => {
-      const excludeTerms = new Set(['AI', 'ML']);
+      const excludeTerms = new Set(['ai', 'ml']);
       const result = service.selectRandomQuestions(2, excludeTerms);
       
       expect(result).toHaveLength(1); // Only DL should be available
@@ -146,7 +197,7 @@ describe('QuizDataService', () => {
     });
 
     it('should return all questions when exclude set is larger than available', () => {
-      const excludeTerms = new Set(['AI', 'ML', 'DL']);
+      const excludeTerms = new Set(['ai', 'ml', 'dl']);
       const result = service.selectRandomQuestions(2, excludeTerms);
       
       expect(result).toHaveLength(2); // Should reset and use all questions
@@ -161,6 +212,476 @@ describe('QuizDataService', () => {
       const newService = new QuizDataService();
       expect(() => newService.selectRandomQuestions(1)).toThrow('Questions not loaded. Call loadQuestions() first.');
     });
+
+    it('should limit selection to questions for the given role', () => {
+      service.addQuestions([
+        { ...mockQuestions[0]!, id: 'test-4', roles: ['engineer'] },
+        { ...mockQuestions[1]!, id: 'test-5', roles: ['business'] }
+      ]);
+
+      const result = service.selectRandomQuestions(10, new Set(), 'engineer');
+
+      expect(result.map(q => q.id).sort()).toEqual(['test-1', 'test-2', 'test-3', 'test-4']);
+    });
+  });
+
+  describe('role-targeted questions', () => {
+    const roleQuestions: QuizQuestion[] = [
+      { ...mockQuestions[0]!, id: 'test-eng', roles: ['engineer'] },
+      { ...mockQuestions[1]!, id: 'test-ds', roles: ['data-scientist', 'engineer'] },
+      { ...mockQuestions[2]!, id: 'test-biz', roles: ['business'] }
+    ];
+
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: [...mockQuestions, ...roleQuestions] })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    it('should return tagged and untagged questions for a role', () => {
+      const ids = service.getQuestionsByRole('engineer').map(q => q.id);
+
+      expect(ids).toEqual(['test-1', 'test-2', 'test-3', 'test-eng', 'test-ds']);
+    });
+
+    it('should return every question when no role is given', () => {
+      expect(service.getQuestionsByRole()).toHaveLength(6);
+    });
+
+    it('should limit scheduled selection to the role', () => {
+      const result = service.selectScheduledQuestions(10, {}, Date.now(), 'business');
+
+      expect(result.map(q => q.id).sort()).toEqual(['test-1', 'test-2', 'test-3', 'test-biz']);
+    });
+
+    it('should limit weakest-term selection to the role', () => {
+      const history: QuestionOutcome[] = [{
+        questionId: 'test-biz',
+        termId: 'dl',
+        selectedAnswer: 'Option 1',
+        isCorrect: false,
+        timeTakenMs: 1000,
+        timestamp: 1
+      }];
+
+      const result = service.selectWeakestQuestions(3, history, 'data-scientist');
+
+      expect(result).toEqual([mockQuestions[2]]);
+    });
+  });
+
+  describe('addQuestions', () => {
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    it('should add new questions to the pool', () => {
+      const extra: QuizQuestion = { ...mockQuestions[0]!, id: 'test-4' };
+
+      expect(service.addQuestions([extra])).toEqual([extra]);
+      expect(service.getAllQuestions()).toHaveLength(4);
+    });
+
+    it('should skip duplicate and invalid questions', () => {
+      const duplicate = { ...mockQuestions[0]! };
+      const invalid: SingleChoiceQuestion = {
+        id: 'test-5',
+        term: 'ML',
+        question: 'What is ML?',
+        options: ['Option X', 'Option Y'],
+        correctAnswer: 'Not an option',
+        termId: 'ml'
+      };
+
+      expect(service.addQuestions([duplicate, invalid])).toEqual([]);
+      expect(service.getAllQuestions()).toHaveLength(3);
+    });
+
+    it('should throw error when questions not loaded', () => {
+      const newService = new QuizDataService();
+      expect(() => newService.addQuestions([])).toThrow('Questions not loaded. Call loadQuestions() first.');
+    });
+  });
+
+  describe('loadGeneratedQuestions', () => {
+    const glossaryTerms: GlossaryTerm[] = ['AI', 'ML', 'DL'].map(name => ({
+      id: name.toLowerCase(),
+      term: name,
+      definition: `Definition of ${name}`,
+      externalLink: `https://example.com/${name.toLowerCase()}`,
+      roleContext: {
+        'business': 'Business context',
+        'pm-designer': 'Product context',
+        'engineer': 'Engineering context',
+        'data-scientist': 'Data science context'
+      }
+    }));
+
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should mix generated questions into the curated pool', async () => {
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(glossaryTerms);
+
+      const added = await service.loadGeneratedQuestions();
+
+      expect(added).toHaveLength(6);
+      expect(service.getAllQuestions()).toHaveLength(9);
+      expect(service.getQuestionsByTerm('ai').map(q => q.id)).toEqual([
+        'test-1',
+        'ai-generated-term',
+        'ai-generated-definition'
+      ]);
+    });
+
+    it('should only generate questions once', async () => {
+      const loadGlossary = jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(glossaryTerms);
+      // Loading the questions already read the glossary
+      loadGlossary.mockClear();
+
+      await service.loadGeneratedQuestions();
+      await service.loadGeneratedQuestions();
+
+      expect(loadGlossary).toHaveBeenCalledTimes(1);
+      expect(service.getAllQuestions()).toHaveLength(9);
+    });
+
+    it('should rebuild the pool from a refreshed questions file', async () => {
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(glossaryTerms);
+      await service.loadGeneratedQuestions();
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions.slice(0, 2) })
+      });
+
+      await service.refreshQuestions();
+      expect(service.getAllQuestions()).toHaveLength(2);
+
+      await service.loadGeneratedQuestions();
+      expect(service.getAllQuestions()).toHaveLength(8);
+    });
+
+    it('should keep the curated pool when the glossary fails to load', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockRejectedValue(new Error('Network error'));
+
+      expect(await service.loadGeneratedQuestions()).toEqual([]);
+      expect(service.getAllQuestions()).toEqual(mockQuestions);
+      expect(consoleSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('loadRoleQuestions', () => {
+    const glossaryTerms: GlossaryTerm[] = [
+      {
+        id: 'ai',
+        term: 'AI',
+        definition: 'Artificial intelligence',
+        externalLink: 'https://example.com/ai',
+        roleContext: {
+          'business': 'Automation potential',
+          'pm-designer': 'Scope features',
+          'engineer': 'Integrate APIs',
+          'data-scientist': 'Concept context'
+        }
+      }
+    ];
+
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should add one generated question per role for each term', async () => {
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(glossaryTerms);
+
+      const added = await service.loadRoleQuestions();
+
+      expect(added).toHaveLength(4);
+      expect(service.getQuestionsByRole('engineer').map(q => q.id)).toContain('ai-role-engineer');
+      expect(service.getQuestionsByRole('engineer').map(q => q.id)).not.toContain('ai-role-business');
+    });
+
+    it('should only generate questions once', async () => {
+      const loadGlossary = jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(glossaryTerms);
+      // Loading the questions already read the glossary
+      loadGlossary.mockClear();
+
+      await service.loadRoleQuestions();
+      await service.loadRoleQuestions();
+
+      expect(loadGlossary).toHaveBeenCalledTimes(1);
+      expect(service.getAllQuestions()).toHaveLength(7);
+    });
+
+    it('should leave the pool unchanged when the glossary fails to load', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockRejectedValue(new Error('Network error'));
+
+      expect(await service.loadRoleQuestions()).toEqual([]);
+      expect(service.getAllQuestions()).toHaveLength(3);
+      expect(consoleSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('selectScheduledQuestions', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    it('should put due and overdue terms first', () => {
+      const schedule: ReviewSchedule = {
+        ai: { termId: 'ai', easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now + 5 * DAY_MS, lastReviewed: now - DAY_MS },
+        ml: { termId: 'ml', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now - DAY_MS, lastReviewed: now - 2 * DAY_MS },
+        dl: { termId: 'dl', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now - 3 * DAY_MS, lastReviewed: now - 4 * DAY_MS }
+      };
+
+      const result = service.selectScheduledQuestions(2, schedule, now);
+
+      expect(result.map(q => q.term)).toEqual(['DL', 'ML']);
+    });
+
+    it('should prefer unseen terms over terms that are not yet due', () => {
+      const schedule: ReviewSchedule = {
+        ai: { termId: 'ai', easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now + 5 * DAY_MS, lastReviewed: now - DAY_MS }
+      };
+
+      const result = service.selectScheduledQuestions(2, schedule, now);
+
+      expect(result.map(q => q.term).sort()).toEqual(['DL', 'ML']);
+    });
+
+    it('should fill the quiz with upcoming terms when nothing else is left', () => {
+      const schedule: ReviewSchedule = {
+        ai: { termId: 'ai', easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now + 5 * DAY_MS, lastReviewed: now - DAY_MS },
+        ml: { termId: 'ml', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now + DAY_MS, lastReviewed: now },
+        dl: { termId: 'dl', easeFactor: 2.5, interval: 15, repetitions: 3, dueDate: now + 15 * DAY_MS, lastReviewed: now }
+      };
+
+      const result = service.selectScheduledQuestions(3, schedule, now);
+
+      expect(result.map(q => q.term)).toEqual(['ML', 'AI', 'DL']);
+    });
+
+    it('should throw error when questions not loaded', () => {
+      const newService = new QuizDataService();
+      expect(() => newService.selectScheduledQuestions(1)).toThrow('Questions not loaded. Call loadQuestions() first.');
+    });
+
+    it('should ask each term at most once while other terms are available', () => {
+      service.addQuestions([
+        { ...mockQuestions[0]!, id: 'test-4' },
+        { ...mockQuestions[0]!, id: 'test-5' }
+      ]);
+
+      const result = service.selectScheduledQuestions(3, {}, now);
+
+      expect(result.map(q => q.term).sort()).toEqual(['AI', 'DL', 'ML']);
+    });
+
+    it('should repeat terms only when there are too few to fill the quiz', () => {
+      service.addQuestions([{ ...mockQuestions[0]!, id: 'test-4' }]);
+
+      const result = service.selectScheduledQuestions(4, {}, now);
+
+      expect(result).toHaveLength(4);
+      expect(result.slice(0, 3).map(q => q.term).sort()).toEqual(['AI', 'DL', 'ML']);
+      expect(result[3]?.term).toBe('AI');
+    });
+  });
+
+  describe('selectPathQuestions', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    it('should only select questions about the path terms', () => {
+      const result = service.selectPathQuestions(3, ['ai', 'dl'], {}, now);
+
+      expect(result.map(q => q.term).sort()).toEqual(['AI', 'DL']);
+    });
+
+    it('should put due path terms first', () => {
+      const schedule: ReviewSchedule = {
+        ai: { termId: 'ai', easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now + 5 * DAY_MS, lastReviewed: now - DAY_MS },
+        dl: { termId: 'dl', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now - DAY_MS, lastReviewed: now - 2 * DAY_MS }
+      };
+
+      const result = service.selectPathQuestions(1, ['ai', 'dl'], schedule, now);
+
+      expect(result.map(q => q.term)).toEqual(['DL']);
+    });
+
+    it('should limit path questions to the role', () => {
+      service.addQuestions([{ ...mockQuestions[0]!, id: 'test-4', termId: 'dl', term: 'DL', roles: ['engineer'] }]);
+
+      const result = service.selectPathQuestions(5, ['dl'], {}, now, 'business');
+
+      expect(result.map(q => q.id)).toEqual(['test-3']);
+    });
+
+    it('should return nothing when no question covers the path', () => {
+      expect(service.selectPathQuestions(3, ['quantum-computing'], {}, now)).toEqual([]);
+    });
+
+    it('should throw error when questions not loaded', () => {
+      const newService = new QuizDataService();
+      expect(() => newService.selectPathQuestions(1, ['ai'])).toThrow('Questions not loaded. Call loadQuestions() first.');
+    });
+  });
+
+  describe('getWeakestTerms', () => {
+    const outcome = (termId: string, isCorrect: boolean, timestamp: number): QuestionOutcome => ({
+      questionId: `${termId}-q`,
+      termId,
+      selectedAnswer: 'answer',
+      isCorrect,
+      timeTakenMs: 1000,
+      timestamp
+    });
+
+    it('should rank terms by miss count, most missed first', () => {
+      const history = [
+        outcome('ai', false, 1),
+        outcome('ml', true, 2),
+        outcome('ml', false, 3),
+        outcome('ml', false, 4),
+        outcome('dl', true, 5)
+      ];
+
+      expect(service.getWeakestTerms(history)).toEqual([
+        { termId: 'ml', attempts: 3, misses: 2, lastMissedAt: 4 },
+        { termId: 'ai', attempts: 1, misses: 1, lastMissedAt: 1 }
+      ]);
+    });
+
+    it('should drop a term once it is answered correctly again', () => {
+      const history = [
+        outcome('ml', false, 1),
+        outcome('ml', false, 2),
+        outcome('ml', false, 3),
+        outcome('ai', false, 4),
+        outcome('ml', true, 5)
+      ];
+
+      expect(service.getWeakestTerms(history)).toEqual([
+        { termId: 'ai', attempts: 1, misses: 1, lastMissedAt: 4 }
+      ]);
+    });
+
+    it('should count only the misses after the last correct answer', () => {
+      const history = [
+        outcome('ml', false, 1),
+        outcome('ml', false, 2),
+        outcome('ml', true, 3),
+        outcome('ml', false, 4),
+        outcome('ai', false, 5),
+        outcome('ai', false, 6)
+      ];
+
+      expect(service.getWeakestTerms(history).map(entry => [entry.termId, entry.misses])).toEqual([
+        ['ai', 2],
+        ['ml', 1]
+      ]);
+    });
+
+    it('should break ties by the most recent miss', () => {
+      const history = [outcome('ai', false, 10), outcome('ml', false, 20)];
+
+      expect(service.getWeakestTerms(history).map(entry => entry.termId)).toEqual(['ml', 'ai']);
+    });
+
+    it('should return an empty array when nothing has been missed', () => {
+      expect(service.getWeakestTerms([outcome('ai', true, 1)])).toEqual([]);
+      expect(service.getWeakestTerms([])).toEqual([]);
+    });
+  });
+
+  describe('selectWeakestQuestions', () => {
+    const missed = (termId: string, timestamp: number): QuestionOutcome => ({
+      questionId: `${termId}-q`,
+      termId,
+      selectedAnswer: 'answer',
+      isCorrect: false,
+      timeTakenMs: 1000,
+      timestamp
+    });
+
+    beforeEach(async () => {
+      const mockResponse = {
+        ok: true,
+        json: jest.fn().mockResolvedValue({ questions: mockQuestions })
+      };
+      (fetch as jest.Mock).mockResolvedValue(mockResponse);
+      await service.loadQuestions();
+    });
+
+    it('should select one question per missed term, weakest first', () => {
+      const history = [missed('dl', 1), missed('ml', 2), missed('ml', 3)];
+
+      const result = service.selectWeakestQuestions(3, history);
+
+      expect(result.map(q => q.term)).toEqual(['ML', 'DL']);
+    });
+
+    it('should not exceed the requested count', () => {
+      const history = [missed('ai', 1), missed('ml', 2), missed('dl', 3)];
+
+      expect(service.selectWeakestQuestions(2, history)).toHaveLength(2);
+    });
+
+    it('should skip missed terms that have no questions', () => {
+      const result = service.selectWeakestQuestions(3, [missed('Unknown', 1)]);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should throw error when questions not loaded', () => {
+      const newService = new QuizDataService();
+      expect(() => newService.selectWeakestQuestions(1, [])).toThrow('Questions not loaded. Call loadQuestions() first.');
+    });
   });
 
   describe('validateAnswer', () => {
@@ -186,6 +707,32 @@ describe('QuizDataService', () => {
     it('should throw error for non-existent question', () => {
       expect(() => service.validateAnswer('non-existent', 'Answer')).toThrow('Question with ID non-existent not found');
     });
+
+    it('should validate answers to other question types', () => {
+      service.addQuestions([
+        {
+          id: 'test-multi',
+          type: 'multi-select',
+          term: 'AI',
+          question: 'Pick both',
+          options: ['A', 'B', 'C'],
+          correctAnswers: ['A', 'B'],
+          termId: 'ai'
+        },
+        {
+          id: 'test-text',
+          type: 'free-text',
+          term: 'ML',
+          question: 'Name it',
+          acceptedAnswers: ['Machine Learning'],
+          termId: 'ml'
+        }
+      ]);
+
+      expect(service.validateAnswer('test-multi', ['B', 'A'])).toBe(true);
+      expect(service.validateAnswer('test-multi', ['A'])).toBe(false);
+      expect(service.validateAnswer('test-text', 'machine lerning')).toBe(true);
+    });
   });
 
   describe('getQuestionById', () => {
@@ -243,7 +790,7 @@ describe('QuizDataService', () => {
     });
 
     it('should return questions for specific term', () => {
-      const result = service.getQuestionsByTerm('AI');
+      const result = service.getQuestionsByTerm('ai');
       expect(result).toHaveLength(1);
       expect(result[0]?.term).toBe('AI');
     });
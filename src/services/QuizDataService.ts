@@ -1,107 +1,222 @@
-import { QuizQuestion } from '../types';
+import {
+    QuizAnswer,
+    QuizQuestion,
+    QuizQuestionData,
+    QuestionOutcome,
+    ReviewSchedule,
+    TermPerformance,
+    UserRole,
+    ValidationIssue,
+    isQuizQuestion,
+    validateQuizQuestion
+} from '../types';
+import { answerEvaluationService } from './AnswerEvaluationService';
+import { spacedRepetitionService } from './SpacedRepetitionService';
+import { glossaryDataService } from './GlossaryDataService';
+import { questionGeneratorService } from './QuestionGeneratorService';
+import { DataLoader, DataLoadOptions, partitionRecords } from './DataLoader';
+import { DataValidationError } from './AppErrors';
+import { validationReportService } from './ValidationReportService';
+
+const QUESTIONS_FILE = 'questions.json';
 
 export class QuizDataService {
     private questions: QuizQuestion[] = [];
-    private isLoaded = false;
+    private termNames = new Map<string, string>();
+    private loader = new DataLoader<QuizQuestion[]>({
+        file: QUESTIONS_FILE,
+        label: 'quiz questions',
+        name: 'questions',
+        parse: data => this.parseQuestions(data)
+    });
+    private generatedQuestions: QuizQuestion[] = [];
+    private generatedQuestionsLoaded = false;
+    private roleQuestions: QuizQuestion[] = [];
+    private roleQuestionsLoaded = false;
 
     /**
      * Load quiz questions from the static JSON file
+     *
+     * Questions refer to glossary terms by id, so the glossary is loaded
+     * first and each question takes its term's name from it. Questions about
+     * a term the glossary does not have are skipped.
      */
-    async loadQuestions(): Promise<QuizQuestion[]> {
-        if (this.isLoaded) {
+    async loadQuestions(options: DataLoadOptions = {}): Promise<QuizQuestion[]> {
+        // Generated questions are added to the pool after loading, so keep it
+        if (this.loader.isLoaded()) {
             return this.questions;
         }
 
         try {
-            // Use process.env.PUBLIC_URL to handle different deployment paths
-            const publicUrl = process.env.PUBLIC_URL || '';
-            const url = `${publicUrl}/questions.json`;
-            
-            // Add timeout to prevent hanging requests
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-            
-            const response = await fetch(url, { 
-                signal: controller.signal,
-                headers: {
-                    'Cache-Control': 'no-cache'
-                }
-            });
-            
-            clearTimeout(timeoutId);
-            
-            if (!response.ok) {
-                if (response.status === 404) {
-                    throw new Error('Quiz questions file not found. Please check if questions.json exists in the public folder.');
-                } else if (response.status >= 500) {
-                    throw new Error('Server error while loading quiz questions. Please try again later.');
-                } else {
-                    throw new Error(`Failed to load questions: ${response.status} ${response.statusText}`);
-                }
-            }
+            const terms = await glossaryDataService.loadGlossary(options);
+            this.termNames = new Map(terms.map(term => [term.id, term.term]));
+            this.questions = await this.loader.load(options);
+            return this.questions;
+        } catch (error) {
+            console.error('Error loading quiz questions:', error);
+            throw error;
+        }
+    }
 
-            let data;
-            try {
-                data = await response.json();
-            } catch (parseError) {
-                throw new Error('Invalid questions data format: file contains malformed JSON');
-            }
+    /**
+     * Check the questions file for changes since it was loaded. The pool is
+     * rebuilt from the file, so generated questions are made again from the
+     * current glossary on their next load. Does nothing before the first load.
+     */
+    async refreshQuestions(): Promise<void> {
+        if (!this.loader.isLoaded()) {
+            return;
+        }
 
-            if (!data || typeof data !== 'object') {
-                throw new Error('Invalid questions data format: expected JSON object');
-            }
+        const terms = await glossaryDataService.loadGlossary();
+        this.termNames = new Map(terms.map(term => [term.id, term.term]));
+        this.questions = await this.loader.revalidate();
+        this.generatedQuestions = [];
+        this.generatedQuestionsLoaded = false;
+        this.roleQuestions = [];
+        this.roleQuestionsLoaded = false;
+    }
 
-            if (!data.questions || !Array.isArray(data.questions)) {
-                throw new Error('Invalid questions data format: missing or invalid questions array');
-            }
+    /**
+     * Validate the questions file, keeping the valid questions
+     */
+    private parseQuestions(data: { questions?: unknown }): QuizQuestion[] {
+        if (!data.questions || !Array.isArray(data.questions)) {
+            throw new DataValidationError('invalid-data', 'Invalid questions data format: missing or invalid questions array');
+        }
+
+        // Validate each question has required fields and a known term
+        const { valid: validQuestions, invalid } = partitionRecords<QuizQuestionData>(
+            data.questions,
+            'questions',
+            (question, path) => this.validateQuestion(question, path)
+        );
+        validationReportService.report(QUESTIONS_FILE, invalid);
 
-            // Validate each question has required fields
-            const validQuestions = data.questions.filter((q: any) =>
-                this.isValidQuestion(q)
+        if (validQuestions.length === 0) {
+            throw new DataValidationError(
+                'empty',
+                'No valid questions found in data file. Please check the questions data format.',
+                { invalidRecords: invalid }
             );
+        }
 
-            if (validQuestions.length === 0) {
-                throw new Error('No valid questions found in data file. Please check the questions data format.');
-            }
+        // Log warning if some questions were invalid
+        if (validQuestions.length < data.questions.length) {
+            console.warn(`${data.questions.length - validQuestions.length} invalid questions were skipped`);
+        }
 
-            // Log warning if some questions were invalid
-            if (validQuestions.length < data.questions.length) {
-                console.warn(`${data.questions.length - validQuestions.length} invalid questions were skipped`);
-            }
+        // Every valid question names a known term, so each one gets its name
+        return validQuestions.flatMap((question): QuizQuestion[] => {
+            const term = this.termNames.get(question.termId);
+            return term === undefined ? [] : [{ ...question, term }];
+        });
+    }
 
-            this.questions = validQuestions;
-            this.isLoaded = true;
-            return this.questions;
+    /**
+     * List the problems with a question from the file, including a term id
+     * the glossary does not have
+     */
+    private validateQuestion(question: unknown, path: string): ValidationIssue[] {
+        const issues = validateQuizQuestion(question, path);
+        if (issues.length > 0) {
+            return issues;
+        }
+
+        const { termId } = question as QuizQuestionData;
+        return this.termNames.has(termId)
+            ? []
+            : [{ path: `${path}.termId`, message: `no glossary term has id "${termId}"` }];
+    }
+
+    /**
+     * Generate definition-to-term and term-to-definition questions from the
+     * glossary and add them to the pool alongside the curated questions, so
+     * every glossary term can be quizzed without a hand-written question.
+     * A glossary failure is logged and leaves the curated pool unchanged.
+     * @returns Array of questions that were added
+     */
+    async loadGeneratedQuestions(): Promise<QuizQuestion[]> {
+        if (this.generatedQuestionsLoaded) {
+            return this.generatedQuestions;
+        }
+
+        try {
+            const terms = await glossaryDataService.loadGlossary();
+            this.generatedQuestions = this.addQuestions(questionGeneratorService.generateDefinitionQuestions(terms));
+            this.generatedQuestionsLoaded = true;
+            return this.generatedQuestions;
         } catch (error) {
-            console.error('Error loading quiz questions:', error);
-            
-            // Provide more specific error messages
-            if (error instanceof TypeError && error.message.includes('fetch')) {
-                throw new Error('Network error: Unable to connect to load quiz questions. Please check your internet connection.');
-            } else if (error instanceof DOMException && error.name === 'AbortError') {
-                throw new Error('Request timeout: Loading quiz questions took too long. Please try again.');
-            }
-            
-            throw error;
+            console.warn('Glossary questions could not be generated:', error);
+            return [];
         }
     }
 
+    /**
+     * Generate role-targeted questions from the glossary's role context and add
+     * them to the question pool. Generated questions are optional extras, so a
+     * glossary failure is logged and leaves the pool unchanged.
+     * @returns Array of questions that were added
+     */
+    async loadRoleQuestions(): Promise<QuizQuestion[]> {
+        if (this.roleQuestionsLoaded) {
+            return this.roleQuestions;
+        }
+
+        try {
+            const terms = await glossaryDataService.loadGlossary();
+            this.roleQuestions = this.addQuestions(questionGeneratorService.generateRoleQuestions(terms));
+            this.roleQuestionsLoaded = true;
+            return this.roleQuestions;
+        } catch (error) {
+            console.warn('Role-targeted questions could not be generated:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Add questions to the loaded pool, skipping invalid questions and
+     * questions whose ID is already present
+     * @param questions Questions to add
+     * @returns Array of questions that were added
+     */
+    addQuestions(questions: QuizQuestion[]): QuizQuestion[] {
+        if (!this.loader.isLoaded()) {
+            throw new Error('Questions not loaded. Call loadQuestions() first.');
+        }
+
+        const existingIds = new Set(this.questions.map(q => q.id));
+        const added = questions.filter(q => {
+            if (!this.isValidQuestion(q) || existingIds.has(q.id)) {
+                return false;
+            }
+            existingIds.add(q.id);
+            return true;
+        });
+
+        this.questions = [...this.questions, ...added];
+        return added;
+    }
+
     /**
      * Select random questions excluding recently used terms
      * @param count Number of questions to select
      * @param excludeTerms Set of term IDs to exclude from selection
+     * @param role Optional role to limit questions to
      * @returns Array of selected questions
      */
-    selectRandomQuestions(count: number, excludeTerms: Set<string> = new Set()): QuizQuestion[] {
-        if (!this.isLoaded || this.questions.length === 0) {
+    selectRandomQuestions(count: number, excludeTerms: Set<string> = new Set(), role?: UserRole): QuizQuestion[] {
+        if (!this.loader.isLoaded() || this.questions.length === 0) {
             throw new Error('Questions not loaded. Call loadQuestions() first.');
         }
 
+        const roleQuestions = this.getQuestionsByRole(role);
+
         // Filter out excluded terms
-        const availableQuestions = this.questions.filter(q => !excludeTerms.has(q.term));
+        const availableQuestions = roleQuestions.filter(q => !excludeTerms.has(q.termId));
 
-        // If no questions available after filtering, reset and use all questions
-        const questionsToUse = availableQuestions.length > 0 ? availableQuestions : this.questions;
+        // If no questions available after filtering, reset and use all questions for the role
+        const questionsToUse = availableQuestions.length > 0 ? availableQuestions : roleQuestions;
 
         // If requesting more questions than available, return all available
         const actualCount = Math.min(count, questionsToUse.length);
@@ -111,19 +226,141 @@ export class QuizDataService {
         return shuffled.slice(0, actualCount);
     }
 
+    /**
+     * Select questions according to the spaced-repetition schedule
+     * Due and overdue terms come first, then terms never reviewed, then terms
+     * that are not yet due (soonest first). Ties are broken randomly, and each
+     * term is asked at most once unless there are too few terms to fill the quiz.
+     * @param count Number of questions to select
+     * @param schedule Review schedule keyed by term id
+     * @param now Current timestamp used to decide what is due
+     * @param role Optional role to limit questions to
+     * @returns Array of selected questions
+     */
+    selectScheduledQuestions(
+        count: number,
+        schedule: ReviewSchedule = {},
+        now: number = Date.now(),
+        role?: UserRole
+    ): QuizQuestion[] {
+        if (!this.loader.isLoaded() || this.questions.length === 0) {
+            throw new Error('Questions not loaded. Call loadQuestions() first.');
+        }
+
+        return this.rankByReviewPriority(this.getQuestionsByRole(role), count, schedule, now);
+    }
+
+    /**
+     * Select questions about a learning path's terms, ordered by the
+     * spaced-repetition schedule in the same way as selectScheduledQuestions
+     * @param count Number of questions to select
+     * @param termIds Ids of the path's terms
+     * @param schedule Review schedule keyed by term id
+     * @param now Current timestamp used to decide what is due
+     * @param role Optional role to limit questions to
+     * @returns Array of selected questions; empty if no question covers the path
+     */
+    selectPathQuestions(
+        count: number,
+        termIds: string[],
+        schedule: ReviewSchedule = {},
+        now: number = Date.now(),
+        role?: UserRole
+    ): QuizQuestion[] {
+        if (!this.loader.isLoaded() || this.questions.length === 0) {
+            throw new Error('Questions not loaded. Call loadQuestions() first.');
+        }
+
+        const pathTermIds = new Set(termIds);
+        const pathQuestions = this.getQuestionsByRole(role).filter(q => pathTermIds.has(q.termId));
+
+        return this.rankByReviewPriority(pathQuestions, count, schedule, now);
+    }
+
+    /**
+     * Rank the terms the user is still missing: misses count only from the
+     * last correct answer on, so a term the user has since got right drops
+     * off the list. Most-missed first and, for equal miss counts, most
+     * recently missed first
+     * @param history Per-question answer history
+     * @returns Performance for every term missed since its last correct answer
+     */
+    getWeakestTerms(history: QuestionOutcome[]): TermPerformance[] {
+        const performance = new Map<string, TermPerformance>();
+
+        [...history]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .forEach(outcome => {
+                const current = performance.get(outcome.termId) ?? {
+                    termId: outcome.termId,
+                    attempts: 0,
+                    misses: 0,
+                    lastMissedAt: null
+                };
+
+                current.attempts += 1;
+                if (outcome.isCorrect) {
+                    current.misses = 0;
+                    current.lastMissedAt = null;
+                } else {
+                    current.misses += 1;
+                    current.lastMissedAt = outcome.timestamp;
+                }
+
+                performance.set(outcome.termId, current);
+            });
+
+        return Array.from(performance.values())
+            .filter(entry => entry.misses > 0)
+            .sort((a, b) =>
+                b.misses - a.misses ||
+                (b.lastMissedAt ?? 0) - (a.lastMissedAt ?? 0)
+            );
+    }
+
+    /**
+     * Select questions for the user's weakest terms only
+     * @param count Number of questions to select
+     * @param history Per-question answer history used to find missed terms
+     * @param role Optional role to limit questions to
+     * @returns Array of selected questions, weakest term first
+     */
+    selectWeakestQuestions(count: number, history: QuestionOutcome[], role?: UserRole): QuizQuestion[] {
+        if (!this.loader.isLoaded() || this.questions.length === 0) {
+            throw new Error('Questions not loaded. Call loadQuestions() first.');
+        }
+
+        const selected: QuizQuestion[] = [];
+
+        this.getWeakestTerms(history).forEach(({ termId }) => {
+            if (selected.length >= count) {
+                return;
+            }
+
+            const termQuestions = this.getQuestionsByTerm(termId)
+                .filter(q => this.isQuestionForRole(q, role));
+            const question = termQuestions[Math.floor(Math.random() * termQuestions.length)];
+            if (question) {
+                selected.push(question);
+            }
+        });
+
+        return selected;
+    }
+
     /**
      * Validate if an answer is correct for a given question
      * @param questionId The ID of the question
      * @param answer The user's answer
      * @returns true if answer is correct, false otherwise
      */
-    validateAnswer(questionId: string, answer: string): boolean {
+    validateAnswer(questionId: string, answer: QuizAnswer): boolean {
         const question = this.questions.find(q => q.id === questionId);
         if (!question) {
             throw new Error(`Question with ID ${questionId} not found`);
         }
 
-        return question.correctAnswer === answer;
+        return answerEvaluationService.isCorrect(question, answer);
     }
 
     /**
@@ -145,30 +382,83 @@ export class QuizDataService {
 
     /**
      * Get questions for a specific term
-     * @param term The term to get questions for
+     * @param termId Id of the term to get questions for
      * @returns Array of questions for the term
      */
-    getQuestionsByTerm(term: string): QuizQuestion[] {
-        return this.questions.filter(q => q.term === term);
+    getQuestionsByTerm(termId: string): QuizQuestion[] {
+        return this.questions.filter(q => q.termId === termId);
+    }
+
+    /**
+     * Get questions suitable for a role: questions tagged with the role plus
+     * untagged questions
+     * @param role The role to get questions for; all questions when omitted
+     * @returns Array of questions for the role
+     */
+    getQuestionsByRole(role?: UserRole): QuizQuestion[] {
+        return this.questions.filter(q => this.isQuestionForRole(q, role));
     }
 
     /**
-     * Validate if a question object has all required fields
+     * Order questions by review priority and take up to count of them, one per
+     * term before any term repeats
+     * @param questions Candidate questions
+     * @param count Number of questions to select
+     * @param schedule Review schedule keyed by term id
+     * @param now Current timestamp used to decide what is due
+     * @returns Array of selected questions
+     */
+    private rankByReviewPriority(
+        questions: QuizQuestion[],
+        count: number,
+        schedule: ReviewSchedule,
+        now: number
+    ): QuizQuestion[] {
+        const actualCount = Math.min(count, questions.length);
+
+        // Shuffle first so questions with equal priority are picked at random
+        const shuffled = [...questions].sort(() => Math.random() - 0.5);
+
+        const ranked = shuffled
+            .map(question => ({
+                question,
+                priority: spacedRepetitionService.getReviewPriority(question.termId, schedule, now)
+            }))
+            .sort((a, b) => a.priority - b.priority)
+            .map(({ question }) => question);
+
+        // Take the best-ranked question for each term, then top up with repeats
+        const askedTerms = new Set<string>();
+        const firstPerTerm = ranked.filter(question => {
+            if (askedTerms.has(question.termId)) {
+                return false;
+            }
+            askedTerms.add(question.termId);
+            return true;
+        });
+        const repeats = ranked.filter(question => !firstPerTerm.includes(question));
+
+        return [...firstPerTerm, ...repeats].slice(0, actualCount);
+    }
+
+    /**
+     * Check whether a question suits a role
+     * @param question The question to check
+     * @param role The role to check against
+     * @returns true if the question is untagged, tagged for the role, or no role is given
+     */
+    private isQuestionForRole(question: QuizQuestion, role?: UserRole): boolean {
+        return !role || !question.roles || question.roles.includes(role);
+    }
+
+    /**
+     * Validate if a question object has all required fields for its type
      * @param question The question object to validate
      * @returns true if valid, false otherwise
      */
-    private isValidQuestion(question: any): boolean {
-        return (
-            typeof question.id === 'string' &&
-            typeof question.term === 'string' &&
-            typeof question.question === 'string' &&
-            Array.isArray(question.options) &&
-            question.options.length >= 2 &&
-            question.options.every((opt: any) => typeof opt === 'string') &&
-            typeof question.correctAnswer === 'string' &&
-            question.options.includes(question.correctAnswer) &&
-            typeof question.glossaryLink === 'string'
-        );
+    private isValidQuestion(question: unknown): question is QuizQuestion {
+        // Shares the type guard so every question format is validated the same way
+        return isQuizQuestion(question);
     }
 }
 
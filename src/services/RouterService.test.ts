@@ -0,0 +1,194 @@
+import { RouterService } from './RouterService';
+
+describe('RouterService', () => {
+  let service: RouterService;
+
+  beforeEach(() => {
+    service = new RouterService();
+    window.history.replaceState(null, '', '/');
+  });
+
+  describe('parse', () => {
+    it('should treat an empty hash as home', () => {
+      expect(service.parse('')).toEqual({ view: 'home' });
+      expect(service.parse('#')).toEqual({ view: 'home' });
+      expect(service.parse('#/')).toEqual({ view: 'home' });
+    });
+
+    it('should parse every top-level view', () => {
+      expect(service.parse('#/introduction')).toEqual({ view: 'introduction' });
+      expect(service.parse('#/glossary')).toEqual({ view: 'glossary' });
+      expect(service.parse('#/quiz')).toEqual({ view: 'quiz' });
+      expect(service.parse('#/progress')).toEqual({ view: 'progress' });
+      expect(service.parse('#/ai-tools')).toEqual({ view: 'ai-tools' });
+      expect(service.parse('#/paths')).toEqual({ view: 'paths' });
+      expect(service.parse('#/home')).toEqual({ view: 'home' });
+    });
+
+    it('should treat learn as the glossary', () => {
+      expect(service.parse('#/learn')).toEqual({ view: 'glossary' });
+    });
+
+    it('should parse glossary term links', () => {
+      expect(service.parse('#/glossary/term/rag')).toEqual({ view: 'glossary', termId: 'rag' });
+    });
+
+    it('should parse glossary role and search parameters', () => {
+      expect(service.parse('#/glossary?role=engineer&q=rag')).toEqual({
+        view: 'glossary',
+        role: 'engineer',
+        query: 'rag'
+      });
+    });
+
+    it('should ignore unknown roles', () => {
+      expect(service.parse('#/glossary?role=astronaut')).toEqual({ view: 'glossary' });
+    });
+
+    it('should parse AI tool links', () => {
+      expect(service.parse('#/ai-tools/github-copilot')).toEqual({ view: 'ai-tools', toolId: 'github-copilot' });
+    });
+
+    it('should parse the tools to compare, once each', () => {
+      expect(service.parse('#/ai-tools?compare=github-copilot&compare=cursor&compare=&compare=cursor')).toEqual({
+        view: 'ai-tools',
+        compareToolIds: ['github-copilot', 'cursor']
+      });
+    });
+
+    it('should parse introduction section links', () => {
+      expect(service.parse('#/introduction/productive-friction')).toEqual({
+        view: 'introduction',
+        sectionId: 'productive-friction'
+      });
+    });
+
+    it('should parse the weakest-terms quiz mode', () => {
+      expect(service.parse('#/quiz?mode=weakest')).toEqual({ view: 'quiz', quizMode: 'weakest' });
+      expect(service.parse('#/quiz?mode=unknown')).toEqual({ view: 'quiz' });
+    });
+
+    it('should parse learning path links and path quizzes', () => {
+      expect(service.parse('#/paths/responsible-ai')).toEqual({ view: 'paths', pathId: 'responsible-ai' });
+      expect(service.parse('#/quiz?path=responsible-ai')).toEqual({ view: 'quiz', pathId: 'responsible-ai' });
+    });
+
+    it('should resolve bare view anchors', () => {
+      expect(service.parse('#glossary')).toEqual({ view: 'glossary' });
+      expect(service.parse('#quiz')).toEqual({ view: 'quiz' });
+    });
+
+    it('should resolve bare term anchors to glossary terms', () => {
+      expect(service.parse('#artificial-intelligence')).toEqual({
+        view: 'glossary',
+        termId: 'artificial-intelligence'
+      });
+    });
+
+    it('should fall back to home for unknown paths', () => {
+      expect(service.parse('#/does-not-exist')).toEqual({ view: 'home' });
+    });
+
+    it('should decode encoded segments and parameters', () => {
+      expect(service.parse('#/glossary/term/rag%20pipeline?q=large+language')).toEqual({
+        view: 'glossary',
+        termId: 'rag pipeline',
+        query: 'large language'
+      });
+    });
+  });
+
+  describe('format', () => {
+    it('should format top-level views', () => {
+      expect(service.format({ view: 'home' })).toBe('#/');
+      expect(service.format({ view: 'progress' })).toBe('#/progress');
+      expect(service.format({ view: 'learn' })).toBe('#/glossary');
+    });
+
+    it('should format glossary routes with parameters', () => {
+      expect(service.format({ view: 'glossary', termId: 'rag' })).toBe('#/glossary/term/rag');
+      expect(service.format({ view: 'glossary', role: 'engineer', query: 'rag' }))
+        .toBe('#/glossary?role=engineer&q=rag');
+    });
+
+    it('should format tool and quiz routes', () => {
+      expect(service.format({ view: 'ai-tools', toolId: 'cursor' })).toBe('#/ai-tools/cursor');
+      expect(service.format({ view: 'ai-tools', compareToolIds: ['github-copilot', 'cursor'] }))
+        .toBe('#/ai-tools?compare=github-copilot&compare=cursor');
+      expect(service.format({ view: 'ai-tools', compareToolIds: [] })).toBe('#/ai-tools');
+      expect(service.format({ view: 'quiz', quizMode: 'weakest' })).toBe('#/quiz?mode=weakest');
+      expect(service.format({ view: 'quiz', quizMode: 'standard' })).toBe('#/quiz');
+    });
+
+    it('should format learning path routes', () => {
+      expect(service.format({ view: 'paths' })).toBe('#/paths');
+      expect(service.format({ view: 'paths', pathId: 'llm-fundamentals' })).toBe('#/paths/llm-fundamentals');
+      expect(service.format({ view: 'quiz', pathId: 'llm-fundamentals' })).toBe('#/quiz?path=llm-fundamentals');
+    });
+
+    it('should round-trip through parse', () => {
+      const routes = [
+        { view: 'glossary' as const, termId: 'rag pipeline', role: 'data-scientist' as const },
+        { view: 'glossary' as const, query: 'prompt & context' },
+        { view: 'ai-tools' as const, toolId: 'github-copilot' },
+        { view: 'ai-tools' as const, compareToolIds: ['github-copilot', 'claude code'] },
+        { view: 'quiz' as const, quizMode: 'weakest' as const },
+        { view: 'quiz' as const, pathId: 'responsible-ai' },
+        { view: 'paths' as const, pathId: 'llm-fundamentals' },
+        { view: 'introduction' as const, sectionId: 'cultural-wisdom' }
+      ];
+
+      routes.forEach(route => {
+        expect(service.parse(service.format(route))).toEqual(route);
+      });
+    });
+  });
+
+  describe('navigation', () => {
+    it('should read the current route from the URL', () => {
+      window.history.replaceState(null, '', '#/ai-tools/cursor');
+
+      expect(service.getCurrentRoute()).toEqual({ view: 'ai-tools', toolId: 'cursor' });
+    });
+
+    it('should update the hash when navigating', () => {
+      service.navigate({ view: 'glossary', termId: 'rag' });
+
+      expect(window.location.hash).toBe('#/glossary/term/rag');
+    });
+
+    it('should replace the hash without adding history entries', () => {
+      const historyLength = window.history.length;
+
+      service.replace({ view: 'glossary', query: 'rag' });
+
+      expect(window.location.hash).toBe('#/glossary?q=rag');
+      expect(window.history.length).toBe(historyLength);
+    });
+
+    it('should report whether the current hash is canonical', () => {
+      expect(service.isCurrentHashCanonical()).toBe(true);
+
+      window.history.replaceState(null, '', '#artificial-intelligence');
+      expect(service.isCurrentHashCanonical()).toBe(false);
+
+      window.history.replaceState(null, '', '#/glossary/term/artificial-intelligence');
+      expect(service.isCurrentHashCanonical()).toBe(true);
+    });
+
+    it('should notify subscribers of hash changes until unsubscribed', () => {
+      const listener = jest.fn();
+      const unsubscribe = service.subscribe(listener);
+
+      window.history.replaceState(null, '', '#/progress');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+      expect(listener).toHaveBeenCalledWith({ view: 'progress' });
+
+      unsubscribe();
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * RouterService - hash-based routing for the application views
+ *
+ * Maps URL hashes such as #/glossary/term/rag or #/glossary?role=engineer&q=rag
+ * onto AppRoute objects and back. Hash routing keeps deep links working on
+ * static hosts such as GitHub Pages, and the browser history gives back and
+ * forward navigation for free.
+ */
+
+import { AppRoute, AppView, QuizMode, isUserRole } from '../types';
+
+/**
+ * Views that can be addressed directly by their path segment
+ */
+const ROUTABLE_VIEWS: AppView[] = ['home', 'learn', 'ai-tools', 'glossary', 'quiz', 'progress', 'introduction', 'paths'];
+
+/**
+ * Quiz modes that can be requested through the mode parameter
+ */
+const QUIZ_MODES: QuizMode[] = ['standard', 'weakest'];
+
+export class RouterService {
+  /**
+   * Parse a URL hash into a route
+   *
+   * Besides canonical #/ paths this accepts the older bare anchors: view names
+   * such as #glossary, and glossary term ids such as #artificial-intelligence
+   * (once used by quiz question links). Unrecognised paths fall back to home.
+   * @param hash URL hash, with or without the leading #
+   * @returns The route the hash points to
+   */
+  parse(hash: string): AppRoute {
+    const value = hash.replace(/^#/, '');
+
+    if (!value.startsWith('/')) {
+      return this.parseLegacyAnchor(value);
+    }
+
+    const [path = '', search = ''] = value.split('?');
+    const segments = path.split('/').filter(Boolean).map(safeDecode);
+    const params = new URLSearchParams(search);
+    const [view, ...rest] = segments;
+
+    if (view === undefined || view === 'home') {
+      return { view: 'home' };
+    }
+
+    switch (view) {
+      case 'learn':
+      case 'glossary': {
+        const role = params.get('role');
+        const query = params.get('q');
+        const termId = rest[0] === 'term' ? rest[1] : undefined;
+        return {
+          view: 'glossary',
+          ...(termId && { termId }),
+          ...(isUserRole(role) && { role }),
+          ...(query && { query })
+        };
+      }
+      case 'ai-tools': {
+        const toolId = rest[0];
+        const compareToolIds = params.getAll('compare').filter(
+          (id, index, ids) => id.length > 0 && ids.indexOf(id) === index
+        );
+        return {
+          view: 'ai-tools',
+          ...(toolId && { toolId }),
+          ...(compareToolIds.length > 0 && { compareToolIds })
+        };
+      }
+      case 'quiz': {
+        const mode = params.get('mode');
+        const quizMode = QUIZ_MODES.find(candidate => candidate === mode);
+        const pathId = params.get('path');
+        return {
+          view: 'quiz',
+          ...(quizMode && quizMode !== 'standard' && { quizMode }),
+          ...(pathId && { pathId })
+        };
+      }
+      case 'paths': {
+        const pathId = rest[0];
+        return { view: 'paths', ...(pathId && { pathId }) };
+      }
+      case 'introduction': {
+        const sectionId = rest[0];
+        return { view: 'introduction', ...(sectionId && { sectionId }) };
+      }
+      case 'progress':
+        return { view };
+      default:
+        return { view: 'home' };
+    }
+  }
+
+  /**
+   * Build the canonical URL hash for a route
+   * @param route The route to encode
+   * @returns URL hash including the leading #
+   */
+  format(route: AppRoute): string {
+    switch (route.view) {
+      case 'home':
+        return '#/';
+      case 'learn':
+      case 'glossary': {
+        const path = route.termId
+          ? `#/glossary/term/${encodeURIComponent(route.termId)}`
+          : '#/glossary';
+        const params = new URLSearchParams();
+        if (route.role) {
+          params.set('role', route.role);
+        }
+        if (route.query) {
+          params.set('q', route.query);
+        }
+        const search = params.toString();
+        return search ? `${path}?${search}` : path;
+      }
+      case 'ai-tools': {
+        const path = route.toolId ? `#/ai-tools/${encodeURIComponent(route.toolId)}` : '#/ai-tools';
+        const params = new URLSearchParams();
+        route.compareToolIds?.forEach(id => params.append('compare', id));
+        const search = params.toString();
+        return search ? `${path}?${search}` : path;
+      }
+      case 'quiz': {
+        const params = new URLSearchParams();
+        if (route.quizMode && route.quizMode !== 'standard') {
+          params.set('mode', route.quizMode);
+        }
+        if (route.pathId) {
+          params.set('path', route.pathId);
+        }
+        const search = params.toString();
+        return search ? `#/quiz?${search}` : '#/quiz';
+      }
+      case 'paths':
+        return route.pathId ? `#/paths/${encodeURIComponent(route.pathId)}` : '#/paths';
+      case 'introduction':
+        return route.sectionId ? `#/introduction/${encodeURIComponent(route.sectionId)}` : '#/introduction';
+      default:
+        return `#/${route.view}`;
+    }
+  }
+
+  /**
+   * Get the route for the current URL
+   * @returns The current route
+   */
+  getCurrentRoute(): AppRoute {
+    return this.parse(window.location.hash);
+  }
+
+  /**
+   * Check whether the current URL already uses the canonical hash for its route
+   * @returns true if the hash is empty or canonical
+   */
+  isCurrentHashCanonical(): boolean {
+    const hash = window.location.hash;
+    return hash === '' || hash === '#' || hash === this.format(this.parse(hash));
+  }
+
+  /**
+   * Navigate to a route, adding a browser history entry
+   * @param route The route to open
+   */
+  navigate(route: AppRoute): void {
+    const hash = this.format(route);
+    if (window.location.hash !== hash) {
+      window.location.hash = hash;
+    }
+  }
+
+  /**
+   * Replace the current history entry with a route without notifying listeners
+   *
+   * Used for changes within a view, such as typing a search, that should be
+   * shareable but should not fill the back button history.
+   * @param route The route to record
+   */
+  replace(route: AppRoute): void {
+    const hash = this.format(route);
+    if (window.location.hash !== hash) {
+      window.history.replaceState(window.history.state, '', hash);
+    }
+  }
+
+  /**
+   * Listen for route changes caused by links, navigate() or back/forward
+   * @param listener Called with the new route after every hash change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (route: AppRoute) => void): () => void {
+    const handleHashChange = () => listener(this.getCurrentRoute());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }
+
+  /**
+   * Resolve a bare #anchor: a view name or a glossary term id
+   */
+  private parseLegacyAnchor(anchor: string): AppRoute {
+    const name = safeDecode(anchor.trim());
+
+    if (!name) {
+      return { view: 'home' };
+    }
+
+    const view = ROUTABLE_VIEWS.find(candidate => candidate === name);
+    if (view) {
+      return { view: view === 'learn' ? 'glossary' : view };
+    }
+
+    return { view: 'glossary', termId: name };
+  }
+}
+
+/**
+ * Decode a URI component, keeping the raw text if it is malformed
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Export a singleton instance
+export const routerService = new RouterService();
@@ -0,0 +1,304 @@
+import { SearchService } from './SearchService';
+import { glossaryDataService } from './GlossaryDataService';
+import { aiToolsDataService } from './AIToolsDataService';
+import { introductionDataService } from './IntroductionDataService';
+import { AITool, GlossaryTerm, IntroductionSection } from '../types';
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  const terms: GlossaryTerm[] = [
+    {
+      id: 'rag',
+      term: 'Retrieval-Augmented Generation (RAG)',
+      definition: 'Combining a language model with document retrieval to ground answers.',
+      externalLink: 'https://example.com/rag',
+      roleContext: {
+        business: 'Answers questions from company documents',
+        'pm-designer': 'Design source citations into answers',
+        engineer: 'Build retrieval pipelines with embeddings',
+        'data-scientist': 'Evaluate retrieval quality'
+      }
+    },
+    {
+      id: 'embedding',
+      term: 'Embedding',
+      aliases: ['Semantic Encoding'],
+      definition: 'A numeric vector representing the meaning of text.',
+      externalLink: 'https://example.com/embedding',
+      roleContext: {
+        business: 'Powers semantic search',
+        'pm-designer': 'Enables similarity features',
+        engineer: 'Store vectors in a database',
+        'data-scientist': 'Compare embedding models'
+      }
+    }
+  ];
+
+  const tools: AITool[] = [
+    {
+      id: 'copilot',
+      name: 'GitHub Copilot',
+      category: 'code-assistant',
+      description: 'AI pair programmer that suggests code in the editor.',
+      userExperiences: [
+        {
+          id: 'copilot-exp-1',
+          quote: 'Great for writing retrieval code quickly',
+          context: 'Backend team',
+          useCase: 'Boilerplate generation',
+          sentiment: 'positive'
+        }
+      ],
+      commonUseCases: ['Code completion', 'Writing unit tests'],
+      integrations: ['VS Code', 'JetBrains']
+    }
+  ];
+
+  const sections: IntroductionSection[] = [
+    {
+      id: 'productive-friction',
+      title: 'Productive Friction',
+      subtitle: 'Why some struggle helps learning',
+      content: `
+        Effortful thinking builds **lasting understanding**.
+
+        Relying on AI for every answer removes the friction that makes knowledge stick.
+      `
+    }
+  ];
+
+  beforeEach(() => {
+    service = new SearchService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildIndex and search', () => {
+    beforeEach(() => {
+      service.buildIndex({ terms, tools, sections });
+    });
+
+    it('should report when the index is built', () => {
+      expect(service.isIndexed()).toBe(true);
+      expect(new SearchService().isIndexed()).toBe(false);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(service.search('   ')).toEqual([]);
+    });
+
+    it('should find glossary terms by name and link to the term', () => {
+      const groups = service.search('embedding');
+      const termGroup = groups.find(group => group.type === 'term');
+
+      expect(termGroup?.results[0]).toMatchObject({
+        type: 'term',
+        id: 'embedding',
+        title: 'Embedding',
+        route: { view: 'glossary', termId: 'embedding' }
+      });
+    });
+
+    it('should rank title matches above matches in other fields', () => {
+      const termGroup = service.search('embedding').find(group => group.type === 'term');
+
+      // RAG only mentions embeddings in its engineer context
+      expect(termGroup?.results.map(result => result.id)).toEqual(['embedding', 'rag']);
+      expect(termGroup?.results[0]?.score).toBeGreaterThan(termGroup?.results[1]?.score ?? 0);
+    });
+
+    it('should find glossary terms by alias', () => {
+      const termGroup = service.search('encoding').find(group => group.type === 'term');
+
+      expect(termGroup?.results[0]?.id).toBe('embedding');
+    });
+
+    it('should search tool descriptions, use cases, experiences and integrations', () => {
+      ['pair programmer', 'unit tests', 'backend team', 'jetbrains'].forEach(query => {
+        const toolGroup = service.search(query).find(group => group.type === 'tool');
+        expect(toolGroup?.results[0]?.route).toEqual({ view: 'ai-tools', toolId: 'copilot' });
+      });
+    });
+
+    it('should search introduction sections and link to the section', () => {
+      const introGroup = service.search('lasting understanding').find(group => group.type === 'introduction');
+
+      expect(introGroup?.results[0]).toMatchObject({
+        id: 'productive-friction',
+        title: 'Productive Friction',
+        route: { view: 'introduction', sectionId: 'productive-friction' }
+      });
+    });
+
+    it('should group results from every content type', () => {
+      const groups = service.search('retrieval');
+
+      expect(groups.map(group => group.type).sort()).toEqual(['term', 'tool']);
+      // The glossary term has the strongest match, so its group comes first
+      expect(groups[0]?.type).toBe('term');
+    });
+
+    it('should match words by prefix', () => {
+      const termGroup = service.search('retriev').find(group => group.type === 'term');
+
+      expect(termGroup?.results[0]?.id).toBe('rag');
+    });
+
+    it('should tolerate typos', () => {
+      const termGroup = service.search('embeding').find(group => group.type === 'term');
+
+      expect(termGroup?.results[0]?.id).toBe('embedding');
+    });
+
+    it('should find names by their initials', () => {
+      const termGroup = service.search('SE').find(group => group.type === 'term');
+      const toolGroup = service.search('gc').find(group => group.type === 'tool');
+
+      expect(termGroup?.results[0]?.id).toBe('embedding');
+      expect(toolGroup?.results[0]?.id).toBe('copilot');
+    });
+
+    it('should rank exact matches above typo matches', () => {
+      const termGroup = service.search('retrieval').find(group => group.type === 'term');
+      const typoGroup = service.search('retreival').find(group => group.type === 'term');
+
+      expect(typoGroup?.results[0]?.id).toBe('rag');
+      expect(typoGroup?.results[0]?.score).toBeLessThan(termGroup?.results[0]?.score ?? 0);
+    });
+
+    it('should require every query word to match', () => {
+      expect(service.search('embedding banana')).toEqual([]);
+    });
+
+    it('should ignore case and punctuation', () => {
+      const termGroup = service.search('RETRIEVAL-augmented!').find(group => group.type === 'term');
+
+      expect(termGroup?.results[0]?.id).toBe('rag');
+    });
+
+    it('should limit results per group', () => {
+      const termGroup = service.search('a', 1).find(group => group.type === 'term');
+
+      expect(termGroup?.results).toHaveLength(1);
+    });
+
+    it('should build a snippet around the match without formatting markers', () => {
+      const introGroup = service.search('lasting').find(group => group.type === 'introduction');
+
+      expect(introGroup?.results[0]?.snippet).toBe('Effortful thinking builds lasting understanding.');
+    });
+
+    it('should fall back to the summary for title-only matches', () => {
+      const termGroup = service.search('generation').find(group => group.type === 'term');
+
+      expect(termGroup?.results[0]?.snippet).toBe(
+        'Combining a language model with document retrieval to ground answers.'
+      );
+    });
+
+    it('should shorten long snippets with ellipses', () => {
+      const longSection: IntroductionSection = {
+        id: 'long',
+        title: 'Long Section',
+        content: `${'Filler words about nothing in particular. '.repeat(10)}The keyword appears here. ${'More filler text follows. '.repeat(10)}`
+      };
+      service.buildIndex({ terms: [], tools: [], sections: [longSection] });
+
+      const snippet = service.search('keyword')[0]?.results[0]?.snippet ?? '';
+
+      expect(snippet).toContain('keyword');
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+    });
+
+    it('should index and snippet Markdown terms and tools as plain text', () => {
+      const markdownTerm: GlossaryTerm = {
+        ...terms[0]!,
+        id: 'markdown-term',
+        term: 'Chunking',
+        definition: 'Splitting **documents** into passages, see [the guide](https://example.com/chunking).',
+        roleContext: { ...terms[0]!.roleContext, engineer: '- Tune the `chunk size`' }
+      };
+      const markdownTool: AITool = { ...tools[0]!, id: 'markdown-tool', description: 'Suggests code *inline*.' };
+      service.buildIndex({ terms: [markdownTerm], tools: [markdownTool], sections: [] });
+
+      expect(service.search('documents')[0]?.results[0]?.snippet)
+        .toBe('Splitting documents into passages, see the guide.');
+      expect(service.search('tune')[0]?.results[0]?.snippet).toBe('Tune the chunk size');
+      expect(service.search('inline')[0]?.results[0]?.snippet).toBe('Suggests code inline.');
+      expect(service.search('https')).toEqual([]);
+    });
+  });
+
+  describe('loadIndex', () => {
+    it('should index glossary terms, tools and introduction sections', async () => {
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(terms);
+      jest.spyOn(aiToolsDataService, 'loadTools').mockResolvedValue(tools);
+      jest.spyOn(introductionDataService, 'loadIntroduction').mockResolvedValue({ sections, navigation: {} });
+
+      await service.loadIndex();
+
+      expect(service.isIndexed()).toBe(true);
+      expect(service.search('copilot')[0]?.type).toBe('tool');
+      expect(service.search('friction')[0]?.type).toBe('introduction');
+    });
+
+    it('should share one load between concurrent calls', async () => {
+      const loadGlossary = jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(terms);
+      jest.spyOn(aiToolsDataService, 'loadTools').mockResolvedValue(tools);
+      jest.spyOn(introductionDataService, 'loadIntroduction').mockResolvedValue({ sections, navigation: {} });
+
+      await Promise.all([service.loadIndex(), service.loadIndex()]);
+      await service.loadIndex();
+
+      expect(loadGlossary).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep other content searchable when a source fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(terms);
+      jest.spyOn(aiToolsDataService, 'loadTools').mockRejectedValue(new Error('Network error'));
+      jest.spyOn(introductionDataService, 'loadIntroduction').mockRejectedValue(new Error('Network error'));
+
+      await expect(service.loadIndex()).rejects.toThrow('Network error');
+
+      expect(service.search('embedding')[0]?.type).toBe('term');
+      expect(service.search('copilot')).toEqual([]);
+      expect(service.search('friction')).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalledWith('Search index skipped AI tools:', expect.any(Error));
+      expect(consoleSpy).toHaveBeenCalledWith('Search index skipped introduction sections:', expect.any(Error));
+    });
+
+    it('should load every source again after a failure', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const loadGlossary = jest.spyOn(glossaryDataService, 'loadGlossary').mockResolvedValue(terms);
+      jest.spyOn(aiToolsDataService, 'loadTools')
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValue(tools);
+      jest.spyOn(introductionDataService, 'loadIntroduction').mockResolvedValue({ sections, navigation: {} });
+
+      await expect(service.loadIndex()).rejects.toThrow('Network error');
+      expect(service.isIndexed()).toBe(false);
+
+      await service.loadIndex();
+
+      expect(loadGlossary).toHaveBeenCalledTimes(2);
+      expect(service.isIndexed()).toBe(true);
+      expect(service.search('copilot')[0]?.type).toBe('tool');
+    });
+  });
+
+  describe('clearIndex', () => {
+    it('should remove all indexed content', () => {
+      service.buildIndex({ terms, tools, sections });
+
+      service.clearIndex();
+
+      expect(service.isIndexed()).toBe(false);
+      expect(service.search('embedding')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * SearchService - portal-wide full-text search
+ *
+ * Builds one inverted index over glossary terms, AI tools and introduction
+ * sections so a single query can be answered across all content, with hits
+ * ranked by where they matched and grouped by content type. Words are matched
+ * by FuzzyMatchService, so the search box accepts the same typos, prefixes
+ * and acronyms as the glossary and AI tools searches.
+ */
+
+import {
+  AppRoute,
+  IntroductionSection,
+  SearchResult,
+  SearchResultGroup,
+  SearchResultType,
+  SearchSources
+} from '../types';
+import { glossaryDataService } from './GlossaryDataService';
+import { aiToolsDataService } from './AIToolsDataService';
+import { introductionDataService } from './IntroductionDataService';
+import { markdownToPlainText } from './MarkdownParser';
+import { fuzzyMatchService } from './FuzzyMatchService';
+
+/**
+ * Relative weight of a match in each kind of field
+ */
+const TITLE_WEIGHT = 10;
+const SUMMARY_WEIGHT = 4;
+const DETAIL_WEIGHT = 2;
+
+/**
+ * Default number of results returned for each content type
+ */
+const DEFAULT_RESULTS_PER_GROUP = 5;
+
+/**
+ * Approximate length of a result snippet in characters
+ */
+const SNIPPET_LENGTH = 140;
+
+/**
+ * A piece of searchable text and how much a match in it counts
+ */
+interface IndexedField {
+  text: string;
+  weight: number;
+}
+
+/**
+ * A searchable item and where it leads
+ */
+interface IndexedDocument {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  fields: IndexedField[];
+  route: AppRoute;
+}
+
+/**
+ * Best weight with which a word occurs in a document
+ */
+interface Posting {
+  documentIndex: number;
+  weight: number;
+}
+
+export class SearchService {
+  private documents: IndexedDocument[] = [];
+  private index = new Map<string, Posting[]>();
+  private indexed = false;
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Build the index from already loaded content, replacing any previous index
+   * @param sources Glossary terms, AI tools and introduction sections to index
+   */
+  buildIndex(sources: SearchSources): void {
+    this.documents = [
+      ...sources.terms.map((term): IndexedDocument => ({
+        type: 'term',
+        id: term.id,
+        title: term.term,
+        fields: [
+          ...getNameFields([term.term, ...(term.aliases ?? [])]),
+          { text: getPlainText(term.definition), weight: SUMMARY_WEIGHT },
+          ...Object.values(term.roleContext).map(context => ({ text: getPlainText(context), weight: DETAIL_WEIGHT }))
+        ],
+        route: { view: 'glossary', termId: term.id }
+      })),
+      ...sources.tools.map((tool): IndexedDocument => ({
+        type: 'tool',
+        id: tool.id,
+        title: tool.name,
+        fields: [
+          ...getNameFields([tool.name]),
+          { text: getPlainText(tool.description), weight: SUMMARY_WEIGHT },
+          ...tool.commonUseCases.map(useCase => ({ text: useCase, weight: DETAIL_WEIGHT })),
+          ...tool.userExperiences.flatMap(experience => [
+            { text: getPlainText(experience.quote), weight: DETAIL_WEIGHT },
+            { text: experience.context, weight: DETAIL_WEIGHT },
+            { text: experience.useCase, weight: DETAIL_WEIGHT }
+          ]),
+          ...(tool.integrations ?? []).map(integration => ({ text: integration, weight: DETAIL_WEIGHT }))
+        ],
+        route: { view: 'ai-tools', toolId: tool.id }
+      })),
+      ...sources.sections.map((section): IndexedDocument => ({
+        type: 'introduction',
+        id: section.id,
+        title: section.title,
+        fields: [
+          { text: section.title, weight: TITLE_WEIGHT },
+          ...(section.subtitle ? [{ text: section.subtitle, weight: SUMMARY_WEIGHT }] : []),
+          ...getSectionText(section).map(text => ({ text, weight: DETAIL_WEIGHT }))
+        ],
+        route: { view: 'introduction', sectionId: section.id }
+      }))
+    ];
+
+    this.index = new Map();
+    this.documents.forEach((document, documentIndex) => {
+      const bestWeights = new Map<string, number>();
+
+      document.fields.forEach(field => {
+        tokenize(field.text).forEach(word => {
+          bestWeights.set(word, Math.max(bestWeights.get(word) ?? 0, field.weight));
+        });
+      });
+
+      bestWeights.forEach((weight, word) => {
+        const postings = this.index.get(word) ?? [];
+        postings.push({ documentIndex, weight });
+        this.index.set(word, postings);
+      });
+    });
+
+    this.indexed = true;
+  }
+
+  /**
+   * Load glossary terms, AI tools and introduction sections and index them
+   *
+   * Concurrent calls share one load. A source that fails to load is left out
+   * so the rest of the content stays searchable, but the index is not marked
+   * built and the load rejects, so the next call tries every source again.
+   * @throws The first source's load error when any source fails
+   */
+  async loadIndex(): Promise<void> {
+    if (this.indexed) {
+      return;
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const failures: unknown[] = [];
+        const skip = <T>(source: string, fallback: T) => (error: unknown): T => {
+          console.warn(`Search index skipped ${source}:`, error);
+          failures.push(error);
+          return fallback;
+        };
+
+        const [terms, tools, introduction] = await Promise.all([
+          glossaryDataService.loadGlossary().catch(skip('glossary terms', [])),
+          aiToolsDataService.loadTools().catch(skip('AI tools', [])),
+          introductionDataService.loadIntroduction().catch(skip('introduction sections', null))
+        ]);
+
+        this.buildIndex({ terms: terms ?? [], tools: tools ?? [], sections: introduction?.sections ?? [] });
+
+        if (failures.length > 0) {
+          this.indexed = false;
+          throw failures[0];
+        }
+      })().finally(() => {
+        this.loadPromise = null;
+      });
+    }
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Check whether the index has been built
+   * @returns true if search() can return results
+   */
+  isIndexed(): boolean {
+    return this.indexed;
+  }
+
+  /**
+   * Search all indexed content
+   *
+   * Every query word must match a word in the item, exactly or as a prefix,
+   * substring or near-miss spelling; weaker matches earn less. Title matches
+   * outrank summary matches, which outrank matches in role context, user
+   * experiences and section text.
+   * @param query Text typed by the user
+   * @param resultsPerGroup Maximum number of results for each content type
+   * @returns Result groups ordered by their best match, each ranked best first
+   */
+  search(query: string, resultsPerGroup: number = DEFAULT_RESULTS_PER_GROUP): SearchResultGroup[] {
+    const queryWords = tokenize(query);
+
+    if (queryWords.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<number, number>();
+
+    queryWords.forEach((queryWord, position) => {
+      const wordScores = this.scoreWord(queryWord);
+
+      if (position === 0) {
+        wordScores.forEach((score, documentIndex) => scores.set(documentIndex, score));
+        return;
+      }
+
+      // Keep only documents that match every query word so far
+      scores.forEach((score, documentIndex) => {
+        const wordScore = wordScores.get(documentIndex);
+        if (wordScore === undefined) {
+          scores.delete(documentIndex);
+        } else {
+          scores.set(documentIndex, score + wordScore);
+        }
+      });
+    });
+
+    const phrase = queryWords.join(' ');
+    const results: SearchResult[] = [];
+
+    scores.forEach((score, documentIndex) => {
+      const document = this.documents[documentIndex];
+      if (!document) {
+        return;
+      }
+
+      const normalizedTitle = tokenize(document.title).join(' ');
+      const phraseBonus = normalizedTitle === phrase
+        ? TITLE_WEIGHT * 2
+        : normalizedTitle.includes(phrase) ? TITLE_WEIGHT : 0;
+
+      results.push({
+        type: document.type,
+        id: document.id,
+        title: document.title,
+        snippet: buildSnippet(document, queryWords),
+        score: score + phraseBonus,
+        route: document.route
+      });
+    });
+
+    results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+
+    const groups = new Map<SearchResultType, SearchResult[]>();
+    results.forEach(result => {
+      const group = groups.get(result.type) ?? [];
+      if (group.length < resultsPerGroup) {
+        group.push(result);
+      }
+      groups.set(result.type, group);
+    });
+
+    return Array.from(groups.entries()).map(([type, groupResults]) => ({ type, results: groupResults }));
+  }
+
+  /**
+   * Clear the index (useful for testing)
+   */
+  clearIndex(): void {
+    this.documents = [];
+    this.index = new Map();
+    this.indexed = false;
+    this.loadPromise = null;
+  }
+
+  /**
+   * Score every document containing a word that matches a query word
+   */
+  private scoreWord(queryWord: string): Map<number, number> {
+    const wordScores = new Map<number, number>();
+
+    this.index.forEach((postings, word) => {
+      const quality = fuzzyMatchService.matchWord(queryWord, word);
+      if (quality === 0) {
+        return;
+      }
+
+      postings.forEach(({ documentIndex, weight }) => {
+        wordScores.set(documentIndex, Math.max(wordScores.get(documentIndex) ?? 0, weight * quality));
+      });
+    });
+
+    return wordScores;
+  }
+}
+
+/**
+ * Split text into lower-case words
+ */
+function tokenize(text: string): string[] {
+  return fuzzyMatchService.tokenize(text);
+}
+
+/**
+ * Title fields for an item's names and the acronyms they may be searched by
+ */
+function getNameFields(names: string[]): IndexedField[] {
+  return [...names, ...names.flatMap(name => fuzzyMatchService.getAcronyms(name))]
+    .map(text => ({ text, weight: TITLE_WEIGHT }));
+}
+
+/**
+ * Plain text of a Markdown field without formatting markers
+ */
+function getPlainText(markdown: string): string {
+  return markdownToPlainText(markdown).join(' ');
+}
+
+/**
+ * Plain text of each block of an introduction section
+ */
+function getSectionText(section: IntroductionSection): string[] {
+  return markdownToPlainText(section.content)
+    .filter(block => block.trim().length > 0);
+}
+
+/**
+ * Collapse runs of whitespace, such as line breaks inside a paragraph
+ */
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Excerpt of the highest-weighted non-title field mentioning a query word,
+ * falling back to the item's summary
+ */
+function buildSnippet(document: IndexedDocument, queryWords: string[]): string {
+  const candidates = document.fields
+    .filter(field => field.weight < TITLE_WEIGHT)
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const field of candidates) {
+    const text = cleanText(field.text);
+    const matchIndex = fuzzyMatchService.findMatchRanges(queryWords.join(' '), text)[0]?.start;
+
+    if (matchIndex !== undefined) {
+      return excerpt(text, matchIndex);
+    }
+  }
+
+  return excerpt(cleanText(candidates[0]?.text ?? ''), 0);
+}
+
+/**
+ * Cut a window of text around a position, adding ellipses where it was cut
+ */
+function excerpt(text: string, position: number): string {
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+
+  const start = Math.max(0, Math.min(position - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  const snippet = text.slice(start, end).trim();
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+// Export a singleton instance
+export const searchService = new SearchService();
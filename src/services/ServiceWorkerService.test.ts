@@ -0,0 +1,191 @@
+import { ServiceWorkerService } from './ServiceWorkerService';
+
+/**
+ * Minimal stand-ins for the browser service worker objects
+ */
+class FakeWorker extends EventTarget {
+  state = 'installing';
+  postMessage = jest.fn();
+
+  setState(state: string) {
+    this.state = state;
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+
+  findUpdate(worker: FakeWorker) {
+    this.installing = worker;
+    this.dispatchEvent(new Event('updatefound'));
+  }
+}
+
+class FakeContainer extends EventTarget {
+  controller: object | null = {};
+  register = jest.fn();
+}
+
+describe('ServiceWorkerService', () => {
+  let service: ServiceWorkerService;
+  let reloadPage: jest.Mock;
+  let container: FakeContainer;
+  let registration: FakeRegistration;
+
+  const cacheUpdatedMessage = () => new MessageEvent('message', {
+    data: { type: 'CACHE_UPDATED', meta: 'workbox-broadcast-update', payload: { updatedURL: '/glossary.json' } }
+  });
+
+  beforeEach(() => {
+    reloadPage = jest.fn();
+    service = new ServiceWorkerService(reloadPage);
+    container = new FakeContainer();
+    registration = new FakeRegistration();
+    container.register.mockResolvedValue(registration);
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('register', () => {
+    it('should not register outside production builds', () => {
+      service.register();
+
+      expect(container.register).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('registerWorker', () => {
+    it('should register the worker script', async () => {
+      await service.registerWorker('/service-worker.js');
+
+      expect(container.register).toHaveBeenCalledWith('/service-worker.js');
+      expect(service.getPendingUpdate()).toBeNull();
+    });
+
+    it('should report a new app version once it has installed', async () => {
+      const listener = jest.fn();
+      service.subscribe(listener);
+      await service.registerWorker('/service-worker.js');
+
+      const worker = new FakeWorker();
+      registration.findUpdate(worker);
+      expect(service.getPendingUpdate()).toBeNull();
+
+      worker.setState('installed');
+
+      expect(service.getPendingUpdate()).toBe('app');
+      expect(listener).toHaveBeenCalledWith('app');
+    });
+
+    it('should not report the first install as an update', async () => {
+      container.controller = null;
+      await service.registerWorker('/service-worker.js');
+
+      const worker = new FakeWorker();
+      registration.findUpdate(worker);
+      worker.setState('installed');
+
+      expect(service.getPendingUpdate()).toBeNull();
+    });
+
+    it('should report a worker left waiting by an earlier visit', async () => {
+      registration.waiting = new FakeWorker();
+
+      await service.registerWorker('/service-worker.js');
+
+      expect(service.getPendingUpdate()).toBe('app');
+    });
+
+    it('should report refreshed data files', async () => {
+      await service.registerWorker('/service-worker.js');
+
+      container.dispatchEvent(cacheUpdatedMessage());
+
+      expect(service.getPendingUpdate()).toBe('data');
+    });
+
+    it('should ignore unrelated messages', async () => {
+      await service.registerWorker('/service-worker.js');
+
+      container.dispatchEvent(new MessageEvent('message', { data: { type: 'PING' } }));
+      container.dispatchEvent(new MessageEvent('message', { data: null }));
+
+      expect(service.getPendingUpdate()).toBeNull();
+    });
+
+    it('should keep an app update when data also changes', async () => {
+      registration.waiting = new FakeWorker();
+      await service.registerWorker('/service-worker.js');
+
+      container.dispatchEvent(cacheUpdatedMessage());
+
+      expect(service.getPendingUpdate()).toBe('app');
+    });
+
+    it('should log registration failures', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      container.register.mockRejectedValue(new Error('Blocked'));
+
+      await service.registerWorker('/service-worker.js');
+
+      expect(consoleSpy).toHaveBeenCalledWith('Service worker registration failed:', expect.any(Error));
+    });
+  });
+
+  describe('applyUpdate', () => {
+    it('should activate the waiting worker and reload once it takes control', async () => {
+      const waitingWorker = new FakeWorker();
+      registration.waiting = waitingWorker;
+      await service.registerWorker('/service-worker.js');
+
+      service.applyUpdate();
+
+      expect(waitingWorker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+      expect(reloadPage).not.toHaveBeenCalled();
+
+      container.dispatchEvent(new Event('controllerchange'));
+      container.dispatchEvent(new Event('controllerchange'));
+
+      expect(reloadPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload straight away for refreshed data', async () => {
+      await service.registerWorker('/service-worker.js');
+      container.dispatchEvent(cacheUpdatedMessage());
+
+      service.applyUpdate();
+
+      expect(reloadPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing without a pending update', () => {
+      service.applyUpdate();
+
+      expect(reloadPage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismissUpdate', () => {
+    it('should clear the pending update and notify subscribers until unsubscribed', async () => {
+      const listener = jest.fn();
+      const unsubscribe = service.subscribe(listener);
+      await service.registerWorker('/service-worker.js');
+      container.dispatchEvent(cacheUpdatedMessage());
+
+      service.dismissUpdate();
+
+      expect(service.getPendingUpdate()).toBeNull();
+      expect(listener).toHaveBeenLastCalledWith(null);
+
+      unsubscribe();
+      container.dispatchEvent(cacheUpdatedMessage());
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * ServiceWorkerService - registers the offline service worker and reports updates
+ *
+ * The worker (src/service-worker.ts) caches the app shell and data files so
+ * the portal keeps working without a connection. This service registers it in
+ * production builds and tells subscribers when newer content is available:
+ * either a new app version waiting to activate, or data files that changed
+ * since the cached copy was shown.
+ */
+
+import { ContentUpdateKind } from '../types';
+
+/**
+ * Message type posted by Workbox when a stale-while-revalidate response changed
+ */
+const CACHE_UPDATED_MESSAGE = 'CACHE_UPDATED';
+
+export class ServiceWorkerService {
+  private pendingUpdate: ContentUpdateKind | null = null;
+  private waitingWorker: ServiceWorker | null = null;
+  private listeners = new Set<(update: ContentUpdateKind | null) => void>();
+  private isReloading = false;
+
+  /**
+   * @param reloadPage Reloads the page once an update is applied
+   */
+  constructor(private readonly reloadPage: () => void = () => window.location.reload()) {}
+
+  /**
+   * Register the service worker after the page has loaded
+   *
+   * Only production builds contain a compiled worker, so this does nothing
+   * during development and tests, or in browsers without service workers.
+   */
+  register(): void {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    window.addEventListener('load', () => {
+      this.registerWorker(`${process.env.PUBLIC_URL}/service-worker.js`);
+    });
+  }
+
+  /**
+   * Register a worker script and start watching it for updates
+   * @param swUrl URL of the compiled worker
+   */
+  async registerWorker(swUrl: string): Promise<void> {
+    try {
+      navigator.serviceWorker.addEventListener('message', this.handleMessage);
+
+      const registration = await navigator.serviceWorker.register(swUrl);
+
+      // A worker left waiting by an earlier visit is still an update to offer
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        this.setAppUpdate(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installingWorker = registration.installing;
+        if (!installingWorker) {
+          return;
+        }
+
+        installingWorker.addEventListener('statechange', () => {
+          // Without a controller this is the first install, which only makes the portal available offline
+          if (installingWorker.state === 'installed' && navigator.serviceWorker.controller) {
+            this.setAppUpdate(installingWorker);
+          }
+        });
+      });
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  }
+
+  /**
+   * Get the update waiting to be applied
+   * @returns 'app' for a new app version, 'data' for refreshed data files, or null
+   */
+  getPendingUpdate(): ContentUpdateKind | null {
+    return this.pendingUpdate;
+  }
+
+  /**
+   * Listen for updates becoming available or being dismissed
+   * @param listener Called with the pending update after every change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (update: ContentUpdateKind | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Show the newer content by activating the waiting worker and reloading
+   */
+  applyUpdate(): void {
+    if (this.isReloading) {
+      return;
+    }
+
+    const waitingWorker = this.waitingWorker;
+    if (this.pendingUpdate === 'app' && waitingWorker) {
+      // Reload once the new worker has taken control so the page uses its cache
+      navigator.serviceWorker.addEventListener('controllerchange', () => this.reload(), { once: true });
+      waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+      return;
+    }
+
+    if (this.pendingUpdate === 'data') {
+      this.reload();
+    }
+  }
+
+  /**
+   * Hide the pending update until the next one arrives
+   */
+  dismissUpdate(): void {
+    this.setPendingUpdate(null);
+  }
+
+  /**
+   * Record a data file refresh reported by the worker
+   */
+  private handleMessage = (event: MessageEvent): void => {
+    const data = event.data as { type?: unknown; meta?: unknown } | null;
+
+    if (data?.type !== CACHE_UPDATED_MESSAGE || data.meta !== 'workbox-broadcast-update') {
+      return;
+    }
+
+    // A new app version already includes fresh data, so it takes precedence
+    if (this.pendingUpdate !== 'app') {
+      this.setPendingUpdate('data');
+    }
+  };
+
+  /**
+   * Remember a newly installed worker that is waiting to take over
+   */
+  private setAppUpdate(worker: ServiceWorker): void {
+    this.waitingWorker = worker;
+    this.setPendingUpdate('app');
+  }
+
+  /**
+   * Store the pending update and notify subscribers
+   */
+  private setPendingUpdate(update: ContentUpdateKind | null): void {
+    this.pendingUpdate = update;
+    this.listeners.forEach(listener => listener(update));
+  }
+
+  /**
+   * Reload the page at most once per update
+   */
+  private reload(): void {
+    this.isReloading = true;
+    this.reloadPage();
+  }
+}
+
+// Export a singleton instance
+export const serviceWorkerService = new ServiceWorkerService();
@@ -0,0 +1,124 @@
+import { SpacedRepetitionService } from './SpacedRepetitionService';
+import { ReviewSchedule, TermReviewState } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SpacedRepetitionService', () => {
+  let service: SpacedRepetitionService;
+  const now = new Date('2024-06-01T12:00:00Z').getTime();
+
+  beforeEach(() => {
+    service = new SpacedRepetitionService();
+  });
+
+  describe('qualityFromAnswer', () => {
+    it('should map correct answers to a passing quality', () => {
+      expect(service.qualityFromAnswer(true)).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should map incorrect answers to a failing quality', () => {
+      expect(service.qualityFromAnswer(false)).toBeLessThan(3);
+    });
+  });
+
+  describe('scheduleReview', () => {
+    it('should schedule a first correct review for the next day', () => {
+      const state = service.scheduleReview('AI', undefined, 4, now);
+
+      expect(state).toEqual({
+        termId: 'AI',
+        easeFactor: 2.5,
+        interval: 1,
+        repetitions: 1,
+        dueDate: now + DAY_MS,
+        lastReviewed: now
+      });
+    });
+
+    it('should schedule the second correct review six days out', () => {
+      const first = service.scheduleReview('AI', undefined, 4, now);
+      const second = service.scheduleReview('AI', first, 4, now);
+
+      expect(second.repetitions).toBe(2);
+      expect(second.interval).toBe(6);
+      expect(second.dueDate).toBe(now + 6 * DAY_MS);
+    });
+
+    it('should grow the interval by the ease factor after that', () => {
+      const previous: TermReviewState = {
+        termId: 'AI',
+        easeFactor: 2.5,
+        interval: 6,
+        repetitions: 2,
+        dueDate: now,
+        lastReviewed: now - 6 * DAY_MS
+      };
+
+      const state = service.scheduleReview('AI', previous, 5, now);
+
+      expect(state.repetitions).toBe(3);
+      expect(state.easeFactor).toBe(2.6);
+      expect(state.interval).toBe(16);
+    });
+
+    it('should reset repetitions and lower ease after an incorrect answer', () => {
+      const previous: TermReviewState = {
+        termId: 'AI',
+        easeFactor: 2.5,
+        interval: 15,
+        repetitions: 3,
+        dueDate: now,
+        lastReviewed: now - 15 * DAY_MS
+      };
+
+      const state = service.scheduleReview('AI', previous, 1, now);
+
+      expect(state.repetitions).toBe(0);
+      expect(state.interval).toBe(1);
+      expect(state.easeFactor).toBeLessThan(2.5);
+      expect(state.dueDate).toBe(now + DAY_MS);
+    });
+
+    it('should never drop the ease factor below 1.3', () => {
+      let state: TermReviewState | undefined;
+      for (let i = 0; i < 10; i++) {
+        state = service.scheduleReview('AI', state, 0, now);
+      }
+
+      expect(state?.easeFactor).toBe(1.3);
+    });
+  });
+
+  describe('getDueTerms', () => {
+    it('should return due terms ordered by most overdue first', () => {
+      const schedule: ReviewSchedule = {
+        AI: { termId: 'AI', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now - DAY_MS, lastReviewed: now - 2 * DAY_MS },
+        ML: { termId: 'ML', easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now + DAY_MS, lastReviewed: now - 5 * DAY_MS },
+        DL: { termId: 'DL', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now - 3 * DAY_MS, lastReviewed: now - 4 * DAY_MS }
+      };
+
+      expect(service.getDueTerms(schedule, now)).toEqual(['DL', 'AI']);
+    });
+
+    it('should return an empty array for an empty schedule', () => {
+      expect(service.getDueTerms({}, now)).toEqual([]);
+    });
+  });
+
+  describe('getReviewPriority', () => {
+    const schedule: ReviewSchedule = {
+      overdue: { termId: 'overdue', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now - 2 * DAY_MS, lastReviewed: now - 3 * DAY_MS },
+      due: { termId: 'due', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now, lastReviewed: now - DAY_MS },
+      upcoming: { termId: 'upcoming', easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now + 2 * DAY_MS, lastReviewed: now - 4 * DAY_MS }
+    };
+
+    it('should rank overdue, due, unseen and upcoming terms in that order', () => {
+      const ranked = ['upcoming', 'unseen', 'due', 'overdue']
+        .sort((a, b) =>
+          service.getReviewPriority(a, schedule, now) - service.getReviewPriority(b, schedule, now)
+        );
+
+      expect(ranked).toEqual(['overdue', 'due', 'unseen', 'upcoming']);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * SpacedRepetitionService - SM-2 style review scheduling for quiz terms
+ *
+ * Tracks per-term ease, interval and due date so that terms the user keeps
+ * missing come back sooner and well-known terms are spaced further apart.
+ */
+
+import { ReviewSchedule, TermReviewState } from '../types';
+
+/**
+ * Milliseconds in one day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Starting ease factor for a term that has never been reviewed
+ */
+const DEFAULT_EASE_FACTOR = 2.5;
+
+/**
+ * Lowest ease factor allowed by SM-2
+ */
+const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * Review quality (0-5) recorded for correct and incorrect quiz answers
+ */
+const CORRECT_ANSWER_QUALITY = 4;
+const INCORRECT_ANSWER_QUALITY = 1;
+
+export class SpacedRepetitionService {
+  /**
+   * Map a quiz answer onto an SM-2 review quality
+   * @param isCorrect Whether the answer was correct
+   * @returns Review quality between 0 and 5
+   */
+  qualityFromAnswer(isCorrect: boolean): number {
+    return isCorrect ? CORRECT_ANSWER_QUALITY : INCORRECT_ANSWER_QUALITY;
+  }
+
+  /**
+   * Calculate the next review state for a term
+   * @param termId Id of the term being reviewed
+   * @param previous The previous review state, if the term has been reviewed before
+   * @param quality Review quality between 0 (blackout) and 5 (perfect recall)
+   * @param now Timestamp of the review
+   * @returns Updated review state
+   */
+  scheduleReview(
+    termId: string,
+    previous: TermReviewState | undefined,
+    quality: number,
+    now: number = Date.now()
+  ): TermReviewState {
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+    const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+    const repetitions = previous?.repetitions ?? 0;
+    const interval = previous?.interval ?? 0;
+
+    const nextEaseFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+    );
+
+    let nextRepetitions: number;
+    let nextInterval: number;
+
+    if (q < 3) {
+      // Failed recall - start the term over and review it again tomorrow
+      nextRepetitions = 0;
+      nextInterval = 1;
+    } else {
+      nextRepetitions = repetitions + 1;
+      if (nextRepetitions === 1) {
+        nextInterval = 1;
+      } else if (nextRepetitions === 2) {
+        nextInterval = 6;
+      } else {
+        nextInterval = Math.round(interval * nextEaseFactor);
+      }
+    }
+
+    return {
+      termId,
+      easeFactor: Math.round(nextEaseFactor * 100) / 100,
+      interval: nextInterval,
+      repetitions: nextRepetitions,
+      dueDate: now + nextInterval * DAY_MS,
+      lastReviewed: now
+    };
+  }
+
+  /**
+   * Check whether a term is due for review
+   * @param state The review state of the term
+   * @param now Current timestamp
+   * @returns true if the due date has passed
+   */
+  isDue(state: TermReviewState, now: number = Date.now()): boolean {
+    return state.dueDate <= now;
+  }
+
+  /**
+   * Get all due and overdue terms, most overdue first
+   * @param schedule The review schedule
+   * @param now Current timestamp
+   * @returns Array of term ids ordered by due date
+   */
+  getDueTerms(schedule: ReviewSchedule, now: number = Date.now()): string[] {
+    return Object.values(schedule)
+      .filter(state => this.isDue(state, now))
+      .sort((a, b) => a.dueDate - b.dueDate)
+      .map(state => state.termId);
+  }
+
+  /**
+   * Rank a term for quiz selection: due and overdue terms first (most overdue
+   * first), then terms that have never been reviewed, then upcoming terms by
+   * how soon they fall due
+   * @param termId Id of the term to rank
+   * @param schedule The review schedule
+   * @param now Current timestamp
+   * @returns Numeric priority where lower values should be asked first
+   */
+  getReviewPriority(termId: string, schedule: ReviewSchedule, now: number = Date.now()): number {
+    const state = schedule[termId];
+
+    if (!state) {
+      return 1;
+    }
+
+    if (this.isDue(state, now)) {
+      // Overdue terms sort ahead of terms that only just fell due
+      return -1 - (now - state.dueDate) / DAY_MS;
+    }
+
+    return 2 + (state.dueDate - now) / DAY_MS;
+  }
+}
+
+// Export a singleton instance
+export const spacedRepetitionService = new SpacedRepetitionService();
@@ -0,0 +1,199 @@
+import {
+  CURRENT_STORAGE_VERSION,
+  MIGRATION_FAILED_MESSAGE,
+  STORAGE_MIGRATIONS,
+  StorageMigration,
+  compareVersions,
+  migrateStoredData,
+  needsMigration
+} from './StorageMigrations';
+import { StorageError } from './AppErrors';
+
+const step = (version: string) => {
+  const migration = STORAGE_MIGRATIONS.find(candidate => candidate.version === version);
+  if (!migration) {
+    throw new Error(`No migration to ${version}`);
+  }
+  return migration;
+};
+
+const attempt = {
+  timestamp: 1700000000000,
+  score: 2,
+  totalQuestions: 3,
+  questionsAnswered: ['token', 'prompt', 'model']
+};
+
+describe('StorageMigrations', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('registry', () => {
+    it('lists the steps in version order and saves with the latest version', () => {
+      const versions = STORAGE_MIGRATIONS.map(migration => migration.version);
+
+      expect([...versions].sort(compareVersions)).toEqual(versions);
+      expect(new Set(versions).size).toBe(versions.length);
+      expect(CURRENT_STORAGE_VERSION).toBe(versions[versions.length - 1]);
+    });
+  });
+
+  describe('1.0.0', () => {
+    it('fills in missing fields and keeps existing progress', () => {
+      expect(step('1.0.0').migrate({
+        quizHistory: [attempt],
+        reviewSchedule: { token: { term: 'token' } },
+        legacyField: true
+      })).toEqual({
+        quizHistory: [attempt],
+        answeredTerms: [],
+        reviewSchedule: { token: { term: 'token' } },
+        preferences: {}
+      });
+    });
+  });
+
+  describe('1.1.0', () => {
+    it('adds an empty answer history', () => {
+      const data = { version: '1.0.0', quizHistory: [attempt], answeredTerms: ['token'], preferences: {} };
+
+      expect(step('1.1.0').migrate(data)).toEqual({ ...data, answerHistory: [] });
+    });
+  });
+
+  describe('1.2.0', () => {
+    it('adds introduction progress with no sections read', () => {
+      const data = { version: '1.1.0', quizHistory: [attempt], answeredTerms: ['token'], answerHistory: [], preferences: {} };
+
+      expect(step('1.2.0').migrate(data)).toEqual({ ...data, introductionProgress: { readSections: {} } });
+    });
+  });
+
+  describe('1.3.0', () => {
+    it('adds empty knowledge check results and keeps sections read', () => {
+      const readSections = { overview: { sectionId: 'overview', method: 'marked', readAt: 1700000000000 } };
+      const data = {
+        version: '1.2.0',
+        quizHistory: [],
+        answeredTerms: [],
+        answerHistory: [],
+        introductionProgress: { readSections, lastSectionId: 'overview' },
+        preferences: {}
+      };
+
+      expect(step('1.3.0').migrate(data)).toEqual({
+        ...data,
+        introductionProgress: { readSections, lastSectionId: 'overview', checkResults: {} }
+      });
+    });
+  });
+
+  describe('1.4.0', () => {
+    const reviewState = { easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: 1700086400000, lastReviewed: 1700000000000 };
+    const outcome = { questionId: 'q-001', selectedAnswer: 'A', isCorrect: true, timeTakenMs: 1200, timestamp: 1700000000000 };
+    const data = {
+      version: '1.3.0',
+      quizHistory: [{ ...attempt, questionsAnswered: ['Token', 'Prompt', 'Machine Learning (ML)'] }],
+      answeredTerms: ['Token', 'Prompt', 'Machine Learning (ML)'],
+      answerHistory: [{ ...outcome, term: 'Machine Learning (ML)' }],
+      reviewSchedule: { Token: { ...reviewState, term: 'Token' } },
+      introductionProgress: { readSections: {}, checkResults: {} },
+      preferences: {}
+    };
+
+    it('replaces stored term names with glossary term ids', () => {
+      expect(migrateStoredData(data)).toEqual({
+        ...data,
+        version: '1.4.0',
+        quizHistory: [{ ...attempt, questionsAnswered: ['token', 'prompt', 'machine-learning'] }],
+        answeredTerms: ['token', 'prompt', 'machine-learning'],
+        answerHistory: [{ ...outcome, termId: 'machine-learning' }],
+        reviewSchedule: { token: { ...reviewState, termId: 'token' } }
+      });
+    });
+
+    it('keeps names it has no id for and merges terms recorded under both', () => {
+      const migrated = step('1.4.0').migrate({
+        ...data,
+        answeredTerms: ['Quantum Computing', 'Token', 'token'],
+        answerHistory: [{ ...outcome, term: 'Quantum Computing' }]
+      });
+
+      expect(migrated.answeredTerms).toEqual(['Quantum Computing', 'token']);
+      expect(migrated.answerHistory).toEqual([{ ...outcome, termId: 'Quantum Computing' }]);
+    });
+  });
+
+  describe('needsMigration', () => {
+    it('is needed for unversioned and older data only', () => {
+      expect(needsMigration({})).toBe(true);
+      expect(needsMigration({ version: '1.0.0' })).toBe(true);
+      expect(needsMigration({ version: CURRENT_STORAGE_VERSION })).toBe(false);
+      expect(needsMigration({ version: '99.0.0' })).toBe(false);
+    });
+  });
+
+  describe('migrateStoredData', () => {
+    it('runs every newer step in order', () => {
+      expect(migrateStoredData({ version: '0.9.0', answeredTerms: ['token'] })).toEqual({
+        version: CURRENT_STORAGE_VERSION,
+        quizHistory: [],
+        answeredTerms: ['token'],
+        answerHistory: [],
+        introductionProgress: { readSections: {}, checkResults: {} },
+        preferences: {}
+      });
+    });
+
+    it('skips steps the data has already been through', () => {
+      const migrations: StorageMigration[] = [
+        { version: '2.0.0', description: 'Second', migrate: jest.fn(data => data) },
+        { version: '1.0.0', description: 'First', migrate: jest.fn(data => ({ ...data, answerHistory: [] })) }
+      ];
+
+      const migrated = migrateStoredData(
+        {
+          version: '1.0.0',
+          quizHistory: [],
+          answeredTerms: [],
+          answerHistory: [],
+          introductionProgress: { readSections: {}, checkResults: {} },
+          preferences: {}
+        },
+        migrations
+      );
+
+      expect(migrations[1]!.migrate).not.toHaveBeenCalled();
+      expect(migrations[0]!.migrate).toHaveBeenCalledTimes(1);
+      expect(migrated.version).toBe('2.0.0');
+    });
+
+    it('reports a failed step as a storage error', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const migrations: StorageMigration[] = [{
+        version: '2.0.0',
+        description: 'Broken',
+        migrate: () => {
+          throw new Error('Unexpected field');
+        }
+      }];
+
+      expect(() => migrateStoredData({ version: '1.0.0' }, migrations)).toThrow(
+        new StorageError('migrate', MIGRATION_FAILED_MESSAGE)
+      );
+    });
+
+    it('rejects a result that is not valid saved data', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const migrations: StorageMigration[] = [
+        { version: '2.0.0', description: 'Drops history', migrate: ({ quizHistory, ...rest }) => rest }
+      ];
+
+      expect(() => migrateStoredData(
+        { version: '1.0.0', quizHistory: [], answeredTerms: [], answerHistory: [], preferences: {} },
+        migrations
+      )).toThrow(StorageError);
+    });
+  });
+});
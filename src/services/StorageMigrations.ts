@@ -0,0 +1,207 @@
+/**
+ * StorageMigrations - upgrades saved progress written by older versions
+ *
+ * Every change to the stored format adds a step to STORAGE_MIGRATIONS that
+ * upgrades data by exactly one version, so data from any older version passes
+ * through every intermediate step in order. The last step's version is the
+ * version new data is saved with.
+ */
+
+import { StoredUserData, isStoredUserData } from '../types';
+import { StorageError } from './AppErrors';
+
+/**
+ * Saved data while it is being migrated, before it matches StoredUserData
+ */
+export type StoredDataDraft = Record<string, any>;
+
+/**
+ * One step in the upgrade of saved data
+ */
+export interface StorageMigration {
+  /** Version the step upgrades to; steps run in version order */
+  version: string;
+  /** What the step changes, for the console */
+  description: string;
+  /**
+   * Upgrade data saved by the version before this one. Throw if the data
+   * cannot be upgraded; the version field is stamped by the caller.
+   */
+  migrate: (data: StoredDataDraft) => StoredDataDraft;
+}
+
+/**
+ * Message shown when saved progress could not be upgraded
+ */
+export const MIGRATION_FAILED_MESSAGE =
+  'Your saved progress could not be updated for this version of the portal. ' +
+  'It has been kept as it was, but progress made during this visit will not be saved.';
+
+/**
+ * Glossary term ids by the display names that progress was recorded under
+ * before 1.4.0. Saved data only ever holds names from those versions, so the
+ * table is fixed rather than read from the current glossary.
+ */
+const TERM_IDS_BY_NAME: Record<string, string> = {
+  'Artificial Intelligence (AI)': 'artificial-intelligence',
+  'Machine Learning (ML)': 'machine-learning',
+  'Dataset': 'dataset',
+  'Feature': 'feature',
+  'Model': 'model',
+  'Training': 'training',
+  'Inference': 'inference',
+  'Prompt': 'prompt',
+  'Token': 'token',
+  'Latency': 'latency',
+  'Overfitting': 'overfitting',
+  'Bias': 'bias',
+  'Large Language Model (LLM)': 'large-language-model',
+  'Embedding': 'embedding',
+  'Fine-Tuning': 'fine-tuning',
+  'Hyperparameter': 'hyperparameter',
+  'Neural Network': 'neural-network',
+  'Drift': 'drift'
+};
+
+/**
+ * Look up the id for a term name; names not in the table are kept as they are
+ */
+function toTermId(name: string): string {
+  return TERM_IDS_BY_NAME[name] ?? name;
+}
+
+/**
+ * Migration steps, oldest first
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: '1.0.0',
+    description: 'Fill in the fields of the first versioned format',
+    migrate: data => ({
+      quizHistory: data.quizHistory || [],
+      answeredTerms: data.answeredTerms || [],
+      ...(data.reviewSchedule && { reviewSchedule: data.reviewSchedule }),
+      preferences: data.preferences || {}
+    })
+  },
+  {
+    // Earlier attempts only recorded which terms were asked, so there is no
+    // history to backfill
+    version: '1.1.0',
+    description: 'Add per-question answer history',
+    migrate: data => ({ ...data, answerHistory: [] })
+  },
+  {
+    version: '1.2.0',
+    description: 'Add introduction reading progress',
+    migrate: data => ({ ...data, introductionProgress: { readSections: {} } })
+  },
+  {
+    version: '1.3.0',
+    description: 'Add introduction knowledge check results',
+    migrate: data => ({
+      ...data,
+      introductionProgress: { ...data.introductionProgress, checkResults: {} }
+    })
+  },
+  {
+    version: '1.4.0',
+    description: 'Record quiz progress by glossary term id instead of term name',
+    migrate: data => ({
+      ...data,
+      quizHistory: data.quizHistory.map((attempt: StoredDataDraft) => ({
+        ...attempt,
+        questionsAnswered: attempt.questionsAnswered.map(toTermId)
+      })),
+      answeredTerms: Array.from(new Set(data.answeredTerms.map(toTermId))),
+      answerHistory: data.answerHistory.map(({ term, ...outcome }: StoredDataDraft) => ({
+        ...outcome,
+        termId: toTermId(term)
+      })),
+      ...(data.reviewSchedule && {
+        reviewSchedule: Object.keys(data.reviewSchedule).reduce<StoredDataDraft>((schedule, name) => {
+          const { term, ...state } = data.reviewSchedule[name];
+          schedule[toTermId(name)] = { ...state, termId: toTermId(term) };
+          return schedule;
+        }, {})
+      })
+    })
+  }
+];
+
+/**
+ * Version that data is saved with
+ */
+export const CURRENT_STORAGE_VERSION = latestVersion(STORAGE_MIGRATIONS);
+
+/**
+ * Check whether saved data was written by an older version; data without a
+ * version predates versioning
+ */
+export function needsMigration(data: StoredDataDraft, migrations: StorageMigration[] = STORAGE_MIGRATIONS): boolean {
+  return compareVersions(versionOf(data), latestVersion(migrations)) < 0;
+}
+
+/**
+ * Run every step newer than the data's version, in order
+ * @param data Saved data as parsed from storage
+ * @param migrations The steps to choose from
+ * @returns The upgraded data
+ * @throws StorageError when a step fails or the result is not valid saved data
+ */
+export function migrateStoredData(
+  data: StoredDataDraft,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): StoredUserData {
+  const fromVersion = versionOf(data);
+  const steps = [...migrations]
+    .sort((a, b) => compareVersions(a.version, b.version))
+    .filter(step => compareVersions(step.version, fromVersion) > 0);
+
+  let migrated = data;
+  for (const step of steps) {
+    try {
+      migrated = { ...step.migrate(migrated), version: step.version };
+    } catch (error) {
+      console.error(`Storage migration to ${step.version} (${step.description}) failed:`, error);
+      throw new StorageError('migrate', MIGRATION_FAILED_MESSAGE);
+    }
+  }
+
+  if (!isStoredUserData(migrated)) {
+    console.error(`Data migrated from version ${fromVersion} is not valid saved data:`, migrated);
+    throw new StorageError('migrate', MIGRATION_FAILED_MESSAGE);
+  }
+
+  return migrated;
+}
+
+/**
+ * Compare two dotted version strings numerically
+ * @returns Negative if a < b, positive if a > b, zero if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split('.').map(part => parseInt(part, 10) || 0);
+  const bParts = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(aParts.length, bParts.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  return 0;
+}
+
+function versionOf(data: StoredDataDraft): string {
+  return typeof data.version === 'string' ? data.version : '0.0.0';
+}
+
+function latestVersion(migrations: StorageMigration[]): string {
+  return migrations.reduce(
+    (latest, step) => (compareVersions(step.version, latest) > 0 ? step.version : latest),
+    '0.0.0'
+  );
+}
@@ -0,0 +1,44 @@
+import { ValidationReportService } from './ValidationReportService';
+import { InvalidRecord } from '../types';
+
+describe('ValidationReportService', () => {
+  let service: ValidationReportService;
+
+  const skipped: InvalidRecord[] = [
+    { index: 2, id: 'token', issues: [{ path: 'terms[2].definition', message: 'is required' }] }
+  ];
+
+  beforeEach(() => {
+    service = new ValidationReportService();
+  });
+
+  it('keeps a report per file with skipped records', () => {
+    service.report('glossary.json', skipped);
+    service.report('questions.json', []);
+
+    expect(service.getReports()).toEqual([{ file: 'glossary.json', skipped }]);
+  });
+
+  it('replaces the report when a file is loaded again', () => {
+    service.report('glossary.json', skipped);
+    service.report('glossary.json', []);
+
+    expect(service.getReports()).toEqual([]);
+  });
+
+  it('notifies listeners of changes until they unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = service.subscribe(listener);
+
+    service.report('glossary.json', skipped);
+    expect(listener).toHaveBeenCalledWith([{ file: 'glossary.json', skipped }]);
+
+    // A clean file that had no report changes nothing
+    service.report('questions.json', []);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    service.clear();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * ValidationReportService - collects the records skipped while loading content
+ *
+ * The data services skip records that fail validation so one mistake does
+ * not hide a whole file. They report what they skipped here, and the
+ * developer panel lists it so content authors can see what to fix.
+ */
+
+import { InvalidRecord, ValidationReport } from '../types';
+
+export class ValidationReportService {
+  private reports = new Map<string, InvalidRecord[]>();
+  private listeners = new Set<(reports: ValidationReport[]) => void>();
+
+  /**
+   * Record what was skipped while loading a file, replacing any earlier report
+   * @param file File name inside the public folder
+   * @param skipped Records skipped from the file; empty when all were valid
+   */
+  report(file: string, skipped: InvalidRecord[]): void {
+    if (skipped.length > 0) {
+      this.reports.set(file, skipped);
+    } else if (!this.reports.delete(file)) {
+      return;
+    }
+
+    const reports = this.getReports();
+    this.listeners.forEach(listener => listener(reports));
+  }
+
+  /**
+   * Get the files with skipped records, in the order they were first reported
+   */
+  getReports(): ValidationReport[] {
+    return Array.from(this.reports, ([file, skipped]) => ({ file, skipped }));
+  }
+
+  /**
+   * Listen for new reports
+   * @param listener Called with all reports after every change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (reports: ValidationReport[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget all reports
+   */
+  clear(): void {
+    this.reports.clear();
+    this.listeners.forEach(listener => listener([]));
+  }
+}
+
+// Export a singleton instance
+export const validationReportService = new ValidationReportService();
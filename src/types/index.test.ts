@@ -13,16 +13,25 @@ import {
   UserExperience,
   AITool,
   AIToolsData,
+  LearningPath,
+  IntroductionContent,
   isUserRole,
   isGlossaryTerm,
+  isLearningPath,
   isQuizQuestion,
   isQuizAttempt,
   isStoredUserData,
+  isQuestionOutcome,
+  isTermReviewState,
+  isSectionReadState,
+  isSectionCheckResult,
   isQuizResults,
   isToolCategory,
   isUserExperience,
   isAITool,
   isAIToolsData,
+  isIntroductionSection,
+  isIntroductionContent,
 } from './index';
 
 describe('Type Guards', () => {
@@ -109,6 +118,55 @@ describe('Type Guards', () => {
       };
       expect(isGlossaryTerm(nonStringRoleContext)).toBe(false);
     });
+
+    it('should accept aliases, related terms, prerequisites and a category', () => {
+      expect(isGlossaryTerm({
+        ...validGlossaryTerm,
+        aliases: ['AI'],
+        relatedTerms: ['ml-001', 'llm-001'],
+        prerequisites: ['data-001'],
+        category: 'foundations',
+      })).toBe(true);
+    });
+
+    it('should return false for invalid aliases or categories', () => {
+      expect(isGlossaryTerm({ ...validGlossaryTerm, aliases: 'AI' })).toBe(false);
+      expect(isGlossaryTerm({ ...validGlossaryTerm, aliases: [''] })).toBe(false);
+      expect(isGlossaryTerm({ ...validGlossaryTerm, category: 'robotics' })).toBe(false);
+    });
+
+    it('should return false for invalid term references', () => {
+      expect(isGlossaryTerm({ ...validGlossaryTerm, relatedTerms: [42] })).toBe(false);
+      expect(isGlossaryTerm({ ...validGlossaryTerm, relatedTerms: ['ml-001', 'ml-001'] })).toBe(false);
+      expect(isGlossaryTerm({ ...validGlossaryTerm, relatedTerms: ['ai-001'] })).toBe(false);
+      expect(isGlossaryTerm({ ...validGlossaryTerm, prerequisites: ['ai-001'] })).toBe(false);
+    });
+  });
+
+  describe('isLearningPath', () => {
+    const validPath: LearningPath = {
+      id: 'llm-fundamentals',
+      title: 'LLM Fundamentals',
+      description: 'How large language models work',
+      termIds: ['token', 'large-language-model'],
+    };
+
+    it('should return true for a valid learning path', () => {
+      expect(isLearningPath(validPath)).toBe(true);
+    });
+
+    it('should return false for missing or empty fields', () => {
+      expect(isLearningPath(null)).toBe(false);
+      expect(isLearningPath({ ...validPath, id: '' })).toBe(false);
+      expect(isLearningPath({ ...validPath, title: '   ' })).toBe(false);
+      expect(isLearningPath({ ...validPath, description: undefined })).toBe(false);
+    });
+
+    it('should return false for empty, invalid or duplicated term ids', () => {
+      expect(isLearningPath({ ...validPath, termIds: [] })).toBe(false);
+      expect(isLearningPath({ ...validPath, termIds: ['token', 42] })).toBe(false);
+      expect(isLearningPath({ ...validPath, termIds: ['token', 'token'] })).toBe(false);
+    });
   });
 
   describe('isQuizQuestion', () => {
@@ -118,7 +176,7 @@ describe('Type Guards', () => {
       question: 'What does AI stand for?',
       options: ['Artificial Intelligence', 'Automated Intelligence', 'Advanced Intelligence'],
       correctAnswer: 'Artificial Intelligence',
-      glossaryLink: '#ai',
+      termId: 'ai',
     };
 
     it('should return true for valid quiz questions', () => {
@@ -132,6 +190,16 @@ describe('Type Guards', () => {
       expect(isQuizQuestion('string')).toBe(false);
     });
 
+    it('should accept questions tagged with valid roles', () => {
+      expect(isQuizQuestion({ ...validQuizQuestion, roles: ['engineer', 'data-scientist'] })).toBe(true);
+      expect(isQuizQuestion({ ...validQuizQuestion, roles: [] })).toBe(true);
+    });
+
+    it('should return false when roles are invalid', () => {
+      expect(isQuizQuestion({ ...validQuizQuestion, roles: ['engineer', 'astronaut'] })).toBe(false);
+      expect(isQuizQuestion({ ...validQuizQuestion, roles: 'engineer' })).toBe(false);
+    });
+
     it('should return false when required fields are missing', () => {
       const { id, ...withoutId } = validQuizQuestion;
       expect(isQuizQuestion(withoutId)).toBe(false);
@@ -167,6 +235,65 @@ describe('Type Guards', () => {
       };
       expect(isQuizQuestion(invalidCorrectAnswer)).toBe(false);
     });
+
+    describe('question types', () => {
+      const base = { id: 'q-002', term: 'AI', question: 'Question?', termId: 'ai' };
+
+      it('should accept an explicit single-choice type', () => {
+        expect(isQuizQuestion({ ...validQuizQuestion, type: 'single-choice' })).toBe(true);
+      });
+
+      it('should validate multi-select questions', () => {
+        const multiSelect = { ...base, type: 'multi-select', options: ['A', 'B', 'C'], correctAnswers: ['A', 'C'] };
+        expect(isQuizQuestion(multiSelect)).toBe(true);
+        expect(isQuizQuestion({ ...multiSelect, correctAnswers: [] })).toBe(false);
+        expect(isQuizQuestion({ ...multiSelect, correctAnswers: ['D'] })).toBe(false);
+        expect(isQuizQuestion({ ...multiSelect, correctAnswers: 'A' })).toBe(false);
+      });
+
+      it('should validate true/false questions', () => {
+        expect(isQuizQuestion({ ...base, type: 'true-false', correctAnswer: true })).toBe(true);
+        expect(isQuizQuestion({ ...base, type: 'true-false', correctAnswer: 'true' })).toBe(false);
+      });
+
+      it('should validate ordering questions', () => {
+        const ordering = { ...base, type: 'ordering', items: ['B', 'A', 'C'], correctOrder: ['A', 'B', 'C'] };
+        expect(isQuizQuestion(ordering)).toBe(true);
+        expect(isQuizQuestion({ ...ordering, correctOrder: ['A', 'B'] })).toBe(false);
+        expect(isQuizQuestion({ ...ordering, correctOrder: ['A', 'A', 'B'] })).toBe(false);
+        expect(isQuizQuestion({ ...ordering, correctOrder: ['A', 'B', 'D'] })).toBe(false);
+        expect(isQuizQuestion({ ...ordering, items: ['A'], correctOrder: ['A'] })).toBe(false);
+      });
+
+      it('should validate free-text questions', () => {
+        expect(isQuizQuestion({ ...base, type: 'free-text', acceptedAnswers: ['Artificial Intelligence', 'AI'] })).toBe(true);
+        expect(isQuizQuestion({ ...base, type: 'free-text', acceptedAnswers: [] })).toBe(false);
+        expect(isQuizQuestion({ ...base, type: 'free-text', acceptedAnswers: ['  '] })).toBe(false);
+      });
+
+      it('should validate optional explanations', () => {
+        expect(isQuizQuestion({ ...validQuizQuestion, explanation: 'AI stands for Artificial Intelligence.' })).toBe(true);
+        expect(isQuizQuestion({ ...validQuizQuestion, explanation: '' })).toBe(false);
+        expect(isQuizQuestion({ ...validQuizQuestion, explanation: 42 })).toBe(false);
+      });
+
+      it('should only accept rationale for wrong options', () => {
+        const rationale = { 'Automated Intelligence': 'Nothing about AI is specific to automation.' };
+        expect(isQuizQuestion({ ...validQuizQuestion, rationale })).toBe(true);
+        expect(isQuizQuestion({ ...validQuizQuestion, rationale: { 'Artificial Intelligence': 'Right answer' } })).toBe(false);
+        expect(isQuizQuestion({ ...validQuizQuestion, rationale: { 'Not an option': 'Why' } })).toBe(false);
+        expect(isQuizQuestion({ ...validQuizQuestion, rationale: { 'Automated Intelligence': '' } })).toBe(false);
+        expect(isQuizQuestion({ ...validQuizQuestion, rationale: ['Automated Intelligence'] })).toBe(false);
+
+        const multiSelect = { ...base, type: 'multi-select', options: ['A', 'B', 'C'], correctAnswers: ['A'] };
+        expect(isQuizQuestion({ ...multiSelect, rationale: { 'B': 'B is wrong.' } })).toBe(true);
+        expect(isQuizQuestion({ ...multiSelect, rationale: { 'A': 'A is right.' } })).toBe(false);
+      });
+
+      it('should reject unknown question types', () => {
+        expect(isQuizQuestion({ ...validQuizQuestion, type: 'essay' })).toBe(false);
+      });
+    });
   });
 
   describe('isQuizAttempt', () => {
@@ -223,7 +350,7 @@ describe('Type Guards', () => {
 
   describe('isStoredUserData', () => {
     const validStoredUserData: StoredUserData = {
-      version: '1.0.0',
+      version: '1.4.0',
       quizHistory: [
         {
           timestamp: Date.now(),
@@ -233,6 +360,30 @@ describe('Type Guards', () => {
         },
       ],
       answeredTerms: ['term1', 'term2'],
+      answerHistory: [
+        {
+          questionId: 'q1',
+          termId: 'term1',
+          selectedAnswer: 'Option A',
+          isCorrect: true,
+          timeTakenMs: 3500,
+          timestamp: Date.now(),
+        },
+      ],
+      introductionProgress: {
+        readSections: {
+          'ai-advantages': { sectionId: 'ai-advantages', method: 'viewed', readAt: Date.now() },
+        },
+        checkResults: {
+          'check-ai-advantages': {
+            questionId: 'check-ai-advantages',
+            sectionId: 'ai-advantages',
+            isCorrect: true,
+            answeredAt: Date.now(),
+          },
+        },
+        lastSectionId: 'ai-advantages',
+      },
       preferences: {
         selectedRole: 'business',
         theme: 'light',
@@ -276,6 +427,16 @@ describe('Type Guards', () => {
         answeredTerms: [123, 'term2'],
       };
       expect(isStoredUserData(invalidAnsweredTerms)).toBe(false);
+
+      const missingAnswerHistory: Partial<StoredUserData> = { ...validStoredUserData };
+      delete missingAnswerHistory.answerHistory;
+      expect(isStoredUserData(missingAnswerHistory)).toBe(false);
+
+      const invalidAnswerHistory = {
+        ...validStoredUserData,
+        answerHistory: [{ questionId: 'q1', isCorrect: 'yes' }],
+      };
+      expect(isStoredUserData(invalidAnswerHistory)).toBe(false);
     });
 
     it('should return false when preferences are invalid', () => {
@@ -295,6 +456,137 @@ describe('Type Guards', () => {
       };
       expect(isStoredUserData(invalidTheme)).toBe(false);
     });
+
+    it('should validate an optional review schedule', () => {
+      const withSchedule = {
+        ...validStoredUserData,
+        reviewSchedule: {
+          term1: { termId: 'term1', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: 1, lastReviewed: 1 },
+        },
+      };
+      expect(isStoredUserData(withSchedule)).toBe(true);
+
+      const mismatchedKey = {
+        ...validStoredUserData,
+        reviewSchedule: {
+          term2: { termId: 'term1', easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: 1, lastReviewed: 1 },
+        },
+      };
+      expect(isStoredUserData(mismatchedKey)).toBe(false);
+    });
+
+    it('should require valid introduction progress', () => {
+      const missingProgress: Partial<StoredUserData> = { ...validStoredUserData };
+      delete missingProgress.introductionProgress;
+      expect(isStoredUserData(missingProgress)).toBe(false);
+
+      const mismatchedKey = {
+        ...validStoredUserData,
+        introductionProgress: {
+          readSections: {
+            'cognitive-risks': { sectionId: 'ai-advantages', method: 'viewed', readAt: 1 },
+          },
+          checkResults: {},
+        },
+      };
+      expect(isStoredUserData(mismatchedKey)).toBe(false);
+
+      const listOfSections = {
+        ...validStoredUserData,
+        introductionProgress: { readSections: [], checkResults: {} },
+      };
+      expect(isStoredUserData(listOfSections)).toBe(false);
+
+      const missingCheckResults = {
+        ...validStoredUserData,
+        introductionProgress: { readSections: {} },
+      };
+      expect(isStoredUserData(missingCheckResults)).toBe(false);
+
+      const mismatchedCheck = {
+        ...validStoredUserData,
+        introductionProgress: {
+          readSections: {},
+          checkResults: {
+            'check-a': { questionId: 'check-b', sectionId: 'ai-advantages', isCorrect: true, answeredAt: 1 },
+          },
+        },
+      };
+      expect(isStoredUserData(mismatchedCheck)).toBe(false);
+    });
+  });
+
+  describe('isSectionReadState', () => {
+    it('should accept sections read by viewing or marking', () => {
+      expect(isSectionReadState({ sectionId: 'ai-advantages', method: 'viewed', readAt: 1 })).toBe(true);
+      expect(isSectionReadState({ sectionId: 'ai-advantages', method: 'marked', readAt: 1 })).toBe(true);
+    });
+
+    it('should reject unknown methods and missing fields', () => {
+      expect(isSectionReadState({ sectionId: 'ai-advantages', method: 'skimmed', readAt: 1 })).toBe(false);
+      expect(isSectionReadState({ sectionId: '', method: 'viewed', readAt: 1 })).toBe(false);
+      expect(isSectionReadState({ sectionId: 'ai-advantages', method: 'viewed' })).toBe(false);
+      expect(isSectionReadState(null)).toBe(false);
+    });
+  });
+
+  describe('isSectionCheckResult', () => {
+    it('should accept correct and incorrect answers', () => {
+      expect(isSectionCheckResult({ questionId: 'q1', sectionId: 'overview', isCorrect: true, answeredAt: 1 })).toBe(true);
+      expect(isSectionCheckResult({ questionId: 'q1', sectionId: 'overview', isCorrect: false, answeredAt: 1 })).toBe(true);
+    });
+
+    it('should reject missing fields', () => {
+      expect(isSectionCheckResult({ questionId: 'q1', sectionId: '', isCorrect: true, answeredAt: 1 })).toBe(false);
+      expect(isSectionCheckResult({ questionId: 'q1', sectionId: 'overview', isCorrect: 'yes', answeredAt: 1 })).toBe(false);
+      expect(isSectionCheckResult({ questionId: 'q1', sectionId: 'overview', isCorrect: true })).toBe(false);
+      expect(isSectionCheckResult(null)).toBe(false);
+    });
+  });
+
+  describe('isQuestionOutcome', () => {
+    const validOutcome = {
+      questionId: 'q1',
+      termId: 'term1',
+      selectedAnswer: 'Option A',
+      isCorrect: false,
+      timeTakenMs: 1200,
+      timestamp: Date.now(),
+    };
+
+    it('should return true for valid question outcomes', () => {
+      expect(isQuestionOutcome(validOutcome)).toBe(true);
+    });
+
+    it('should return false for invalid question outcomes', () => {
+      expect(isQuestionOutcome(null)).toBe(false);
+      expect(isQuestionOutcome({ ...validOutcome, isCorrect: 'false' })).toBe(false);
+      expect(isQuestionOutcome({ ...validOutcome, timeTakenMs: -5 })).toBe(false);
+      expect(isQuestionOutcome({ ...validOutcome, questionId: undefined })).toBe(false);
+      expect(isQuestionOutcome({ ...validOutcome, termId: undefined, term: 'term1' })).toBe(false);
+    });
+  });
+
+  describe('isTermReviewState', () => {
+    const validState = {
+      termId: 'term1',
+      easeFactor: 2.5,
+      interval: 6,
+      repetitions: 2,
+      dueDate: Date.now(),
+      lastReviewed: Date.now(),
+    };
+
+    it('should return true for valid review states', () => {
+      expect(isTermReviewState(validState)).toBe(true);
+    });
+
+    it('should return false for invalid review states', () => {
+      expect(isTermReviewState(null)).toBe(false);
+      expect(isTermReviewState({ ...validState, easeFactor: 0 })).toBe(false);
+      expect(isTermReviewState({ ...validState, interval: -1 })).toBe(false);
+      expect(isTermReviewState({ ...validState, dueDate: 'tomorrow' })).toBe(false);
+    });
   });
 
   describe('isQuizResults', () => {
@@ -602,4 +894,53 @@ describe('Type Guards', () => {
       expect(isAIToolsData(invalidCategoryStructure)).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('isIntroductionSection', () => {
+    const validSection = {
+      id: 'overview',
+      title: 'Understanding AI',
+      subtitle: 'A balanced perspective',
+      content: 'First paragraph.\n\nSecond paragraph.',
+      variant: 'highlighted',
+    };
+
+    it('should return true for a valid section, with or without optional fields', () => {
+      expect(isIntroductionSection(validSection)).toBe(true);
+      expect(isIntroductionSection({ id: 'overview', title: 'Understanding AI', content: 'Text' })).toBe(true);
+    });
+
+    it('should return false for missing or empty required fields', () => {
+      expect(isIntroductionSection(null)).toBe(false);
+      expect(isIntroductionSection({ ...validSection, id: '' })).toBe(false);
+      expect(isIntroductionSection({ ...validSection, title: undefined })).toBe(false);
+      expect(isIntroductionSection({ ...validSection, content: '  ' })).toBe(false);
+    });
+
+    it('should return false for an unknown variant or a non-string subtitle', () => {
+      expect(isIntroductionSection({ ...validSection, variant: 'loud' })).toBe(false);
+      expect(isIntroductionSection({ ...validSection, subtitle: 42 })).toBe(false);
+    });
+  });
+
+  describe('isIntroductionContent', () => {
+    const validContent: IntroductionContent = {
+      sections: [{ id: 'overview', title: 'Understanding AI', content: 'Text' }],
+      navigation: { next: { label: 'Explore AI Glossary', destination: 'glossary' } },
+    };
+
+    it('should return true for valid introduction content', () => {
+      expect(isIntroductionContent(validContent)).toBe(true);
+      expect(isIntroductionContent({ ...validContent, navigation: {} })).toBe(true);
+    });
+
+    it('should return false when a section or the navigation is invalid', () => {
+      expect(isIntroductionContent({})).toBe(false);
+      expect(isIntroductionContent({ ...validContent, sections: [{ id: 'overview' }] })).toBe(false);
+      expect(isIntroductionContent({ ...validContent, navigation: undefined })).toBe(false);
+      expect(isIntroductionContent({
+        ...validContent,
+        navigation: { next: { label: 'Explore AI Tools', destination: 'ai-tools' } },
+      })).toBe(false);
+    });
+  });
+});
@@ -2,13 +2,39 @@
  * Core TypeScript interfaces and types for the Interactive AI Glossary
  */
 
-import React from 'react';
+import {
+  validateAITool,
+  validateAIToolsData,
+  validateGlossaryTerm,
+  validateIntroductionContent,
+  validateIntroductionSection,
+  validateLearningPath,
+  validateQuizQuestion,
+  validateUserExperience
+} from './validation';
+
+export * from './validation';
 
 /**
  * User roles for role-specific context display
  */
 export type UserRole = 'business' | 'pm-designer' | 'engineer' | 'data-scientist';
 
+/**
+ * Display names for each user role
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  'business': 'Business & Operations',
+  'pm-designer': 'Product Manager & Designer',
+  'engineer': 'Engineer',
+  'data-scientist': 'Data Scientist'
+};
+
+/**
+ * Topic areas used to group glossary terms
+ */
+export type GlossaryCategory = 'foundations' | 'data' | 'training' | 'generative-ai' | 'deployment';
+
 /**
  * Represents a glossary term with role-specific context
  */
@@ -20,20 +46,113 @@ export interface GlossaryTerm {
   roleContext: {
     [key in UserRole]: string;
   };
+  /** Other names the term is known and searched by, e.g. "LLM" */
+  aliases?: string[];
+  /** Ids of terms worth reading alongside this one */
+  relatedTerms?: string[];
+  /** Ids of terms to understand before this one */
+  prerequisites?: string[];
+  category?: GlossaryCategory;
 }
 
 /**
- * Represents a quiz question with multiple choice options
+ * Supported quiz question formats
  */
-export interface QuizQuestion {
+export type QuizQuestionType = 'single-choice' | 'multi-select' | 'true-false' | 'ordering' | 'free-text';
+
+/**
+ * Fields shared by every quiz question format
+ */
+export interface QuizQuestionBase {
   id: string;
+  /** Id of the glossary term the question is about */
+  termId: string;
+  /** Name of that term, filled in from the glossary when questions are loaded */
   term: string;
   question: string;
+  /** Roles this question is aimed at; untagged questions suit every role */
+  roles?: UserRole[];
+  /** Why the correct answer is right, shown after the question is answered */
+  explanation?: string;
+}
+
+/**
+ * Why each wrong option is wrong, keyed by option text
+ */
+export type OptionRationale = Record<string, string>;
+
+/**
+ * Multiple choice question with exactly one correct option. The type may be
+ * omitted, which keeps questions written before other formats existed valid.
+ */
+export interface SingleChoiceQuestion extends QuizQuestionBase {
+  type?: 'single-choice';
   options: string[];
   correctAnswer: string;
-  glossaryLink: string;
+  rationale?: OptionRationale;
+}
+
+/**
+ * Multiple choice question where every correct option must be selected
+ */
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multi-select';
+  options: string[];
+  correctAnswers: string[];
+  rationale?: OptionRationale;
+}
+
+/**
+ * Statement the user marks as true or false
+ */
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true-false';
+  correctAnswer: boolean;
+}
+
+/**
+ * Items shown in display order that the user arranges into the correct order
+ */
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[];
+  correctOrder: string[];
 }
 
+/**
+ * Short typed answer matched against a list of accepted answers, tolerating
+ * small typos
+ */
+export interface FreeTextQuestion extends QuizQuestionBase {
+  type: 'free-text';
+  acceptedAnswers: string[];
+}
+
+/**
+ * Represents a quiz question in any supported format
+ */
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultiSelectQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | FreeTextQuestion;
+
+/**
+ * A question as written in questions.json, before its term is resolved
+ * against the glossary
+ */
+export type QuizQuestionData = WithoutTermName<QuizQuestion>;
+
+type WithoutTermName<Q> = Q extends QuizQuestion ? Omit<Q, 'term'> : never;
+
+/**
+ * A user's answer: the chosen option (single choice), the chosen options
+ * (multi-select), the chosen value (true/false), the arranged items (ordering)
+ * or the typed text (free text)
+ */
+export type QuizAnswer = string | string[] | boolean;
+
 /**
  * Represents a completed quiz attempt
  */
@@ -41,18 +160,123 @@ export interface QuizAttempt {
   timestamp: number;
   score: number;
   totalQuestions: number;
+  /** Ids of the glossary terms the questions were about */
   questionsAnswered: string[];
 }
 
+/**
+ * Outcome of a single answered quiz question
+ */
+export interface QuestionOutcome {
+  questionId: string;
+  /** Id of the glossary term the question was about */
+  termId: string;
+  selectedAnswer: string;
+  isCorrect: boolean;
+  /** Time from the question being shown to the answer, in milliseconds */
+  timeTakenMs: number;
+  timestamp: number;
+}
+
+/**
+ * Quiz modes: standard spaced-repetition quizzes or a review of the user's
+ * most-missed terms
+ */
+export type QuizMode = 'standard' | 'weakest';
+
+/**
+ * Aggregated answer performance for a single term
+ */
+export interface TermPerformance {
+  termId: string;
+  attempts: number;
+  /** Misses since the term was last answered correctly */
+  misses: number;
+  lastMissedAt: number | null;
+}
+
 /**
  * Represents user progress and statistics
  */
 export interface UserProgress {
   quizAttempts: QuizAttempt[];
+  /** Ids of every glossary term the user has been quizzed on */
   answeredTerms: Set<string>;
   bestScore: number;
 }
 
+/**
+ * Spaced-repetition state for a single term (SM-2 style scheduling)
+ */
+export interface TermReviewState {
+  termId: string;
+  easeFactor: number;
+  /** Current review interval in days */
+  interval: number;
+  /** Number of consecutive correct reviews */
+  repetitions: number;
+  dueDate: number;
+  lastReviewed: number;
+}
+
+/**
+ * Review schedule keyed by glossary term id
+ */
+export type ReviewSchedule = Record<string, TermReviewState>;
+
+/**
+ * How an introduction section came to count as read: kept in view long
+ * enough, or marked by the user
+ */
+export type SectionReadMethod = 'viewed' | 'marked';
+
+/**
+ * When and how a single introduction section was read
+ */
+export interface SectionReadState {
+  sectionId: string;
+  method: SectionReadMethod;
+  readAt: number;
+}
+
+/**
+ * Latest answer to a knowledge check in an introduction section
+ */
+export interface SectionCheckResult {
+  questionId: string;
+  sectionId: string;
+  isCorrect: boolean;
+  answeredAt: number;
+}
+
+/**
+ * Saved progress through the introduction
+ */
+export interface IntroductionProgress {
+  /** Sections read, keyed by section id */
+  readSections: Record<string, SectionReadState>;
+  /** Knowledge check answers, keyed by question id */
+  checkResults: Record<string, SectionCheckResult>;
+  /** Section last in view, where reading resumes */
+  lastSectionId?: string;
+}
+
+/**
+ * Progress through the introduction's current sections, for display
+ */
+export interface IntroductionReadingSummary {
+  readCount: number;
+  totalSections: number;
+  percentage: number;
+  /** Whether any section has been read or viewed */
+  isStarted: boolean;
+  /** Knowledge checks last answered correctly, out of totalChecks */
+  checksCorrect: number;
+  totalChecks: number;
+  /** Section to resume reading at; absent once every section is read */
+  resumeSection?: IntroductionSection;
+}
+
 /**
  * LocalStorage data structure with versioning
  */
@@ -60,6 +284,9 @@ export interface StoredUserData {
   version: string;
   quizHistory: QuizAttempt[];
   answeredTerms: string[];
+  answerHistory: QuestionOutcome[];
+  reviewSchedule?: ReviewSchedule;
+  introductionProgress: IntroductionProgress;
   preferences: {
     selectedRole?: UserRole;
     theme?: 'light' | 'dark';
@@ -72,6 +299,7 @@ export interface StoredUserData {
 export interface QuizResults {
   score: number;
   totalQuestions: number;
+  /** Ids of the glossary terms the questions were about */
   questionsAnswered: string[];
   timestamp: number;
 }
@@ -113,13 +341,28 @@ export interface AITool {
   };
 }
 
+/**
+ * Display names for each team adoption level
+ */
+export const ADOPTION_LEVEL_LABELS: Record<NonNullable<AITool['teamAdoption']>['level'], string> = {
+  individual: 'Individual Use',
+  team: 'Team Adoption',
+  organization: 'Organization-wide'
+};
+
+/**
+ * Number of a tool's user experiences with each sentiment
+ */
+export type SentimentBreakdown = Record<UserExperience['sentiment'], number>;
+
 /**
  * Complete AI tools data structure with categories and tools
  */
 export interface AIToolsData {
   tools: AITool[];
+  /** Labels and descriptions of the categories the file describes */
   categories: {
-    [key in ToolCategory]: {
+    [key in ToolCategory]?: {
       label: string;
       description: string;
     };
@@ -133,12 +376,24 @@ export interface IntroductionSection {
   id: string;
   title: string;
   subtitle?: string;
-  content: string | React.ReactNode;
+  /** Section text in the Markdown subset described in MarkdownParser */
+  content: string;
   variant?: 'default' | 'highlighted' | 'warning';
+  /** Optional questions checking the section was understood */
+  checks?: SectionCheckQuestion[];
 }
 
 /**
- * Complete introduction content data structure
+ * Question checking understanding of an introduction section, in any quiz
+ * question format. A check need not be about a glossary term; when it names
+ * one, its feedback links to the term.
+ */
+export type SectionCheckQuestion = WithOptionalTermId<QuizQuestionData>;
+
+type WithOptionalTermId<Q> = Q extends QuizQuestionData ? Omit<Q, 'termId'> & { termId?: string } : never;
+
+/**
+ * Complete introduction content data structure, as stored in introduction.json
  */
 export interface IntroductionContent {
   sections: IntroductionSection[];
@@ -147,6 +402,215 @@ export interface IntroductionContent {
     next?: { label: string; destination: 'glossary' | 'quiz' | 'home' };
   };
 }
+
+/**
+ * A run of inline Markdown: plain text, emphasis, code or a link whose
+ * address has passed sanitizing
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+/**
+ * A block of Markdown content
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'code'; language?: string; text: string };
+
+/**
+ * An ordered sequence of glossary terms to study together
+ */
+export interface LearningPath {
+  id: string;
+  title: string;
+  description: string;
+  /** Glossary term ids in the order they should be learned */
+  termIds: string[];
+}
+
+/**
+ * How far the user has got through a learning path
+ */
+export interface LearningPathProgress {
+  pathId: string;
+  /** Ids of the path's terms the user has answered correctly at least once */
+  completedTermIds: string[];
+  totalTerms: number;
+  /** Share of the path's terms completed, 0-100 */
+  percentage: number;
+}
+
+/**
+ * Newer content found by the service worker: app code waiting to activate,
+ * or data files refreshed in the background
+ */
+export type ContentUpdateKind = 'app' | 'data';
+
+/**
+ * Why a request for a data file failed
+ *
+ * - network: the request never reached the server
+ * - timeout: the request took too long
+ * - aborted: the caller cancelled the request
+ * - server: the server failed (5xx)
+ * - http: any other unsuccessful status
+ */
+export type NetworkErrorCode = 'network' | 'timeout' | 'aborted' | 'server' | 'http';
+
+/**
+ * Why loaded data could not be used
+ *
+ * - parse: the file is not valid JSON
+ * - invalid-data: the JSON does not have the expected shape
+ * - empty: the file holds no usable records
+ */
+export type ValidationErrorCode = 'parse' | 'invalid-data' | 'empty';
+
+/**
+ * How an error is presented to the user; picks the icon, title and
+ * suggestions shown by ErrorMessage
+ */
+export type ErrorKind = 'network' | 'data' | 'storage' | 'validation' | 'not-found' | 'generic';
+
+/**
+ * One problem found while validating content, e.g.
+ * { path: 'tools[3].userExperiences[1].sentiment', message: 'expected one of positive, mixed, challenge' }
+ */
+export interface ValidationIssue {
+  /** Where the problem is, from the top of the file */
+  path: string;
+  message: string;
+}
+
+/**
+ * A record in a data file that was skipped because it failed validation
+ */
+export interface InvalidRecord {
+  /** Position of the record in its list */
+  index: number;
+  /** The record's id, when it has one */
+  id?: string;
+  /** Why the record was skipped */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Records skipped while loading one content file
+ */
+export interface ValidationReport {
+  /** File name inside the public folder, e.g. "questions.json" */
+  file: string;
+  skipped: InvalidRecord[];
+}
+
+/**
+ * Problems the content linter found in one content file
+ */
+export interface ContentLintResult {
+  /** File name inside the public folder, e.g. "questions.json" */
+  file: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Top-level views of the application
+ */
+export type AppView = 'home' | 'learn' | 'ai-tools' | 'glossary' | 'quiz' | 'progress' | 'introduction' | 'paths';
+
+/**
+ * A location within the application, encoded in the URL hash
+ */
+export interface AppRoute {
+  view: AppView;
+  /** Glossary term to expand, e.g. #/glossary/term/rag */
+  termId?: string;
+  /** AI tool to highlight, e.g. #/ai-tools/github-copilot */
+  toolId?: string;
+  /** AI tools to compare side by side, e.g. #/ai-tools?compare=github-copilot&compare=cursor */
+  compareToolIds?: string[];
+  /** Glossary role filter, e.g. #/glossary?role=engineer */
+  role?: UserRole;
+  /** Glossary search text, e.g. #/glossary?q=rag */
+  query?: string;
+  /** Quiz mode, e.g. #/quiz?mode=weakest */
+  quizMode?: QuizMode;
+  /** Learning path to show, or to scope the quiz to, e.g. #/paths/responsible-ai or #/quiz?path=responsible-ai */
+  pathId?: string;
+  /** Introduction section to scroll to, e.g. #/introduction/productive-friction */
+  sectionId?: string;
+}
+
+/**
+ * A piece of text and how much a match in it counts when ranking results
+ */
+export interface WeightedText {
+  text: string;
+  weight: number;
+}
+
+/**
+ * Character range [start, end) of a match within a text
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Short excerpt of a text with the ranges that matched a search query
+ */
+export interface MatchSnippet {
+  text: string;
+  matches: TextRange[];
+}
+
+/**
+ * A glossary term mentioned at a range of characters in a text
+ */
+export interface TermMention extends TextRange {
+  termId: string;
+}
+
+/**
+ * Kinds of content covered by the portal-wide search
+ */
+export type SearchResultType = 'term' | 'tool' | 'introduction';
+
+/**
+ * Content the search index is built from
+ */
+export interface SearchSources {
+  terms: GlossaryTerm[];
+  tools: AITool[];
+  sections: IntroductionSection[];
+}
+
+/**
+ * A single ranked search hit
+ */
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  /** Short excerpt around the best match */
+  snippet: string;
+  score: number;
+  /** Where selecting the result should navigate */
+  route: AppRoute;
+}
+
+/**
+ * Search hits of one content type, best match first
+ */
+export interface SearchResultGroup {
+  type: SearchResultType;
+  results: SearchResult[];
+}
 /**
  *
  Type guards for runtime data validation
@@ -164,84 +628,183 @@ export function isUserRole(value: unknown): value is UserRole {
  * Type guard to check if an object is a valid GlossaryTerm
  */
 export function isGlossaryTerm(obj: unknown): obj is GlossaryTerm {
+  return validateGlossaryTerm(obj).length === 0;
+}
+
+/**
+ * Type guard to check if a value is a valid GlossaryCategory
+ */
+export function isGlossaryCategory(value: unknown): value is GlossaryCategory {
+  return typeof value === 'string' &&
+    ['foundations', 'data', 'training', 'generative-ai', 'deployment'].includes(value);
+}
+
+/**
+ * Type guard to check if an object is a valid LearningPath
+ */
+export function isLearningPath(obj: unknown): obj is LearningPath {
+  return validateLearningPath(obj).length === 0;
+}
+
+/**
+ * Type guard to check if an object is a valid QuizQuestion
+ */
+export function isQuizQuestion(obj: unknown): obj is QuizQuestion {
+  // Loaded questions also carry the name of their term
+  return validateQuizQuestion(obj).length === 0 && typeof (obj as { term?: unknown }).term === 'string';
+}
+
+/**
+ * Type guard to check if an object is a valid QuizAttempt
+ */
+export function isQuizAttempt(obj: unknown): obj is QuizAttempt {
   if (typeof obj !== 'object' || obj === null) {
     return false;
   }
 
-  const term = obj as Record<string, unknown>;
+  const attempt = obj as Record<string, unknown>;
   
   return (
-    typeof term.id === 'string' &&
-    typeof term.term === 'string' &&
-    typeof term.definition === 'string' &&
-    typeof term.externalLink === 'string' &&
-    typeof term.roleContext === 'object' &&
-    term.roleContext !== null &&
-    isValidRoleContext(term.roleContext)
+    typeof attempt.timestamp === 'number' &&
+    attempt.timestamp > 0 &&
+    typeof attempt.score === 'number' &&
+    attempt.score >= 0 &&
+    typeof attempt.totalQuestions === 'number' &&
+    attempt.totalQuestions > 0 &&
+    Array.isArray(attempt.questionsAnswered) &&
+    attempt.questionsAnswered.every(q => typeof q === 'string')
   );
 }
 
 /**
- * Helper function to validate role context object
+ * Type guard to check if an object is a valid QuestionOutcome
  */
-function isValidRoleContext(obj: unknown): obj is { [key in UserRole]: string } {
+export function isQuestionOutcome(obj: unknown): obj is QuestionOutcome {
   if (typeof obj !== 'object' || obj === null) {
     return false;
   }
 
-  const roleContext = obj as Record<string, unknown>;
-  const requiredRoles: UserRole[] = ['business', 'pm-designer', 'engineer', 'data-scientist'];
-  
-  return requiredRoles.every(role => 
-    typeof roleContext[role] === 'string'
+  const outcome = obj as Record<string, unknown>;
+
+  return (
+    typeof outcome.questionId === 'string' &&
+    typeof outcome.termId === 'string' &&
+    typeof outcome.selectedAnswer === 'string' &&
+    typeof outcome.isCorrect === 'boolean' &&
+    typeof outcome.timeTakenMs === 'number' &&
+    outcome.timeTakenMs >= 0 &&
+    typeof outcome.timestamp === 'number' &&
+    outcome.timestamp > 0
   );
 }
 
 /**
- * Type guard to check if an object is a valid QuizQuestion
+ * Type guard to check if an object is a valid TermReviewState
  */
-export function isQuizQuestion(obj: unknown): obj is QuizQuestion {
+export function isTermReviewState(obj: unknown): obj is TermReviewState {
   if (typeof obj !== 'object' || obj === null) {
     return false;
   }
 
-  const question = obj as Record<string, unknown>;
-  
+  const state = obj as Record<string, unknown>;
+
   return (
-    typeof question.id === 'string' &&
-    typeof question.term === 'string' &&
-    typeof question.question === 'string' &&
-    Array.isArray(question.options) &&
-    question.options.every(option => typeof option === 'string') &&
-    question.options.length >= 2 &&
-    typeof question.correctAnswer === 'string' &&
-    question.options.includes(question.correctAnswer) &&
-    typeof question.glossaryLink === 'string'
+    typeof state.termId === 'string' &&
+    typeof state.easeFactor === 'number' &&
+    state.easeFactor > 0 &&
+    typeof state.interval === 'number' &&
+    state.interval >= 0 &&
+    typeof state.repetitions === 'number' &&
+    state.repetitions >= 0 &&
+    typeof state.dueDate === 'number' &&
+    typeof state.lastReviewed === 'number'
   );
 }
 
 /**
- * Type guard to check if an object is a valid QuizAttempt
+ * Helper function to validate a review schedule object
  */
-export function isQuizAttempt(obj: unknown): obj is QuizAttempt {
+function isReviewSchedule(obj: unknown): obj is ReviewSchedule {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    return false;
+  }
+
+  return Object.entries(obj as Record<string, unknown>).every(([termId, state]) =>
+    isTermReviewState(state) && state.termId === termId
+  );
+}
+
+/**
+ * Type guard to check if an object is a valid SectionReadState
+ */
+export function isSectionReadState(obj: unknown): obj is SectionReadState {
   if (typeof obj !== 'object' || obj === null) {
     return false;
   }
 
-  const attempt = obj as Record<string, unknown>;
-  
+  const state = obj as Record<string, unknown>;
+
   return (
-    typeof attempt.timestamp === 'number' &&
-    attempt.timestamp > 0 &&
-    typeof attempt.score === 'number' &&
-    attempt.score >= 0 &&
-    typeof attempt.totalQuestions === 'number' &&
-    attempt.totalQuestions > 0 &&
-    Array.isArray(attempt.questionsAnswered) &&
-    attempt.questionsAnswered.every(q => typeof q === 'string')
+    typeof state.sectionId === 'string' &&
+    state.sectionId.length > 0 &&
+    (state.method === 'viewed' || state.method === 'marked') &&
+    typeof state.readAt === 'number' &&
+    state.readAt > 0
+  );
+}
+
+/**
+ * Type guard to check if an object is a valid SectionCheckResult
+ */
+export function isSectionCheckResult(obj: unknown): obj is SectionCheckResult {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const result = obj as Record<string, unknown>;
+
+  return (
+    typeof result.questionId === 'string' &&
+    result.questionId.length > 0 &&
+    typeof result.sectionId === 'string' &&
+    result.sectionId.length > 0 &&
+    typeof result.isCorrect === 'boolean' &&
+    typeof result.answeredAt === 'number' &&
+    result.answeredAt > 0
   );
 }
 
+/**
+ * Helper function to validate saved introduction progress
+ */
+function isIntroductionProgress(obj: unknown): obj is IntroductionProgress {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const progress = obj as Record<string, unknown>;
+  const { readSections, checkResults } = progress;
+
+  return (
+    isRecordMap(readSections) &&
+    Object.entries(readSections).every(([sectionId, state]) =>
+      isSectionReadState(state) && state.sectionId === sectionId
+    ) &&
+    isRecordMap(checkResults) &&
+    Object.entries(checkResults).every(([questionId, result]) =>
+      isSectionCheckResult(result) && result.questionId === questionId
+    ) &&
+    (progress.lastSectionId === undefined || typeof progress.lastSectionId === 'string')
+  );
+}
+
+/**
+ * Helper function to check for an object used as a map of records
+ */
+function isRecordMap(obj: unknown): obj is Record<string, unknown> {
+  return typeof obj === 'object' && obj !== null && !Array.isArray(obj);
+}
+
 /**
  * Type guard to check if an object is a valid StoredUserData
  */
@@ -258,6 +821,10 @@ export function isStoredUserData(obj: unknown): obj is StoredUserData {
     data.quizHistory.every(attempt => isQuizAttempt(attempt)) &&
     Array.isArray(data.answeredTerms) &&
     data.answeredTerms.every(term => typeof term === 'string') &&
+    Array.isArray(data.answerHistory) &&
+    data.answerHistory.every(outcome => isQuestionOutcome(outcome)) &&
+    (data.reviewSchedule === undefined || isReviewSchedule(data.reviewSchedule)) &&
+    isIntroductionProgress(data.introductionProgress) &&
     typeof data.preferences === 'object' &&
     data.preferences !== null &&
     isValidPreferences(data.preferences)
@@ -314,106 +881,33 @@ export function isToolCategory(value: unknown): value is ToolCategory {
  * Type guard to check if an object is a valid UserExperience
  */
 export function isUserExperience(obj: unknown): obj is UserExperience {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const experience = obj as Record<string, unknown>;
-  
-  return (
-    typeof experience.id === 'string' &&
-    typeof experience.quote === 'string' &&
-    typeof experience.context === 'string' &&
-    typeof experience.useCase === 'string' &&
-    typeof experience.sentiment === 'string' &&
-    ['positive', 'mixed', 'challenge'].includes(experience.sentiment as string) &&
-    (experience.role === undefined || isUserRole(experience.role))
-  );
+  return validateUserExperience(obj).length === 0;
 }
 
 /**
  * Type guard to check if an object is a valid AITool
  */
 export function isAITool(obj: unknown): obj is AITool {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const tool = obj as Record<string, unknown>;
-  
-  return (
-    typeof tool.id === 'string' &&
-    typeof tool.name === 'string' &&
-    isToolCategory(tool.category) &&
-    typeof tool.description === 'string' &&
-    (tool.officialLink === undefined || typeof tool.officialLink === 'string') &&
-    (tool.internalSetupNotes === undefined || typeof tool.internalSetupNotes === 'string') &&
-    Array.isArray(tool.userExperiences) &&
-    tool.userExperiences.every(exp => isUserExperience(exp)) &&
-    Array.isArray(tool.commonUseCases) &&
-    tool.commonUseCases.every(useCase => typeof useCase === 'string') &&
-    (tool.integrations === undefined || (Array.isArray(tool.integrations) && 
-      tool.integrations.every(integration => typeof integration === 'string'))) &&
-    (tool.licensingNotes === undefined || typeof tool.licensingNotes === 'string') &&
-    (tool.teamAdoption === undefined || isValidTeamAdoption(tool.teamAdoption))
-  );
+  return validateAITool(obj).length === 0;
 }
 
 /**
- * Helper function to validate team adoption object
+ * Type guard to check if an object is a valid AIToolsData
  */
-function isValidTeamAdoption(obj: unknown): obj is AITool['teamAdoption'] {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const adoption = obj as Record<string, unknown>;
-  
-  return (
-    typeof adoption.level === 'string' &&
-    ['individual', 'team', 'organization'].includes(adoption.level as string) &&
-    typeof adoption.notes === 'string'
-  );
+export function isAIToolsData(obj: unknown): obj is AIToolsData {
+  return validateAIToolsData(obj).length === 0;
 }
 
 /**
- * Type guard to check if an object is a valid AIToolsData
+ * Type guard to check if an object is a valid IntroductionSection
  */
-export function isAIToolsData(obj: unknown): obj is AIToolsData {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const data = obj as Record<string, unknown>;
-  
-  return (
-    Array.isArray(data.tools) &&
-    data.tools.every(tool => isAITool(tool)) &&
-    typeof data.categories === 'object' &&
-    data.categories !== null &&
-    isValidCategoriesObject(data.categories)
-  );
+export function isIntroductionSection(obj: unknown): obj is IntroductionSection {
+  return validateIntroductionSection(obj).length === 0;
 }
 
 /**
- * Helper function to validate categories object
+ * Type guard to check if an object is a valid IntroductionContent
  */
-function isValidCategoriesObject(obj: unknown): obj is AIToolsData['categories'] {
-  if (typeof obj !== 'object' || obj === null) {
-    return false;
-  }
-
-  const categories = obj as Record<string, unknown>;
-  
-  // Validate that each category in the data has the correct structure
-  // and that the category key is a valid ToolCategory
-  return Object.entries(categories).every(([categoryKey, categoryData]) => {
-    return (
-      isToolCategory(categoryKey) &&
-      typeof categoryData === 'object' &&
-      categoryData !== null &&
-      typeof (categoryData as Record<string, unknown>).label === 'string' &&
-      typeof (categoryData as Record<string, unknown>).description === 'string'
-    );
-  });
-}
\ No newline at end of file
+export function isIntroductionContent(obj: unknown): obj is IntroductionContent {
+  return validateIntroductionContent(obj).length === 0;
+}
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the content validators
+ */
+
+import {
+  validateAITool,
+  validateAIToolsData,
+  validateGlossaryTerm,
+  validateIntroductionContent,
+  validateIntroductionSection,
+  validateLearningPath,
+  validateQuizQuestion,
+} from './validation';
+
+describe('Content validators', () => {
+  const validTerm = {
+    id: 'ai-001',
+    term: 'Artificial Intelligence',
+    definition: 'Systems that perform tasks normally requiring human intelligence.',
+    externalLink: 'https://example.com/ai',
+    roleContext: {
+      business: 'Business context',
+      'pm-designer': 'PM context',
+      engineer: 'Engineer context',
+      'data-scientist': 'Data scientist context',
+    },
+  };
+
+  const validTool = {
+    id: 'tool-001',
+    name: 'GitHub Copilot',
+    category: 'code-assistant',
+    description: 'AI-powered code completion tool',
+    officialLink: 'https://github.com/features/copilot',
+    internalSetupNotes: 'Contact IT for license',
+    userExperiences: [
+      {
+        id: 'exp-001',
+        quote: 'Great for code completion',
+        context: 'Daily coding',
+        useCase: 'Writing functions',
+        sentiment: 'positive',
+      },
+    ],
+    commonUseCases: ['Code completion'],
+  };
+
+  describe('validateGlossaryTerm', () => {
+    it('should find no issues in a valid term', () => {
+      expect(validateGlossaryTerm(validTerm, 'terms[0]')).toEqual([]);
+    });
+
+    it('should address each issue by its path in the file', () => {
+      const term = {
+        ...validTerm,
+        definition: undefined,
+        roleContext: { ...validTerm.roleContext, engineer: 42 },
+        relatedTerms: ['ai-001', 'ml-001', 'ml-001'],
+      };
+
+      expect(validateGlossaryTerm(term, 'terms[2]')).toEqual([
+        { path: 'terms[2].definition', message: 'is required' },
+        { path: 'terms[2].roleContext.engineer', message: 'expected a string' },
+        { path: 'terms[2].relatedTerms[0]', message: 'refers to the term itself' },
+        { path: 'terms[2].relatedTerms[2]', message: 'repeats "ml-001"' },
+      ]);
+    });
+
+    it('should report a record that is not an object at its own path', () => {
+      expect(validateGlossaryTerm('term', 'terms[1]')).toEqual([
+        { path: 'terms[1]', message: 'expected an object' },
+      ]);
+    });
+  });
+
+  describe('validateLearningPath', () => {
+    it('should require at least one term', () => {
+      const path = { id: 'basics', title: 'Basics', description: '', termIds: [] };
+
+      expect(validateLearningPath(path, 'paths[0]')).toEqual([
+        { path: 'paths[0].termIds', message: 'must list at least one term' },
+      ]);
+    });
+  });
+
+  describe('validateQuizQuestion', () => {
+    it('should check the answer against the options', () => {
+      const question = {
+        id: 'q-001',
+        term: 'AI',
+        question: 'What does AI stand for?',
+        options: ['Artificial Intelligence', 'Automated Intelligence'],
+        correctAnswer: 'Applied Intelligence',
+        termId: 'ai',
+      };
+
+      expect(validateQuizQuestion(question, 'questions[5]')).toEqual([
+        { path: 'questions[5].correctAnswer', message: 'is not one of the options' },
+      ]);
+    });
+
+    it('should allow a question without a term when asked to', () => {
+      const question = {
+        id: 'check-001',
+        question: 'Which risk is hardest to notice?',
+        options: ['Invisible degradation', 'Tool outages'],
+        correctAnswer: 'Invisible degradation',
+      };
+
+      expect(validateQuizQuestion(question, 'checks[0]', { termOptional: true })).toEqual([]);
+      expect(validateQuizQuestion(question, 'questions[0]')).toEqual([
+        { path: 'questions[0].termId', message: 'is required' },
+      ]);
+    });
+  });
+
+  describe('validateAITool', () => {
+    it('should find no issues in a valid tool', () => {
+      expect(validateAITool(validTool, 'tools[0]')).toEqual([]);
+    });
+
+    it('should address issues inside user experiences', () => {
+      const tool = {
+        ...validTool,
+        userExperiences: [validTool.userExperiences[0], { ...validTool.userExperiences[0], sentiment: 'great' }],
+      };
+
+      expect(validateAITool(tool, 'tools[3]')).toEqual([
+        { path: 'tools[3].userExperiences[1].sentiment', message: 'expected one of positive, mixed, challenge' },
+      ]);
+    });
+  });
+
+  describe('validateAIToolsData', () => {
+    it('should check every tool and the categories', () => {
+      const data = {
+        tools: [validTool, { ...validTool, category: 'chatbot' }],
+        categories: { 'code-assistant': { label: 'Code Assistants' } },
+      };
+
+      expect(validateAIToolsData(data)).toEqual([
+        expect.objectContaining({ path: 'tools[1].category' }),
+        { path: 'categories.code-assistant.description', message: 'is required' },
+      ]);
+    });
+  });
+
+  describe('validateIntroductionSection', () => {
+    it('should list every problem with a section by path', () => {
+      expect(validateIntroductionSection({ id: 'overview', title: '', variant: 'loud' }, 'sections[1]')).toEqual([
+        { path: 'sections[1].title', message: 'must not be empty' },
+        { path: 'sections[1].content', message: 'is required' },
+        { path: 'sections[1].variant', message: 'expected one of default, highlighted, warning' },
+      ]);
+    });
+
+    it('should check knowledge checks as quiz questions that need not name a term', () => {
+      const check = {
+        id: 'check-signs',
+        type: 'true-false',
+        question: 'Degradation is easy to notice while it happens.',
+        correctAnswer: false,
+      };
+      const section = {
+        id: 'invisible-degradation',
+        title: 'Invisible Degradation',
+        content: 'Text',
+        checks: [check, { ...check, termId: '' }, { ...check, correctAnswer: 'no' }],
+      };
+
+      expect(validateIntroductionSection(section, 'sections[3]')).toEqual([
+        { path: 'sections[3].checks[1].termId', message: 'must not be empty' },
+        expect.objectContaining({ path: 'sections[3].checks[2].correctAnswer' }),
+        { path: 'sections[3].checks[1].id', message: 'repeats "check-signs"' },
+        { path: 'sections[3].checks[2].id', message: 'repeats "check-signs"' },
+      ]);
+    });
+  });
+
+  describe('validateIntroductionContent', () => {
+    it('should check every section and the navigation links', () => {
+      const data = {
+        sections: [{ id: 'overview', title: 'Overview', content: 'Text' }, { id: 'risks', title: 'Risks' }],
+        navigation: { next: { label: '', destination: 'glossary' } },
+      };
+
+      expect(validateIntroductionContent(data)).toEqual([
+        { path: 'sections[1].content', message: 'is required' },
+        { path: 'navigation.next.label', message: 'must not be empty' },
+      ]);
+    });
+  });
+});
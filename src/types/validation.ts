@@ -0,0 +1,575 @@
+/**
+ * Validators for the content JSON files
+ *
+ * Each validator lists every problem with a record as a path-addressed issue
+ * such as `tools[3].userExperiences[1].sentiment: expected one of positive,
+ * mixed, challenge`, so content authors can see what to fix. The type guards
+ * in ./index accept a record exactly when its validator finds no issues.
+ */
+
+import { ValidationIssue } from './index';
+
+const USER_ROLES = ['business', 'pm-designer', 'engineer', 'data-scientist'];
+const GLOSSARY_CATEGORIES = ['foundations', 'data', 'training', 'generative-ai', 'deployment'];
+const TOOL_CATEGORIES = ['code-assistant', 'ide-extension', 'research-tool', 'debugging-tool', 'testing-tool', 'terminal-tool'];
+const QUESTION_TYPES = ['single-choice', 'multi-select', 'true-false', 'ordering', 'free-text'];
+const SENTIMENTS = ['positive', 'mixed', 'challenge'];
+const ADOPTION_LEVELS = ['individual', 'team', 'organization'];
+const SECTION_VARIANTS = ['default', 'highlighted', 'warning'];
+const NAVIGATION_DESTINATIONS = ['glossary', 'quiz', 'home'];
+
+type Fields = Record<string, unknown>;
+
+/**
+ * List the problems with a glossary term
+ * @param obj The record to check
+ * @param path Where the record sits in its file, e.g. "terms[3]"
+ */
+export function validateGlossaryTerm(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const term = checkObject(obj, path, issues);
+  if (!term) {
+    return issues;
+  }
+
+  checkString(term, 'id', path, issues);
+  checkString(term, 'term', path, issues);
+  checkString(term, 'definition', path, issues);
+  checkString(term, 'externalLink', path, issues);
+
+  const roleContext = checkObject(term.roleContext, join(path, 'roleContext'), issues);
+  if (roleContext) {
+    USER_ROLES.forEach(role => checkString(roleContext, role, join(path, 'roleContext'), issues));
+  }
+
+  if (term.aliases !== undefined) {
+    checkNonEmptyStringList(term.aliases, join(path, 'aliases'), issues);
+  }
+  const ownId = typeof term.id === 'string' ? term.id : undefined;
+  if (term.relatedTerms !== undefined) {
+    checkTermReferences(term.relatedTerms, ownId, join(path, 'relatedTerms'), issues);
+  }
+  if (term.prerequisites !== undefined) {
+    checkTermReferences(term.prerequisites, ownId, join(path, 'prerequisites'), issues);
+  }
+  if (term.category !== undefined) {
+    checkOneOf(term.category, GLOSSARY_CATEGORIES, join(path, 'category'), issues);
+  }
+
+  return issues;
+}
+
+/**
+ * List the problems with a learning path
+ * @param obj The record to check
+ * @param path Where the record sits in its file, e.g. "paths[0]"
+ */
+export function validateLearningPath(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const learningPath = checkObject(obj, path, issues);
+  if (!learningPath) {
+    return issues;
+  }
+
+  checkString(learningPath, 'id', path, issues, { nonEmpty: true });
+  checkString(learningPath, 'title', path, issues, { nonEmpty: true });
+  checkString(learningPath, 'description', path, issues);
+
+  const termIdsPath = join(path, 'termIds');
+  if (checkNonEmptyStringList(learningPath.termIds, termIdsPath, issues)) {
+    if (learningPath.termIds.length === 0) {
+      issues.push({ path: termIdsPath, message: 'must list at least one term' });
+    }
+    checkUnique(learningPath.termIds, termIdsPath, issues);
+  }
+
+  return issues;
+}
+
+/**
+ * List the problems with a quiz question, including those specific to its type
+ *
+ * The term's name is optional: questions.json refers to terms by id and the
+ * name is filled in from the glossary.
+ * @param obj The record to check
+ * @param path Where the record sits in its file, e.g. "questions[12]"
+ * @param options termOptional allows a question that is not about a
+ *   glossary term, such as an introduction knowledge check
+ */
+export function validateQuizQuestion(
+  obj: unknown,
+  path = '',
+  options: { termOptional?: boolean } = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const question = checkObject(obj, path, issues);
+  if (!question) {
+    return issues;
+  }
+
+  checkString(question, 'id', path, issues);
+  if (!options.termOptional || question.termId !== undefined) {
+    checkString(question, 'termId', path, issues, { nonEmpty: true });
+  }
+  if (question.term !== undefined) {
+    checkString(question, 'term', path, issues);
+  }
+  checkString(question, 'question', path, issues);
+
+  if (question.roles !== undefined) {
+    const rolesPath = join(path, 'roles');
+    if (checkArray(question.roles, rolesPath, issues)) {
+      question.roles.forEach((role, index) => checkOneOf(role, USER_ROLES, at(rolesPath, index), issues));
+    }
+  }
+  if (question.explanation !== undefined) {
+    checkString(question, 'explanation', path, issues, { nonEmpty: true });
+  }
+
+  switch (question.type) {
+    case undefined:
+    case 'single-choice': {
+      const options = checkOptionList(question, 'options', path, issues);
+      const correctAnswer = checkString(question, 'correctAnswer', path, issues);
+      if (options && correctAnswer !== undefined) {
+        if (!options.includes(correctAnswer)) {
+          issues.push({ path: join(path, 'correctAnswer'), message: 'is not one of the options' });
+        } else if (question.rationale !== undefined) {
+          checkRationale(question.rationale, options, [correctAnswer], join(path, 'rationale'), issues);
+        }
+      }
+      break;
+    }
+    case 'multi-select': {
+      const options = checkOptionList(question, 'options', path, issues);
+      const answersPath = join(path, 'correctAnswers');
+      if (checkArray(question.correctAnswers, answersPath, issues)) {
+        const correctAnswers = question.correctAnswers;
+        if (correctAnswers.length === 0) {
+          issues.push({ path: answersPath, message: 'must list at least one answer' });
+        }
+        correctAnswers.forEach((answer, index) => {
+          if (typeof answer !== 'string') {
+            issues.push({ path: at(answersPath, index), message: 'expected a string' });
+          } else if (options && !options.includes(answer)) {
+            issues.push({ path: at(answersPath, index), message: 'is not one of the options' });
+          }
+        });
+        const answersValid = correctAnswers.length > 0 &&
+          correctAnswers.every(answer => typeof answer === 'string' && options?.includes(answer));
+        if (options && answersValid && question.rationale !== undefined) {
+          checkRationale(question.rationale, options, correctAnswers as string[], join(path, 'rationale'), issues);
+        }
+      }
+      break;
+    }
+    case 'true-false':
+      if (typeof question.correctAnswer !== 'boolean') {
+        issues.push({ path: join(path, 'correctAnswer'), message: describeMissing(question.correctAnswer, 'true or false') });
+      }
+      break;
+    case 'ordering': {
+      const items = checkOptionList(question, 'items', path, issues);
+      const orderPath = join(path, 'correctOrder');
+      if (checkArray(question.correctOrder, orderPath, issues)) {
+        const correctOrder = question.correctOrder;
+        if (items && correctOrder.length !== items.length) {
+          issues.push({ path: orderPath, message: `expected all ${items.length} items` });
+        }
+        correctOrder.forEach((item, index) => {
+          if (typeof item !== 'string') {
+            issues.push({ path: at(orderPath, index), message: 'expected a string' });
+          } else if (items && !items.includes(item)) {
+            issues.push({ path: at(orderPath, index), message: 'is not one of the items' });
+          }
+        });
+        checkUnique(correctOrder, orderPath, issues);
+      }
+      break;
+    }
+    case 'free-text': {
+      const answersPath = join(path, 'acceptedAnswers');
+      if (checkArray(question.acceptedAnswers, answersPath, issues)) {
+        if (question.acceptedAnswers.length === 0) {
+          issues.push({ path: answersPath, message: 'must list at least one answer' });
+        }
+        question.acceptedAnswers.forEach((answer, index) => {
+          if (typeof answer !== 'string' || answer.trim().length === 0) {
+            issues.push({ path: at(answersPath, index), message: 'expected non-empty text' });
+          }
+        });
+      }
+      break;
+    }
+    default:
+      checkOneOf(question.type, QUESTION_TYPES, join(path, 'type'), issues);
+  }
+
+  return issues;
+}
+
+/**
+ * List the problems with a user experience quoted on a tool
+ * @param obj The record to check
+ * @param path Where the record sits in its file, e.g. "tools[3].userExperiences[1]"
+ */
+export function validateUserExperience(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const experience = checkObject(obj, path, issues);
+  if (!experience) {
+    return issues;
+  }
+
+  checkString(experience, 'id', path, issues);
+  checkString(experience, 'quote', path, issues);
+  checkString(experience, 'context', path, issues);
+  checkString(experience, 'useCase', path, issues);
+  checkOneOf(experience.sentiment, SENTIMENTS, join(path, 'sentiment'), issues);
+  if (experience.role !== undefined) {
+    checkOneOf(experience.role, USER_ROLES, join(path, 'role'), issues);
+  }
+
+  return issues;
+}
+
+/**
+ * List the problems with an AI tool, including its user experiences
+ * @param obj The record to check
+ * @param path Where the record sits in its file, e.g. "tools[3]"
+ */
+export function validateAITool(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const tool = checkObject(obj, path, issues);
+  if (!tool) {
+    return issues;
+  }
+
+  checkString(tool, 'id', path, issues);
+  checkString(tool, 'name', path, issues);
+  checkOneOf(tool.category, TOOL_CATEGORIES, join(path, 'category'), issues);
+  checkString(tool, 'description', path, issues);
+  ['officialLink', 'internalSetupNotes', 'licensingNotes'].forEach(key => {
+    if (tool[key] !== undefined) {
+      checkString(tool, key, path, issues);
+    }
+  });
+
+  const experiencesPath = join(path, 'userExperiences');
+  if (checkArray(tool.userExperiences, experiencesPath, issues)) {
+    tool.userExperiences.forEach((experience, index) => {
+      issues.push(...validateUserExperience(experience, at(experiencesPath, index)));
+    });
+  }
+
+  checkStringList(tool.commonUseCases, join(path, 'commonUseCases'), issues);
+  if (tool.integrations !== undefined) {
+    checkStringList(tool.integrations, join(path, 'integrations'), issues);
+  }
+
+  if (tool.teamAdoption !== undefined) {
+    const adoptionPath = join(path, 'teamAdoption');
+    const adoption = checkObject(tool.teamAdoption, adoptionPath, issues);
+    if (adoption) {
+      checkOneOf(adoption.level, ADOPTION_LEVELS, join(adoptionPath, 'level'), issues);
+      checkString(adoption, 'notes', adoptionPath, issues);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * List the problems with the tool categories of the AI tools file
+ * @param obj The categories object
+ * @param path Where the object sits in its file, e.g. "categories"
+ */
+export function validateToolCategories(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const categories = checkObject(obj, path, issues);
+  if (!categories) {
+    return issues;
+  }
+
+  Object.entries(categories).forEach(([key, value]) => {
+    const categoryPath = join(path, key);
+    if (!TOOL_CATEGORIES.includes(key)) {
+      issues.push({ path: categoryPath, message: `is not a tool category; expected one of ${TOOL_CATEGORIES.join(', ')}` });
+    }
+    const category = checkObject(value, categoryPath, issues);
+    if (category) {
+      checkString(category, 'label', categoryPath, issues);
+      checkString(category, 'description', categoryPath, issues);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * List the problems with the whole AI tools file
+ * @param obj The parsed file
+ */
+export function validateAIToolsData(obj: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const data = checkObject(obj, '', issues);
+  if (!data) {
+    return issues;
+  }
+
+  if (checkArray(data.tools, 'tools', issues)) {
+    data.tools.forEach((tool, index) => issues.push(...validateAITool(tool, at('tools', index))));
+  }
+  issues.push(...validateToolCategories(data.categories, 'categories'));
+
+  return issues;
+}
+
+/**
+ * List the problems with an introduction section
+ * @param obj The record to check
+ * @param path Where the record sits in its file, e.g. "sections[2]"
+ */
+export function validateIntroductionSection(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const section = checkObject(obj, path, issues);
+  if (!section) {
+    return issues;
+  }
+
+  checkString(section, 'id', path, issues, { nonEmpty: true });
+  checkString(section, 'title', path, issues, { nonEmpty: true });
+  checkString(section, 'content', path, issues, { nonEmpty: true });
+  if (section.subtitle !== undefined) {
+    checkString(section, 'subtitle', path, issues);
+  }
+  if (section.variant !== undefined) {
+    checkOneOf(section.variant, SECTION_VARIANTS, join(path, 'variant'), issues);
+  }
+  if (section.checks !== undefined) {
+    const checksPath = join(path, 'checks');
+    if (checkArray(section.checks, checksPath, issues)) {
+      section.checks.forEach((check, index) =>
+        issues.push(...validateQuizQuestion(check, at(checksPath, index), { termOptional: true }))
+      );
+      const ids = section.checks.map(check => (check as Fields | null)?.id);
+      ids.forEach((id, index) => {
+        if (typeof id === 'string' && ids.indexOf(id) !== index) {
+          issues.push({ path: join(at(checksPath, index), 'id'), message: `repeats ${JSON.stringify(id)}` });
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * List the problems with the links that follow the introduction
+ * @param obj The navigation object
+ * @param path Where the object sits in its file, e.g. "navigation"
+ */
+export function validateIntroductionNavigation(obj: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const navigation = checkObject(obj, path, issues);
+  if (!navigation) {
+    return issues;
+  }
+
+  ['previous', 'next'].forEach(key => {
+    if (navigation[key] === undefined) {
+      return;
+    }
+    const linkPath = join(path, key);
+    const link = checkObject(navigation[key], linkPath, issues);
+    if (link) {
+      checkString(link, 'label', linkPath, issues, { nonEmpty: true });
+      checkOneOf(link.destination, NAVIGATION_DESTINATIONS, join(linkPath, 'destination'), issues);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * List the problems with the whole introduction file
+ * @param obj The parsed file
+ */
+export function validateIntroductionContent(obj: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const data = checkObject(obj, '', issues);
+  if (!data) {
+    return issues;
+  }
+
+  if (checkArray(data.sections, 'sections', issues)) {
+    data.sections.forEach((section, index) =>
+      issues.push(...validateIntroductionSection(section, at('sections', index)))
+    );
+  }
+  issues.push(...validateIntroductionNavigation(data.navigation, 'navigation'));
+
+  return issues;
+}
+
+/**
+ * Path of a property below a path
+ */
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Path of a list item below a path
+ */
+function at(path: string, index: number): string {
+  return `${path}[${index}]`;
+}
+
+/**
+ * Describe a value of the wrong type, or a missing one
+ */
+function describeMissing(value: unknown, expected: string): string {
+  return value === undefined ? 'is required' : `expected ${expected}`;
+}
+
+function checkObject(value: unknown, path: string, issues: ValidationIssue[]): Fields | undefined {
+  if (typeof value !== 'object' || value === null) {
+    issues.push({ path, message: describeMissing(value, 'an object') });
+    return undefined;
+  }
+  return value as Fields;
+}
+
+function checkArray(value: unknown, path: string, issues: ValidationIssue[]): value is unknown[] {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: describeMissing(value, 'a list') });
+    return false;
+  }
+  return true;
+}
+
+function checkString(
+  fields: Fields,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  options: { nonEmpty?: boolean } = {}
+): string | undefined {
+  const value = fields[key];
+  if (typeof value !== 'string') {
+    issues.push({ path: join(path, key), message: describeMissing(value, 'a string') });
+    return undefined;
+  }
+  if (options.nonEmpty && value.trim().length === 0) {
+    issues.push({ path: join(path, key), message: 'must not be empty' });
+    return undefined;
+  }
+  return value;
+}
+
+function checkOneOf(value: unknown, allowed: string[], path: string, issues: ValidationIssue[]): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ path, message: describeMissing(value, `one of ${allowed.join(', ')}`) });
+  }
+}
+
+function checkStringList(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (checkArray(value, path, issues)) {
+    value.forEach((item, index) => {
+      if (typeof item !== 'string') {
+        issues.push({ path: at(path, index), message: 'expected a string' });
+      }
+    });
+  }
+}
+
+function checkNonEmptyStringList(value: unknown, path: string, issues: ValidationIssue[]): value is string[] {
+  if (!checkArray(value, path, issues)) {
+    return false;
+  }
+
+  let valid = true;
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || item.trim().length === 0) {
+      issues.push({ path: at(path, index), message: 'expected non-empty text' });
+      valid = false;
+    }
+  });
+  return valid;
+}
+
+function checkUnique(values: unknown[], path: string, issues: ValidationIssue[]): void {
+  values.forEach((value, index) => {
+    if (values.indexOf(value) !== index) {
+      issues.push({ path: at(path, index), message: `repeats ${JSON.stringify(value)}` });
+    }
+  });
+}
+
+/**
+ * Term id references: non-empty, unique and not pointing at the term itself
+ */
+function checkTermReferences(value: unknown, ownId: string | undefined, path: string, issues: ValidationIssue[]): void {
+  if (!checkNonEmptyStringList(value, path, issues)) {
+    return;
+  }
+
+  value.forEach((id, index) => {
+    if (id === ownId) {
+      issues.push({ path: at(path, index), message: 'refers to the term itself' });
+    }
+  });
+  checkUnique(value, path, issues);
+}
+
+/**
+ * At least two string options
+ */
+function checkOptionList(fields: Fields, key: string, path: string, issues: ValidationIssue[]): string[] | undefined {
+  const listPath = join(path, key);
+  const value = fields[key];
+  if (!checkArray(value, listPath, issues)) {
+    return undefined;
+  }
+
+  let valid = true;
+  if (value.length < 2) {
+    issues.push({ path: listPath, message: 'expected at least two entries' });
+    valid = false;
+  }
+  value.forEach((option, index) => {
+    if (typeof option !== 'string') {
+      issues.push({ path: at(listPath, index), message: 'expected a string' });
+      valid = false;
+    }
+  });
+  return valid ? value as string[] : undefined;
+}
+
+/**
+ * Distractor rationale: every key a wrong option, every value non-empty text
+ */
+function checkRationale(
+  value: unknown,
+  options: string[],
+  correctAnswers: string[],
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: 'expected an object mapping wrong options to explanations' });
+    return;
+  }
+
+  Object.entries(value).forEach(([option, rationale]) => {
+    const optionPath = join(path, option);
+    if (!options.includes(option)) {
+      issues.push({ path: optionPath, message: 'is not one of the options' });
+    } else if (correctAnswers.includes(option)) {
+      issues.push({ path: optionPath, message: 'explains a correct answer; rationale is for wrong options' });
+    }
+    if (typeof rationale !== 'string' || rationale.trim().length === 0) {
+      issues.push({ path: optionPath, message: 'expected non-empty text' });
+    }
+  });
+}